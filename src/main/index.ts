@@ -5,11 +5,17 @@
 import { app, BrowserWindow, ipcMain, dialog, Menu } from 'electron';
 import * as path from 'path';
 import * as fs from 'fs';
-import type { LLMConfig, FileAPI } from '../shared/types';
+import type { LLMConfig, LLMFallbackEvent, FileAPI } from '../shared/types';
 import type { LLMService } from './services/llm';
 import { createFileSystemService, DEFAULT_FS_CONFIG } from './services/file-system';
 import { Guardian } from './services/guardian';
-import { createLLMService, DEFAULT_LLM_CONFIGS } from './services/llm';
+import { CheckpointService } from './services/checkpoint';
+import { AgentRunStore } from './services/agent-runs';
+import { UsageTracker } from './services/usage';
+import { SettingsStore, profileToLLMConfig } from './services/settings';
+import { createLLMService, resolveAPIKeys, DEFAULT_LLM_CONFIGS } from './services/llm';
+import type { LLMTransportOptions } from './services/llm-transport';
+import { LLMResponseCache } from './services/llm-cache';
 import { registerIPCHandlers, unregisterIPCHandlers, updateServices } from './ipc/handlers';
 
 interface AppState {
@@ -18,6 +24,10 @@ interface AppState {
   fileSystem: FileAPI | null;
   guardian: Guardian | null;
   llm: LLMService | null;
+  checkpoints: CheckpointService | null;
+  agentRuns: AgentRunStore | null;
+  usage: UsageTracker | null;
+  settings: SettingsStore | null;
 }
 
 const state: AppState = {
@@ -25,7 +35,11 @@ const state: AppState = {
   workspacePath: null,
   fileSystem: null,
   guardian: null,
-  llm: null
+  llm: null,
+  checkpoints: null,
+  agentRuns: null,
+  usage: null,
+  settings: null
 };
 
 // Check if running in development mode
@@ -89,16 +103,52 @@ async function createMainWindow(): Promise<BrowserWindow> {
 
 async function initializeServices(): Promise<void> {
   const userDataPath = app.getPath('userData');
-  state.guardian = new Guardian('default_user', path.join(userDataPath, 'audit.log'));
+  state.guardian = new Guardian('default_user', path.join(userDataPath, 'audit.log'), {
+    permissionStorePath: path.join(userDataPath, 'permissions.json'),
+    diffStoreDir: path.join(userDataPath, 'audit-diffs')
+  });
+  state.checkpoints = new CheckpointService(path.join(userDataPath, 'checkpoints'));
+  state.agentRuns = new AgentRunStore(path.join(userDataPath, 'agent-runs'));
+  state.usage = new UsageTracker(path.join(userDataPath, 'usage.json'));
+  state.settings = new SettingsStore(path.join(userDataPath, 'settings.json'));
 
-  const llmConfig: LLMConfig = {
+  // Start with the active model profile, if one has been saved
+  let llmConfig: LLMConfig = {
     ...DEFAULT_LLM_CONFIGS.openai
   };
-  state.llm = await createLLMService(llmConfig);
+  const activeProfile = await state.settings.getActiveProfile();
+  if (activeProfile) {
+    llmConfig = profileToLLMConfig(activeProfile);
+    try {
+      llmConfig = await resolveAPIKeys(llmConfig);
+    } catch (error) {
+      console.warn(`Failed to load the API key of model profile "${activeProfile.name}":`, error);
+    }
+  }
+  // A file named by DESKTOP_MATE_LLM_RECORD records this session's LLM
+  // requests (e.g. to attach a bad run to a bug report); one named by
+  // DESKTOP_MATE_LLM_REPLAY is replayed instead of calling the provider
+  const transport: LLMTransportOptions | undefined = process.env.DESKTOP_MATE_LLM_REPLAY
+    ? { mode: 'replay', path: process.env.DESKTOP_MATE_LLM_REPLAY }
+    : process.env.DESKTOP_MATE_LLM_RECORD
+      ? { mode: 'record', path: process.env.DESKTOP_MATE_LLM_RECORD }
+      : undefined;
+  if (transport) {
+    console.log(`LLM ${transport.mode === 'replay' ? 'replaying' : 'recording'}: ${transport.path}`);
+  }
+  state.llm = await createLLMService(llmConfig, {
+    transport,
+    cache: new LLMResponseCache(path.join(userDataPath, 'llm-cache'))
+  });
+  // Provider fallbacks go to the audit log, whichever request triggered them
+  state.llm.on('fallback', (event: LLMFallbackEvent) => {
+    state.guardian?.recordLLMFallback(event, state.workspacePath || undefined)
+      .catch(error => console.error('Failed to audit LLM fallback:', error));
+  });
 
   // Register IPC handlers immediately after services are initialized
   // Create a placeholder fileSystem that will be replaced when workspace is set
-  if (state.guardian && state.llm) {
+  if (state.guardian && state.llm && state.checkpoints && state.agentRuns && state.usage && state.settings) {
     // Create a minimal placeholder fileSystem
     const { EventEmitter } = require('events');
     const placeholderFileSystem: FileAPI = {
@@ -107,6 +157,7 @@ async function initializeServices(): Promise<void> {
       list: async () => { throw new Error('Workspace not set. Please select a workspace first.'); },
       exists: async () => { throw new Error('Workspace not set. Please select a workspace first.'); },
       delete: async () => { throw new Error('Workspace not set. Please select a workspace first.'); },
+      search: async () => { throw new Error('Workspace not set. Please select a workspace first.'); },
       watch: () => {
         const emitter = new EventEmitter();
         emitter.emit('error', new Error('Workspace not set. Please select a workspace first.'));
@@ -117,7 +168,11 @@ async function initializeServices(): Promise<void> {
     registerIPCHandlers({
       fileSystem: placeholderFileSystem,
       guardian: state.guardian,
-      llm: state.llm
+      llm: state.llm,
+      checkpoints: state.checkpoints,
+      agentRuns: state.agentRuns,
+      usage: state.usage,
+      settings: state.settings
     });
   }
 }
@@ -130,11 +185,16 @@ async function setWorkspace(workspacePath: string): Promise<void> {
   });
 
   // Update services with new fileSystem (re-registration no longer needed)
-  if (state.guardian && state.llm && state.fileSystem) {
+  if (state.guardian && state.llm && state.checkpoints && state.agentRuns && state.usage && state.settings && state.fileSystem) {
     updateServices({
       fileSystem: state.fileSystem,
       guardian: state.guardian,
-      llm: state.llm
+      llm: state.llm,
+      checkpoints: state.checkpoints,
+      agentRuns: state.agentRuns,
+      usage: state.usage,
+      settings: state.settings,
+      workspacePath
     });
   }
 
@@ -6,19 +6,36 @@
 import { ipcMain, BrowserWindow } from 'electron';
 import type { FileAPI } from '../../shared/types';
 import type { Guardian } from '../services/guardian';
-import type { LLMService } from '../services/llm';
-import type { PermissionRequest, PermissionResponse } from '../../shared/types';
-import { Agent } from '../services/agent';
+import { APIKeyManager, resolveAPIKeys, redactLLMConfig, type LLMService } from '../services/llm';
+import type { CheckpointService } from '../services/checkpoint';
+import type { AgentRunStore } from '../services/agent-runs';
+import type { UsageTracker } from '../services/usage';
+import { profileToLLMConfig, type SettingsStore } from '../services/settings';
+import { OllamaProvider } from '../services/ollama-provider';
+import { registerLocalModels } from '../services/model-capabilities';
+import type { LLMConfig, ModelProfile, ModelProfileInput, PermissionRequest, PermissionResponse, AuditLogQuery, UsageBudget } from '../../shared/types';
+import { Agent, type AgentOptions } from '../services/agent';
 import { ToolRegistry, createBuiltinTools } from '../services/tools';
+import { ConversationManager } from '../services/conversation';
+import { ToolOutputStore } from '../services/context-budget';
 
 interface AgentState {
   agent: Agent | null;
   tools: ToolRegistry;
+  /** Chat histories; outlive agent re-creation on workspace or model changes */
+  conversations: ConversationManager;
+  /** Tool outputs cut to previews by context budgeting, readable via fetch_tool_output */
+  toolOutputs: ToolOutputStore;
+  /** Step, token and plan callbacks of the renderer's subscription; given to every agent created */
+  listeners: Pick<AgentOptions, 'onStep' | 'onToken' | 'onPlanUpdate'>;
 }
 
 const agentState: AgentState = {
   agent: null,
-  tools: new ToolRegistry()
+  tools: new ToolRegistry(),
+  conversations: new ConversationManager(),
+  toolOutputs: new ToolOutputStore(),
+  listeners: {}
 };
 
 // Track registration state to prevent duplicate registration
@@ -29,16 +46,49 @@ let currentServices: {
   fileSystem: FileAPI;
   guardian: Guardian;
   llm: LLMService;
+  checkpoints: CheckpointService;
+  agentRuns: AgentRunStore;
+  usage: UsageTracker;
+  settings: SettingsStore;
+  workspacePath?: string;
 } | null = null;
 
 // Store listener cleanup functions
 let guardianApprovalRequestListener: ((data: any) => void) | null = null;
+let guardianApprovalCancelledListener: ((data: any) => void) | null = null;
 let guardianAuditListener: ((entry: any) => void) | null = null;
 
+/**
+ * Create the agent on the current tools and services
+ */
+function createAgent(services: {
+  llm: LLMService;
+  guardian: Guardian;
+  checkpoints: CheckpointService;
+  agentRuns: AgentRunStore;
+  usage: UsageTracker;
+}): Agent {
+  return new Agent(services.llm, agentState.tools, {
+    verbose: true,
+    maxIterations: 10,
+    checkpoints: services.checkpoints,
+    guardian: services.guardian,
+    runStore: services.agentRuns,
+    usage: services.usage,
+    conversations: agentState.conversations,
+    toolOutputs: agentState.toolOutputs,
+    ...agentState.listeners
+  });
+}
+
 export function registerIPCHandlers(options: {
   fileSystem: FileAPI;
   guardian: Guardian;
   llm: LLMService;
+  checkpoints: CheckpointService;
+  agentRuns: AgentRunStore;
+  usage: UsageTracker;
+  settings: SettingsStore;
 }): void {
   // Prevent duplicate registration
   if (isRegistered) {
@@ -46,20 +96,18 @@ export function registerIPCHandlers(options: {
     return;
   }
 
-  const { fileSystem, guardian, llm } = options;
+  const { fileSystem, guardian, llm, checkpoints, agentRuns, usage, settings } = options;
 
   // Store service references for cleanup
-  currentServices = { fileSystem, guardian, llm };
+  currentServices = { fileSystem, guardian, llm, checkpoints, agentRuns, usage, settings };
 
-  // Initialize tools with file system
+  // Initialize tools with file system, gated by Guardian
+  agentState.tools = new ToolRegistry({ guardian });
   const builtinTools = createBuiltinTools(fileSystem);
   builtinTools.forEach(tool => agentState.tools.register(tool));
 
   // Initialize agent
-  agentState.agent = new Agent(llm, agentState.tools, {
-    verbose: true,
-    maxIterations: 10
-  });
+  agentState.agent = createAgent({ llm, guardian, checkpoints, agentRuns, usage });
 
   // File System APIs
   ipcMain.handle('fs:read', async (_, filePath: string) => {
@@ -99,46 +147,194 @@ export function registerIPCHandlers(options: {
     return await guardian.getAuditLog(filters);
   });
 
+  ipcMain.handle('guardian:query-audit-log', async (_, query?: AuditLogQuery) => {
+    return await guardian.queryAuditLog(query);
+  });
+
   ipcMain.handle('guardian:export-audit-log', async (_, format: 'json' | 'csv') => {
     return await guardian.exportAuditLog(format);
   });
 
-  ipcMain.handle('guardian:clear-permissions', async () => {
-    return await guardian.clearPermissionMemory();
+  ipcMain.handle('guardian:get-audit-diff', async (_, diffSha256: string) => {
+    return await guardian.getAuditDiff(diffSha256);
+  });
+
+  ipcMain.handle('guardian:verify-audit-log', async () => {
+    return await guardian.verifyAuditLog();
+  });
+
+  ipcMain.handle('guardian:list-permissions', async (_, filters?: { workspace?: string; includeExpired?: boolean }) => {
+    return await guardian.listPermissions(filters);
+  });
+
+  ipcMain.handle('guardian:revoke-permission', async (_, grantId: string) => {
+    return await guardian.revokePermission(grantId);
   });
 
   // LLM APIs
   ipcMain.handle('llm:generate', async (_, messages) => {
-    return await llm.generate(messages);
+    return await llm.generate(messages, {
+      onUsage: (u) => {
+        usage.record({
+          provider: u.provider,
+          model: u.model,
+          promptTokens: u.tokens.prompt,
+          completionTokens: u.tokens.completion
+        }).catch(error => console.warn('Failed to record LLM usage:', error));
+      }
+    });
   });
 
+  // Configs cross IPC without keys: the renderer stores a key once and refers to it by apiKeyRef
   ipcMain.handle('llm:get-config', async () => {
-    return llm.getConfig();
+    return redactLLMConfig(llm.getConfig());
+  });
+
+  ipcMain.handle('llm:store-api-key', async (_, provider: string, key: string) => {
+    return await APIKeyManager.addKey(provider, key);
+  });
+
+  ipcMain.handle('llm:delete-api-key', async (_, keyRef: string) => {
+    return await APIKeyManager.deleteKey(keyRef);
   });
 
-  ipcMain.handle('llm:update-config', async (_, config) => {
-    llm.updateConfig(config);
+  ipcMain.handle('llm:update-config', async (_, config: LLMConfig) => {
+    if (config.apiKey || config.fallbacks?.some(fallback => fallback.apiKey)) {
+      throw new Error('API keys must be stored with llm:store-api-key and referred to by apiKeyRef');
+    }
+    // An update keeps no key it does not name itself, so a new provider or
+    // endpoint is never sent the previous one's key
+    llm.updateConfig({ apiKey: undefined, apiKeyRef: undefined, ...(await resolveAPIKeys(config)) });
     // Reinitialize agent with new LLM config
     if (agentState.agent) {
-      agentState.agent = new Agent(llm, agentState.tools, {
-        verbose: true,
-        maxIterations: 10
+      agentState.agent = createAgent({ llm, guardian, checkpoints, agentRuns, usage });
+    }
+    return redactLLMConfig(llm.getConfig());
+  });
+
+  // Model profiles; applying a profile reconfigures the LLM and rebuilds the agent in place
+  const applyProfile = async (profile: ModelProfile | null) => {
+    if (!profile) {
+      return;
+    }
+    llm.updateConfig({ apiKey: undefined, ...(await resolveAPIKeys(profileToLLMConfig(profile))) });
+    if (agentState.agent) {
+      agentState.agent = createAgent({ llm, guardian, checkpoints, agentRuns, usage });
+    }
+  };
+
+  ipcMain.handle('settings:list-profiles', async () => {
+    return await settings.listProfiles();
+  });
+
+  ipcMain.handle('settings:get-active-profile', async () => {
+    return await settings.getActiveProfile();
+  });
+
+  ipcMain.handle('settings:create-profile', async (_, input: ModelProfileInput) => {
+    const isFirst = (await settings.getActiveProfile()) === null;
+    const profile = await settings.createProfile(input);
+    if (isFirst) {
+      await applyProfile(profile);
+    }
+    return profile;
+  });
+
+  ipcMain.handle('settings:update-profile', async (_, id: string, changes: Partial<ModelProfileInput>) => {
+    const profile = await settings.updateProfile(id, changes);
+    if ((await settings.getActiveProfile())?.id === id) {
+      await applyProfile(profile);
+    }
+    return profile;
+  });
+
+  ipcMain.handle('settings:delete-profile', async (_, id: string) => {
+    const wasActive = (await settings.getActiveProfile())?.id === id;
+    const profile = await settings.deleteProfile(id);
+    if (!profile) {
+      return false;
+    }
+    // The key goes with the last profile using it
+    const profiles = await settings.listProfiles();
+    if (profile.apiKeyRef && !profiles.some(entry => entry.apiKeyRef === profile.apiKeyRef)) {
+      await APIKeyManager.deleteKey(profile.apiKeyRef);
+    }
+    if (wasActive) {
+      await applyProfile(await settings.getActiveProfile()).catch(error => {
+        console.warn('Failed to apply the next model profile:', error);
       });
     }
-    return llm.getConfig();
+    return true;
+  });
+
+  ipcMain.handle('settings:set-active-profile', async (_, id: string) => {
+    const profile = await settings.getProfile(id);
+    if (!profile) {
+      throw new Error(`Model profile not found: ${id}`);
+    }
+    // Apply first so a profile whose key is missing does not become active
+    await applyProfile(profile);
+    return await settings.setActiveProfile(id);
+  });
+
+  ipcMain.handle('settings:export-profiles', async () => {
+    return await settings.exportProfiles();
+  });
+
+  ipcMain.handle('settings:import-profiles', async (_, json: string) => {
+    const isFirst = (await settings.getActiveProfile()) === null;
+    const profiles = await settings.importProfiles(json);
+    if (isFirst) {
+      await applyProfile(await settings.getActiveProfile());
+    }
+    return profiles;
+  });
+
+  // Local Ollama models; the server defaults to the configured one when Ollama is in use
+  const ollamaFor = (baseUrl?: string) => {
+    const config = llm.getConfig();
+    return new OllamaProvider({
+      provider: 'ollama',
+      model: '',
+      baseUrl: baseUrl || (config.provider === 'ollama' ? config.baseUrl : undefined)
+    });
+  };
+
+  ipcMain.handle('ollama:list-models', async (_, baseUrl?: string) => {
+    const models = await ollamaFor(baseUrl).listModels();
+    registerLocalModels(models);
+    return models;
+  });
+
+  ipcMain.handle('ollama:pull-model', async (_, model: string, baseUrl?: string) => {
+    await ollamaFor(baseUrl).pullModel(model, (progress) => {
+      const mainWindow = BrowserWindow.getAllWindows()[0];
+      if (mainWindow) {
+        mainWindow.webContents.send('ollama:pull-progress', progress);
+      }
+    });
+    return true;
+  });
+
+  ipcMain.handle('llm:get-cache-stats', async () => {
+    return await llm.getCacheStats();
+  });
+
+  ipcMain.handle('llm:clear-cache', async () => {
+    await llm.clearCache();
+    return true;
   });
 
   ipcMain.handle('llm:is-configured', async () => {
     try {
-      const config = llm.getConfig();
-      return !!config.apiKey;
+      return llm.isConfigured();
     } catch {
       return false;
     }
   });
 
   // Agent APIs
-  ipcMain.handle('agent:execute', async (_, query: string, context?: { workspacePath?: string; attachments?: any[] }) => {
+  ipcMain.handle('agent:execute', async (_, query: string, context?: { workspacePath?: string; attachments?: any[]; mode?: 'direct' | 'plan'; conversationId?: string }) => {
     if (!agentState.agent) {
       return {
         success: false,
@@ -159,22 +355,104 @@ export function registerIPCHandlers(options: {
     }
   });
 
+  ipcMain.handle('agent:cancel', async (_, runId?: string) => {
+    return agentState.agent ? await agentState.agent.cancel(runId) : false;
+  });
+
+  ipcMain.handle('agent:pause', async (_, runId?: string) => {
+    return agentState.agent ? agentState.agent.pause(runId) : false;
+  });
+
+  ipcMain.handle('agent:resume', async (_, runId: string) => {
+    if (!agentState.agent) {
+      return {
+        success: false,
+        error: 'Agent not initialized'
+      };
+    }
+
+    try {
+      return await agentState.agent.resume(runId);
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+        steps: [],
+        answer: ''
+      };
+    }
+  });
+
+  ipcMain.handle('agent:list-runs', async () => {
+    return agentState.agent ? await agentState.agent.listRuns() : [];
+  });
+
   ipcMain.handle('agent:get-tools', async () => {
     return agentState.tools.getOpenAIFunctions();
   });
 
-  // Agent step streaming
-  ipcMain.on('agent:subscribe-steps', (event) => {
-    if (agentState.agent) {
-      agentState.agent.updateOptions({
-        onStep: (step) => {
-          const mainWindow = BrowserWindow.getAllWindows()[0];
-          if (mainWindow) {
-            mainWindow.webContents.send('agent:step', step);
-          }
-        }
-      });
-    }
+  // Starting a new conversation drops the old one's history
+  ipcMain.handle('conversation:clear', async (_, conversationId: string) => {
+    return agentState.conversations.clear(conversationId);
+  });
+
+  // Checkpoint APIs
+  ipcMain.handle('checkpoint:list', async (_, filters?: { workspace?: string; limit?: number }) => {
+    return await checkpoints.list(filters);
+  });
+
+  ipcMain.handle('checkpoint:get-diff', async (_, checkpointId: string, filePath?: string) => {
+    return await checkpoints.getDiff(checkpointId, filePath);
+  });
+
+  ipcMain.handle('checkpoint:restore', async (_, checkpointId: string, options?: { force?: boolean }) => {
+    return await checkpoints.restore(checkpointId, {
+      fileSystem: currentServices?.fileSystem ?? fileSystem,
+      workspace: currentServices?.workspacePath,
+      force: options?.force
+    });
+  });
+
+  ipcMain.handle('checkpoint:restore-file', async (_, checkpointId: string, filePath: string, options?: { force?: boolean }) => {
+    return await checkpoints.restore(checkpointId, {
+      fileSystem: currentServices?.fileSystem ?? fileSystem,
+      workspace: currentServices?.workspacePath,
+      filePath,
+      force: options?.force
+    });
+  });
+
+  // Usage APIs
+  ipcMain.handle('usage:get-totals', async (_, period?: 'day' | 'month', limit?: number) => {
+    return await usage.getTotals(period, limit);
+  });
+
+  ipcMain.handle('usage:get-conversation', async (_, conversationId: string) => {
+    return await usage.getConversationUsage(conversationId);
+  });
+
+  ipcMain.handle('usage:get-budget', async () => {
+    return await usage.getBudget();
+  });
+
+  ipcMain.handle('usage:set-budget', async (_, budget: UsageBudget) => {
+    return await usage.setBudget(budget);
+  });
+
+  // Agent step streaming; the callbacks are kept so agents rebuilt later stream too
+  ipcMain.on('agent:subscribe-steps', () => {
+    const send = (channel: string, data: unknown) => {
+      const mainWindow = BrowserWindow.getAllWindows()[0];
+      if (mainWindow) {
+        mainWindow.webContents.send(channel, data);
+      }
+    };
+    agentState.listeners = {
+      onStep: (step) => send('agent:step', step),
+      onToken: (delta) => send('agent:token', delta),
+      onPlanUpdate: (plan) => send('agent:plan', plan)
+    };
+    agentState.agent?.updateOptions(agentState.listeners);
   });
 
   // Window control APIs
@@ -212,6 +490,14 @@ export function registerIPCHandlers(options: {
   };
   guardian.on('approval-request', guardianApprovalRequestListener);
 
+  guardianApprovalCancelledListener = (data) => {
+    const mainWindow = BrowserWindow.getAllWindows()[0];
+    if (mainWindow) {
+      mainWindow.webContents.send('guardian:approval-cancelled', data);
+    }
+  };
+  guardian.on('approval-cancelled', guardianApprovalCancelledListener);
+
   guardianAuditListener = (entry) => {
     const mainWindow = BrowserWindow.getAllWindows()[0];
     if (mainWindow) {
@@ -231,10 +517,17 @@ export function unregisterIPCHandlers(): void {
   // Remove all handle() channels
   const handleChannels = [
     'fs:read', 'fs:write', 'fs:list', 'fs:exists', 'fs:delete', 'fs:tree-summary',
-    'guardian:request-permission', 'guardian:approval-response', 'guardian:get-audit-log',
-    'guardian:export-audit-log', 'guardian:clear-permissions',
-    'llm:generate', 'llm:get-config', 'llm:update-config', 'llm:is-configured',
-    'agent:execute', 'agent:get-tools'
+    'guardian:request-permission', 'guardian:approval-response', 'guardian:get-audit-log', 'guardian:query-audit-log',
+    'guardian:export-audit-log', 'guardian:get-audit-diff', 'guardian:verify-audit-log', 'guardian:list-permissions', 'guardian:revoke-permission',
+    'llm:generate', 'llm:get-config', 'llm:store-api-key', 'llm:delete-api-key', 'llm:update-config', 'llm:is-configured',
+    'llm:get-cache-stats', 'llm:clear-cache',
+    'agent:execute', 'agent:cancel', 'agent:pause', 'agent:resume', 'agent:list-runs', 'agent:get-tools',
+    'conversation:clear',
+    'checkpoint:list', 'checkpoint:get-diff', 'checkpoint:restore', 'checkpoint:restore-file',
+    'usage:get-totals', 'usage:get-conversation', 'usage:get-budget', 'usage:set-budget',
+    'settings:list-profiles', 'settings:get-active-profile', 'settings:create-profile', 'settings:update-profile',
+    'settings:delete-profile', 'settings:set-active-profile', 'settings:export-profiles', 'settings:import-profiles',
+    'ollama:list-models', 'ollama:pull-model'
   ];
 
   for (const channel of handleChannels) {
@@ -263,6 +556,11 @@ export function unregisterIPCHandlers(): void {
       guardianApprovalRequestListener = null;
     }
 
+    if (guardianApprovalCancelledListener) {
+      guardian.removeListener('approval-cancelled', guardianApprovalCancelledListener);
+      guardianApprovalCancelledListener = null;
+    }
+
     if (guardianAuditListener) {
       guardian.removeListener('audit', guardianAuditListener);
       guardianAuditListener = null;
@@ -284,19 +582,24 @@ export function updateServices(options: {
   fileSystem: FileAPI;
   guardian: Guardian;
   llm: LLMService;
+  checkpoints: CheckpointService;
+  agentRuns: AgentRunStore;
+  usage: UsageTracker;
+  settings: SettingsStore;
+  workspacePath?: string;
 }): void {
-  const { fileSystem, guardian, llm } = options;
+  const { fileSystem, guardian, llm, checkpoints, agentRuns, usage } = options;
+
+  // Keep handler references (checkpoint restore) on the current workspace
+  currentServices = { ...options };
 
   // Clear existing tools and re-register with new file system
-  agentState.tools = new ToolRegistry();
+  agentState.tools = new ToolRegistry({ guardian });
   const builtinTools = createBuiltinTools(fileSystem);
   builtinTools.forEach(tool => agentState.tools.register(tool));
 
   // Reinitialize agent with new tools
-  agentState.agent = new Agent(llm, agentState.tools, {
-    verbose: true,
-    maxIterations: 10
-  });
+  agentState.agent = createAgent({ llm, guardian, checkpoints, agentRuns, usage });
 }
 
 /**
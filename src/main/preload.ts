@@ -10,14 +10,28 @@ const electronFileSystem = {
 
 const electronGuardian = {
   requestPermission: (request: any) => ipcRenderer.invoke('guardian:request-permission', request),
-  sendApprovalResponse: (requestId: string, response: any) => ipcRenderer.invoke('guardian:approval-response', requestId, response)
+  sendApprovalResponse: (requestId: string, response: any) => ipcRenderer.invoke('guardian:approval-response', requestId, response),
+  queryAuditLog: (query?: any) => ipcRenderer.invoke('guardian:query-audit-log', query),
+  getAuditDiff: (diffSha256: string) => ipcRenderer.invoke('guardian:get-audit-diff', diffSha256),
+  verifyAuditLog: () => ipcRenderer.invoke('guardian:verify-audit-log'),
+  listPermissions: (filters?: { workspace?: string; includeExpired?: boolean }) => ipcRenderer.invoke('guardian:list-permissions', filters),
+  revokePermission: (grantId: string) => ipcRenderer.invoke('guardian:revoke-permission', grantId)
 };
 
 const electronLLM = {
   generate: (messages: any[]) => ipcRenderer.invoke('llm:generate', messages),
   getConfig: () => ipcRenderer.invoke('llm:get-config'),
+  storeApiKey: (provider: string, key: string) => ipcRenderer.invoke('llm:store-api-key', provider, key),
+  deleteApiKey: (keyRef: string) => ipcRenderer.invoke('llm:delete-api-key', keyRef),
   updateConfig: (config: any) => ipcRenderer.invoke('llm:update-config', config),
-  isConfigured: () => ipcRenderer.invoke('llm:is-configured')
+  isConfigured: () => ipcRenderer.invoke('llm:is-configured'),
+  getCacheStats: () => ipcRenderer.invoke('llm:get-cache-stats'),
+  clearCache: () => ipcRenderer.invoke('llm:clear-cache')
+};
+
+const electronOllama = {
+  listModels: (baseUrl?: string) => ipcRenderer.invoke('ollama:list-models', baseUrl),
+  pullModel: (model: string, baseUrl?: string) => ipcRenderer.invoke('ollama:pull-model', model, baseUrl)
 };
 
 const electronWorkspace = {
@@ -31,12 +45,43 @@ const electronChat = {
 };
 
 const electronAgent = {
-  execute: (query: string, context?: { workspacePath?: string; attachments?: any[] }) =>
+  execute: (query: string, context?: { workspacePath?: string; attachments?: any[]; mode?: 'direct' | 'plan'; conversationId?: string }) =>
     ipcRenderer.invoke('agent:execute', query, context),
+  cancel: (runId?: string) => ipcRenderer.invoke('agent:cancel', runId),
+  pause: (runId?: string) => ipcRenderer.invoke('agent:pause', runId),
+  resume: (runId: string) => ipcRenderer.invoke('agent:resume', runId),
+  listRuns: () => ipcRenderer.invoke('agent:list-runs'),
   getTools: () => ipcRenderer.invoke('agent:get-tools'),
+  clearConversation: (conversationId: string) => ipcRenderer.invoke('conversation:clear', conversationId),
   subscribeSteps: () => ipcRenderer.send('agent:subscribe-steps')
 };
 
+const electronCheckpoint = {
+  list: (filters?: { workspace?: string; limit?: number }) => ipcRenderer.invoke('checkpoint:list', filters),
+  getDiff: (checkpointId: string, filePath?: string) => ipcRenderer.invoke('checkpoint:get-diff', checkpointId, filePath),
+  restore: (checkpointId: string, options?: { force?: boolean }) => ipcRenderer.invoke('checkpoint:restore', checkpointId, options),
+  restoreFile: (checkpointId: string, filePath: string, options?: { force?: boolean }) =>
+    ipcRenderer.invoke('checkpoint:restore-file', checkpointId, filePath, options)
+};
+
+const electronUsage = {
+  getTotals: (period?: 'day' | 'month', limit?: number) => ipcRenderer.invoke('usage:get-totals', period, limit),
+  getConversation: (conversationId: string) => ipcRenderer.invoke('usage:get-conversation', conversationId),
+  getBudget: () => ipcRenderer.invoke('usage:get-budget'),
+  setBudget: (budget: { perRun?: number; daily?: number; monthly?: number }) => ipcRenderer.invoke('usage:set-budget', budget)
+};
+
+const electronSettings = {
+  listProfiles: () => ipcRenderer.invoke('settings:list-profiles'),
+  getActiveProfile: () => ipcRenderer.invoke('settings:get-active-profile'),
+  createProfile: (input: any) => ipcRenderer.invoke('settings:create-profile', input),
+  updateProfile: (id: string, changes: any) => ipcRenderer.invoke('settings:update-profile', id, changes),
+  deleteProfile: (id: string) => ipcRenderer.invoke('settings:delete-profile', id),
+  setActiveProfile: (id: string) => ipcRenderer.invoke('settings:set-active-profile', id),
+  exportProfiles: () => ipcRenderer.invoke('settings:export-profiles'),
+  importProfiles: (json: string) => ipcRenderer.invoke('settings:import-profiles', json)
+};
+
 const electronDialog = {
   selectFile: () => ipcRenderer.invoke('dialog:select-file')
 };
@@ -53,9 +98,13 @@ const electronEvents = {
     // 只允许监听特定的安全频道
     const validChannels = [
       'guardian:approval-request',
+      'guardian:approval-cancelled',
       'guardian:audit',
       'workspace:changed',
-      'agent:step'
+      'agent:step',
+      'agent:token',
+      'agent:plan',
+      'ollama:pull-progress'
     ];
     if (validChannels.includes(channel)) {
       ipcRenderer.on(channel, (_event, ...args) => callback(...args));
@@ -64,9 +113,13 @@ const electronEvents = {
   removeListener: (channel: string, callback: (...args: any[]) => void) => {
     const validChannels = [
       'guardian:approval-request',
+      'guardian:approval-cancelled',
       'guardian:audit',
       'workspace:changed',
-      'agent:step'
+      'agent:step',
+      'agent:token',
+      'agent:plan',
+      'ollama:pull-progress'
     ];
     if (validChannels.includes(channel)) {
       ipcRenderer.removeListener(channel, callback as any);
@@ -78,9 +131,13 @@ contextBridge.exposeInMainWorld('electronAPI', {
   fileSystem: electronFileSystem,
   guardian: electronGuardian,
   llm: electronLLM,
+  ollama: electronOllama,
   workspace: electronWorkspace,
   chat: electronChat,
   agent: electronAgent,
+  checkpoint: electronCheckpoint,
+  usage: electronUsage,
+  settings: electronSettings,
   events: electronEvents,
   dialog: electronDialog,
   window: electronWindow
@@ -93,9 +150,13 @@ export type ElectronAPI = {
   fileSystem: typeof electronFileSystem;
   guardian: typeof electronGuardian;
   llm: typeof electronLLM;
+  ollama: typeof electronOllama;
   workspace: typeof electronWorkspace;
   chat: typeof electronChat;
   agent: typeof electronAgent;
+  checkpoint: typeof electronCheckpoint;
+  usage: typeof electronUsage;
+  settings: typeof electronSettings;
   events: typeof electronEvents;
   dialog: typeof electronDialog;
   window: typeof electronWindow;
@@ -0,0 +1,179 @@
+/**
+ * Agent Run Store
+ * Persists paused agent runs so they can be resumed, including after an app restart
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import type { AgentRunSummary, ExecutionPlan, LLMMessage, TokenUsage } from '../../shared/types';
+import type { AgentStep } from './agent';
+
+/**
+ * Everything needed to continue a run where it stopped
+ */
+export interface AgentRunState extends AgentRunSummary {
+  /** Conversation the run belongs to */
+  conversationId?: string;
+  /** Messages so far: the system prompt, earlier conversation turns, then this run's turn */
+  messages: LLMMessage[];
+  /** Index in `messages` of this run's user message */
+  turnStart: number;
+  /** Steps recorded so far */
+  steps: AgentStep[];
+  /** Tool-loop iteration to continue from (direct mode) */
+  iteration: number;
+  /** Checkpoint recording the run's file changes */
+  checkpointId?: string;
+  /** Plan with per-task status (plan mode) */
+  plan?: ExecutionPlan;
+  /** Tokens and cost of the run's LLM requests so far */
+  usage?: TokenUsage;
+}
+
+/**
+ * Controls for a run in progress
+ */
+export interface AgentRunControl {
+  controller: AbortController;
+  /** Why the run was stopped (cancel wins over pause) */
+  stopReason?: 'cancel' | 'pause';
+}
+
+/**
+ * Run ids are UUIDs; anything else never reaches the file system
+ */
+const RUN_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+/**
+ * Agent Run Store
+ */
+export class AgentRunStore {
+  private rootDir: string;
+  private runs: Map<string, AgentRunState> = new Map();
+  /** Runs in progress; kept here so any agent sharing the store can stop them */
+  private active: Map<string, AgentRunControl> = new Map();
+
+  /**
+   * @param rootDir - Directory holding one JSON file per run (in-memory only if omitted)
+   */
+  constructor(rootDir?: string) {
+    this.rootDir = rootDir || '';
+  }
+
+  private pathFor(id: string): string {
+    return path.join(this.rootDir, `${id}.json`);
+  }
+
+  /**
+   * Save a run (atomically on disk)
+   */
+  async save(run: AgentRunState): Promise<void> {
+    this.runs.set(run.id, run);
+    if (!this.rootDir) {
+      return;
+    }
+
+    const filePath = this.pathFor(run.id);
+    const tmpPath = `${filePath}.tmp`;
+    await fs.mkdir(this.rootDir, { recursive: true });
+    await fs.writeFile(tmpPath, JSON.stringify(run), 'utf-8');
+    await fs.rename(tmpPath, filePath);
+  }
+
+  /**
+   * Load a run by id
+   */
+  async get(runId: string): Promise<AgentRunState | null> {
+    const cached = this.runs.get(runId);
+    if (cached) {
+      return cached;
+    }
+    if (!this.rootDir || !RUN_ID_PATTERN.test(runId)) {
+      return null;
+    }
+
+    try {
+      const run = JSON.parse(await fs.readFile(this.pathFor(runId), 'utf-8')) as AgentRunState;
+      this.runs.set(run.id, run);
+      return run;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.warn(`Failed to load agent run ${runId}:`, error);
+      }
+      return null;
+    }
+  }
+
+  /**
+   * List saved runs, most recently updated first
+   */
+  async list(): Promise<AgentRunSummary[]> {
+    const ids = new Set(this.runs.keys());
+    if (this.rootDir) {
+      const names = await fs.readdir(this.rootDir).catch(() => [] as string[]);
+      for (const name of names) {
+        const id = name.replace(/\.json$/, '');
+        if (name.endsWith('.json') && RUN_ID_PATTERN.test(id)) {
+          ids.add(id);
+        }
+      }
+    }
+
+    const summaries: AgentRunSummary[] = [];
+    for (const id of ids) {
+      const run = await this.get(id);
+      if (run) {
+        summaries.push({
+          id: run.id,
+          query: run.query,
+          status: run.status,
+          workspacePath: run.workspacePath,
+          mode: run.mode,
+          createdAt: run.createdAt,
+          updatedAt: run.updatedAt
+        });
+      }
+    }
+
+    return summaries.sort((a, b) => b.updatedAt - a.updatedAt);
+  }
+
+  /**
+   * Remove a saved run
+   */
+  async delete(runId: string): Promise<void> {
+    this.runs.delete(runId);
+    if (!this.rootDir || !RUN_ID_PATTERN.test(runId)) {
+      return;
+    }
+    await fs.rm(this.pathFor(runId), { force: true });
+  }
+
+  /**
+   * Register a run as in progress
+   * @returns The controls that stop it
+   */
+  start(runId: string): AgentRunControl {
+    const control: AgentRunControl = { controller: new AbortController() };
+    this.active.set(runId, control);
+    return control;
+  }
+
+  /**
+   * Unregister a run that is no longer in progress
+   */
+  finish(runId: string): void {
+    this.active.delete(runId);
+  }
+
+  /**
+   * Controls of a run in progress, or of every run in progress if no id is given
+   */
+  getActive(runId?: string): AgentRunControl[] {
+    if (!runId) {
+      return Array.from(this.active.values());
+    }
+    const control = this.active.get(runId);
+    return control ? [control] : [];
+  }
+}
@@ -3,20 +3,45 @@
  * Orchestrates LLM interactions with tool calling for autonomous task execution
  */
 
-import type { LLMService } from './llm';
-import type { LLMMessage, AttachedFile, AgentExecutionContext, ContentBlock } from '../../shared/types';
-import { ToolRegistry, type ToolResult } from './tools';
+import { v4 as uuidv4 } from 'uuid';
+import type { LLMService, LLMStreamChunk, LLMRequestOptions, LLMUsage } from './llm';
+import { PermissionLevel, TaskStatus } from '../../shared/types';
+import type { LLMMessage, LLMResponse, LLMToolCall, LLMFallbackEvent, TokenUsage, AttachedFile, AgentExecutionContext, AgentRunSummary, ContentBlock, ExecutionPlan } from '../../shared/types';
+import { ToolRegistry, parseToolArguments, type ToolResult, type ToolExecutionContext } from './tools';
 import { FileProcessor, createFileProcessor } from './file-processor';
 import { RAGService, type RAGServiceOptions, type RAGRetrievalOptions } from './rag';
+import type { CheckpointService } from './checkpoint';
+import type { Guardian } from './guardian';
+import { parseExecutionPlan, runExecutionPlan, PLANNING_INSTRUCTIONS } from './planner';
+import { AgentRunStore, type AgentRunState } from './agent-runs';
+import type { ConversationManager } from './conversation';
+import { resolveContextLength, resolveModelCapabilities } from './model-capabilities';
+import { toPromptToolMessages, parsePromptToolCalls } from './prompt-tools';
+import { UsageTracker, emptyUsage, addUsage } from './usage';
+import {
+  ContextBudgeter,
+  ToolOutputStore,
+  createFetchToolOutputTool,
+  SUMMARY_INSTRUCTIONS,
+  type ContextBudgetOptions,
+  type ContextCompaction,
+  type ContextThread
+} from './context-budget';
 
 /**
  * Agent execution step
  */
 export interface AgentStep {
   /** Step type */
-  type: 'thought' | 'tool_call' | 'observation' | 'final_answer';
+  type: 'thought' | 'tool_call' | 'observation' | 'final_answer' | 'plan' | 'compaction' | 'fallback';
   /** Step content */
   content: string;
+  /** Execution plan (plan steps only) */
+  plan?: ExecutionPlan;
+  /** What was compacted to fit the context window (compaction steps only) */
+  compaction?: ContextCompaction;
+  /** Switch to a fallback LLM provider (fallback steps only) */
+  fallback?: LLMFallbackEvent;
   /** Tool calls (if any) */
   toolCalls?: Array<{
     id: string;
@@ -38,16 +63,36 @@ export interface AgentStep {
 export interface AgentOptions {
   /** Maximum iterations before giving up */
   maxIterations?: number;
+  /** Read-only tool calls of one response run at the same time, at most this many (default: 4) */
+  maxParallelTools?: number;
   /** Enable verbose logging */
   verbose?: boolean;
   /** Callback for step updates */
   onStep?: (step: AgentStep) => void;
+  /** Callback for assistant text as it streams; LLM calls stream only when set */
+  onToken?: (delta: string) => void;
+  /** Callback for plan and task status updates (plan mode) */
+  onPlanUpdate?: (plan: ExecutionPlan) => void;
   /** RAG service configuration (optional) */
   rag?: RAGServiceOptions;
   /** Whether to auto-index attachments in RAG (default: true if RAG enabled) */
   ragAutoIndex?: boolean;
   /** RAG retrieval options (maxResults, minSimilarity, etc.) */
   ragRetrieval?: RAGRetrievalOptions;
+  /** Checkpoint service; each run opens a checkpoint recording its file changes */
+  checkpoints?: CheckpointService;
+  /** Guardian that approves plan tasks marked requires_approval */
+  guardian?: Guardian;
+  /** Where paused runs are saved (in-memory if omitted) */
+  runStore?: AgentRunStore;
+  /** Conversation history; runs with a conversationId see and extend earlier turns */
+  conversations?: ConversationManager;
+  /** Context window budgeting (limits default to the model's) */
+  contextBudget?: ContextBudgetOptions;
+  /** Full text of tool outputs cut to previews; shared so fetch_tool_output works across agents */
+  toolOutputs?: ToolOutputStore;
+  /** Usage totals, prices and spending limits (in-memory with no limits if omitted) */
+  usage?: UsageTracker;
 }
 
 /**
@@ -62,35 +107,74 @@ export interface AgentResponse {
   success: boolean;
   /** Error if failed */
   error?: string;
+  /** Checkpoint holding this run's file changes (only if files were changed) */
+  checkpointId?: string;
+  /** Executed plan (plan mode only) */
+  plan?: ExecutionPlan;
+  /** Run identifier (pass to `resume` for paused runs) */
+  runId?: string;
+  /** Final run status: SUCCESS, FAILED, CANCELLED or PAUSED */
+  status?: TaskStatus;
+  /** Tokens and cost of the run's LLM requests */
+  usage?: TokenUsage;
 }
 
+/**
+ * Error reported by a loop that stopped because its run was cancelled or paused
+ */
+const RUN_STOPPED_ERROR = 'Agent run stopped';
+
+/**
+ * Completion size assumed by budget checks when the config sets no maxTokens
+ * (the providers' own default)
+ */
+const DEFAULT_COMPLETION_ESTIMATE = 4096;
+
 /**
  * Agent class - coordinates LLM and tools
  */
 export class Agent {
   private llm: LLMService;
   private tools: ToolRegistry;
-  private options: Required<Omit<AgentOptions, 'rag' | 'ragAutoIndex' | 'ragRetrieval'>> & {
+  private options: Required<Omit<AgentOptions, 'rag' | 'ragAutoIndex' | 'ragRetrieval' | 'checkpoints' | 'guardian' | 'conversations' | 'contextBudget' | 'toolOutputs' | 'onToken'>> & {
+    onToken?: (delta: string) => void;
     rag?: RAGServiceOptions;
     ragAutoIndex: boolean;
     ragRetrieval?: RAGRetrievalOptions;
+    checkpoints?: CheckpointService;
+    guardian?: Guardian;
+    conversations?: ConversationManager;
   };
   private fileProcessor: FileProcessor;
   private ragService?: RAGService;
+  private budgeter: ContextBudgeter;
 
   constructor(llm: LLMService, tools: ToolRegistry, options: AgentOptions = {}) {
     this.llm = llm;
     this.tools = tools;
     this.options = {
       maxIterations: options.maxIterations ?? 10,
+      maxParallelTools: options.maxParallelTools ?? 4,
       verbose: options.verbose ?? false,
       onStep: options.onStep ?? (() => {}),
+      onToken: options.onToken,
+      onPlanUpdate: options.onPlanUpdate ?? (() => {}),
       rag: options.rag,
       ragAutoIndex: options.ragAutoIndex ?? true,
-      ragRetrieval: options.ragRetrieval
+      ragRetrieval: options.ragRetrieval,
+      checkpoints: options.checkpoints,
+      guardian: options.guardian,
+      runStore: options.runStore ?? new AgentRunStore(),
+      conversations: options.conversations,
+      usage: options.usage ?? new UsageTracker()
     };
     this.fileProcessor = createFileProcessor();
 
+    // Outputs cut to previews by the budgeter are read back through fetch_tool_output
+    const toolOutputs = options.toolOutputs ?? new ToolOutputStore();
+    this.budgeter = new ContextBudgeter(options.contextBudget, toolOutputs);
+    this.tools.register(createFetchToolOutputTool(toolOutputs));
+
     // Initialize RAG service if configured
     if (this.options.rag) {
       this.ragService = new RAGService(this.options.rag);
@@ -101,9 +185,200 @@ export class Agent {
    * Execute the agent with a user query
    */
   async execute(userQuery: string, context?: AgentExecutionContext): Promise<AgentResponse> {
-    const steps: AgentStep[] = [];
-    const maxIterations = this.options.maxIterations;
+    const { systemPrompt, userContent } = await this.prepareRun(userQuery, context);
+
+    // Earlier turns of the conversation go between the system prompt and the new request
+    const conversationId = this.options.conversations ? context?.conversationId : undefined;
+    const history = conversationId ? this.options.conversations!.getHistory(conversationId) : [];
+
+    const now = Date.now();
+    return this.drive({
+      id: uuidv4(),
+      query: userQuery,
+      status: TaskStatus.RUNNING,
+      workspacePath: context?.workspacePath,
+      mode: context?.mode ?? 'direct',
+      createdAt: now,
+      updatedAt: now,
+      conversationId,
+      messages: [
+        { role: 'system', content: systemPrompt },
+        ...history,
+        { role: 'user', content: userContent }
+      ],
+      turnStart: history.length + 1,
+      steps: [],
+      iteration: 0
+    });
+  }
+
+  /**
+   * Resume a paused run from where it stopped
+   */
+  async resume(runId: string): Promise<AgentResponse> {
+    if (this.options.runStore.getActive(runId).length > 0) {
+      throw new Error(`Agent run is already running: ${runId}`);
+    }
+
+    const run = await this.options.runStore.get(runId);
+    if (!run || run.status !== TaskStatus.PAUSED) {
+      throw new Error(`Paused agent run not found: ${runId}`);
+    }
+    return this.drive(run);
+  }
+
+  /**
+   * Cancel a run, or every active run if no id is given.
+   * Cancelling a paused run discards it.
+   * @returns Whether anything was cancelled
+   */
+  async cancel(runId?: string): Promise<boolean> {
+    if (this.stop('cancel', runId)) {
+      return true;
+    }
+    if (runId && await this.options.runStore.get(runId)) {
+      await this.options.runStore.delete(runId);
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * Pause a run, or every active run if no id is given.
+   * The run is saved with status PAUSED and can be continued with `resume`.
+   * @returns Whether a running run was found
+   */
+  pause(runId?: string): boolean {
+    return this.stop('pause', runId);
+  }
+
+  /**
+   * List saved (paused) runs
+   */
+  async listRuns(): Promise<AgentRunSummary[]> {
+    return this.options.runStore.list();
+  }
 
+  /**
+   * Abort active runs, remembering why. Runs are found through the run store,
+   * so runs started by an agent that has since been replaced can be stopped too.
+   */
+  private stop(reason: 'cancel' | 'pause', runId?: string): boolean {
+    const controls = this.options.runStore.getActive(runId);
+
+    for (const control of controls) {
+      if (control.stopReason !== 'cancel') {
+        control.stopReason = reason;
+      }
+      control.controller.abort();
+    }
+    return controls.length > 0;
+  }
+
+  /**
+   * Run (or continue) a run until it finishes or is stopped
+   */
+  private async drive(run: AgentRunState): Promise<AgentResponse> {
+    const control = this.options.runStore.start(run.id);
+    run.status = TaskStatus.RUNNING;
+
+    // Record file changes in a checkpoint so the run can be rolled back
+    const checkpoints = this.options.checkpoints;
+    let checkpoint = checkpoints && run.checkpointId ? await checkpoints.reopen(run.checkpointId) : null;
+    if (checkpoints && !checkpoint) {
+      checkpoint = checkpoints.open(run.query.slice(0, 200), run.workspacePath);
+      run.checkpointId = checkpoint.id;
+    }
+    const checkpointId = checkpoint?.id;
+
+    const toolContext: ToolExecutionContext = {
+      workspace: run.workspacePath,
+      signal: control.controller.signal,
+      onFileChange: checkpoints && checkpointId
+        ? (change) => checkpoints.recordChange(checkpointId, change)
+        : undefined
+    };
+
+    let result: Omit<AgentResponse, 'steps'>;
+    try {
+      result = run.mode === 'plan'
+        ? await this.executePlan(run, toolContext)
+        : await this.runLoop(run, run, toolContext, {
+          startIteration: run.iteration,
+          onIteration: (iteration) => { run.iteration = iteration; }
+        });
+    } finally {
+      this.options.runStore.finish(run.id);
+      if (checkpoints && checkpointId) {
+        await checkpoints.close(checkpointId);
+      }
+    }
+
+    // A run that finished before the stop took effect keeps its result
+    const stopReason = result.error === RUN_STOPPED_ERROR ? control.stopReason : undefined;
+    run.updatedAt = Date.now();
+
+    if (stopReason === 'pause') {
+      run.status = TaskStatus.PAUSED;
+      result = { ...result, answer: '', error: 'Agent run paused' };
+      try {
+        await this.options.runStore.save(run);
+      } catch (error) {
+        console.warn(`Failed to save paused agent run ${run.id}:`, error);
+      }
+    } else {
+      if (stopReason === 'cancel') {
+        run.status = TaskStatus.CANCELLED;
+        result = { ...result, answer: '', error: 'Agent run cancelled' };
+        if (run.plan) {
+          run.plan.tasks
+            .filter(task => task.status === TaskStatus.PENDING || task.status === TaskStatus.PAUSED)
+            .forEach(task => Object.assign(task, { status: TaskStatus.CANCELLED, error: 'Run cancelled' }));
+          this.options.onPlanUpdate(run.plan);
+        }
+      } else {
+        run.status = result.success ? TaskStatus.SUCCESS : TaskStatus.FAILED;
+      }
+      await this.options.runStore.delete(run.id).catch((error) => {
+        console.warn(`Failed to remove agent run ${run.id}:`, error);
+      });
+
+      if (run.conversationId && this.options.conversations) {
+        this.options.conversations.set(run.conversationId, this.conversationMessages(run, result.answer));
+      }
+    }
+
+    return {
+      ...result,
+      steps: run.steps,
+      runId: run.id,
+      usage: run.usage,
+      status: run.status,
+      checkpointId: checkpoint && Object.keys(checkpoint.fileChanges).length > 0 ? checkpoint.id : undefined
+    };
+  }
+
+  /**
+   * Conversation history after a finished run (earlier turns may have been
+   * compacted). Direct runs keep the whole tool exchange; plan runs keep the
+   * request and the combined answer.
+   */
+  private conversationMessages(run: AgentRunState, answer: string): LLMMessage[] {
+    if (run.mode === 'direct') {
+      return run.messages.slice(1);
+    }
+
+    const messages = run.messages.slice(1, run.turnStart + 1);
+    if (answer) {
+      messages.push({ role: 'assistant', content: answer });
+    }
+    return messages;
+  }
+
+  /**
+   * Process attachments and RAG context, and build the system prompt and user message
+   */
+  private async prepareRun(userQuery: string, context?: AgentExecutionContext): Promise<{ systemPrompt: string; userContent: LLMMessage['content'] }> {
     // Process attachments if present
     let attachmentSummary = '';
     let contentBlocks: ContentBlock[] = [{ type: 'text', text: userQuery }];
@@ -111,8 +386,9 @@ export class Agent {
 
     if (context?.attachments && context.attachments.length > 0) {
       const processedAttachments = await this.fileProcessor.processAttachments(context.attachments, context?.workspacePath);
-      attachmentSummary = this.fileProcessor.generateAttachmentSummary(processedAttachments, context?.workspacePath);
-      const attachmentBlocks = await this.fileProcessor.attachmentsToContentBlocks(processedAttachments);
+      const { vision } = resolveModelCapabilities(this.llm.getConfig());
+      attachmentSummary = this.fileProcessor.generateAttachmentSummary(processedAttachments, context?.workspacePath, { vision });
+      const attachmentBlocks = await this.fileProcessor.attachmentsToContentBlocks(processedAttachments, { vision });
       contentBlocks = [...contentBlocks, ...attachmentBlocks];
 
       // Index attachments in RAG if enabled
@@ -154,15 +430,35 @@ export class Agent {
     // Build system prompt
     const systemPrompt = this.buildSystemPrompt(context?.workspacePath, context?.additionalContext, attachmentSummary, ragContext);
 
-    // Initialize messages with multimodal content support
-    let messages: LLMMessage[] = [
-      { role: 'system', content: systemPrompt },
-      { role: 'user', content: contentBlocks.length === 1 && contentBlocks[0].type === 'text' ? contentBlocks[0].text : contentBlocks as any }
-    ];
+    return {
+      systemPrompt,
+      userContent: contentBlocks.length === 1 && contentBlocks[0].type === 'text' ? contentBlocks[0].text : contentBlocks
+    };
+  }
+
+  /**
+   * Run the tool-calling loop until the LLM gives a final answer
+   */
+  private async runLoop(
+    thread: ContextThread,
+    run: AgentRunState,
+    toolContext: ToolExecutionContext,
+    loopOptions: { startIteration?: number; onIteration?: (iteration: number) => void } = {}
+  ): Promise<Omit<AgentResponse, 'steps'>> {
+    const maxIterations = this.options.maxIterations;
+    const messages = thread.messages;
+    const steps = run.steps;
+    const requestOptions = this.requestOptions(run, toolContext.signal);
 
     // Main agent loop
-    for (let iteration = 0; iteration < maxIterations; iteration++) {
+    for (let iteration = loopOptions.startIteration ?? 0; iteration < maxIterations; iteration++) {
       this.log(`Iteration ${iteration + 1}/${maxIterations}`);
+      loopOptions.onIteration?.(iteration);
+
+      // Stop between iterations, with the messages complete up to here
+      if (toolContext.signal?.aborted) {
+        return { answer: '', success: false, error: RUN_STOPPED_ERROR };
+      }
 
       // Get available tools in OpenAI format
       const openAITools = this.tools.getOpenAIFunctions();
@@ -171,7 +467,13 @@ export class Agent {
       let response: AgentStep;
 
       try {
-        const llmResponse = await this.llm.generateWithTools(messages, openAITools);
+        await this.fitContext(thread, run, JSON.stringify(openAITools), toolContext.signal);
+        await this.checkBudget(run, messages, JSON.stringify(openAITools));
+        const llmResponse = !resolveModelCapabilities(this.llm.getConfig()).tools
+          ? await this.generateWithPromptTools(messages, openAITools, requestOptions)
+          : this.options.onToken
+            ? await this.streamWithTools(messages, openAITools, requestOptions)
+            : await this.llm.generateWithTools(messages, openAITools, requestOptions);
 
         if (llmResponse.toolCalls && llmResponse.toolCalls.length > 0) {
           // LLM wants to call tools
@@ -192,35 +494,23 @@ export class Agent {
           this.options.onStep(response);
 
           // Execute tool calls
-          const toolResults: Array<{ id: string; result: ToolResult }> = [];
-
-          for (const toolCall of llmResponse.toolCalls) {
-            const toolName = toolCall.function.name;
-            const toolArgs = JSON.parse(toolCall.function.arguments);
-
-            this.log(`Executing tool: ${toolName} with args:`, toolArgs);
-
-            const result = await this.tools.execute(toolName, toolArgs);
-            toolResults.push({ id: toolCall.id, result });
-
-            this.log(`Tool result:`, result);
-          }
-
-          // Add tool results to messages
-          const toolResultsMessage: LLMMessage = {
-            role: 'user',
-            content: JSON.stringify(toolResults.map(r => ({
-              tool_call_id: r.id,
-              output: JSON.stringify(r.result)
-            })))
-          };
+          const toolResults = await this.executeToolCalls(llmResponse.toolCalls, {
+            ...toolContext,
+            llmModel: llmResponse.model,
+            tokensUsed: llmResponse.tokens.total
+          });
 
+          // Add the tool calls and one tool message per result to messages
           messages.push({
             role: 'assistant',
             content: response.content,
             tool_calls: llmResponse.toolCalls
-          } as any);
-          messages.push(toolResultsMessage);
+          });
+          messages.push(...toolResults.map((r): LLMMessage => ({
+            role: 'tool',
+            tool_call_id: r.id,
+            content: JSON.stringify(r.result)
+          })));
 
           // Add observation step
           const observationStep: AgentStep = {
@@ -247,14 +537,18 @@ export class Agent {
 
           steps.push(response);
           this.options.onStep(response);
+          messages.push({ role: 'assistant', content: llmResponse.content });
 
           return {
             answer: llmResponse.content,
-            steps,
             success: true
           };
         }
       } catch (error) {
+        if (toolContext.signal?.aborted) {
+          return { answer: '', success: false, error: RUN_STOPPED_ERROR };
+        }
+
         this.log('Agent error:', error);
 
         const errorStep: AgentStep = {
@@ -267,7 +561,6 @@ export class Agent {
 
         return {
           answer: '',
-          steps,
           success: false,
           error: error instanceof Error ? error.message : String(error)
         };
@@ -277,12 +570,317 @@ export class Agent {
     // Max iterations reached
     return {
       answer: 'Agent exceeded maximum iterations. Please try a more specific query.',
-      steps,
       success: false,
       error: 'Max iterations exceeded'
     };
   }
 
+  /**
+   * Run the tool calls of one response. Consecutive read-only calls run at the
+   * same time (up to maxParallelTools); calls that change state run alone, in
+   * the order the model gave. Results keep the order of the calls.
+   */
+  private async executeToolCalls(toolCalls: LLMToolCall[], context: ToolExecutionContext): Promise<Array<{ id: string; result: ToolResult }>> {
+    const results: ToolResult[] = new Array(toolCalls.length);
+    const readOnly = (call: LLMToolCall) => this.tools.get(call.function.name)?.permissionLevel === PermissionLevel.READ_ONLY;
+
+    let index = 0;
+    while (index < toolCalls.length) {
+      if (!readOnly(toolCalls[index])) {
+        results[index] = await this.executeToolCall(toolCalls[index], context);
+        index++;
+        continue;
+      }
+
+      // Run of read-only calls: workers take the next call until none are left
+      const end = toolCalls.findIndex((call, i) => i > index && !readOnly(call));
+      const batchEnd = end === -1 ? toolCalls.length : end;
+      let next = index;
+      const worker = async () => {
+        while (next < batchEnd) {
+          const i = next++;
+          results[i] = await this.executeToolCall(toolCalls[i], context);
+        }
+      };
+      const workers = Math.min(Math.max(1, this.options.maxParallelTools), batchEnd - index);
+      await Promise.all(Array.from({ length: workers }, worker));
+      index = batchEnd;
+    }
+
+    return toolCalls.map((call, i) => ({ id: call.id, result: results[i] }));
+  }
+
+  /**
+   * Run a single tool call. Unusable arguments go back to the model as the
+   * call's result so it can retry.
+   */
+  private async executeToolCall(toolCall: LLMToolCall, context: ToolExecutionContext): Promise<ToolResult> {
+    const toolName = toolCall.function.name;
+
+    let toolArgs: Record<string, unknown>;
+    try {
+      toolArgs = parseToolArguments(toolCall.function.arguments);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.log(`Bad arguments for ${toolName}:`, toolCall.function.arguments);
+      return {
+        success: false,
+        errorCode: 'INVALID_ARGUMENTS',
+        error: `${message}. Call ${toolName} again with a single JSON object as arguments.`
+      };
+    }
+
+    this.log(`Executing tool: ${toolName} with args:`, toolArgs);
+    const result = await this.tools.execute(toolName, toolArgs, context);
+    this.log(`Tool result:`, result);
+    return result;
+  }
+
+  /**
+   * Plan-then-execute: ask the LLM for an ExecutionPlan, then run each task
+   * through the tool loop in dependency order. A resumed run keeps its plan
+   * and only runs the tasks that have not finished.
+   */
+  private async executePlan(run: AgentRunState, toolContext: ToolExecutionContext): Promise<Omit<AgentResponse, 'steps'>> {
+    const steps = run.steps;
+    const systemPrompt = String(run.messages[0].content);
+    const userContent = run.messages[run.turnStart].content;
+
+    if (!run.plan) {
+      try {
+        // The planner sees earlier turns so follow-up requests can be resolved into concrete tasks
+        await this.fitContext(run, run, PLANNING_INSTRUCTIONS, toolContext.signal);
+        const planMessages: LLMMessage[] = [
+          { role: 'system', content: systemPrompt + PLANNING_INSTRUCTIONS },
+          ...run.messages.slice(1, run.turnStart),
+          { role: 'user', content: userContent }
+        ];
+        await this.checkBudget(run, planMessages);
+        const planResponse = await this.llm.generate(planMessages, this.requestOptions(run, toolContext.signal));
+        run.plan = parseExecutionPlan(planResponse.content);
+      } catch (error) {
+        if (toolContext.signal?.aborted) {
+          return { answer: '', success: false, error: RUN_STOPPED_ERROR };
+        }
+
+        this.log('Planning failed:', error);
+        const message = error instanceof Error ? error.message : String(error);
+        steps.push({ type: 'thought', content: `Error: ${message}`, timestamp: Date.now() });
+        return { answer: '', success: false, error: message };
+      }
+
+      const planStep: AgentStep = {
+        type: 'plan',
+        content: run.plan.goal,
+        plan: run.plan,
+        timestamp: Date.now()
+      };
+      steps.push(planStep);
+      this.options.onStep(planStep);
+    }
+
+    const plan = run.plan;
+    this.options.onPlanUpdate(plan);
+
+    const request = typeof userContent === 'string'
+      ? userContent
+      : userContent.filter(block => block.type === 'text').map(block => (block as { text: string }).text).join('\n');
+
+    await runExecutionPlan(plan, {
+      runTask: async (task, reportProgress) => {
+        const dependencyResults = task.depends_on
+          .map(id => plan.tasks.find(other => other.id === id)!)
+          .map(dependency => `- ${dependency.id} (${dependency.description}): ${String(dependency.output ?? '')}`)
+          .join('\n');
+
+        const taskPrompt = `Overall request: ${request}\n` +
+          `Plan goal: ${plan.goal}\n\n` +
+          `Your current task (${task.id}, ${task.type}): ${task.description}\n` +
+          (dependencyResults ? `\nResults of completed tasks it depends on:\n${dependencyResults}\n` : '') +
+          `\nComplete only this task, then reply with a short summary of the result.`;
+
+        const result = await this.runLoop({
+          messages: [
+            { role: 'system', content: systemPrompt },
+            { role: 'user', content: taskPrompt }
+          ],
+          turnStart: 1
+        }, run, toolContext, {
+          onIteration: (iteration) => reportProgress((iteration / this.options.maxIterations) * 100)
+        });
+
+        if (!result.success) {
+          throw new Error(result.error || 'Task failed');
+        }
+        return result.answer;
+      },
+      approve: this.options.guardian
+        ? (task) => this.options.guardian!.requestPermission({
+          level: PermissionLevel.EXECUTE,
+          action: 'plan_task',
+          target: `${task.id}: ${task.description}`,
+          workspace: toolContext.workspace
+        }, undefined, toolContext.signal)
+        : undefined,
+      onUpdate: (updatedPlan) => this.options.onPlanUpdate(updatedPlan),
+      signal: toolContext.signal
+    });
+
+    // Stopped with tasks left to run
+    if (toolContext.signal?.aborted && plan.tasks.some(task => task.status === TaskStatus.PENDING)) {
+      return { answer: '', success: false, error: RUN_STOPPED_ERROR, plan };
+    }
+
+    // Tasks nothing else depends on carry the final results
+    const leaves = plan.tasks.filter(task => !plan.tasks.some(other => other.depends_on.includes(task.id)));
+    const answer = leaves
+      .filter(task => task.status === TaskStatus.SUCCESS)
+      .map(task => String(task.output ?? ''))
+      .join('\n\n');
+    const incomplete = plan.tasks.filter(task => task.status !== TaskStatus.SUCCESS);
+
+    const finalStep: AgentStep = { type: 'final_answer', content: answer, timestamp: Date.now() };
+    steps.push(finalStep);
+    this.options.onStep(finalStep);
+
+    return {
+      answer,
+      success: incomplete.length === 0,
+      plan,
+      ...(incomplete.length > 0 && {
+        error: `${incomplete.length} of ${plan.tasks.length} task(s) did not complete: ` +
+          incomplete.map(task => `${task.id} (${task.status}${task.error ? `: ${task.error}` : ''})`).join(', ')
+      })
+    };
+  }
+
+  /**
+   * Call the LLM with streaming, passing assistant text on as it arrives.
+   * Tool calls are only returned once their arguments are complete.
+   */
+  private async streamWithTools(
+    messages: LLMMessage[],
+    tools: Parameters<LLMService['generateWithTools']>[1],
+    requestOptions: LLMRequestOptions
+  ): Promise<LLMResponse> {
+    const stream = this.llm.streamWithTools(messages, tools, requestOptions);
+    for (;;) {
+      const next = await stream.next();
+      if (next.done) {
+        return next.value;
+      }
+      const chunk = next.value as LLMStreamChunk;
+      if (chunk.type === 'text') {
+        this.options.onToken?.(chunk.delta);
+      }
+    }
+  }
+
+  /**
+   * Call a model without native tool support: tools are described in the
+   * prompt and tool_call blocks in the reply are turned into tool calls
+   */
+  private async generateWithPromptTools(
+    messages: LLMMessage[],
+    tools: Parameters<LLMService['generateWithTools']>[1],
+    requestOptions: LLMRequestOptions
+  ): Promise<LLMResponse> {
+    const response = await this.llm.generate(toPromptToolMessages(messages, tools), requestOptions);
+    const { content, toolCalls } = parsePromptToolCalls(response.content);
+    return { ...response, content, toolCalls: toolCalls.length > 0 ? toolCalls : undefined };
+  }
+
+  /**
+   * Options for the LLM requests of a run: its abort signal, and a fallback
+   * step whenever a request moves on to a fallback provider
+   */
+  private requestOptions(run: AgentRunState, signal?: AbortSignal): LLMRequestOptions {
+    const steps = run.steps;
+    return {
+      signal,
+      workspace: run.workspacePath,
+      onUsage: (usage) => this.recordUsage(run, usage),
+      onFallback: (event) => {
+        const step: AgentStep = {
+          type: 'fallback',
+          content: `Switched from ${event.from.provider}/${event.from.model} to ` +
+            `${event.to.provider}/${event.to.model}: ${event.reason}`,
+          fallback: event,
+          timestamp: event.timestamp
+        };
+        steps.push(step);
+        this.options.onStep(step);
+      }
+    };
+  }
+
+  /**
+   * Add a served request to the run's usage and to the usage totals
+   */
+  private recordUsage(run: AgentRunState, usage: LLMUsage): void {
+    const record = {
+      provider: usage.provider,
+      model: usage.model,
+      promptTokens: usage.tokens.prompt,
+      completionTokens: usage.tokens.completion
+    };
+    addUsage(run.usage ??= emptyUsage(), this.options.usage.usageOf(record));
+    this.options.usage.record({ ...record, conversationId: run.conversationId }).catch((error) => {
+      console.warn('Failed to record LLM usage:', error);
+    });
+  }
+
+  /**
+   * Stop the run before a request that would go over a spending limit
+   * (the request's cost is estimated from its prompt and the longest reply
+   * it may get, maxTokens, within what the context length leaves)
+   * @throws Error naming the limit that would be exceeded
+   */
+  private async checkBudget(run: AgentRunState, messages: LLMMessage[], extraText?: string): Promise<void> {
+    const config = this.llm.getConfig();
+    const { provider, model, maxTokens } = config;
+    const promptTokens = this.budgeter.count(messages, model, extraText);
+    const completionTokens = Math.max(0, Math.min(maxTokens || DEFAULT_COMPLETION_ESTIMATE, resolveContextLength(config) - promptTokens));
+    const nextCost = this.options.usage.costOf({ provider, model, promptTokens, completionTokens });
+    const exceeded = await this.options.usage.checkBudget(run.usage?.cost ?? 0, nextCost);
+    if (exceeded) {
+      throw new Error(exceeded);
+    }
+  }
+
+  /**
+   * Compact the thread if the next request would not fit the context length
+   * the model is used with, recording a compaction step
+   */
+  private async fitContext(thread: ContextThread, run: AgentRunState, extraText: string, signal?: AbortSignal): Promise<void> {
+    const config = this.llm.getConfig();
+    const compaction = await this.budgeter.fit(thread, {
+      model: config.model,
+      reserveTokens: config.maxTokens,
+      contextWindow: resolveContextLength(config),
+      extraText,
+      summarize: async (transcript) => (await this.llm.generate([
+        { role: 'system', content: SUMMARY_INSTRUCTIONS },
+        { role: 'user', content: transcript }
+      ], this.requestOptions(run, signal))).content
+    });
+    if (!compaction) {
+      return;
+    }
+
+    this.log('Context compacted:', compaction);
+    const step: AgentStep = {
+      type: 'compaction',
+      content: `Compacted context from ${compaction.tokensBefore} to ${compaction.tokensAfter} tokens ` +
+        `(budget ${compaction.budget}): summarized ${compaction.summarizedMessages} message(s), ` +
+        `truncated ${compaction.truncatedOutputs.length} tool output(s)`,
+      compaction,
+      timestamp: Date.now()
+    };
+    run.steps.push(step);
+    this.options.onStep(step);
+  }
+
   /**
    * Build the system prompt for the agent
    */
@@ -336,6 +934,7 @@ ${toolDescriptions}
 - Always explain what you're doing before using tools
 - Use the minimum number of tools needed
 - If a tool fails, try to understand why and try a different approach
+- If the user denies permission for a tool call, do not repeat it; adjust your plan or ask the user
 - Be precise with file paths
 - After completing the requested task, provide a clear summary
 - If you cannot complete the task, explain why and suggest alternatives
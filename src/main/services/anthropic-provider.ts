@@ -0,0 +1,240 @@
+/**
+ * Anthropic Provider
+ * Messages API adapter: converts our OpenAI-style messages and tools to
+ * Anthropic content blocks, and tool_use blocks back to tool calls
+ */
+
+import Anthropic from '@anthropic-ai/sdk';
+import type { LLMConfig, LLMMessage, LLMResponse, LLMToolCall, ContentBlock } from '../../shared/types';
+import type { LLMProviderAdapter, LLMProviderRequest, LLMStreamChunk, LLMToolDefinitions } from './llm-provider';
+import { parseLenientJson } from '../utils/json-repair';
+
+const DEFAULT_BASE_URL = 'https://api.anthropic.com';
+
+type ImageMediaType = Anthropic.Base64ImageSource['media_type'];
+
+/**
+ * Convert one of our content blocks
+ */
+function toAnthropicBlock(block: ContentBlock): Anthropic.ContentBlockParam {
+  switch (block.type) {
+    case 'text':
+      return { type: 'text', text: block.text };
+    case 'image_url': {
+      const dataUrl = block.image_url.url.match(/^data:(image\/[\w+.-]+);base64,(.*)$/s);
+      return dataUrl
+        ? { type: 'image', source: { type: 'base64', media_type: dataUrl[1] as ImageMediaType, data: dataUrl[2] } }
+        : { type: 'image', source: { type: 'url', url: block.image_url.url } };
+    }
+    default:
+      // Attachments too large to embed are described, as in the system prompt summary
+      return { type: 'text', text: `[Attached file: ${block.file.name} (${block.file.size} bytes), content not included]` };
+  }
+}
+
+/**
+ * Convert messages to Anthropic's format. System messages go to the top-level
+ * system prompt, tool results become tool_result blocks in a user turn, turns
+ * with no content are dropped and consecutive turns of the same role are
+ * merged (roles must alternate).
+ */
+export function toAnthropicMessages(messages: LLMMessage[]): { system?: string; messages: Anthropic.MessageParam[] } {
+  const system: string[] = [];
+  const converted: Anthropic.MessageParam[] = [];
+
+  for (const msg of messages) {
+    if (msg.role === 'system') {
+      system.push(typeof msg.content === 'string' ? msg.content : msg.content.map(block => block.type === 'text' ? block.text : '').join('\n'));
+      continue;
+    }
+
+    let role: Anthropic.MessageParam['role'];
+    let blocks: Anthropic.ContentBlockParam[];
+    if (msg.role === 'tool') {
+      role = 'user';
+      blocks = [{
+        type: 'tool_result',
+        tool_use_id: msg.tool_call_id || '',
+        content: typeof msg.content === 'string' ? msg.content : msg.content.map(toAnthropicBlock) as Anthropic.ToolResultBlockParam['content']
+      }];
+    } else {
+      role = msg.role;
+      blocks = typeof msg.content === 'string'
+        ? (msg.content ? [{ type: 'text', text: msg.content }] : [])
+        : msg.content.map(toAnthropicBlock).filter(block => block.type !== 'text' || block.text);
+      for (const call of msg.tool_calls ?? []) {
+        let input: unknown;
+        try {
+          input = call.function.arguments.trim() ? parseLenientJson(call.function.arguments) : {};
+        } catch {
+          input = {};
+        }
+        blocks.push({ type: 'tool_use', id: call.id, name: call.function.name, input: input ?? {} });
+      }
+    }
+
+    // Empty content is rejected, e.g. an assistant turn that said nothing and called no tools
+    if (blocks.length === 0) {
+      continue;
+    }
+
+    const previous = converted[converted.length - 1];
+    if (previous && previous.role === role) {
+      (previous.content as Anthropic.ContentBlockParam[]).push(...blocks);
+    } else {
+      converted.push({ role, content: blocks });
+    }
+  }
+
+  return { system: system.length > 0 ? system.join('\n\n') : undefined, messages: converted };
+}
+
+/**
+ * Convert our tool definitions to Anthropic tools
+ */
+export function toAnthropicTools(tools: LLMToolDefinitions): Anthropic.Tool[] {
+  return tools.map(tool => ({
+    name: tool.function.name,
+    description: tool.function.description,
+    input_schema: tool.function.parameters as Anthropic.Tool['input_schema']
+  }));
+}
+
+/**
+ * Map an Anthropic stop reason to ours (tool use counts as a normal stop)
+ */
+function toFinishReason(reason: string | null | undefined): LLMResponse['finishReason'] {
+  if (reason === 'max_tokens' || reason === 'model_context_window_exceeded') {
+    return 'length';
+  }
+  return reason === 'refusal' ? 'content_filter' : 'stop';
+}
+
+/**
+ * Anthropic provider
+ */
+export class AnthropicProvider implements LLMProviderAdapter {
+  private config: LLMConfig;
+  private client: Anthropic;
+
+  constructor(config: LLMConfig) {
+    this.config = config;
+    this.client = new Anthropic({
+      apiKey: config.apiKey || 'dummy-key',
+      baseURL: config.baseUrl || DEFAULT_BASE_URL,
+      // LLMService retries and falls back itself
+      maxRetries: 0
+    });
+  }
+
+  /**
+   * Request body shared by plain and streaming calls
+   */
+  private body(messages: LLMMessage[], request: LLMProviderRequest): Anthropic.MessageCreateParamsNonStreaming {
+    const { system, messages: converted } = toAnthropicMessages(messages);
+    return {
+      model: this.config.model,
+      messages: converted,
+      ...(system && { system }),
+      ...(request.tools && request.tools.length > 0 && { tools: toAnthropicTools(request.tools) }),
+      temperature: this.config.temperature ?? 0.7,
+      max_tokens: this.config.maxTokens || 4096
+    };
+  }
+
+  async complete(messages: LLMMessage[], request: LLMProviderRequest): Promise<LLMResponse> {
+    const message = await this.client.messages.create(this.body(messages, request), { signal: request.signal });
+
+    let content = '';
+    const toolCalls: LLMToolCall[] = [];
+    for (const block of message.content) {
+      if (block.type === 'text') {
+        content += block.text;
+      } else if (block.type === 'tool_use') {
+        toolCalls.push({ id: block.id, type: 'function', function: { name: block.name, arguments: JSON.stringify(block.input) } });
+      }
+    }
+
+    return {
+      content,
+      tokens: {
+        prompt: message.usage.input_tokens,
+        completion: message.usage.output_tokens,
+        total: message.usage.input_tokens + message.usage.output_tokens
+      },
+      model: message.model,
+      finishReason: toFinishReason(message.stop_reason),
+      toolCalls: toolCalls.length > 0 ? toolCalls : undefined
+    };
+  }
+
+  async *stream(messages: LLMMessage[], request: LLMProviderRequest): AsyncGenerator<LLMStreamChunk, LLMResponse> {
+    const stream = await this.client.messages.create({ ...this.body(messages, request), stream: true }, { signal: request.signal });
+
+    let content = '';
+    let model = this.config.model;
+    let finishReason: LLMResponse['finishReason'] = 'stop';
+    let promptTokens = 0;
+    let completionTokens = 0;
+    const toolCalls: LLMToolCall[] = [];
+    // Content block index -> tool call index
+    const toolIndexes = new Map<number, number>();
+
+    for await (const event of stream) {
+      switch (event.type) {
+        case 'message_start':
+          model = event.message.model || model;
+          promptTokens = event.message.usage.input_tokens;
+          completionTokens = event.message.usage.output_tokens;
+          break;
+
+        case 'content_block_start':
+          if (event.content_block.type === 'tool_use') {
+            const index = toolCalls.length;
+            toolIndexes.set(event.index, index);
+            toolCalls.push({ id: event.content_block.id, type: 'function', function: { name: event.content_block.name, arguments: '' } });
+            yield { type: 'tool_call', index, id: event.content_block.id, name: event.content_block.name, argumentsDelta: '' };
+          } else if (event.content_block.type === 'text' && event.content_block.text) {
+            content += event.content_block.text;
+            yield { type: 'text', delta: event.content_block.text };
+          }
+          break;
+
+        case 'content_block_delta':
+          if (event.delta.type === 'text_delta') {
+            content += event.delta.text;
+            yield { type: 'text', delta: event.delta.text };
+          } else if (event.delta.type === 'input_json_delta') {
+            const index = toolIndexes.get(event.index);
+            if (index !== undefined) {
+              toolCalls[index].function.arguments += event.delta.partial_json;
+              yield { type: 'tool_call', index, argumentsDelta: event.delta.partial_json };
+            }
+          }
+          break;
+
+        case 'message_delta':
+          finishReason = toFinishReason(event.delta.stop_reason);
+          completionTokens = event.usage.output_tokens;
+          break;
+      }
+    }
+
+    // A tool called without arguments streams no input at all
+    for (const call of toolCalls) {
+      call.function.arguments ||= '{}';
+    }
+
+    return {
+      content,
+      tokens: {
+        prompt: promptTokens,
+        completion: completionTokens,
+        total: promptTokens + completionTokens
+      },
+      model,
+      finishReason,
+      toolCalls: toolCalls.length > 0 ? toolCalls : undefined
+    };
+  }
+}
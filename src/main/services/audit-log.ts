@@ -0,0 +1,541 @@
+/**
+ * Audit Log Store
+ * Hash-chained JSONL audit log with size/date rotation into gzip segments
+ * and streaming queries across all segments
+ */
+
+import * as fs from 'fs/promises';
+import * as fsSync from 'fs';
+import * as path from 'path';
+import * as readline from 'readline';
+import * as zlib from 'zlib';
+import { createHash } from 'crypto';
+import { pipeline } from 'stream/promises';
+import type { AuditLogEntry, AuditLogPage, AuditLogQuery, AuditVerificationResult } from '../../shared/types';
+import { matchGlob } from '../utils/glob';
+
+/**
+ * prev_hash of the first chained audit entry
+ */
+export const AUDIT_GENESIS_HASH = '0'.repeat(64);
+
+/**
+ * Compute the chain hash of an audit entry (SHA256 over its canonical JSON without `hash`)
+ */
+export function hashAuditEntry(entry: AuditLogEntry): string {
+  const { hash: _hash, ...fields } = entry;
+  const canonical = JSON.stringify(fields, Object.keys(fields).sort());
+  return createHash('sha256').update(canonical).digest('hex');
+}
+
+/**
+ * Audit log rotation options
+ */
+export interface AuditLogRotationOptions {
+  /** Rotate before the active file would exceed this many bytes (0 disables) */
+  maxFileBytes?: number;
+  /** Rotate when the first entry of a new UTC day is written */
+  daily?: boolean;
+}
+
+/**
+ * Default rotation: 5 MB segments, one per day at most
+ */
+export const DEFAULT_AUDIT_ROTATION: Required<AuditLogRotationOptions> = {
+  maxFileBytes: 5 * 1024 * 1024,
+  daily: true
+};
+
+/**
+ * Default page size for queries
+ */
+const DEFAULT_QUERY_LIMIT = 100;
+
+/**
+ * Bytes read from the end of the active file to find the last chain hash
+ */
+const TAIL_READ_BYTES = 64 * 1024;
+
+/**
+ * A rotated, gzip-compressed segment of the log
+ */
+interface AuditLogSegment {
+  /** Segment file path */
+  path: string;
+  /** When the segment was rotated out (epoch ms); all its entries are older */
+  rotatedAt: number;
+}
+
+/**
+ * Compact, lexicographically sortable timestamp used in segment names
+ */
+function segmentStamp(date: Date): string {
+  return date.toISOString().replace(/[-:.]/g, '');
+}
+
+/**
+ * Parse a segment stamp back to epoch ms
+ */
+function parseSegmentStamp(stamp: string): number {
+  const iso = `${stamp.slice(0, 4)}-${stamp.slice(4, 6)}-${stamp.slice(6, 8)}T` +
+    `${stamp.slice(9, 11)}:${stamp.slice(11, 13)}:${stamp.slice(13, 15)}.${stamp.slice(15, 18)}Z`;
+  return Date.parse(iso);
+}
+
+/**
+ * Parse a query time bound (ISO 8601 or epoch ms)
+ */
+function parseTimeBound(value: string | number | undefined): number | undefined {
+  if (value === undefined || value === '') {
+    return undefined;
+  }
+  const time = typeof value === 'number' ? value : Date.parse(value);
+  return Number.isNaN(time) ? undefined : time;
+}
+
+/**
+ * Stream the non-empty lines of a (possibly gzipped) file
+ */
+async function* readLines(filePath: string, gzipped: boolean): AsyncGenerator<string> {
+  const exists = await fs.access(filePath).then(() => true).catch(() => false);
+  if (!exists) {
+    return;
+  }
+
+  const input = fsSync.createReadStream(filePath);
+  const source = gzipped ? input.pipe(zlib.createGunzip()) : input;
+  const lines = readline.createInterface({ input: source, crlfDelay: Infinity });
+
+  let streamError: Error | null = null;
+  const onError = (error: Error) => {
+    streamError = error;
+    lines.close();
+  };
+  input.on('error', onError);
+  source.on('error', onError);
+
+  try {
+    for await (const line of lines) {
+      if (line.trim()) {
+        yield line;
+      }
+    }
+  } finally {
+    lines.close();
+    input.destroy();
+  }
+
+  if (streamError) {
+    throw streamError;
+  }
+}
+
+/**
+ * Audit Log Store
+ */
+export class AuditLogStore {
+  private filePath: string;
+  private rotation: Required<AuditLogRotationOptions>;
+  private memoryEntries: AuditLogEntry[] = [];
+  private lastHash: string = AUDIT_GENESIS_HASH;
+  private activeBytes: number = 0;
+  private activeDay: string | null = null;
+  private ready: Promise<void> | null = null;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  /**
+   * @param filePath - Active JSONL file; segments are written next to it (in-memory only if omitted)
+   * @param rotation - Rotation options
+   */
+  constructor(filePath?: string, rotation: AuditLogRotationOptions = {}) {
+    this.filePath = filePath || '';
+    this.rotation = { ...DEFAULT_AUDIT_ROTATION, ...rotation };
+  }
+
+  /**
+   * Load the chain head and active file state once
+   */
+  private init(): Promise<void> {
+    if (!this.ready) {
+      this.ready = this.load();
+    }
+    return this.ready;
+  }
+
+  private async load(): Promise<void> {
+    if (!this.filePath) {
+      return;
+    }
+
+    try {
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      await this.recoverRotation();
+
+      const stat = await fs.stat(this.filePath).catch(() => null);
+      this.activeBytes = stat?.size ?? 0;
+
+      const { first, lastHash } = await this.readActiveBounds();
+      this.activeDay = first ? first.timestamp.slice(0, 10) : null;
+
+      // Continue the hash chain from the newest chained entry
+      this.lastHash = lastHash ?? await this.readSegmentsLastHash() ?? AUDIT_GENESIS_HASH;
+    } catch (error) {
+      console.warn('Failed to load audit log:', error);
+    }
+  }
+
+  /**
+   * Read the first entry and the last chain hash of the active file
+   * without reading the whole file
+   */
+  private async readActiveBounds(): Promise<{ first?: AuditLogEntry; lastHash?: string }> {
+    if (this.activeBytes === 0) {
+      return {};
+    }
+
+    const handle = await fs.open(this.filePath, 'r');
+    try {
+      const headLength = Math.min(this.activeBytes, TAIL_READ_BYTES);
+      const head = Buffer.alloc(headLength);
+      await handle.read(head, 0, headLength, 0);
+      let first: AuditLogEntry | undefined;
+      try {
+        first = JSON.parse(head.toString('utf-8').split('\n')[0]) as AuditLogEntry;
+      } catch {
+        // Unparseable first line: fall back to no date-based rotation for this file
+      }
+
+      const tailStart = Math.max(0, this.activeBytes - TAIL_READ_BYTES);
+      const tail = Buffer.alloc(this.activeBytes - tailStart);
+      await handle.read(tail, 0, tail.length, tailStart);
+      const lines = tail.toString('utf-8').split('\n');
+      if (tailStart > 0) {
+        lines.shift(); // partial line
+      }
+
+      for (let i = lines.length - 1; i >= 0; i--) {
+        try {
+          const entry = JSON.parse(lines[i]) as AuditLogEntry;
+          if (entry.hash) {
+            return { first, lastHash: entry.hash };
+          }
+        } catch {
+          // Skip blank or damaged lines
+        }
+      }
+      return { first };
+    } finally {
+      await handle.close();
+    }
+  }
+
+  /**
+   * Last chain hash stored in the rotated segments (newest first)
+   */
+  private async readSegmentsLastHash(): Promise<string | undefined> {
+    const segments = await this.listSegments();
+    for (let i = segments.length - 1; i >= 0; i--) {
+      let lastHash: string | undefined;
+      for await (const line of readLines(segments[i].path, true)) {
+        try {
+          lastHash = (JSON.parse(line) as AuditLogEntry).hash ?? lastHash;
+        } catch {
+          // Ignore damaged lines; verify() reports them
+        }
+      }
+      if (lastHash) {
+        return lastHash;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Rotated segments, oldest first
+   */
+  private async listSegments(): Promise<AuditLogSegment[]> {
+    if (!this.filePath) {
+      return [];
+    }
+
+    const dir = path.dirname(this.filePath);
+    const prefix = `${path.basename(this.filePath)}.`;
+    const names = await fs.readdir(dir).catch(() => [] as string[]);
+
+    return names
+      .filter(name => name.startsWith(prefix) && /^\d{8}T\d{9}Z\.gz$/.test(name.slice(prefix.length)))
+      .sort()
+      .map(name => ({
+        path: path.join(dir, name),
+        rotatedAt: parseSegmentStamp(name.slice(prefix.length, -'.gz'.length))
+      }));
+  }
+
+  private get rotatingPath(): string {
+    return `${this.filePath}.rotating`;
+  }
+
+  /**
+   * Move the active file into a new compressed segment
+   */
+  private async rotate(): Promise<void> {
+    await fs.rename(this.filePath, this.rotatingPath);
+    this.activeBytes = 0;
+    this.activeDay = null;
+    await this.compressRotating();
+  }
+
+  /**
+   * Compress the file being rotated into a segment named after the current time
+   */
+  private async compressRotating(): Promise<void> {
+    let rotatedAt = Date.now();
+    let segmentPath = `${this.filePath}.${segmentStamp(new Date(rotatedAt))}.gz`;
+    while (await fs.access(segmentPath).then(() => true).catch(() => false)) {
+      rotatedAt++;
+      segmentPath = `${this.filePath}.${segmentStamp(new Date(rotatedAt))}.gz`;
+    }
+
+    const tmpPath = `${segmentPath}.tmp`;
+    await pipeline(
+      fsSync.createReadStream(this.rotatingPath),
+      zlib.createGzip(),
+      fsSync.createWriteStream(tmpPath)
+    );
+    await fs.rename(tmpPath, segmentPath);
+    await fs.unlink(this.rotatingPath);
+  }
+
+  /**
+   * Finish a rotation interrupted by a crash
+   */
+  private async recoverRotation(): Promise<void> {
+    const pending = await fs.access(this.rotatingPath).then(() => true).catch(() => false);
+    if (pending) {
+      await this.compressRotating();
+    }
+  }
+
+  /**
+   * Append an entry to the active file, rotating first when needed
+   */
+  private async write(entry: AuditLogEntry): Promise<void> {
+    const line = JSON.stringify(entry) + '\n';
+    const lineBytes = Buffer.byteLength(line, 'utf-8');
+    const day = entry.timestamp.slice(0, 10);
+
+    if (this.activeBytes > 0) {
+      const tooLarge = this.rotation.maxFileBytes > 0 && this.activeBytes + lineBytes > this.rotation.maxFileBytes;
+      const newDay = this.rotation.daily && this.activeDay !== null && this.activeDay !== day;
+      if (tooLarge || newDay) {
+        await this.rotate();
+      }
+    }
+
+    await fs.appendFile(this.filePath, line, 'utf-8');
+    this.activeBytes += lineBytes;
+    this.activeDay = this.activeDay ?? day;
+  }
+
+  /**
+   * Link an entry into the hash chain and persist it. Appends are queued so
+   * concurrent ones keep call order, and the chain only advances once the
+   * entry is written.
+   * @returns The chained entry
+   * @throws Error if the entry could not be written (the chain stays as it was)
+   */
+  async append(fields: AuditLogEntry): Promise<AuditLogEntry> {
+    await this.init();
+
+    const appended = this.writeQueue.then(async () => {
+      const entry: AuditLogEntry = { ...fields, prev_hash: this.lastHash };
+      entry.hash = hashAuditEntry(entry);
+      if (this.filePath) {
+        await this.write(entry);
+      } else {
+        this.memoryEntries.push(entry);
+      }
+      this.lastHash = entry.hash;
+      return entry;
+    });
+    this.writeQueue = appended.then(() => undefined, () => undefined);
+    return appended;
+  }
+
+  /**
+   * Wait for pending writes
+   */
+  async flush(): Promise<void> {
+    await this.init();
+    await this.writeQueue;
+  }
+
+  /**
+   * Stream raw lines of the whole log, oldest first.
+   * Segments rotated out before `since` (epoch ms) are skipped.
+   */
+  private async *lines(since?: number): AsyncGenerator<string> {
+    await this.flush();
+
+    if (!this.filePath) {
+      for (const entry of this.memoryEntries) {
+        yield JSON.stringify(entry);
+      }
+      return;
+    }
+
+    for (const segment of await this.listSegments()) {
+      if (since !== undefined && segment.rotatedAt < since) {
+        continue;
+      }
+      yield* readLines(segment.path, true);
+    }
+    yield* readLines(this.filePath, false);
+  }
+
+  /**
+   * Stream all parseable entries, oldest first
+   */
+  async *entries(): AsyncGenerator<AuditLogEntry> {
+    for await (const line of this.lines()) {
+      try {
+        yield JSON.parse(line) as AuditLogEntry;
+      } catch {
+        // Skip damaged lines; verify() reports them
+      }
+    }
+  }
+
+  /**
+   * Filter, sort and page the log while streaming through it.
+   * Only one page worth of entries is held in memory.
+   */
+  async query(query: AuditLogQuery = {}): Promise<AuditLogPage> {
+    const offset = Math.max(0, query.offset ?? 0);
+    const limit = Math.max(0, query.limit ?? DEFAULT_QUERY_LIMIT);
+    const from = parseTimeBound(query.from);
+    const to = parseTimeBound(query.to);
+    const descending = query.sort !== 'asc';
+    const window = offset + limit;
+
+    const matches = (entry: AuditLogEntry): boolean => {
+      if (query.workspace !== undefined && entry.workspace !== query.workspace) return false;
+      if (query.action !== undefined && entry.action !== query.action) return false;
+      if (query.risk_level !== undefined && entry.risk_level !== query.risk_level) return false;
+      if (query.approved_by !== undefined && entry.approved_by !== query.approved_by) return false;
+      if (from !== undefined || to !== undefined) {
+        const time = Date.parse(entry.timestamp);
+        if (from !== undefined && !(time >= from)) return false;
+        if (to !== undefined && !(time <= to)) return false;
+      }
+      if (query.targetGlob && !matchGlob(query.targetGlob, entry.target || '')) return false;
+      return true;
+    };
+
+    let total = 0;
+    let buffer: AuditLogEntry[] = [];
+
+    for await (const line of this.lines(from)) {
+      let entry: AuditLogEntry;
+      try {
+        entry = JSON.parse(line) as AuditLogEntry;
+      } catch {
+        continue;
+      }
+      if (!matches(entry)) {
+        continue;
+      }
+
+      total++;
+      if (descending && window > 0) {
+        // Keep only the newest `window` matches
+        buffer.push(entry);
+        if (buffer.length > 2 * window + 1) {
+          buffer = buffer.slice(-window);
+        }
+      } else if (!descending && total > offset && total <= window) {
+        buffer.push(entry);
+      }
+    }
+
+    const entries = descending
+      ? buffer.slice(Math.max(0, buffer.length - window)).reverse().slice(offset, window)
+      : buffer;
+
+    return {
+      entries,
+      total,
+      offset,
+      hasMore: offset + entries.length < total
+    };
+  }
+
+  /**
+   * Walk the hash chain across all segments and report the first broken link.
+   * Reads the files on disk, so edits made outside the app are caught. A log
+   * holding only unhashed entries is reported as unverified, not valid.
+   */
+  async verify(): Promise<AuditVerificationResult> {
+    let expectedPrevHash = AUDIT_GENESIS_HASH;
+    let legacyEntries = 0;
+    let chainStarted = false;
+    let index = 0;
+
+    for await (const line of this.lines()) {
+      let entry: AuditLogEntry;
+      try {
+        entry = JSON.parse(line) as AuditLogEntry;
+      } catch {
+        return { valid: false, checkedEntries: index, legacyEntries, brokenAt: { index, reason: 'unparseable' } };
+      }
+
+      if (!entry.hash) {
+        // Entries written before chaining are tolerated only before the chain
+        // starts; once a hashed entry has been seen, a missing hash is tampering
+        if (!chainStarted) {
+          legacyEntries++;
+          index++;
+          continue;
+        }
+        return { valid: false, checkedEntries: index, legacyEntries, brokenAt: { index, timestamp: entry.timestamp, reason: 'missing_hash' } };
+      }
+      chainStarted = true;
+
+      if (entry.prev_hash !== expectedPrevHash) {
+        return { valid: false, checkedEntries: index, legacyEntries, brokenAt: { index, timestamp: entry.timestamp, reason: 'prev_hash_mismatch' } };
+      }
+      if (hashAuditEntry(entry) !== entry.hash) {
+        return { valid: false, checkedEntries: index, legacyEntries, brokenAt: { index, timestamp: entry.timestamp, reason: 'hash_mismatch' } };
+      }
+      expectedPrevHash = entry.hash;
+      index++;
+    }
+
+    // Without a single hashed entry there is nothing to vouch for the log
+    // (every hash stripped, or truncated down to the legacy entries)
+    if (!chainStarted && legacyEntries > 0) {
+      return { valid: false, unverified: true, checkedEntries: index, legacyEntries };
+    }
+    return { valid: true, checkedEntries: index, legacyEntries };
+  }
+
+  /**
+   * Delete the active file and all segments, restarting the chain
+   */
+  async clear(): Promise<void> {
+    await this.flush();
+    this.memoryEntries = [];
+    this.lastHash = AUDIT_GENESIS_HASH;
+    this.activeBytes = 0;
+    this.activeDay = null;
+
+    if (this.filePath) {
+      const segments = await this.listSegments();
+      for (const filePath of [this.filePath, ...segments.map(segment => segment.path)]) {
+        await fs.unlink(filePath).catch(() => {
+          // File might not exist, ignore
+        });
+      }
+    }
+  }
+}
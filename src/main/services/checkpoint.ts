@@ -0,0 +1,287 @@
+/**
+ * Checkpoint Service
+ * Records the before/after content of files changed during an agent run
+ * so the run can be rolled back as a whole or file by file
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import type { Checkpoint, CheckpointRestoreResult, CheckpointSummary, FileAPI } from '../../shared/types';
+import type { FileChange } from './tools';
+import { createUnifiedDiff } from './diff';
+
+/**
+ * Filters for listing checkpoints
+ */
+export interface CheckpointListFilters {
+  /** Only checkpoints for this workspace */
+  workspace?: string;
+  /** Maximum number of checkpoints to return */
+  limit?: number;
+}
+
+/**
+ * Options for restoring a checkpoint
+ */
+export interface CheckpointRestoreOptions {
+  /** File system of the workspace to restore into */
+  fileSystem: FileAPI;
+  /** Current workspace path; must match the checkpoint's workspace */
+  workspace?: string;
+  /** Restore only this file */
+  filePath?: string;
+  /** Overwrite files that were changed again after the checkpoint */
+  force?: boolean;
+}
+
+/**
+ * Checkpoint ids are UUIDs; anything else never reaches the file system
+ */
+const CHECKPOINT_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+/**
+ * Key a file change is recorded under: relative to the workspace with forward
+ * slashes, so `./a.ts`, `a.ts` and `<workspace>/a.ts` are the same file
+ */
+function toFileKey(filePath: string, workspace?: string): string {
+  const resolved = workspace
+    ? path.relative(workspace, path.resolve(workspace, filePath))
+    : path.normalize(filePath);
+  return resolved.split(path.sep).join('/');
+}
+
+/**
+ * Checkpoint Service
+ */
+export class CheckpointService {
+  private rootDir: string;
+  /** Checkpoints open for changes (and, without a root directory, all of them) */
+  private checkpoints: Map<string, Checkpoint> = new Map();
+  private saveQueue: Promise<void> = Promise.resolve();
+
+  /**
+   * @param rootDir - Directory holding one JSON file per checkpoint (in-memory only if omitted)
+   */
+  constructor(rootDir?: string) {
+    this.rootDir = rootDir || '';
+  }
+
+  private pathFor(id: string): string {
+    return path.join(this.rootDir, `${id}.json`);
+  }
+
+  /**
+   * Write a checkpoint to disk atomically
+   */
+  private async save(checkpoint: Checkpoint): Promise<void> {
+    if (!this.rootDir) {
+      return;
+    }
+
+    const filePath = this.pathFor(checkpoint.id);
+    const tmpPath = `${filePath}.tmp`;
+    await fs.mkdir(this.rootDir, { recursive: true });
+    await fs.writeFile(tmpPath, JSON.stringify(checkpoint, null, 2), 'utf-8');
+    await fs.rename(tmpPath, filePath);
+  }
+
+  /**
+   * Open a new checkpoint. It is kept in memory and only written to disk
+   * once the first file change is recorded.
+   */
+  open(description: string, workspace?: string): Checkpoint {
+    const checkpoint: Checkpoint = {
+      id: uuidv4(),
+      timestamp: Date.now(),
+      description,
+      workspace,
+      fileChanges: {}
+    };
+    this.checkpoints.set(checkpoint.id, checkpoint);
+    return checkpoint;
+  }
+
+  /**
+   * Open a saved checkpoint again for more changes (a resumed run)
+   * @returns The checkpoint, or null if it is unknown
+   */
+  async reopen(checkpointId: string): Promise<Checkpoint | null> {
+    const checkpoint = await this.get(checkpointId);
+    if (checkpoint) {
+      this.checkpoints.set(checkpoint.id, checkpoint);
+    }
+    return checkpoint;
+  }
+
+  /**
+   * Stop recording into a checkpoint once its run has finished or paused.
+   * It is dropped from memory after its last write; checkpoints that only
+   * live in memory are kept if they hold changes.
+   */
+  async close(checkpointId: string): Promise<void> {
+    await this.saveQueue;
+    const checkpoint = this.checkpoints.get(checkpointId);
+    if (checkpoint && (this.rootDir || Object.keys(checkpoint.fileChanges).length === 0)) {
+      this.checkpoints.delete(checkpointId);
+    }
+  }
+
+  /**
+   * Record a file change. Repeated changes to the same file keep the
+   * original `before` and the latest `after`.
+   */
+  async recordChange(checkpointId: string, change: FileChange): Promise<void> {
+    const checkpoint = this.checkpoints.get(checkpointId);
+    if (!checkpoint) {
+      throw new Error(`Checkpoint not found: ${checkpointId}`);
+    }
+
+    const key = toFileKey(change.path, checkpoint.workspace);
+    const existing = checkpoint.fileChanges[key];
+    const first = existing ?? change;
+    checkpoint.fileChanges[key] = {
+      before: first.before,
+      after: change.after,
+      ...(first.unreadable && { unreadable: true })
+    };
+
+    // A failed write rejects for this caller only; later writes still run
+    const write = this.saveQueue.then(() => this.save(checkpoint));
+    this.saveQueue = write.then(() => undefined, () => undefined);
+    await write;
+  }
+
+  /**
+   * Load a checkpoint by id (open ones from memory, others from disk)
+   */
+  async get(checkpointId: string): Promise<Checkpoint | null> {
+    const cached = this.checkpoints.get(checkpointId);
+    if (cached) {
+      return cached;
+    }
+    if (!this.rootDir || !CHECKPOINT_ID_PATTERN.test(checkpointId)) {
+      return null;
+    }
+
+    try {
+      const content = await fs.readFile(this.pathFor(checkpointId), 'utf-8');
+      return JSON.parse(content) as Checkpoint;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.warn(`Failed to load checkpoint ${checkpointId}:`, error);
+      }
+      return null;
+    }
+  }
+
+  /**
+   * List checkpoints with file changes, newest first
+   */
+  async list(filters: CheckpointListFilters = {}): Promise<CheckpointSummary[]> {
+    const ids = new Set(this.checkpoints.keys());
+    if (this.rootDir) {
+      const names = await fs.readdir(this.rootDir).catch(() => [] as string[]);
+      for (const name of names) {
+        const id = name.replace(/\.json$/, '');
+        if (name.endsWith('.json') && CHECKPOINT_ID_PATTERN.test(id)) {
+          ids.add(id);
+        }
+      }
+    }
+
+    const summaries: CheckpointSummary[] = [];
+    for (const id of ids) {
+      const checkpoint = await this.get(id);
+      if (!checkpoint || Object.keys(checkpoint.fileChanges).length === 0) {
+        continue;
+      }
+      if (filters.workspace && checkpoint.workspace !== filters.workspace) {
+        continue;
+      }
+      summaries.push({
+        id: checkpoint.id,
+        timestamp: checkpoint.timestamp,
+        description: checkpoint.description,
+        workspace: checkpoint.workspace,
+        files: Object.keys(checkpoint.fileChanges)
+      });
+    }
+
+    summaries.sort((a, b) => b.timestamp - a.timestamp);
+    return filters.limit ? summaries.slice(0, filters.limit) : summaries;
+  }
+
+  /**
+   * Unified diff of a checkpoint (all files, or a single file)
+   * @returns The diff, or null if the checkpoint or file is unknown
+   */
+  async getDiff(checkpointId: string, filePath?: string): Promise<string | null> {
+    const checkpoint = await this.get(checkpointId);
+    if (!checkpoint) {
+      return null;
+    }
+
+    const fileKey = filePath && toFileKey(filePath, checkpoint.workspace);
+    const files = fileKey ? [fileKey] : Object.keys(checkpoint.fileChanges);
+    if (fileKey && !checkpoint.fileChanges[fileKey]) {
+      return null;
+    }
+
+    return files
+      .map(file => createUnifiedDiff(file, checkpoint.fileChanges[file].before, checkpoint.fileChanges[file].after))
+      .join('');
+  }
+
+  /**
+   * Put files back to their state before the checkpoint. Files whose current
+   * content no longer matches the recorded `after` are reported as conflicts
+   * and left untouched unless `force` is set. Files that could not be read
+   * before they were changed are reported as failed and left untouched.
+   */
+  async restore(checkpointId: string, options: CheckpointRestoreOptions): Promise<CheckpointRestoreResult> {
+    const checkpoint = await this.get(checkpointId);
+    if (!checkpoint) {
+      throw new Error(`Checkpoint not found: ${checkpointId}`);
+    }
+    if (options.workspace && checkpoint.workspace && options.workspace !== checkpoint.workspace) {
+      throw new Error(`Checkpoint belongs to workspace ${checkpoint.workspace}, current workspace is ${options.workspace}`);
+    }
+    const fileKey = options.filePath && toFileKey(options.filePath, checkpoint.workspace);
+    if (fileKey && !checkpoint.fileChanges[fileKey]) {
+      throw new Error(`File not in checkpoint: ${options.filePath}`);
+    }
+
+    const { fileSystem } = options;
+    const files = fileKey ? [fileKey] : Object.keys(checkpoint.fileChanges);
+    const result: CheckpointRestoreResult = { restored: [], conflicts: [], failed: [] };
+
+    for (const file of files) {
+      const { before, after, unreadable } = checkpoint.fileChanges[file];
+      if (unreadable) {
+        result.failed.push({ path: file, error: 'Cannot restore: the original could not be read when it was changed' });
+        continue;
+      }
+      try {
+        const current = await fileSystem.exists(file) ? await fileSystem.read(file) : null;
+        if (!options.force && current !== after) {
+          result.conflicts.push(file);
+          continue;
+        }
+
+        if (before === null) {
+          if (current !== null) {
+            await fileSystem.delete(file);
+          }
+        } else {
+          await fileSystem.write(file, before);
+        }
+        result.restored.push(file);
+      } catch (error) {
+        result.failed.push({ path: file, error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+
+    return result;
+  }
+}
@@ -0,0 +1,102 @@
+/**
+ * Circuit Breaker
+ * Stops sending requests to a failing endpoint for a while: opens after
+ * consecutive failures (or when told to back off), then lets a probe
+ * request through once the cooldown has passed
+ */
+
+/**
+ * Circuit breaker options
+ */
+export interface CircuitBreakerOptions {
+  /** Consecutive failures that open the circuit */
+  failureThreshold?: number;
+  /** How long an opened circuit stays open (ms) */
+  cooldownMs?: number;
+  /** Clock (for tests) */
+  now?: () => number;
+}
+
+/**
+ * Default breaker: opens after 3 failures in a row, for 30 seconds
+ */
+export const DEFAULT_CIRCUIT_BREAKER: Required<Omit<CircuitBreakerOptions, 'now'>> = {
+  failureThreshold: 3,
+  cooldownMs: 30000
+};
+
+/**
+ * closed: requests pass; open: requests are refused until the cooldown ends;
+ * half_open: the cooldown ended and the next result decides
+ */
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+/**
+ * Circuit Breaker
+ */
+export class CircuitBreaker {
+  private options: Required<CircuitBreakerOptions>;
+  private failures = 0;
+  private openUntil = 0;
+  private halfOpen = false;
+
+  constructor(options: CircuitBreakerOptions = {}) {
+    this.options = { ...DEFAULT_CIRCUIT_BREAKER, now: Date.now, ...options };
+  }
+
+  /**
+   * Current state
+   */
+  getState(): CircuitState {
+    if (this.openUntil > this.options.now()) {
+      return 'open';
+    }
+    return this.halfOpen ? 'half_open' : 'closed';
+  }
+
+  /**
+   * Whether a request may be sent now
+   */
+  allowRequest(): boolean {
+    return this.getState() !== 'open';
+  }
+
+  /**
+   * When an open circuit lets requests through again (epoch ms), or 0 if it is not open
+   */
+  getRetryAt(): number {
+    return this.getState() === 'open' ? this.openUntil : 0;
+  }
+
+  /**
+   * A request succeeded: close the circuit
+   */
+  recordSuccess(): void {
+    this.failures = 0;
+    this.openUntil = 0;
+    this.halfOpen = false;
+  }
+
+  /**
+   * A request failed. The circuit opens once the threshold is reached, right
+   * away when a probe fails, and for at least retryAfterMs when the endpoint
+   * asked us to back off.
+   */
+  recordFailure(retryAfterMs?: number): void {
+    const now = this.options.now();
+    const probeFailed = this.getState() === 'half_open';
+    this.failures++;
+
+    let until = 0;
+    if (probeFailed || this.failures >= this.options.failureThreshold) {
+      until = now + this.options.cooldownMs;
+    }
+    if (retryAfterMs !== undefined) {
+      until = Math.max(until, now + retryAfterMs);
+    }
+    if (until > 0) {
+      this.openUntil = Math.max(this.openUntil, until);
+      this.halfOpen = true;
+    }
+  }
+}
@@ -0,0 +1,346 @@
+/**
+ * Context Budget
+ * Keeps agent requests inside the model's context window: large tool outputs
+ * are cut to previews (the full text stays fetchable), then older turns are
+ * summarized by the LLM
+ */
+
+import type { TiktokenEncoding } from 'js-tiktoken/lite';
+import { PermissionLevel } from '../../shared/types';
+import type { LLMMessage } from '../../shared/types';
+import type { Tool } from './tools';
+import { getModelLimits, countTokens, countMessageTokens } from './tokenizer';
+
+/**
+ * Context budget options
+ */
+export interface ContextBudgetOptions {
+  /** Context window in tokens (default: the model's known limit) */
+  contextWindow?: number;
+  /** Tokens kept free for the reply when the request does not say */
+  reserveTokens?: number;
+  /** Tool outputs above this many tokens are cut to a preview when compacting */
+  maxToolOutputTokens?: number;
+  /** Characters kept in the preview of a cut tool output */
+  toolOutputPreviewChars?: number;
+  /** Most recent messages that are never summarized */
+  keepRecentMessages?: number;
+}
+
+/**
+ * Default context budget options
+ */
+export const DEFAULT_CONTEXT_BUDGET: Required<Omit<ContextBudgetOptions, 'contextWindow'>> = {
+  reserveTokens: 4096,
+  maxToolOutputTokens: 2000,
+  toolOutputPreviewChars: 1500,
+  keepRecentMessages: 4
+};
+
+/**
+ * Instructions for the LLM call that summarizes older turns
+ */
+export const SUMMARY_INSTRUCTIONS = `Summarize the conversation excerpt below for an assistant that will continue the conversation without seeing it.
+Keep the user's goals and constraints, decisions made, file paths, important tool results and open questions.
+Leave out greetings and repetition. Reply with the summary only.`;
+
+/**
+ * What a compaction did
+ */
+export interface ContextCompaction {
+  /** Model the budget was computed for */
+  model: string;
+  /** Prompt tokens allowed */
+  budget: number;
+  /** Prompt tokens before compaction */
+  tokensBefore: number;
+  /** Prompt tokens after compaction */
+  tokensAfter: number;
+  /** Number of older messages replaced by a summary */
+  summarizedMessages: number;
+  /** Tool call ids whose outputs were cut to previews */
+  truncatedOutputs: string[];
+}
+
+/**
+ * A request to fit into the budget
+ */
+export interface ContextFitRequest {
+  /** Model the request goes to */
+  model: string;
+  /** Tokens kept free for the reply (default: options.reserveTokens) */
+  reserveTokens?: number;
+  /** The model's context window, e.g. from its capabilities (options.contextWindow takes precedence) */
+  contextWindow?: number;
+  /** Text sent along with the messages, e.g. tool schemas or extra instructions */
+  extraText?: string;
+  /** Summarize a transcript of older messages (an LLM call) */
+  summarize: (transcript: string) => Promise<string>;
+}
+
+/**
+ * Messages of a run, and the index of the current request (kept verbatim)
+ */
+export interface ContextThread {
+  messages: LLMMessage[];
+  turnStart: number;
+}
+
+/**
+ * Full outputs kept at most (oldest are dropped first)
+ */
+const MAX_STORED_OUTPUTS = 200;
+
+/**
+ * Characters of each message kept in the transcript sent for summarizing
+ */
+const TRANSCRIPT_MESSAGE_CHARS = 4000;
+
+/**
+ * Characters returned by one fetch_tool_output call (default)
+ */
+const FETCH_CHUNK_CHARS = 6000;
+
+/**
+ * Full text of tool outputs that were cut to previews, by tool call id
+ */
+export class ToolOutputStore {
+  private outputs: Map<string, string> = new Map();
+
+  set(id: string, output: string): void {
+    this.outputs.delete(id);
+    this.outputs.set(id, output);
+    if (this.outputs.size > MAX_STORED_OUTPUTS) {
+      this.outputs.delete(this.outputs.keys().next().value as string);
+    }
+  }
+
+  get(id: string): string | undefined {
+    return this.outputs.get(id);
+  }
+
+  has(id: string): boolean {
+    return this.outputs.has(id);
+  }
+}
+
+/**
+ * Plain-text rendering of a message for the summary transcript
+ */
+function transcriptLine(message: LLMMessage): string {
+  let text = typeof message.content === 'string'
+    ? message.content
+    : message.content.map(block => block.type === 'text' ? block.text : `[${block.type}]`).join('\n');
+
+  if (message.tool_calls && message.tool_calls.length > 0) {
+    text += message.tool_calls.map(call => `\n-> ${call.function.name}(${call.function.arguments})`).join('');
+  }
+  if (text.length > TRANSCRIPT_MESSAGE_CHARS) {
+    text = `${text.slice(0, TRANSCRIPT_MESSAGE_CHARS)}...[cut]`;
+  }
+  return message.role === 'tool' ? `[tool ${message.tool_call_id}] ${text}` : `[${message.role}] ${text}`;
+}
+
+/**
+ * Context Budgeter
+ */
+export class ContextBudgeter {
+  private options: Required<Omit<ContextBudgetOptions, 'contextWindow'>> & { contextWindow?: number };
+  private toolOutputs: ToolOutputStore;
+  /** Token counts per message object and encoding; messages are replaced, never edited */
+  private counts: WeakMap<LLMMessage, Map<TiktokenEncoding, number>> = new WeakMap();
+
+  constructor(options: ContextBudgetOptions = {}, toolOutputs: ToolOutputStore = new ToolOutputStore()) {
+    this.options = { ...DEFAULT_CONTEXT_BUDGET, ...options };
+    this.toolOutputs = toolOutputs;
+  }
+
+  /**
+   * Prompt tokens allowed for a model
+   */
+  getBudget(model: string, reserveTokens?: number, contextWindow?: number): number {
+    contextWindow = this.options.contextWindow ?? contextWindow ?? getModelLimits(model).contextWindow;
+    return contextWindow - (reserveTokens ?? this.options.reserveTokens);
+  }
+
+  /**
+   * Count the prompt tokens of messages plus extra text
+   */
+  count(messages: LLMMessage[], model: string, extraText = ''): number {
+    const { encoding } = getModelLimits(model);
+    let tokens = 3 + countTokens(extraText, encoding);
+    for (const message of messages) {
+      let perEncoding = this.counts.get(message);
+      if (!perEncoding) {
+        perEncoding = new Map();
+        this.counts.set(message, perEncoding);
+      }
+      let messageTokens = perEncoding.get(encoding);
+      if (messageTokens === undefined) {
+        messageTokens = countMessageTokens(message, encoding);
+        perEncoding.set(encoding, messageTokens);
+      }
+      tokens += messageTokens;
+    }
+    return tokens;
+  }
+
+  /**
+   * Compact a thread in place until it fits the budget: first cut large tool
+   * outputs (oldest first), then summarize older messages. The system prompt
+   * and the current request are never touched.
+   * @returns What was compacted, or null if the thread already fit
+   * @throws Error if the thread does not fit even after compaction
+   */
+  async fit(thread: ContextThread, request: ContextFitRequest): Promise<ContextCompaction | null> {
+    const { model, extraText } = request;
+    const budget = this.getBudget(model, request.reserveTokens, request.contextWindow);
+    const tokensBefore = this.count(thread.messages, model, extraText);
+    if (tokensBefore <= budget) {
+      return null;
+    }
+
+    const truncatedOutputs = this.truncateToolOutputs(thread, model, budget, extraText);
+    let tokensAfter = this.count(thread.messages, model, extraText);
+
+    let summarizedMessages = 0;
+    if (tokensAfter > budget) {
+      summarizedMessages = await this.summarizeOlder(thread, request.summarize);
+      tokensAfter = this.count(thread.messages, model, extraText);
+    }
+
+    if (tokensAfter > budget) {
+      throw new Error(
+        `Context window exceeded: the request needs ${tokensAfter} tokens but ${model} allows ${budget} ` +
+        `(after compacting from ${tokensBefore})`
+      );
+    }
+
+    return { model, budget, tokensBefore, tokensAfter, summarizedMessages, truncatedOutputs };
+  }
+
+  /**
+   * Full output of a tool call that was cut to a preview
+   */
+  getToolOutput(id: string): string | undefined {
+    return this.toolOutputs.get(id);
+  }
+
+  /**
+   * Replace oversized tool outputs by previews, oldest first, until the thread fits
+   */
+  private truncateToolOutputs(thread: ContextThread, model: string, budget: number, extraText?: string): string[] {
+    const { encoding } = getModelLimits(model);
+    const { maxToolOutputTokens, toolOutputPreviewChars } = this.options;
+    const truncated: string[] = [];
+
+    for (let index = 1; index < thread.messages.length; index++) {
+      const message = thread.messages[index];
+      if (message.role !== 'tool' || !message.tool_call_id || typeof message.content !== 'string') {
+        continue;
+      }
+
+      const output = message.content;
+      const tokens = countTokens(output, encoding);
+      if (tokens <= maxToolOutputTokens) {
+        continue;
+      }
+
+      this.toolOutputs.set(message.tool_call_id, output);
+      truncated.push(message.tool_call_id);
+      thread.messages[index] = {
+        role: 'tool',
+        tool_call_id: message.tool_call_id,
+        content: `${output.slice(0, toolOutputPreviewChars)}\n...[output truncated: ${output.length} characters, ` +
+          `${tokens} tokens. Call fetch_tool_output with {"id": "${message.tool_call_id}"} to read the rest]`
+      };
+      if (this.count(thread.messages, model, extraText) <= budget) {
+        break;
+      }
+    }
+
+    return truncated;
+  }
+
+  /**
+   * Replace the messages between the system prompt and the most recent ones
+   * by an LLM summary. Tool messages stay with the assistant message calling them.
+   * @returns Number of messages summarized
+   */
+  private async summarizeOlder(thread: ContextThread, summarize: ContextFitRequest['summarize']): Promise<number> {
+    const { messages } = thread;
+    const pinned = messages[thread.turnStart];
+
+    let end = Math.max(1, messages.length - this.options.keepRecentMessages);
+    while (end > 1 && end < messages.length && messages[end].role === 'tool') {
+      end--;
+    }
+
+    const older = messages.slice(1, end).filter(message => message !== pinned);
+    if (older.length === 0) {
+      return 0;
+    }
+
+    const summary = await summarize(older.map(transcriptLine).join('\n\n'));
+    const compacted: LLMMessage[] = [
+      messages[0],
+      { role: 'system', content: `Summary of the earlier conversation:\n${summary}` },
+      ...(thread.turnStart < end ? [pinned] : []),
+      ...messages.slice(end)
+    ];
+
+    messages.splice(0, messages.length, ...compacted);
+    thread.turnStart = messages.indexOf(pinned);
+    return older.length;
+  }
+}
+
+/**
+ * Create the tool that reads outputs cut to previews by the budgeter
+ */
+export function createFetchToolOutputTool(toolOutputs: ToolOutputStore): Tool {
+  return {
+    name: 'fetch_tool_output',
+    description: 'Read more of an earlier tool output that was truncated to save context. Use the id given in the truncation note.',
+    parameters: {
+      type: 'object',
+      properties: {
+        id: {
+          type: 'string',
+          description: 'The id from the truncation note (the tool call id)'
+        },
+        offset: {
+          type: 'number',
+          description: 'Character offset to start reading at (default: 0)'
+        },
+        length: {
+          type: 'number',
+          description: `Number of characters to read (default: ${FETCH_CHUNK_CHARS})`
+        }
+      },
+      required: ['id']
+    },
+    permissionLevel: PermissionLevel.READ_ONLY,
+    execute: async (params) => {
+      const id = String(params.id ?? '');
+      const output = toolOutputs.get(id);
+      if (output === undefined) {
+        return { success: false, error: `No stored output for id: ${id}` };
+      }
+
+      const offset = Math.max(0, Number(params.offset) || 0);
+      const length = Math.min(Math.max(1, Number(params.length) || FETCH_CHUNK_CHARS), FETCH_CHUNK_CHARS);
+      const content = output.slice(offset, offset + length);
+      return {
+        success: true,
+        data: {
+          id,
+          offset,
+          content,
+          totalLength: output.length,
+          hasMore: offset + content.length < output.length
+        }
+      };
+    }
+  };
+}
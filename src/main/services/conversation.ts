@@ -0,0 +1,38 @@
+/**
+ * Conversation Manager
+ * Keeps the message history of each chat conversation, keyed by the
+ * renderer's conversation id, so the agent can follow up on earlier turns
+ */
+
+import type { LLMMessage } from '../../shared/types';
+
+/**
+ * Conversation Manager
+ */
+export class ConversationManager {
+  private conversations: Map<string, LLMMessage[]> = new Map();
+
+  /**
+   * Messages of earlier turns, oldest first (the system prompt is not stored;
+   * it is rebuilt for every turn)
+   */
+  getHistory(conversationId: string): LLMMessage[] {
+    return [...(this.conversations.get(conversationId) ?? [])];
+  }
+
+  /**
+   * Replace a conversation's history after a finished turn (older turns may
+   * have been compacted)
+   */
+  set(conversationId: string, messages: LLMMessage[]): void {
+    this.conversations.set(conversationId, [...messages]);
+  }
+
+  /**
+   * Forget a conversation, e.g. when the user starts a new one
+   * @returns Whether the conversation had any history
+   */
+  clear(conversationId: string): boolean {
+    return this.conversations.delete(conversationId);
+  }
+}
@@ -0,0 +1,72 @@
+/**
+ * Diff Store
+ * Content-addressed storage for audited diffs, keyed by their SHA256
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { createHash } from 'crypto';
+
+/**
+ * SHA256 (hex) of a diff body - the value recorded as `diff_sha256`
+ */
+export function sha256Hex(content: string): string {
+  return createHash('sha256').update(content, 'utf-8').digest('hex');
+}
+
+/**
+ * Diff Store
+ */
+export class DiffStore {
+  private rootDir: string;
+
+  /**
+   * @param rootDir - Directory holding the diff bodies
+   */
+  constructor(rootDir: string) {
+    this.rootDir = rootDir;
+  }
+
+  /**
+   * Path of a stored diff: <root>/<first two hex chars>/<sha256>.diff
+   */
+  private pathFor(sha256: string): string {
+    return path.join(this.rootDir, sha256.slice(0, 2), `${sha256}.diff`);
+  }
+
+  /**
+   * Store a diff body (idempotent)
+   * @returns SHA256 of the diff
+   */
+  async put(diff: string): Promise<string> {
+    const sha256 = sha256Hex(diff);
+    const filePath = this.pathFor(sha256);
+
+    const exists = await fs.access(filePath).then(() => true).catch(() => false);
+    if (!exists) {
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      const tmpPath = `${filePath}.${process.pid}.tmp`;
+      await fs.writeFile(tmpPath, diff, 'utf-8');
+      await fs.rename(tmpPath, filePath);
+    }
+
+    return sha256;
+  }
+
+  /**
+   * Load a diff body by hash, verifying its content
+   * @returns The diff, or null if missing or corrupted
+   */
+  async get(sha256: string): Promise<string | null> {
+    if (!/^[0-9a-f]{64}$/.test(sha256)) {
+      return null;
+    }
+
+    try {
+      const diff = await fs.readFile(this.pathFor(sha256), 'utf-8');
+      return sha256Hex(diff) === sha256 ? diff : null;
+    } catch {
+      return null;
+    }
+  }
+}
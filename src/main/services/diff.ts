@@ -0,0 +1,198 @@
+/**
+ * Diff Service
+ * Line-based unified diffs (Myers algorithm) for audit records and checkpoints
+ */
+
+/**
+ * A single line-level edit
+ */
+export interface DiffOp {
+  /** Edit type */
+  type: 'equal' | 'insert' | 'delete';
+  /** Line content (without trailing newline) */
+  line: string;
+}
+
+/**
+ * Above this many lines on both sides, fall back to a whole-file replacement
+ * instead of searching for the minimal edit script
+ */
+const MAX_MYERS_LINES = 4000;
+
+/**
+ * Edit distance at which the search gives up and falls back to a whole-file
+ * replacement; the trace it keeps grows with the square of the distance
+ */
+const MAX_EDIT_DISTANCE = 2000;
+
+/**
+ * Split content into lines, ignoring a single trailing newline
+ */
+function splitLines(content: string | null): string[] {
+  if (!content) {
+    return [];
+  }
+  const lines = content.split(/\r?\n/);
+  if (lines[lines.length - 1] === '') {
+    lines.pop();
+  }
+  return lines;
+}
+
+/**
+ * Edit script replacing every line of `a` with every line of `b`
+ */
+function replaceAll(a: string[], b: string[]): DiffOp[] {
+  return [
+    ...a.map(line => ({ type: 'delete' as const, line })),
+    ...b.map(line => ({ type: 'insert' as const, line }))
+  ];
+}
+
+/**
+ * Compute the shortest edit script between two line arrays
+ */
+export function diffLines(a: string[], b: string[]): DiffOp[] {
+  const n = a.length;
+  const m = b.length;
+
+  if (n + m > MAX_MYERS_LINES) {
+    return replaceAll(a, b);
+  }
+
+  const max = n + m;
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 2);
+  // Per edit distance d, the diagonals -d-1..d+1 of V as they were before step d
+  const trace: Int32Array[] = [];
+
+  outer:
+  for (let d = 0; d <= max; d++) {
+    if (d > MAX_EDIT_DISTANCE) {
+      return replaceAll(a, b);
+    }
+    trace.push(v.slice(offset - d - 1, offset + d + 2));
+    for (let k = -d; k <= d; k += 2) {
+      let x = (k === -d || (k !== d && v[k - 1 + offset] < v[k + 1 + offset]))
+        ? v[k + 1 + offset]
+        : v[k - 1 + offset] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[k + offset] = x;
+      if (x >= n && y >= m) {
+        break outer;
+      }
+    }
+  }
+
+  // Walk the trace backwards to recover the edit script
+  const ops: DiffOp[] = [];
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const vd = trace[d];
+    const k = x - y;
+    const prevK = (k === -d || (k !== d && vd[k + d] < vd[k + d + 2])) ? k + 1 : k - 1;
+    const prevX = vd[prevK + d + 1];
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      ops.push({ type: 'equal', line: a[x - 1] });
+      x--;
+      y--;
+    }
+    if (d > 0) {
+      if (x === prevX) {
+        ops.push({ type: 'insert', line: b[y - 1] });
+        y--;
+      } else {
+        ops.push({ type: 'delete', line: a[x - 1] });
+        x--;
+      }
+    }
+  }
+
+  return ops.reverse();
+}
+
+/**
+ * Create a unified diff between two versions of a file.
+ * `null` means the file does not exist on that side.
+ * @returns Unified diff text, or an empty string when nothing changed
+ */
+export function createUnifiedDiff(
+  filePath: string,
+  before: string | null,
+  after: string | null,
+  context: number = 3
+): string {
+  const ops = diffLines(splitLines(before), splitLines(after));
+  if (!ops.some(op => op.type !== 'equal')) {
+    return '';
+  }
+
+  // Line positions before each op (0-based counts of consumed lines)
+  const oldPos: number[] = [];
+  const newPos: number[] = [];
+  let oldLine = 0;
+  let newLine = 0;
+  for (const op of ops) {
+    oldPos.push(oldLine);
+    newPos.push(newLine);
+    if (op.type !== 'insert') oldLine++;
+    if (op.type !== 'delete') newLine++;
+  }
+
+  const output: string[] = [
+    `--- ${before === null ? '/dev/null' : `a/${filePath}`}`,
+    `+++ ${after === null ? '/dev/null' : `b/${filePath}`}`
+  ];
+
+  let i = 0;
+  while (i < ops.length) {
+    if (ops[i].type === 'equal') {
+      i++;
+      continue;
+    }
+
+    // Extend the hunk while the gap between changes stays within 2 * context
+    const start = Math.max(0, i - context);
+    let lastChange = i;
+    let j = i + 1;
+    while (j < ops.length) {
+      if (ops[j].type !== 'equal') {
+        lastChange = j;
+        j++;
+        continue;
+      }
+      let run = 0;
+      while (j + run < ops.length && ops[j + run].type === 'equal') {
+        run++;
+      }
+      if (j + run >= ops.length || run > 2 * context) {
+        break;
+      }
+      j += run;
+    }
+    const stop = Math.min(ops.length, lastChange + context + 1);
+
+    const hunk = ops.slice(start, stop);
+    const oldCount = hunk.filter(op => op.type !== 'insert').length;
+    const newCount = hunk.filter(op => op.type !== 'delete').length;
+    const oldStart = oldCount === 0 ? oldPos[start] : oldPos[start] + 1;
+    const newStart = newCount === 0 ? newPos[start] : newPos[start] + 1;
+
+    output.push(`@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`);
+    for (const op of hunk) {
+      const prefix = op.type === 'equal' ? ' ' : op.type === 'insert' ? '+' : '-';
+      output.push(`${prefix}${op.line}`);
+    }
+
+    i = stop;
+  }
+
+  return output.join('\n') + '\n';
+}
@@ -471,21 +471,23 @@ export class FileProcessor {
   }
 
   /**
-   * Convert processed attachments to LLM content blocks
+   * Convert processed attachments to LLM content blocks. Text-only models
+   * (`vision: false`) get image metadata instead of image_url blocks.
    */
-  async attachmentsToContentBlocks(attachments: ProcessedFile[]): Promise<ContentBlock[]> {
+  async attachmentsToContentBlocks(attachments: ProcessedFile[], options: { vision?: boolean } = {}): Promise<ContentBlock[]> {
     const blocks: ContentBlock[] = [];
+    const vision = options.vision ?? true;
 
     for (const attachment of attachments) {
       switch (attachment.type) {
         case FileType.IMAGE:
-          if (attachment.base64) {
+          if (attachment.base64 && vision) {
             blocks.push({
               type: 'image_url',
               image_url: { url: attachment.base64 }
             });
           } else {
-            // Large image - provide metadata
+            // Large image, or a model without vision - provide metadata
             blocks.push({
               type: 'file_metadata',
               file: attachment
@@ -542,7 +544,7 @@ export class FileProcessor {
   /**
    * Generate a text summary of attachments for the system prompt
    */
-  generateAttachmentSummary(attachments: ProcessedFile[], workspacePath?: string): string {
+  generateAttachmentSummary(attachments: ProcessedFile[], workspacePath?: string, options: { vision?: boolean } = {}): string {
     if (attachments.length === 0) return '';
 
     const summaryParts: string[] = [];
@@ -550,7 +552,7 @@ export class FileProcessor {
 
     for (const att of attachments) {
       const sizeKB = (att.size / 1024).toFixed(1);
-      const status = this.getFileStatus(att);
+      const status = this.getFileStatus(att, options.vision ?? true);
       const location = att.inWorkspace
         ? `[in workspace: ${att.relativePath}]`
         : `[outside workspace]`;
@@ -565,9 +567,9 @@ export class FileProcessor {
   /**
    * Get file status for attachment summary
    */
-  private getFileStatus(att: ProcessedFile): string {
+  private getFileStatus(att: ProcessedFile, vision: boolean): string {
     if (att.base64) {
-      return '(image embedded)';
+      return vision ? '(image embedded)' : '(image not supported by the model, metadata only)';
     }
     if (att.content) {
       // Check if content was truncated
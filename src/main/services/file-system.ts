@@ -9,7 +9,22 @@ import * as path from 'path';
 import { EventEmitter } from 'events';
 import ignore from 'ignore';
 import { v4 as uuidv4 } from 'uuid';
-import type { FileNode, FileAPI } from '../../shared/types';
+import type { FileNode, FileAPI, FileSearchQuery, FileSearchResult } from '../../shared/types';
+import { matchGlob } from '../utils/glob';
+import { RegexWorker, type LineMatch } from '../utils/regex-worker';
+
+/**
+ * Content search limits: matches per search (by default and at most),
+ * characters kept of each matching or context line, pattern length,
+ * characters of each line the pattern is run against, and time per search
+ */
+const SEARCH_DEFAULT_RESULTS = 100;
+const SEARCH_MAX_RESULTS = 500;
+const SEARCH_MAX_LINE_LENGTH = 500;
+const SEARCH_MAX_CONTEXT_LINES = 10;
+const SEARCH_MAX_PATTERN_LENGTH = 1000;
+const SEARCH_MAX_SCAN_LENGTH = 10_000;
+const SEARCH_TIME_LIMIT_MS = 10_000;
 
 export interface FileSystemConfig {
   workspaceRoot: string;
@@ -302,6 +317,140 @@ export class FileSystemService implements FileAPI {
     }
   }
 
+  /**
+   * Search file contents under a directory, recursively, in name order.
+   * Ignored paths, files over maxFileSize and binary files are left out, only
+   * the start of very long lines is matched, and the search stops once
+   * maxResults matches have been found, the time limit has passed or the
+   * signal is aborted. Regular expressions run in a worker thread that is
+   * terminated at the time limit, so a pattern that backtracks without end
+   * cannot block the main process.
+   * @throws Error if the pattern is too long or not a valid regular expression,
+   * or the directory is outside the workspace
+   */
+  async search(query: FileSearchQuery, signal?: AbortSignal): Promise<FileSearchResult> {
+    if (query.pattern.length > SEARCH_MAX_PATTERN_LENGTH) {
+      throw new Error(`Invalid search pattern: longer than ${SEARCH_MAX_PATTERN_LENGTH} characters`);
+    }
+
+    let matcher: RegExp;
+    try {
+      const source = query.regex ? query.pattern : query.pattern.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+      matcher = new RegExp(source, query.caseSensitive ? '' : 'i');
+    } catch (error) {
+      throw new Error(`Invalid search pattern: ${(error as Error).message}`);
+    }
+
+    const dirPath = query.path || '.';
+    const root = path.resolve(this.config.workspaceRoot, dirPath);
+    const rootRelative = path.relative(this.config.workspaceRoot, root);
+    if (rootRelative.startsWith('..') || path.isAbsolute(rootRelative)) {
+      throw new Error(`Cannot search outside the workspace: ${dirPath}`);
+    }
+
+    const maxResults = Math.min(Math.max(1, query.maxResults ?? SEARCH_DEFAULT_RESULTS), SEARCH_MAX_RESULTS);
+    const contextLines = Math.min(Math.max(0, query.contextLines ?? 2), SEARCH_MAX_CONTEXT_LINES);
+    const clip = (line: string) => line.length > SEARCH_MAX_LINE_LENGTH ? `${line.slice(0, SEARCH_MAX_LINE_LENGTH)}…` : line;
+    const deadline = Date.now() + Math.min(Math.max(0, query.timeLimitMs ?? SEARCH_TIME_LIMIT_MS), SEARCH_TIME_LIMIT_MS);
+    const result: FileSearchResult = { matches: [], filesSearched: 0, filesSkipped: 0, truncated: false };
+
+    const searchFile = async (fullPath: string, relativePath: string) => {
+      if (Date.now() >= deadline) {
+        result.timedOut = true;
+        return;
+      }
+      const stats = await fs.stat(fullPath);
+      if (stats.size > this.config.maxFileSize) {
+        result.filesSkipped++;
+        return;
+      }
+      const buffer = await fs.readFile(fullPath);
+      if (buffer.includes(0)) {
+        result.filesSkipped++;
+        return;
+      }
+
+      const lines = buffer.toString('utf-8').split(/\r?\n/);
+      const scanned = lines.map(line => line.slice(0, SEARCH_MAX_SCAN_LENGTH));
+      let found: LineMatch[] | null;
+      if (worker) {
+        found = await worker.match(scanned, deadline - Date.now(), signal);
+        if (!found) {
+          if (!signal?.aborted) {
+            result.timedOut = true;
+          }
+          return;
+        }
+      } else {
+        found = [];
+        for (let index = 0; index < scanned.length; index++) {
+          const match = matcher.exec(scanned[index]);
+          if (match) {
+            found.push([index, match.index]);
+          }
+        }
+      }
+
+      result.filesSearched++;
+      for (const [index, column] of found) {
+        if (result.matches.length >= maxResults) {
+          result.truncated = true;
+          return;
+        }
+        result.matches.push({
+          path: relativePath,
+          line: index + 1,
+          column: column + 1,
+          text: clip(lines[index]),
+          before: lines.slice(Math.max(0, index - contextLines), index).map(clip),
+          after: lines.slice(index + 1, index + 1 + contextLines).map(clip)
+        });
+      }
+    };
+
+    // Paths are matched against ignore rules and globs with forward slashes
+    const walk = async (fullDir: string, relativeDir: string): Promise<void> => {
+      const entries = (await fs.readdir(fullDir, { withFileTypes: true }))
+        .sort((a, b) => a.name.localeCompare(b.name));
+
+      for (const entry of entries) {
+        if (result.truncated || result.timedOut || signal?.aborted) {
+          return;
+        }
+        const relativePath = relativeDir ? `${relativeDir}/${entry.name}` : entry.name;
+        const fullPath = path.join(fullDir, entry.name);
+
+        // Symbolic links are not followed, so the search stays in the workspace
+        if (entry.isDirectory()) {
+          if (!this.isIgnored(`${relativePath}/`)) {
+            await walk(fullPath, relativePath);
+          }
+        } else if (entry.isFile() && !this.isIgnored(relativePath)) {
+          if (query.include?.length && !query.include.some(glob => matchGlob(glob, relativePath))) {
+            continue;
+          }
+          if (query.exclude?.some(glob => matchGlob(glob, relativePath))) {
+            continue;
+          }
+          await searchFile(fullPath, relativePath);
+        }
+      }
+    };
+
+    const rootPath = rootRelative.split(path.sep).join('/');
+    if (rootPath && this.isIgnored(`${rootPath}/`)) {
+      throw new Error(`Cannot search an ignored directory: ${dirPath}`);
+    }
+
+    const worker = query.regex ? new RegexWorker(matcher) : null;
+    try {
+      await walk(root, rootPath);
+    } finally {
+      await worker?.terminate();
+    }
+    return result;
+  }
+
   /**
    * Get file tree summary (for LLM context)
    */
@@ -6,134 +6,224 @@
 import { EventEmitter } from 'events';
 import { v4 as uuidv4 } from 'uuid';
 import { PermissionLevel } from '../../shared/types';
-import type { PermissionRequest, AuditLogEntry } from '../../shared/types';
-import * as fs from 'fs/promises';
-import * as fsSync from 'fs';
+import type {
+  PermissionRequest,
+  PermissionResponse,
+  PermissionGrant,
+  AuditLogEntry,
+  AuditLogPage,
+  AuditLogQuery,
+  AuditVerificationResult,
+  LLMFallbackEvent
+} from '../../shared/types';
+import { PermissionStore, REMEMBERABLE_LEVELS, workspaceRelativeTarget, type PermissionGrantFilters } from './permission-store';
+import { DiffStore, sha256Hex } from './diff-store';
+import { AuditLogStore, type AuditLogRotationOptions } from './audit-log';
 import * as path from 'path';
 
+export { AUDIT_GENESIS_HASH, hashAuditEntry } from './audit-log';
+
+/**
+ * Extra context recorded with an audit entry
+ */
+export interface AuditDetails {
+  /** Unified diff of the file change (stored in the diff store, hashed into diff_sha256) */
+  diff?: string;
+  /** Model of the agent turn that requested the operation */
+  llmModel?: string;
+  /** Tokens used by the agent turn that requested the operation */
+  tokensUsed?: number;
+}
+
+/**
+ * Guardian options
+ */
+export interface GuardianOptions {
+  /** JSON file for remembered permission decisions (in-memory only if omitted) */
+  permissionStorePath?: string;
+  /** Directory for audited diff bodies (diffs are hashed but not kept if omitted) */
+  diffStoreDir?: string;
+  /** Audit log rotation (defaults to DEFAULT_AUDIT_ROTATION) */
+  auditRotation?: AuditLogRotationOptions;
+}
+
 export class Guardian extends EventEmitter {
   private currentUserId: string;
-  private auditLog: AuditLogEntry[] = [];
-  private auditLogPath: string;
-  private permissionMemory: Map<string, boolean> = new Map();
-  private auditLogInitialized: boolean = false;
+  private auditStore: AuditLogStore;
+  private permissionStore: PermissionStore;
+  private diffStore: DiffStore | null;
+  /** Workspaces where an EDIT was approved this session (never persisted) */
+  private editApprovedWorkspaces = new Set<string>();
 
-  constructor(userId: string, auditLogPath?: string) {
+  constructor(userId: string, auditLogPath?: string, options: GuardianOptions = {}) {
     super();
     this.currentUserId = userId || 'default_user';
-    this.auditLogPath = auditLogPath || '';
-
-    // Initialize audit log from file if path is provided
-    if (this.auditLogPath) {
-      this.loadAuditLog().catch((error) => {
-        console.warn('Failed to load audit log:', error);
-      });
-    }
+    this.auditStore = new AuditLogStore(auditLogPath, options.auditRotation);
+    this.permissionStore = new PermissionStore(options.permissionStorePath);
+    this.diffStore = options.diffStoreDir ? new DiffStore(options.diffStoreDir) : null;
   }
 
   /**
-   * Load audit log from file
+   * Ask the user to approve an operation, unless a remembered decision
+   * answers it. Aborting `signal` (the agent run was paused or cancelled)
+   * withdraws a pending prompt as not approved.
    */
-  private async loadAuditLog(): Promise<void> {
-    if (!this.auditLogPath || this.auditLogInitialized) {
-      return;
+  async requestPermission(request: PermissionRequest, details?: AuditDetails, signal?: AbortSignal): Promise<boolean> {
+    // A remembered decision answers without asking the user again
+    const grant = await this.permissionStore.find(request);
+    if (grant) {
+      await this.recordAudit(request, grant.approved, `remembered:${grant.id}`, details);
+      return grant.approved;
     }
+    if (signal?.aborted) {
+      return false;
+    }
+
+    const requestId = uuidv4();
+
+    const response = await new Promise<PermissionResponse>((resolve) => {
+      const settle = (response: PermissionResponse) => {
+        clearTimeout(timeout);
+        signal?.removeEventListener('abort', onAbort);
+        this.removeListener(`approval:${requestId}`, settle);
+        resolve(response);
+      };
+      const onAbort = () => {
+        settle({ approved: false, notes: 'cancelled' });
+        this.emit('approval-cancelled', { requestId });
+      };
+      const timeout = setTimeout(() => settle({ approved: false, notes: 'timeout' }), 300000);
+
+      signal?.addEventListener('abort', onAbort);
+      this.once(`approval:${requestId}`, settle);
+      this.emit('approval-request', { requestId, request });
+    });
 
+    const approved = this.isResponseApproved(request, response);
+    // Nothing runs unaudited: an approval whose audit entry cannot be written is a denial
     try {
-      // Ensure directory exists
-      const dir = path.dirname(this.auditLogPath);
-      await fs.mkdir(dir, { recursive: true });
-
-      // Check if file exists
-      const exists = await fs.access(this.auditLogPath).then(() => true).catch(() => false);
-      if (!exists) {
-        this.auditLogInitialized = true;
-        return;
+      await this.recordAudit(request, approved, response.notes, details);
+    } catch (error) {
+      console.error('Failed to record audit entry:', error);
+      return false;
+    }
+
+    if (response.remember && REMEMBERABLE_LEVELS.includes(request.level)) {
+      await this.rememberDecision(request, approved, response);
+    }
+
+    return approved;
+  }
+
+  handleApprovalResponse(requestId: string, response: any): void {
+    this.emit(`approval:${requestId}`, response);
+  }
+
+  /**
+   * Authorize an operation according to its permission level:
+   * READ_ONLY passes, EDIT is asked once per workspace per session, DELETE is
+   * asked twice with the filename typed back, EXECUTE and NETWORK are asked
+   * unless a remembered decision covers them.
+   */
+  async authorize(request: PermissionRequest, details?: AuditDetails, signal?: AbortSignal): Promise<boolean> {
+    switch (request.level) {
+      case PermissionLevel.READ_ONLY:
+        return true;
+
+      case PermissionLevel.EDIT: {
+        const workspace = request.workspace || 'unknown';
+        // A remembered grant (e.g. a denial) still overrides the session
+        // approval, which only covers targets inside the workspace
+        if (
+          this.editApprovedWorkspaces.has(workspace) &&
+          workspaceRelativeTarget(request) !== null &&
+          !(await this.permissionStore.find(request))
+        ) {
+          await this.recordAudit(request, true, 'session', details);
+          return true;
+        }
+        const approved = await this.requestPermission(request, details, signal);
+        if (approved) {
+          this.editApprovedWorkspaces.add(workspace);
+        }
+        return approved;
       }
 
-      // Read and parse audit log
-      const content = await fs.readFile(this.auditLogPath, 'utf-8');
-      const lines = content.trim().split('\n');
-
-      for (const line of lines) {
-        if (line.trim()) {
-          try {
-            const entry = JSON.parse(line) as AuditLogEntry;
-            this.auditLog.push(entry);
-          } catch (error) {
-            console.warn('Failed to parse audit log entry:', error);
-          }
+      case PermissionLevel.DELETE: {
+        const first = await this.requestPermission({
+          ...request,
+          confirmation: { step: 1, total: 2 }
+        }, details, signal);
+        if (!first) {
+          return false;
         }
+        return this.requestPermission({
+          ...request,
+          confirmation: { step: 2, total: 2, expectedText: path.basename(request.target) }
+        }, details, signal);
       }
 
-      this.auditLogInitialized = true;
-      console.log(`Loaded ${this.auditLog.length} audit entries from ${this.auditLogPath}`);
-    } catch (error) {
-      console.warn('Failed to load audit log:', error);
-      this.auditLogInitialized = true;
+      default:
+        return this.requestPermission(request, details, signal);
     }
   }
 
   /**
-   * Append audit entry to file (JSONL format - one JSON per line)
+   * A response only counts as approval if any required confirmation text matches
    */
-  private async appendAuditToFile(entry: AuditLogEntry): Promise<void> {
-    if (!this.auditLogPath) {
-      return;
+  private isResponseApproved(request: PermissionRequest, response: PermissionResponse): boolean {
+    if (!response?.approved) {
+      return false;
     }
-
-    try {
-      // Ensure directory exists
-      const dir = path.dirname(this.auditLogPath);
-      await fs.mkdir(dir, { recursive: true });
-
-      // Append entry as a new line (JSONL format for better performance)
-      const line = JSON.stringify(entry) + '\n';
-      await fs.appendFile(this.auditLogPath, line, 'utf-8');
-    } catch (error) {
-      console.error('Failed to write audit log entry:', error);
+    const expectedText = request.confirmation?.expectedText;
+    if (expectedText !== undefined) {
+      return (response.confirmText ?? '').trim() === expectedText;
     }
+    return true;
   }
 
   /**
-   * Ensure audit log is loaded before operations
+   * Persist a "remember this decision" response as a scoped grant
    */
-  private async ensureAuditLogLoaded(): Promise<void> {
-    if (!this.auditLogInitialized) {
-      await this.loadAuditLog();
+  private async rememberDecision(request: PermissionRequest, approved: boolean, response: PermissionResponse): Promise<void> {
+    try {
+      await this.permissionStore.add({
+        workspace: request.workspace || 'unknown',
+        action: request.action,
+        pathGlob: response.rememberGlob || this.permissionStore.defaultGlobFor(request),
+        level: request.level,
+        approved,
+        expiresAt: response.rememberUntil
+      });
+    } catch (error) {
+      console.error('Failed to remember permission decision:', error);
     }
   }
 
-  async requestPermission(request: PermissionRequest): Promise<boolean> {
-    await this.ensureAuditLogLoaded();
-
-    const requestId = uuidv4();
-
-    return new Promise<boolean>((resolve) => {
-      const timeout = setTimeout(() => {
-        this.removeListener(`approval:${requestId}`, handler);
-        void this.recordAudit(request, false, 'timeout');
-        resolve(false);
-      }, 300000);
-
-      const handler = (response: any) => {
-        clearTimeout(timeout);
-        this.removeListener(`approval:${requestId}`, handler);
-        void this.recordAudit(request, response.approved, response.notes);
-        resolve(response.approved);
-      };
-
-      this.once(`approval:${requestId}`, handler);
-      this.emit('approval-request', { requestId, request });
-    });
+  /**
+   * List remembered permission decisions
+   */
+  async listPermissions(filters?: PermissionGrantFilters): Promise<PermissionGrant[]> {
+    return this.permissionStore.list(filters);
   }
 
-  handleApprovalResponse(requestId: string, response: any): void {
-    this.emit(`approval:${requestId}`, response);
+  /**
+   * Revoke a single remembered permission decision
+   */
+  async revokePermission(grantId: string): Promise<boolean> {
+    return this.permissionStore.revoke(grantId);
   }
 
-  private async recordAudit(request: PermissionRequest, approved: boolean, notes?: string): Promise<void> {
-    await this.ensureAuditLogLoaded();
+  private async recordAudit(request: PermissionRequest, approved: boolean, notes?: string, details?: AuditDetails): Promise<void> {
+    let diffSha256: string | undefined;
+    if (details?.diff) {
+      diffSha256 = sha256Hex(details.diff);
+      try {
+        await this.diffStore?.put(details.diff);
+      } catch (error) {
+        console.error('Failed to store audit diff:', error);
+      }
+    }
 
     const entry: AuditLogEntry = {
       timestamp: new Date().toISOString(),
@@ -142,17 +232,37 @@ export class Guardian extends EventEmitter {
       action: request.action,
       target: request.target,
       approved_by: approved ? this.currentUserId : 'system',
-      risk_level: this.getRiskLevel(request.level)
+      risk_level: this.getRiskLevel(request.level),
+      ...(diffSha256 && { diff_sha256: diffSha256 }),
+      ...(details?.llmModel && { llm_model: details.llmModel }),
+      ...(details?.tokensUsed !== undefined && { tokens_used: details.tokensUsed })
     };
 
-    // Add to in-memory log
-    this.auditLog.push(entry);
-
-    // Persist to file
-    await this.appendAuditToFile(entry);
+    // Link into the hash chain and persist
+    const chained = await this.auditStore.append(entry);
 
     // Emit event
-    this.emit('audit', entry);
+    this.emit('audit', chained);
+  }
+
+  /**
+   * Record a switch to a fallback LLM provider (not a permission decision, so
+   * it is approved by 'system')
+   */
+  async recordLLMFallback(event: LLMFallbackEvent, workspace?: string): Promise<void> {
+    const entry: AuditLogEntry = {
+      timestamp: new Date(event.timestamp).toISOString(),
+      user_id: this.currentUserId,
+      workspace: workspace || 'unknown',
+      action: 'llm_fallback',
+      target: `${event.from.provider}/${event.from.model} -> ${event.to.provider}/${event.to.model}`,
+      approved_by: 'system',
+      risk_level: 'low',
+      llm_model: event.to.model
+    };
+
+    const chained = await this.auditStore.append(entry);
+    this.emit('audit', chained);
   }
 
   private getRiskLevel(level: PermissionLevel): 'low' | 'medium' | 'high' {
@@ -162,45 +272,62 @@ export class Guardian extends EventEmitter {
   }
 
   async getAuditLog(filters?: { limit?: number }): Promise<AuditLogEntry[]> {
-    await this.ensureAuditLogLoaded();
-
-    let log = [...this.auditLog];
     if (filters?.limit) {
-      log = log.slice(-filters.limit);
+      const page = await this.auditStore.query({ limit: filters.limit, sort: 'desc' });
+      return page.entries.reverse();
+    }
+
+    const log: AuditLogEntry[] = [];
+    for await (const entry of this.auditStore.entries()) {
+      log.push(entry);
     }
     return log;
   }
 
   /**
-   * Clear audit log (both memory and file)
+   * Query the audit log with filters, paging and sorting.
+   * Streams through rotated segments without loading the whole log.
    */
-  async clearAuditLog(): Promise<void> {
-    this.auditLog = [];
+  async queryAuditLog(query?: AuditLogQuery): Promise<AuditLogPage> {
+    return this.auditStore.query(query);
+  }
 
-    if (this.auditLogPath) {
-      try {
-        await fs.unlink(this.auditLogPath);
-      } catch (error) {
-        // File might not exist, ignore
-      }
-    }
+  /**
+   * Load the diff body recorded under an audit entry's diff_sha256
+   */
+  async getAuditDiff(diffSha256: string): Promise<string | null> {
+    return this.diffStore ? this.diffStore.get(diffSha256) : null;
+  }
+
+  /**
+   * Walk the audit log hash chain (across rotated segments) and report the first broken link
+   */
+  async verifyAuditLog(): Promise<AuditVerificationResult> {
+    return this.auditStore.verify();
+  }
+
+  /**
+   * Clear audit log (active file and rotated segments)
+   */
+  async clearAuditLog(): Promise<void> {
+    await this.auditStore.clear();
   }
 
   async exportAuditLog(format: 'json' | 'csv'): Promise<string> {
-    await this.ensureAuditLogLoaded();
+    const auditLog = await this.getAuditLog();
 
     if (format === 'json') {
-      return JSON.stringify(this.auditLog, null, 2);
+      return JSON.stringify(auditLog, null, 2);
     } else {
       // CSV format - proper escaping
-      if (this.auditLog.length === 0) {
+      if (auditLog.length === 0) {
         return '';
       }
 
-      const headers = Object.keys(this.auditLog[0]);
+      const headers = Object.keys(auditLog[0]);
       const headerRow = headers.join(',');
 
-      const rows = this.auditLog.map(entry => {
+      const rows = auditLog.map(entry => {
         return headers.map(header => {
           const value = (entry as any)[header];
           // Escape quotes and wrap in quotes if contains comma
@@ -217,8 +344,8 @@ export class Guardian extends EventEmitter {
   }
 
   async clearPermissionMemory(): Promise<void> {
-    // Clear permissions
-    this.permissionMemory.clear();
+    this.editApprovedWorkspaces.clear();
+    await this.permissionStore.clear();
   }
 }
 
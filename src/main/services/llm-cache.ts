@@ -0,0 +1,277 @@
+/**
+ * LLM Response Cache
+ * On-disk cache of generate() replies keyed by the normalized messages,
+ * model and generation parameters, with a TTL, a size cap and hit/miss stats.
+ * Requests with a temperature above the limit are meant to vary and bypass it.
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import type { ContentBlock, LLMCacheStats, LLMConfig, LLMMessage, LLMResponse } from '../../shared/types';
+import { canonicalJson, normalizeToolCallIds } from './llm-transport';
+
+/**
+ * LLM response cache options
+ */
+export interface LLMCacheOptions {
+  /** How long a reply is served from the cache (ms) */
+  ttlMs?: number;
+  /** Total size of the cached replies (bytes); least recently used ones are evicted first */
+  maxBytes?: number;
+  /** Highest temperature that is cached; requests without a temperature are never cached */
+  maxTemperature?: number;
+  /** Clock (for tests) */
+  now?: () => number;
+}
+
+export const DEFAULT_LLM_CACHE_OPTIONS: Required<Omit<LLMCacheOptions, 'now'>> = {
+  ttlMs: 24 * 60 * 60 * 1000,
+  maxBytes: 50 * 1024 * 1024,
+  maxTemperature: 0
+};
+
+/**
+ * A cached reply, as stored in its file
+ */
+interface CacheEntry {
+  createdAt: number;
+  response: LLMResponse;
+}
+
+/**
+ * What the index keeps about an entry
+ */
+interface CacheIndexEntry {
+  bytes: number;
+  /** When the entry was written (file times after a restart); orders entries on load */
+  writtenAt: number;
+}
+
+/**
+ * Text with line endings and surrounding whitespace normalized
+ */
+function normalizeText(text: string): string {
+  return text.replace(/\r\n?/g, '\n').trim();
+}
+
+/**
+ * Messages as they count for the cache key: whitespace differences and
+ * made-up tool call ids do not make a request different
+ */
+function normalizeMessages(messages: LLMMessage[]): LLMMessage[] {
+  return normalizeToolCallIds(messages).map(msg => ({
+    ...msg,
+    content: typeof msg.content === 'string'
+      ? normalizeText(msg.content)
+      : msg.content.map((block): ContentBlock => block.type === 'text' ? { ...block, text: normalizeText(block.text) } : block)
+  }));
+}
+
+/**
+ * LLM Response Cache
+ */
+export class LLMResponseCache {
+  private cacheDir: string;
+  private options: Required<LLMCacheOptions>;
+  /** Entries by key, least recently used first */
+  private index: Map<string, CacheIndexEntry> = new Map();
+  /** Replies of an in-memory cache (no directory) */
+  private memory: Map<string, CacheEntry> = new Map();
+  private loaded: boolean = false;
+  private stats = { hits: 0, misses: 0, bypassed: 0 };
+
+  /**
+   * @param cacheDir - Directory for the cached replies (in-memory only if omitted)
+   */
+  constructor(cacheDir?: string, options: LLMCacheOptions = {}) {
+    this.cacheDir = cacheDir || '';
+    this.options = { ...DEFAULT_LLM_CACHE_OPTIONS, now: Date.now, ...options };
+  }
+
+  /**
+   * Index the entries on disk, oldest first
+   */
+  private async load(): Promise<void> {
+    if (this.loaded) {
+      return;
+    }
+    this.loaded = true;
+
+    if (!this.cacheDir) {
+      return;
+    }
+
+    try {
+      const files = (await fs.readdir(this.cacheDir)).filter(file => file.endsWith('.json'));
+      const entries = await Promise.all(files.map(async file => {
+        const stats = await fs.stat(path.join(this.cacheDir, file));
+        return { key: file.slice(0, -'.json'.length), bytes: stats.size, writtenAt: stats.mtimeMs };
+      }));
+      entries
+        .sort((a, b) => a.writtenAt - b.writtenAt)
+        .forEach(({ key, ...entry }) => this.index.set(key, entry));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.warn('Failed to load the LLM response cache:', error);
+      }
+    }
+  }
+
+  /**
+   * File of an entry
+   */
+  private entryPath(key: string): string {
+    return path.join(this.cacheDir, `${key}.json`);
+  }
+
+  /**
+   * Whether requests with this configuration are cached
+   */
+  isCacheable(config: LLMConfig): boolean {
+    return config.temperature !== undefined && config.temperature <= this.options.maxTemperature;
+  }
+
+  /**
+   * Cache key: hash of the provider, endpoint, model, generation parameters
+   * and normalized messages
+   */
+  keyFor(config: LLMConfig, messages: LLMMessage[]): string {
+    const canonical = canonicalJson({
+      provider: config.provider,
+      baseUrl: config.baseUrl ?? null,
+      model: config.model,
+      temperature: config.temperature ?? null,
+      maxTokens: config.maxTokens ?? null,
+      messages: normalizeMessages(messages)
+    });
+    return createHash('sha256').update(canonical).digest('hex');
+  }
+
+  /**
+   * Cached reply to a request, marked as cached; null on a miss, an expired
+   * entry or a request that bypasses the cache
+   */
+  async get(config: LLMConfig, messages: LLMMessage[]): Promise<LLMResponse | null> {
+    if (!this.isCacheable(config)) {
+      this.stats.bypassed++;
+      return null;
+    }
+
+    await this.load();
+    const key = this.keyFor(config, messages);
+    const indexed = this.index.get(key);
+    if (!indexed) {
+      this.stats.misses++;
+      return null;
+    }
+
+    let entry: CacheEntry | undefined;
+    try {
+      entry = this.cacheDir
+        ? JSON.parse(await fs.readFile(this.entryPath(key), 'utf-8')) as CacheEntry
+        : this.memory.get(key);
+    } catch (error) {
+      console.warn('Failed to read a cached LLM response:', error);
+    }
+    if (!entry || this.options.now() - entry.createdAt > this.options.ttlMs) {
+      await this.remove(key);
+      this.stats.misses++;
+      return null;
+    }
+
+    // Most recently used goes last
+    this.index.delete(key);
+    this.index.set(key, indexed);
+    this.stats.hits++;
+    return { ...entry.response, cached: true };
+  }
+
+  /**
+   * Cache a reply; truncated or filtered replies and requests that bypass
+   * the cache are not stored
+   */
+  async set(config: LLMConfig, messages: LLMMessage[], response: LLMResponse): Promise<void> {
+    if (!this.isCacheable(config) || (response.finishReason && response.finishReason !== 'stop')) {
+      return;
+    }
+
+    await this.load();
+    const key = this.keyFor(config, messages);
+    const entry: CacheEntry = { createdAt: this.options.now(), response: { ...response, cached: undefined } };
+    const data = JSON.stringify(entry);
+    const bytes = Buffer.byteLength(data, 'utf-8');
+    if (bytes > this.options.maxBytes) {
+      return;
+    }
+
+    try {
+      if (this.cacheDir) {
+        const filePath = this.entryPath(key);
+        await fs.mkdir(this.cacheDir, { recursive: true });
+        await fs.writeFile(`${filePath}.tmp`, data, 'utf-8');
+        await fs.rename(`${filePath}.tmp`, filePath);
+      } else {
+        this.memory.set(key, entry);
+      }
+    } catch (error) {
+      console.warn('Failed to cache an LLM response:', error);
+      return;
+    }
+
+    this.index.delete(key);
+    this.index.set(key, { bytes, writtenAt: entry.createdAt });
+    await this.evict();
+  }
+
+  /**
+   * Drop least recently used entries until the cache fits its size cap
+   */
+  private async evict(): Promise<void> {
+    let total = this.totalBytes();
+    for (const [key, entry] of this.index) {
+      if (total <= this.options.maxBytes) {
+        break;
+      }
+      await this.remove(key);
+      total -= entry.bytes;
+    }
+  }
+
+  /**
+   * Remove an entry
+   */
+  private async remove(key: string): Promise<void> {
+    this.index.delete(key);
+    this.memory.delete(key);
+    if (this.cacheDir) {
+      await fs.rm(this.entryPath(key), { force: true }).catch(error => console.warn('Failed to remove a cached LLM response:', error));
+    }
+  }
+
+  /**
+   * Size of all entries
+   */
+  private totalBytes(): number {
+    let total = 0;
+    this.index.forEach(entry => { total += entry.bytes; });
+    return total;
+  }
+
+  /**
+   * Hits, misses and bypasses since startup, and what the cache holds
+   */
+  async getStats(): Promise<LLMCacheStats> {
+    await this.load();
+    return { ...this.stats, entries: this.index.size, bytes: this.totalBytes() };
+  }
+
+  /**
+   * Remove every entry and reset the stats
+   */
+  async clear(): Promise<void> {
+    await this.load();
+    await Promise.all([...this.index.keys()].map(key => this.remove(key)));
+    this.stats = { hits: 0, misses: 0, bypassed: 0 };
+  }
+}
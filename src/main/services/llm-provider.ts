@@ -0,0 +1,95 @@
+/**
+ * LLM Provider
+ * Interface implemented by each chat API adapter, and the registry of
+ * adapters by provider name; LLMService picks the adapter for the configured
+ * provider and adds retries on top
+ */
+
+import type { LLMConfig, LLMMessage, LLMResponse } from '../../shared/types';
+import { OpenAIProvider } from './openai-provider';
+import { AnthropicProvider } from './anthropic-provider';
+import { OllamaProvider } from './ollama-provider';
+
+/**
+ * Tools offered to the model, in OpenAI function calling format (adapters
+ * convert them to their API's format)
+ */
+export type LLMToolDefinitions = Array<{
+  type: 'function';
+  function: {
+    name: string;
+    description: string;
+    parameters: Record<string, unknown>;
+  };
+}>;
+
+/**
+ * Chunk of a streamed completion: assistant text, or part of a tool call
+ * (the id and name arrive with the first chunk of each call, the arguments
+ * JSON in pieces)
+ */
+export type LLMStreamChunk =
+  | { type: 'text'; delta: string }
+  | { type: 'tool_call'; index: number; id?: string; name?: string; argumentsDelta: string };
+
+/**
+ * Schema of a structured reply
+ */
+export interface LLMResponseFormat {
+  /** Name of the schema (some APIs require one) */
+  name: string;
+  /** JSON Schema of the reply */
+  schema: Record<string, unknown>;
+}
+
+/**
+ * Options of a single provider request
+ */
+export interface LLMProviderRequest {
+  /** Tools the model may call (plain completion if omitted) */
+  tools?: LLMToolDefinitions;
+  /** JSON Schema the reply must match, for adapters whose API has a JSON mode */
+  responseFormat?: LLMResponseFormat;
+  /** Aborts the request */
+  signal?: AbortSignal;
+  /** Workspace root the request is about (adapters ignore it; recordings hash it as a placeholder) */
+  workspace?: string;
+}
+
+/**
+ * Chat API adapter
+ */
+export interface LLMProviderAdapter {
+  /** Send a request and wait for the whole reply */
+  complete(messages: LLMMessage[], request: LLMProviderRequest): Promise<LLMResponse>;
+  /** Stream a reply; returns the full response, tool calls assembled, once the stream ends */
+  stream(messages: LLMMessage[], request: LLMProviderRequest): AsyncGenerator<LLMStreamChunk, LLMResponse>;
+}
+
+/**
+ * Creates the adapter for a configuration
+ */
+export type LLMProviderFactory = (config: LLMConfig) => LLMProviderAdapter;
+
+const providerFactories = new Map<string, LLMProviderFactory>([
+  ['openai', (config) => new OpenAIProvider(config)],
+  ['glm', (config) => new OpenAIProvider(config)],
+  ['zhipu', (config) => new OpenAIProvider(config)],
+  ['ollama', (config) => new OllamaProvider(config)],
+  ['anthropic', (config) => new AnthropicProvider(config)]
+]);
+
+/**
+ * Register the adapter for a provider (replaces a built-in one)
+ */
+export function registerLLMProvider(provider: string, factory: LLMProviderFactory): void {
+  providerFactories.set(provider, factory);
+}
+
+/**
+ * Create the adapter for a configuration; unknown providers are assumed to be OpenAI-compatible
+ */
+export function createLLMProvider(config: LLMConfig): LLMProviderAdapter {
+  const factory = providerFactories.get(config.provider) ?? providerFactories.get('openai')!;
+  return factory(config);
+}
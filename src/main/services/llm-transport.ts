@@ -0,0 +1,302 @@
+/**
+ * LLM Transport
+ * Record/replay wrapper around provider adapters: recording writes every
+ * request with its response (stream chunks, tool calls and errors included)
+ * to a JSON file, replaying serves them back by request hash so agent runs
+ * can be reproduced offline
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import type { LLMConfig, LLMMessage, LLMResponse } from '../../shared/types';
+import type { LLMProviderAdapter, LLMProviderRequest, LLMStreamChunk } from './llm-provider';
+
+/**
+ * Record or replay the requests of an LLMService
+ */
+export interface LLMTransportOptions {
+  mode: 'record' | 'replay';
+  /** Recording file (written when recording, read when replaying) */
+  path: string;
+}
+
+/**
+ * A recorded request and what the provider answered
+ */
+export interface LLMInteraction {
+  /** Hash of the request (see hashLLMRequest) */
+  hash: string;
+  request: {
+    provider: string;
+    model: string;
+    stream: boolean;
+    messages: LLMMessage[];
+    tools?: LLMProviderRequest['tools'];
+    responseFormat?: LLMProviderRequest['responseFormat'];
+    /** Workspace root, hashed as a placeholder wherever the request mentions it */
+    workspace?: string;
+  };
+  /** Chunks of a streamed reply, in order */
+  chunks?: LLMStreamChunk[];
+  /** The full reply, unless the request failed */
+  response?: LLMResponse;
+  /** The failure, with its HTTP status and retry headers if there were any */
+  error?: { message: string; status?: number; headers?: Record<string, string> };
+}
+
+/**
+ * Contents of a recording file
+ */
+export interface LLMRecording {
+  version: 1;
+  interactions: LLMInteraction[];
+}
+
+/**
+ * JSON with object keys sorted at every level
+ */
+export function canonicalJson(value: unknown): string {
+  return JSON.stringify(value, (_key, entry) => {
+    if (!entry || typeof entry !== 'object' || Array.isArray(entry)) {
+      return entry;
+    }
+    return Object.fromEntries(Object.keys(entry).sort().map(key => [key, entry[key]]));
+  });
+}
+
+/**
+ * Messages with tool call ids replaced by their order of appearance, since
+ * ids made up on our side (prompt tools, Ollama) differ from run to run
+ */
+export function normalizeToolCallIds(messages: LLMMessage[]): LLMMessage[] {
+  const ids = new Map<string, string>();
+  const normalize = (id: string) => {
+    if (!ids.has(id)) {
+      ids.set(id, `call_${ids.size + 1}`);
+    }
+    return ids.get(id)!;
+  };
+
+  return messages.map(msg => ({
+    ...msg,
+    ...(msg.tool_calls && { tool_calls: msg.tool_calls.map(call => ({ ...call, id: normalize(call.id) })) }),
+    ...(msg.tool_call_id && { tool_call_id: normalize(msg.tool_call_id) })
+  }));
+}
+
+/**
+ * Placeholder the workspace root is hashed as
+ */
+const WORKSPACE_PLACEHOLDER = '<workspace>';
+
+/**
+ * Hash identifying a request: provider, model, messages, tools and response
+ * format, and whether it streams. Keys, endpoints and generation settings
+ * are left out, and the workspace root (in the system prompt, for one) is
+ * replaced by a placeholder, so a recording replays on another machine.
+ */
+export function hashLLMRequest(request: LLMInteraction['request']): string {
+  const { workspace, ...rest } = request;
+  let canonical = canonicalJson({ ...rest, messages: normalizeToolCallIds(rest.messages) });
+  const root = workspace?.replace(/[\\/]+$/, '');
+  if (root) {
+    // Match the root as it appears inside JSON strings (backslashes escaped)
+    canonical = canonical.split(JSON.stringify(root).slice(1, -1)).join(WORKSPACE_PLACEHOLDER);
+  }
+  return createHash('sha256').update(canonical).digest('hex').slice(0, 16);
+}
+
+/**
+ * A recording file, shared by the adapters of an LLMService
+ */
+export class LLMTranscript {
+  private options: LLMTransportOptions;
+  private recording: LLMRecording = { version: 1, interactions: [] };
+  private loaded: Promise<void> | null = null;
+  /** Interactions served so far, by hash */
+  private served: Map<string, number> = new Map();
+  /** Pending write; writes happen one at a time */
+  private saving: Promise<void> = Promise.resolve();
+
+  constructor(options: LLMTransportOptions) {
+    this.options = options;
+  }
+
+  get mode(): LLMTransportOptions['mode'] {
+    return this.options.mode;
+  }
+
+  /**
+   * Load the recording to replay
+   * @throws Error if the file cannot be read or is not a recording
+   */
+  private load(): Promise<void> {
+    this.loaded ??= (async () => {
+      const parsed = JSON.parse(await fs.readFile(this.options.path, 'utf-8')) as LLMRecording;
+      if (parsed.version !== 1 || !Array.isArray(parsed.interactions)) {
+        throw new Error(`Not an LLM recording: ${this.options.path}`);
+      }
+      this.recording = parsed;
+    })();
+    return this.loaded;
+  }
+
+  /**
+   * Add an interaction and write the file (so a crash loses nothing)
+   */
+  async record(interaction: Omit<LLMInteraction, 'hash'>): Promise<void> {
+    this.recording.interactions.push({ hash: hashLLMRequest(interaction.request), ...interaction });
+    const write = async () => {
+      const tmpPath = `${this.options.path}.tmp`;
+      await fs.mkdir(path.dirname(this.options.path), { recursive: true });
+      await fs.writeFile(tmpPath, JSON.stringify(this.recording, null, 2), 'utf-8');
+      await fs.rename(tmpPath, this.options.path);
+    };
+    this.saving = this.saving.then(write, write);
+    await this.saving;
+  }
+
+  /**
+   * Next recorded interaction for a request. Identical requests get their
+   * recorded answers in order, the last one again once they run out.
+   * @throws Error if the request was never recorded
+   */
+  async take(request: LLMInteraction['request']): Promise<LLMInteraction> {
+    await this.load();
+    const hash = hashLLMRequest(request);
+    const matches = this.recording.interactions.filter(interaction => interaction.hash === hash);
+    if (matches.length === 0) {
+      // A status keeps LLMService from retrying a request that cannot succeed
+      throw Object.assign(new Error(`No recorded LLM response for request ${hash} in ${this.options.path}`), { status: 404 });
+    }
+
+    const index = this.served.get(hash) ?? 0;
+    this.served.set(hash, index + 1);
+    return matches[Math.min(index, matches.length - 1)];
+  }
+}
+
+/**
+ * Headers LLMService reads from errors to time its retries
+ */
+const RETRY_HEADERS = ['retry-after', 'retry-after-ms'];
+
+/**
+ * Error recorded from a failed request
+ */
+function toRecordedError(error: unknown): LLMInteraction['error'] {
+  const { status, headers } = (error ?? {}) as { status?: unknown; headers?: unknown };
+  const recorded: LLMInteraction['error'] = { message: (error as Error)?.message ?? String(error) };
+  if (typeof status === 'number') {
+    recorded.status = status;
+  }
+  if (headers && typeof headers === 'object') {
+    for (const name of RETRY_HEADERS) {
+      const value = typeof (headers as Headers).get === 'function'
+        ? (headers as Headers).get(name)
+        : (headers as Record<string, string | undefined>)[name];
+      if (value) {
+        recorded.headers = { ...recorded.headers, [name]: value };
+      }
+    }
+  }
+  return recorded;
+}
+
+/**
+ * Error thrown again when replaying a failed request
+ */
+function fromRecordedError(error: NonNullable<LLMInteraction['error']>): Error {
+  const { message, ...fields } = error;
+  return Object.assign(new Error(message), fields);
+}
+
+/**
+ * Adapter that records (passing requests on to the real adapter) or replays
+ * (never touching it) through a transcript
+ */
+export class TranscriptProvider implements LLMProviderAdapter {
+  private provider: LLMProviderAdapter;
+  private config: LLMConfig;
+  private transcript: LLMTranscript;
+
+  constructor(provider: LLMProviderAdapter, config: LLMConfig, transcript: LLMTranscript) {
+    this.provider = provider;
+    this.config = config;
+    this.transcript = transcript;
+  }
+
+  /**
+   * What identifies a request in the transcript (a copy, since callers keep
+   * adding to their message lists)
+   */
+  private describe(messages: LLMMessage[], request: LLMProviderRequest, stream: boolean): LLMInteraction['request'] {
+    return {
+      provider: this.config.provider,
+      model: this.config.model,
+      stream,
+      messages: structuredClone(messages),
+      ...(request.tools && { tools: request.tools }),
+      ...(request.responseFormat && { responseFormat: request.responseFormat }),
+      ...(request.workspace && { workspace: request.workspace })
+    };
+  }
+
+  async complete(messages: LLMMessage[], request: LLMProviderRequest): Promise<LLMResponse> {
+    const described = this.describe(messages, request, false);
+
+    if (this.transcript.mode === 'replay') {
+      const interaction = await this.transcript.take(described);
+      if (interaction.error) {
+        throw fromRecordedError(interaction.error);
+      }
+      return interaction.response!;
+    }
+
+    try {
+      const response = await this.provider.complete(messages, request);
+      await this.transcript.record({ request: described, response });
+      return response;
+    } catch (error) {
+      if (!request.signal?.aborted) {
+        await this.transcript.record({ request: described, error: toRecordedError(error) });
+      }
+      throw error;
+    }
+  }
+
+  async *stream(messages: LLMMessage[], request: LLMProviderRequest): AsyncGenerator<LLMStreamChunk, LLMResponse> {
+    const described = this.describe(messages, request, true);
+
+    if (this.transcript.mode === 'replay') {
+      const interaction = await this.transcript.take(described);
+      for (const chunk of interaction.chunks ?? []) {
+        yield chunk;
+      }
+      if (interaction.error) {
+        throw fromRecordedError(interaction.error);
+      }
+      return interaction.response!;
+    }
+
+    const chunks: LLMStreamChunk[] = [];
+    try {
+      const stream = this.provider.stream(messages, request);
+      for (;;) {
+        const next = await stream.next();
+        if (next.done) {
+          await this.transcript.record({ request: described, chunks, response: next.value as LLMResponse });
+          return next.value as LLMResponse;
+        }
+        chunks.push(next.value as LLMStreamChunk);
+        yield next.value as LLMStreamChunk;
+      }
+    } catch (error) {
+      if (!request.signal?.aborted) {
+        await this.transcript.record({ request: described, chunks, error: toRecordedError(error) });
+      }
+      throw error;
+    }
+  }
+}
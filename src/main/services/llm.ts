@@ -1,10 +1,20 @@
 /**
- * LLM Service - Real implementation supporting GLM-4, OpenAI, and compatible APIs
+ * LLM Service - Real implementation supporting GLM-4, OpenAI, Anthropic, and compatible APIs
  */
 
 import { EventEmitter } from 'events';
-import OpenAI from 'openai';
-import type { LLMConfig, LLMResponse, LLMMessage } from '../../shared/types';
+import { v4 as uuidv4 } from 'uuid';
+import type { z } from 'zod';
+import type { LLMConfig, LLMFallbackConfig, LLMProvider, LLMResponse, LLMMessage, ModelCapabilities, LLMFallbackEvent, LLMCacheStats } from '../../shared/types';
+import { createLLMProvider, type LLMProviderAdapter, type LLMStreamChunk, type LLMToolDefinitions } from './llm-provider';
+import { resolveModelCapabilities } from './model-capabilities';
+import { CircuitBreaker, type CircuitBreakerOptions } from './circuit-breaker';
+import { LLMTranscript, TranscriptProvider, type LLMTransportOptions } from './llm-transport';
+import type { LLMResponseCache } from './llm-cache';
+import { getModelLimits, countTokens, countPromptTokens } from './tokenizer';
+import { toResponseSchema, toStructuredPromptMessages, parseStructuredOutput, buildRepairPrompt, isUnsupportedResponseFormatError } from './structured-output';
+
+export type { LLMStreamChunk, LLMToolDefinitions } from './llm-provider';
 
 // Try to import keytar, fallback to memory storage if not available
 // Define a minimal interface for keytar to avoid type issues
@@ -25,139 +35,309 @@ try {
 
 export interface LLMServiceOptions {
   onStream?: (chunk: string) => void;
+  /** Attempts per provider of the chain (0 or 1: no retries; default: 3) */
   maxRetries?: number;
+  /** Circuit breaker settings (each provider of the chain has its own breaker) */
+  circuitBreaker?: CircuitBreakerOptions;
+  /** Longest wait before retrying the same provider (ms); a longer Retry-After gives up on it */
+  maxRetryDelayMs?: number;
+  /** Record requests and responses to a file, or replay them from one instead of calling providers */
+  transport?: LLMTransportOptions;
+  /** Cache for generate() replies */
+  cache?: LLMResponseCache;
+}
+
+/**
+ * Per-request options
+ */
+export interface LLMRequestOptions {
+  /** Aborts the request and any pending retries */
+  signal?: AbortSignal;
+  /** Called when the request moves on to a fallback provider */
+  onFallback?: (event: LLMFallbackEvent) => void;
+  /** Called with the token usage once the request has been served (not for cached replies) */
+  onUsage?: (usage: LLMUsage) => void;
+  /** Set to false to skip the response cache */
+  cache?: boolean;
+  /** Workspace root the request is about, so recordings replay under another path */
+  workspace?: string;
+}
+
+/**
+ * Options of a structured request
+ */
+export interface LLMStructuredOptions extends LLMRequestOptions {
+  /** Name of the schema, for APIs that want one (default "response") */
+  name?: string;
+  /** Times an invalid reply is sent back to the model to fix (default 1) */
+  maxRepairs?: number;
+}
+
+/**
+ * Reply of a structured request
+ */
+export interface LLMStructuredResult<T> {
+  success: boolean;
+  /** The validated value (on success) */
+  data?: T;
+  /** Why the last reply failed validation (on failure) */
+  error?: string;
+  /** The last reply */
+  response: LLMResponse;
+}
+
+/**
+ * Token usage of a served request
+ */
+export interface LLMUsage {
+  /** Provider that served the request (a fallback's if the request fell back) */
+  provider: LLMProvider;
+  /** Configured model that served the request */
+  model: string;
+  tokens: LLMResponse['tokens'];
+  /** Counted locally because the provider reported no usage */
+  estimated: boolean;
+}
+
+/**
+ * A provider of the fallback chain
+ */
+interface LLMTarget {
+  config: LLMConfig;
+  provider: LLMProviderAdapter;
+  breaker: CircuitBreaker;
+}
+
+/**
+ * Name of a provider in logs and errors
+ */
+function providerLabel(config: LLMConfig): string {
+  return `${config.provider}/${config.model}`;
+}
+
+/**
+ * Whether retrying the same provider may help: rate limits, timeouts, server
+ * errors and errors without an HTTP status (network failures)
+ */
+function isRetryableError(error: unknown): boolean {
+  const status = (error as { status?: unknown } | null)?.status;
+  if (typeof status !== 'number') {
+    return true;
+  }
+  return status === 408 || status === 409 || status === 429 || status >= 500;
+}
+
+/**
+ * Delay an API error asks for in its retry-after-ms or Retry-After header
+ * (seconds or an HTTP date)
+ */
+export function getRetryAfterMs(error: unknown, now: number = Date.now()): number | undefined {
+  const headers = (error as { headers?: unknown } | null)?.headers;
+  if (!headers || typeof headers !== 'object') {
+    return undefined;
+  }
+  const header = (name: string): string | undefined => {
+    const value = typeof (headers as Headers).get === 'function'
+      ? (headers as Headers).get(name)
+      : (headers as Record<string, string | undefined>)[name];
+    return value?.trim() || undefined;
+  };
+
+  const milliseconds = header('retry-after-ms');
+  if (milliseconds !== undefined && Number.isFinite(Number(milliseconds))) {
+    return Math.max(0, Number(milliseconds));
+  }
+  const retryAfter = header('retry-after');
+  if (retryAfter === undefined) {
+    return undefined;
+  }
+  if (Number.isFinite(Number(retryAfter))) {
+    return Math.max(0, Number(retryAfter) * 1000);
+  }
+  const date = Date.parse(retryAfter);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
 }
 
 export class LLMService extends EventEmitter {
   private config: LLMConfig;
   private options: LLMServiceOptions;
-  private client: OpenAI | null = null;
+  private provider: LLMProviderAdapter | null = null;
+  /** The configured provider followed by its fallbacks */
+  private targets: LLMTarget[] = [];
+  /** Breakers by endpoint and model; kept across config updates */
+  private breakers: Map<string, CircuitBreaker> = new Map();
+  /** Recording file requests go through, if recording or replaying */
+  private transcript: LLMTranscript | null;
 
   constructor(config: LLMConfig, options: LLMServiceOptions = {}) {
     super();
     this.config = config;
-    this.options = { maxRetries: 3, ...options };
+    this.options = { maxRetries: 3, maxRetryDelayMs: 60000, ...options };
+    this.transcript = options.transport ? new LLMTranscript(options.transport) : null;
     this.initializeClient();
   }
 
   private initializeClient(): void {
-    const apiKey = this.config.apiKey || 'dummy-key';
-
-    // Determine base URL based on provider
-    let baseURL = this.config.baseUrl;
-    if (!baseURL) {
-      switch (this.config.provider) {
-        case 'glm':
-        case 'zhipu':
-          // GLM-4 API endpoint (compatible with OpenAI format)
-          baseURL = 'https://open.bigmodel.cn/api/paas/v4/';
-          break;
-        case 'openai':
-          baseURL = 'https://api.openai.com/v1';
-          break;
-        case 'ollama':
-          baseURL = 'http://localhost:11434/v1';
-          break;
-        default:
-          baseURL = 'https://api.openai.com/v1';
+    const { fallbacks = [], ...primary } = this.config;
+    // Fallbacks share the generation settings unless they set their own
+    const configs: LLMConfig[] = [
+      primary,
+      ...fallbacks.map(fallback => ({ temperature: primary.temperature, maxTokens: primary.maxTokens, ...fallback }))
+    ];
+
+    this.targets = configs.map(config => {
+      const key = `${config.provider}|${config.baseUrl || ''}|${config.model}`;
+      let breaker = this.breakers.get(key);
+      if (!breaker) {
+        breaker = new CircuitBreaker(this.options.circuitBreaker);
+        this.breakers.set(key, breaker);
       }
-    }
+      const provider = createLLMProvider(config);
+      return { config, provider: this.transcript ? new TranscriptProvider(provider, config, this.transcript) : provider, breaker };
+    });
+    this.provider = this.targets[0].provider;
+  }
 
-    // Check if running in development mode
-    const isDev = process.env.NODE_ENV === 'development' || !process.env.NODE_ENV;
+  async generate(messages: LLMMessage[], requestOptions: LLMRequestOptions = {}): Promise<LLMResponse> {
+    // Replays skip the cache so every recorded request is matched
+    const cache = requestOptions.cache === false || this.transcript?.mode === 'replay' ? undefined : this.options.cache;
+    const cached = await cache?.get(this.config, messages);
+    if (cached) {
+      return cached;
+    }
 
-    this.client = new OpenAI({
-      apiKey,
-      baseURL,
-      // Only allow browser in development mode for safety
-      // Note: In Electron main process, this flag has minimal effect
-      // but we keep it disabled in production for security best practices
-      dangerouslyAllowBrowser: isDev
-    });
+    let servedBy: LLMConfig | undefined;
+    const response = await this.withFallback(async (provider, config) => {
+      servedBy = config;
+      return this.reportUsage(await provider.complete(messages, { signal: requestOptions.signal, workspace: requestOptions.workspace }), messages, config, requestOptions);
+    }, requestOptions);
+    // Entries are keyed by the primary config, so a fallback's reply is not cached
+    if (servedBy === this.targets[0].config) {
+      await cache?.set(this.config, messages, response);
+    }
+    return response;
   }
 
-  async generate(messages: LLMMessage[]): Promise<LLMResponse> {
-    if (!this.client) {
-      throw new Error('LLM client not initialized');
+  async *generateStream(messages: LLMMessage[], requestOptions: LLMRequestOptions = {}): AsyncGenerator<string, LLMResponse> {
+    const stream = this.streamWithTools(messages, undefined, requestOptions);
+    for (;;) {
+      const next = await stream.next();
+      if (next.done) {
+        return next.value as LLMResponse;
+      }
+      const chunk = next.value as LLMStreamChunk;
+      if (chunk.type === 'text') {
+        yield chunk.delta;
+      }
     }
+  }
 
-    const maxRetries = this.options.maxRetries || 3;
-    let lastError: Error | null = null;
+  /**
+   * Generate with function calling support
+   */
+  async generateWithTools(
+    messages: LLMMessage[],
+    tools: LLMToolDefinitions,
+    requestOptions: LLMRequestOptions = {}
+  ): Promise<LLMResponse> {
+    return this.withFallback(
+      async (provider, config) => this.reportUsage(await provider.complete(messages, { tools, signal: requestOptions.signal, workspace: requestOptions.workspace }), messages, config, requestOptions),
+      requestOptions
+    );
+  }
 
-    for (let attempt = 0; attempt < maxRetries; attempt++) {
-      try {
-        const completion = await this.client.chat.completions.create({
-          model: this.config.model,
-          messages: messages as any,
-          temperature: this.config.temperature || 0.7,
-          max_tokens: this.config.maxTokens || 4096,
-        });
-
-        const choice = completion.choices[0];
-        return {
-          content: choice.message.content || '',
-          tokens: {
-            prompt: completion.usage?.prompt_tokens || 0,
-            completion: completion.usage?.completion_tokens || 0,
-            total: completion.usage?.total_tokens || 0
-          },
-          model: completion.model,
-          finishReason: (choice.finish_reason as 'stop' | 'length' | 'content_filter') || 'stop'
+  /**
+   * Generate a reply matching a zod schema. Models with a JSON mode get the
+   * schema as the API's response format, others are asked for JSON in the
+   * system prompt (as are models that reject the response format). A reply
+   * that fails validation is sent back with the problems for the model to
+   * fix, up to `maxRepairs` times.
+   */
+  async generateStructured<T>(
+    messages: LLMMessage[],
+    schema: z.ZodType<T>,
+    requestOptions: LLMStructuredOptions = {}
+  ): Promise<LLMStructuredResult<T>> {
+    const jsonSchema = toResponseSchema(schema);
+    const responseFormat = { name: requestOptions.name || 'response', schema: jsonSchema };
+    const maxRepairs = requestOptions.maxRepairs ?? 1;
+    // Models that turned out to reject the native response format
+    const promptOnly = new Set<string>();
+    let history = messages;
+
+    for (let repairs = 0; ; repairs++) {
+      // Decided per provider, since a fallback may lack the primary's JSON mode
+      const response = await this.withFallback(async (provider, config) => {
+        const send = async (native: boolean) => {
+          const request = native ? history : toStructuredPromptMessages(history, jsonSchema);
+          const reply = await provider.complete(request, {
+            responseFormat: native ? responseFormat : undefined,
+            signal: requestOptions.signal,
+            workspace: requestOptions.workspace
+          });
+          return this.reportUsage(reply, request, config, requestOptions);
         };
-      } catch (error) {
-        lastError = error as Error;
-        console.error(`LLM API call failed (attempt ${attempt + 1}/${maxRetries}):`, error);
 
-        if (attempt < maxRetries - 1) {
-          // Exponential backoff
-          await new Promise(resolve => setTimeout(resolve, Math.pow(2, attempt) * 1000));
+        const model = `${config.provider}/${config.model}`;
+        if (!resolveModelCapabilities(config).jsonMode || promptOnly.has(model)) {
+          return send(false);
         }
+        try {
+          return await send(true);
+        } catch (error) {
+          if (!isUnsupportedResponseFormatError(error)) {
+            throw error;
+          }
+          promptOnly.add(model);
+          return send(false);
+        }
+      }, requestOptions);
+
+      const parsed = parseStructuredOutput(response.content, schema);
+      if ('data' in parsed) {
+        return { success: true, data: parsed.data, response };
+      }
+      if (repairs >= maxRepairs) {
+        return { success: false, error: parsed.error, response };
       }
+      history = [
+        ...history,
+        { role: 'assistant', content: response.content },
+        { role: 'user', content: buildRepairPrompt(parsed.error) }
+      ];
     }
-
-    throw new Error(`LLM service failed after ${maxRetries} attempts: ${lastError?.message}`);
   }
 
-  async *generateStream(messages: LLMMessage[]): AsyncGenerator<string, LLMResponse> {
-    if (!this.client) {
-      throw new Error('LLM client not initialized');
-    }
+  /**
+   * Stream a completion with function calling support. Yields text and
+   * tool-call deltas as they arrive; returns the full response with the tool
+   * calls put together from their chunks.
+   */
+  async *streamWithTools(
+    messages: LLMMessage[],
+    tools: LLMToolDefinitions | undefined,
+    requestOptions: LLMRequestOptions = {}
+  ): AsyncGenerator<LLMStreamChunk, LLMResponse> {
+    // Retries and fallbacks only happen until the first chunk arrives; after
+    // that part of the reply has already been passed on
+    const { stream, first, config } = await this.withFallback(async (provider, config) => {
+      const stream = provider.stream(messages, { tools, signal: requestOptions.signal, workspace: requestOptions.workspace });
+      return { stream, first: await stream.next(), config };
+    }, requestOptions);
 
     try {
-      const stream = await this.client.chat.completions.create({
-        model: this.config.model,
-        messages: messages as any,
-        temperature: this.config.temperature || 0.7,
-        max_tokens: this.config.maxTokens || 4096,
-        stream: true,
-      });
-
-      let fullContent = '';
-      let promptTokens = 0;
-      let completionTokens = 0;
-
-      for await (const chunk of stream) {
-        const delta = chunk.choices[0]?.delta?.content || '';
-        if (delta) {
-          fullContent += delta;
-          yield delta;
-
-          if (this.options.onStream) {
-            this.options.onStream(delta);
-          }
+      let next = first;
+      for (;;) {
+        if (next.done) {
+          return this.reportUsage(next.value as LLMResponse, messages, config, requestOptions);
         }
+        const chunk = next.value as LLMStreamChunk;
+        if (chunk.type === 'text' && this.options.onStream) {
+          this.options.onStream(chunk.delta);
+        }
+        yield chunk;
+        next = await stream.next();
       }
-
-      return {
-        content: fullContent,
-        tokens: {
-          prompt: promptTokens,
-          completion: completionTokens,
-          total: promptTokens + completionTokens
-        },
-        model: this.config.model,
-        finishReason: 'stop'
-      };
     } catch (error) {
       console.error('LLM stream failed:', error);
       throw error;
@@ -165,59 +345,128 @@ export class LLMService extends EventEmitter {
   }
 
   /**
-   * Generate with function calling support
+   * Send a request through the provider chain. A provider is retried on
+   * transient errors (waiting as long as Retry-After asks), and given up on
+   * for the next one when its error is not transient, its retries run out or
+   * its circuit opens.
    */
-  async generateWithTools(
-    messages: LLMMessage[],
-    tools: Array<{
-      type: 'function';
-      function: {
-        name: string;
-        description: string;
-        parameters: Record<string, unknown>;
-      };
-    }>
-  ): Promise<LLMResponse & { toolCalls?: any[] }> {
-    if (!this.client) {
+  private async withFallback<T>(
+    request: (provider: LLMProviderAdapter, config: LLMConfig) => Promise<T>,
+    requestOptions: LLMRequestOptions
+  ): Promise<T> {
+    if (this.targets.length === 0) {
       throw new Error('LLM client not initialized');
     }
 
-    try {
-      // Transform messages to support multimodal content
-      const apiMessages = messages.map(msg => {
-        // If content is an array (multimodal), keep it as is
-        // The OpenAI SDK supports content arrays with text and image_url
-        return {
-          role: msg.role,
-          content: msg.content
-        };
-      });
-
-      const completion = await this.client.chat.completions.create({
-        model: this.config.model,
-        messages: apiMessages as any,
-        tools: tools as any,
-        tool_choice: 'auto',
-        temperature: this.config.temperature || 0.7,
-        max_tokens: this.config.maxTokens || 4096,
-      });
-
-      const choice = completion.choices[0];
-      return {
-        content: choice.message.content || '',
-        tokens: {
-          prompt: completion.usage?.prompt_tokens || 0,
-          completion: completion.usage?.completion_tokens || 0,
-          total: completion.usage?.total_tokens || 0
-        },
-        model: completion.model,
-        finishReason: (choice.finish_reason as 'stop' | 'length' | 'content_filter') || 'stop',
-        toolCalls: choice.message.tool_calls
-      };
-    } catch (error) {
-      console.error('LLM API call with tools failed:', error);
-      throw error;
+    // Every provider is tried at least once, so 0 also means no retries
+    const maxRetries = Math.max(1, this.options.maxRetries ?? 3);
+    let attempts = 0;
+    let lastError: Error | null = null;
+    let givenUp: { target: LLMTarget; reason: string } | null = null;
+
+    for (let index = 0; index < this.targets.length; index++) {
+      const target = this.targets[index];
+      const isLast = index === this.targets.length - 1;
+
+      if (!target.breaker.allowRequest()) {
+        givenUp = { target, reason: `circuit open until ${new Date(target.breaker.getRetryAt()).toISOString()}` };
+        continue;
+      }
+      if (givenUp) {
+        this.recordFallback(givenUp.target.config, target.config, givenUp.reason, requestOptions);
+      }
+
+      for (let attempt = 0; attempt < maxRetries; attempt++) {
+        attempts++;
+        try {
+          const result = await request(target.provider, target.config);
+          target.breaker.recordSuccess();
+          return result;
+        } catch (error) {
+          // Aborted requests are not retried
+          if (requestOptions.signal?.aborted) {
+            throw error;
+          }
+
+          lastError = error as Error;
+          console.error(`LLM API call to ${providerLabel(target.config)} failed (attempt ${attempt + 1}/${maxRetries}):`, error);
+
+          const retryable = isRetryableError(error);
+          const retryAfterMs = getRetryAfterMs(error);
+          if (retryable) {
+            target.breaker.recordFailure(retryAfterMs);
+          }
+
+          // Exponential backoff unless the provider said how long to wait
+          const wait = retryAfterMs ?? Math.pow(2, attempt) * 1000;
+          const retry = retryable &&
+            attempt < maxRetries - 1 &&
+            wait <= this.options.maxRetryDelayMs! &&
+            (isLast || target.breaker.allowRequest());
+          if (!retry) {
+            break;
+          }
+          await this.delay(wait, requestOptions.signal);
+        }
+      }
+
+      givenUp = { target, reason: lastError?.message || 'request failed' };
+    }
+
+    if (attempts === 0) {
+      throw new Error(`No LLM provider available: ${givenUp?.reason}`);
+    }
+    throw new Error(`LLM service failed after ${attempts} attempts: ${lastError?.message}`);
+  }
+
+  /**
+   * Report a served request's usage; usage the provider left out (some
+   * OpenAI-compatible servers send none when streaming) is counted locally
+   */
+  private reportUsage(response: LLMResponse, messages: LLMMessage[], config: LLMConfig, requestOptions: LLMRequestOptions): LLMResponse {
+    const estimated = !response.tokens || response.tokens.total === 0;
+    if (estimated) {
+      const { encoding } = getModelLimits(config.model);
+      const prompt = countPromptTokens(messages, encoding);
+      const output = response.content + (response.toolCalls ?? []).map(call => call.function.name + call.function.arguments).join('');
+      const completion = countTokens(output, encoding);
+      response = { ...response, tokens: { prompt, completion, total: prompt + completion } };
     }
+
+    requestOptions.onUsage?.({ provider: config.provider, model: config.model, tokens: response.tokens, estimated });
+    return response;
+  }
+
+  /**
+   * Report a switch to the next provider of the chain
+   */
+  private recordFallback(from: LLMConfig, to: LLMConfig, reason: string, requestOptions: LLMRequestOptions): void {
+    const event: LLMFallbackEvent = {
+      from: { provider: from.provider, model: from.model },
+      to: { provider: to.provider, model: to.model },
+      reason,
+      timestamp: Date.now()
+    };
+    console.warn(`Falling back from ${providerLabel(from)} to ${providerLabel(to)}: ${reason}`);
+    this.emit('fallback', event);
+    requestOptions.onFallback?.(event);
+  }
+
+  /**
+   * Wait between retries; rejects early if the request is aborted
+   */
+  private delay(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(new Error('Request aborted'));
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, ms);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
   }
 
   updateConfig(config: Partial<LLMConfig>): void {
@@ -230,10 +479,33 @@ export class LLMService extends EventEmitter {
   }
 
   /**
-   * Check if the service is properly configured
+   * Response cache statistics, or null if the service has no cache
+   */
+  async getCacheStats(): Promise<LLMCacheStats | null> {
+    return this.options.cache ? this.options.cache.getStats() : null;
+  }
+
+  /**
+   * Empty the response cache
+   */
+  async clearCache(): Promise<void> {
+    await this.options.cache?.clear();
+  }
+
+  /**
+   * What the configured model supports
+   */
+  getCapabilities(): ModelCapabilities {
+    return resolveModelCapabilities(this.config);
+  }
+
+  /**
+   * Check if the service is properly configured (a local Ollama server and
+   * replayed recordings need no key)
    */
   isConfigured(): boolean {
-    return !!this.client && !!this.config.apiKey;
+    return !!this.provider &&
+      (!!this.config.apiKey || this.config.provider === 'ollama' || this.options.transport?.mode === 'replay');
   }
 }
 
@@ -257,6 +529,16 @@ export class APIKeyManager {
     return keytar !== null;
   }
 
+  /**
+   * Store an API key under a new id
+   * @returns The id configs use to refer to the key (LLMConfig.apiKeyRef)
+   */
+  static async addKey(provider: string, key: string): Promise<string> {
+    const keyRef = `${provider}-${uuidv4()}`;
+    await APIKeyManager.storeKey(keyRef, key);
+    return keyRef;
+  }
+
   /**
    * Store an API key securely
    */
@@ -373,6 +655,41 @@ export class APIKeyManager {
   }
 }
 
+/**
+ * Fill in the API keys a config (and its fallbacks) refers to by apiKeyRef
+ * @throws Error if a referenced key is not stored
+ */
+export async function resolveAPIKeys(config: LLMConfig): Promise<LLMConfig> {
+  const resolve = async <T extends LLMFallbackConfig>(entry: T): Promise<T> => {
+    if (!entry.apiKeyRef) {
+      return entry;
+    }
+    const apiKey = await APIKeyManager.getKey(entry.apiKeyRef);
+    if (!apiKey) {
+      throw new Error(`No API key stored for "${entry.apiKeyRef}"`);
+    }
+    return { ...entry, apiKey };
+  };
+
+  const resolved = await resolve(config);
+  if (config.fallbacks) {
+    resolved.fallbacks = await Promise.all(config.fallbacks.map(resolve));
+  }
+  return resolved;
+}
+
+/**
+ * A config without its API keys, safe to send to the renderer
+ */
+export function redactLLMConfig(config: LLMConfig): LLMConfig {
+  const { apiKey: _apiKey, fallbacks, ...rest } = config;
+  const redacted: LLMConfig = { ...rest };
+  if (fallbacks) {
+    redacted.fallbacks = fallbacks.map(({ apiKey: _fallbackKey, ...fallback }) => fallback);
+  }
+  return redacted;
+}
+
 export async function createLLMService(config: LLMConfig, options?: LLMServiceOptions): Promise<LLMService> {
   return new LLMService(config, options);
 }
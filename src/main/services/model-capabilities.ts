@@ -0,0 +1,149 @@
+/**
+ * Model Capabilities
+ * Registry of what each model supports (vision, native tools, JSON mode,
+ * context length), so callers can adapt requests to the configured model
+ */
+
+import type { LLMConfig, LocalModelInfo, ModelCapabilities } from '../../shared/types';
+import { getModelLimits } from './tokenizer';
+
+/**
+ * Capabilities assumed for unknown models: text only, native tools
+ */
+export const DEFAULT_MODEL_CAPABILITIES: Omit<ModelCapabilities, 'contextWindow'> = {
+  vision: false,
+  tools: true,
+  jsonMode: false,
+  streamUsage: false
+};
+
+/**
+ * Known models by name prefix; the longest matching prefix wins. Context
+ * windows come from the tokenizer's limits unless given here. jsonMode means
+ * JSON Schema output, so models with only a plain JSON mode are left out.
+ * streamUsage is only claimed for OpenAI's models, since compatible servers
+ * such as GLM's reject stream_options.
+ */
+const BUILTIN_CAPABILITIES: Array<[prefix: string, capabilities: Partial<ModelCapabilities>]> = [
+  ['gpt-5', { vision: true, tools: true, jsonMode: true, streamUsage: true }],
+  ['gpt-4.1', { vision: true, tools: true, jsonMode: true, streamUsage: true }],
+  ['gpt-4o', { vision: true, tools: true, jsonMode: true, streamUsage: true }],
+  ['gpt-4-turbo', { vision: true, tools: true, jsonMode: false, streamUsage: true }],
+  ['gpt-4', { vision: false, tools: true, jsonMode: false, streamUsage: true }],
+  ['gpt-3.5-turbo', { vision: false, tools: true, jsonMode: false, streamUsage: true }],
+  ['o1', { vision: true, tools: true, jsonMode: true, streamUsage: true }],
+  ['o1-mini', { vision: false, tools: false, jsonMode: false, streamUsage: true }],
+  ['o1-preview', { vision: false, tools: false, jsonMode: false, streamUsage: true }],
+  ['o3', { vision: true, tools: true, jsonMode: true, streamUsage: true }],
+  ['o3-mini', { vision: false, tools: true, jsonMode: true, streamUsage: true }],
+  ['o4', { vision: true, tools: true, jsonMode: true, streamUsage: true }],
+  ['claude', { vision: true, tools: true, jsonMode: false }],
+  ['glm-4', { vision: false, tools: true, jsonMode: false }],
+  ['glm-4v', { vision: true, tools: false, jsonMode: false }],
+  ['llama2', { vision: false, tools: false, jsonMode: true }],
+  ['llama3', { vision: false, tools: false, jsonMode: true }],
+  ['llama3.1', { vision: false, tools: true, jsonMode: true }],
+  ['llama3.2', { vision: false, tools: true, jsonMode: true }],
+  ['llama3.2-vision', { vision: true, tools: false, jsonMode: true }],
+  ['llama3.3', { vision: false, tools: true, jsonMode: true }],
+  ['llava', { vision: true, tools: false, jsonMode: true }],
+  ['qwen', { vision: false, tools: false, jsonMode: true }],
+  ['qwen2.5', { vision: false, tools: true, jsonMode: true }],
+  ['qwen2.5vl', { vision: true, tools: false, jsonMode: true }],
+  ['qwen3', { vision: false, tools: true, jsonMode: true }],
+  ['mistral', { vision: false, tools: true, jsonMode: true }],
+  ['deepseek-r1', { vision: false, tools: false, jsonMode: true }],
+  ['deepseek-v3', { vision: false, tools: true, jsonMode: true }],
+  ['gemma', { vision: false, tools: false, jsonMode: true }],
+  ['gemma3', { vision: true, tools: false, jsonMode: true }],
+  ['phi', { vision: false, tools: false, jsonMode: true }]
+];
+
+/**
+ * Model Capability Registry
+ */
+export class ModelCapabilityRegistry {
+  private entries: Map<string, Partial<ModelCapabilities>> = new Map();
+
+  constructor(entries: Array<[string, Partial<ModelCapabilities>]> = BUILTIN_CAPABILITIES) {
+    entries.forEach(([prefix, capabilities]) => this.register(prefix, capabilities));
+  }
+
+  /**
+   * Register (or extend) the capabilities of models whose name starts with a prefix
+   */
+  register(prefix: string, capabilities: Partial<ModelCapabilities>): void {
+    const key = prefix.toLowerCase();
+    this.entries.set(key, { ...this.entries.get(key), ...capabilities });
+  }
+
+  /**
+   * Look up a model's capabilities (provider prefixes such as "openai/" are ignored)
+   */
+  get(model: string): ModelCapabilities {
+    const name = model.toLowerCase().split('/').pop() || '';
+    let match: Partial<ModelCapabilities> = {};
+    let matchLength = -1;
+    for (const [prefix, capabilities] of this.entries) {
+      if (name.startsWith(prefix) && prefix.length > matchLength) {
+        match = capabilities;
+        matchLength = prefix.length;
+      }
+    }
+
+    return {
+      ...DEFAULT_MODEL_CAPABILITIES,
+      contextWindow: getModelLimits(model).contextWindow,
+      ...match
+    };
+  }
+}
+
+/**
+ * Shared registry with the built-in models
+ */
+export const modelCapabilities = new ModelCapabilityRegistry();
+
+/**
+ * Capabilities of a configured model: the registry's, with the config's overrides
+ */
+export function resolveModelCapabilities(config: Pick<LLMConfig, 'model' | 'capabilities'>): ModelCapabilities {
+  return { ...modelCapabilities.get(config.model), ...config.capabilities };
+}
+
+/**
+ * Context length Ollama allocates when the config sets none. Models often
+ * accept far more, but Ollama sizes its KV cache to whatever is requested.
+ */
+export const DEFAULT_OLLAMA_CONTEXT_LENGTH = 8192;
+
+/**
+ * Context length prompts are budgeted for and, for Ollama, sent as num_ctx:
+ * the config's contextLength (Ollama's default if unset), capped at the
+ * model's context window
+ */
+export function resolveContextLength(config: Pick<LLMConfig, 'provider' | 'model' | 'capabilities' | 'contextLength'>): number {
+  const { contextWindow } = resolveModelCapabilities(config);
+  const requested = config.contextLength ?? (config.provider === 'ollama' ? DEFAULT_OLLAMA_CONTEXT_LENGTH : undefined);
+  return requested ? Math.min(requested, contextWindow) : contextWindow;
+}
+
+/**
+ * Record what discovered local models support in the shared registry, under
+ * their tag and, for ":latest" tags, their bare name
+ */
+export function registerLocalModels(models: LocalModelInfo[]): void {
+  for (const model of models) {
+    const capabilities: Partial<ModelCapabilities> = { vision: model.vision };
+    if (model.tools !== undefined) {
+      capabilities.tools = model.tools;
+    }
+    if (model.contextLength) {
+      capabilities.contextWindow = model.contextLength;
+    }
+    modelCapabilities.register(model.name, capabilities);
+    if (model.name.endsWith(':latest')) {
+      modelCapabilities.register(model.name.slice(0, -':latest'.length), capabilities);
+    }
+  }
+}
@@ -0,0 +1,349 @@
+/**
+ * Ollama Provider
+ * Native Ollama API adapter: chat through /api/chat (streamed as NDJSON),
+ * discovery of installed models with their context length and vision
+ * support, and model downloads with progress
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import type { LLMConfig, LLMMessage, LLMResponse, LLMToolCall, ContentBlock, LocalModelInfo, ModelPullProgress } from '../../shared/types';
+import type { LLMProviderAdapter, LLMProviderRequest, LLMStreamChunk } from './llm-provider';
+import { parseLenientJson } from '../utils/json-repair';
+import { resolveContextLength } from './model-capabilities';
+
+export const DEFAULT_OLLAMA_URL = 'http://localhost:11434';
+
+/**
+ * Message in Ollama's chat format
+ */
+interface OllamaMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string;
+  /** Base64 images (without the data URL prefix) */
+  images?: string[];
+  tool_calls?: Array<{ function: { name: string; arguments: Record<string, unknown> } }>;
+  /** Tool a result answers */
+  tool_name?: string;
+}
+
+/**
+ * Chat response, or one line of a streamed chat response
+ */
+interface OllamaChatResponse {
+  model?: string;
+  message?: { content?: string; tool_calls?: Array<{ function: { name: string; arguments: unknown } }> };
+  done?: boolean;
+  done_reason?: string;
+  prompt_eval_count?: number;
+  eval_count?: number;
+  error?: string;
+}
+
+/**
+ * Server root for a configured base URL; the OpenAI-compatible /v1 suffix
+ * older configs point at is dropped
+ */
+export function ollamaRoot(baseUrl?: string): string {
+  return (baseUrl || DEFAULT_OLLAMA_URL).replace(/\/+$/, '').replace(/\/v1$/, '');
+}
+
+/**
+ * Convert messages to Ollama's format: text content is joined, data URL
+ * images go to `images`, tool call arguments are sent as objects and tool
+ * results name the tool they answer
+ */
+export function toOllamaMessages(messages: LLMMessage[]): OllamaMessage[] {
+  const toolNames = new Map<string, string>();
+
+  return messages.map(msg => {
+    const text: string[] = [];
+    const images: string[] = [];
+    const blocks: ContentBlock[] = typeof msg.content === 'string' ? [{ type: 'text', text: msg.content }] : msg.content;
+    for (const block of blocks) {
+      if (block.type === 'text') {
+        text.push(block.text);
+      } else if (block.type === 'image_url') {
+        const dataUrl = block.image_url.url.match(/^data:image\/[\w+.-]+;base64,(.*)$/s);
+        if (dataUrl) {
+          images.push(dataUrl[1]);
+        } else {
+          text.push(`[Image: ${block.image_url.url}]`);
+        }
+      } else {
+        text.push(`[Attached file: ${block.file.name} (${block.file.size} bytes), content not included]`);
+      }
+    }
+
+    const converted: OllamaMessage = { role: msg.role, content: text.filter(Boolean).join('\n') };
+    if (images.length > 0) {
+      converted.images = images;
+    }
+    if (msg.role === 'assistant' && msg.tool_calls && msg.tool_calls.length > 0) {
+      converted.tool_calls = msg.tool_calls.map(call => {
+        toolNames.set(call.id, call.function.name);
+        let args: unknown;
+        try {
+          args = call.function.arguments.trim() ? parseLenientJson(call.function.arguments) : {};
+        } catch {
+          args = {};
+        }
+        return { function: { name: call.function.name, arguments: (args ?? {}) as Record<string, unknown> } };
+      });
+    }
+    if (msg.role === 'tool' && msg.tool_call_id && toolNames.has(msg.tool_call_id)) {
+      converted.tool_name = toolNames.get(msg.tool_call_id);
+    }
+    return converted;
+  });
+}
+
+/**
+ * Tool call in our format (Ollama sends no call ids)
+ */
+function toToolCall(call: { function: { name: string; arguments: unknown } }): LLMToolCall {
+  const args = call.function.arguments;
+  return {
+    id: `call_${uuidv4()}`,
+    type: 'function',
+    function: { name: call.function.name, arguments: typeof args === 'string' ? args : JSON.stringify(args ?? {}) }
+  };
+}
+
+/**
+ * Map an Ollama done reason to ours
+ */
+function toFinishReason(reason: string | undefined): LLMResponse['finishReason'] {
+  return reason === 'length' ? 'length' : 'stop';
+}
+
+/**
+ * Error for a failed HTTP response, with the status and headers LLMService
+ * uses to decide on retries
+ */
+async function responseError(response: Response, action: string): Promise<Error> {
+  let message = response.statusText;
+  try {
+    const body = await response.text();
+    message = (JSON.parse(body) as { error?: string }).error || body || message;
+  } catch {
+    // Keep the status text
+  }
+  return Object.assign(new Error(`Ollama ${action} failed (${response.status}): ${message}`), {
+    status: response.status,
+    headers: response.headers
+  });
+}
+
+/**
+ * Parse a newline-delimited JSON body line by line
+ */
+async function* readJsonLines<T>(body: ReadableStream<Uint8Array>): AsyncGenerator<T> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = done ? '' : lines.pop()!;
+      for (const line of lines) {
+        if (line.trim()) {
+          yield JSON.parse(line) as T;
+        }
+      }
+      if (done) {
+        return;
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Ollama provider
+ */
+export class OllamaProvider implements LLMProviderAdapter {
+  private config: LLMConfig;
+  private root: string;
+
+  constructor(config: LLMConfig) {
+    this.config = config;
+    this.root = ollamaRoot(config.baseUrl);
+  }
+
+  /**
+   * POST a JSON body to the server
+   */
+  private async post(endpoint: string, body: unknown, signal?: AbortSignal): Promise<Response> {
+    const response = await fetch(`${this.root}${endpoint}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+      signal
+    });
+    if (!response.ok) {
+      throw await responseError(response, endpoint);
+    }
+    return response;
+  }
+
+  /**
+   * Request body shared by plain and streaming calls. The context length is
+   * the one prompts are budgeted for (the config's, capped at the model's
+   * window); Ollama would otherwise cut prompts to its small default.
+   */
+  private body(messages: LLMMessage[], request: LLMProviderRequest, stream: boolean) {
+    return {
+      model: this.config.model,
+      messages: toOllamaMessages(messages),
+      ...(request.tools && request.tools.length > 0 && { tools: request.tools }),
+      ...(request.responseFormat && { format: request.responseFormat.schema }),
+      stream,
+      options: {
+        temperature: this.config.temperature ?? 0.7,
+        num_ctx: resolveContextLength(this.config),
+        ...(this.config.maxTokens && { num_predict: this.config.maxTokens })
+      }
+    };
+  }
+
+  async complete(messages: LLMMessage[], request: LLMProviderRequest): Promise<LLMResponse> {
+    const response = await this.post('/api/chat', this.body(messages, request, false), request.signal);
+    const result = await response.json() as OllamaChatResponse;
+    if (result.error) {
+      throw new Error(`Ollama /api/chat failed: ${result.error}`);
+    }
+
+    const toolCalls = (result.message?.tool_calls ?? []).map(toToolCall);
+    const prompt = result.prompt_eval_count ?? 0;
+    const completion = result.eval_count ?? 0;
+    return {
+      content: result.message?.content ?? '',
+      tokens: { prompt, completion, total: prompt + completion },
+      model: result.model || this.config.model,
+      finishReason: toFinishReason(result.done_reason),
+      toolCalls: toolCalls.length > 0 ? toolCalls : undefined
+    };
+  }
+
+  async *stream(messages: LLMMessage[], request: LLMProviderRequest): AsyncGenerator<LLMStreamChunk, LLMResponse> {
+    const response = await this.post('/api/chat', this.body(messages, request, true), request.signal);
+
+    let content = '';
+    let model = this.config.model;
+    let finishReason: LLMResponse['finishReason'] = 'stop';
+    let prompt = 0;
+    let completion = 0;
+    const toolCalls: LLMToolCall[] = [];
+
+    for await (const chunk of readJsonLines<OllamaChatResponse>(response.body!)) {
+      if (chunk.error) {
+        throw new Error(`Ollama /api/chat failed: ${chunk.error}`);
+      }
+      model = chunk.model || model;
+
+      if (chunk.message?.content) {
+        content += chunk.message.content;
+        yield { type: 'text', delta: chunk.message.content };
+      }
+
+      // Ollama sends each tool call whole, in a single chunk
+      for (const call of chunk.message?.tool_calls ?? []) {
+        const toolCall = toToolCall(call);
+        const index = toolCalls.length;
+        toolCalls.push(toolCall);
+        yield { type: 'tool_call', index, id: toolCall.id, name: toolCall.function.name, argumentsDelta: toolCall.function.arguments };
+      }
+
+      if (chunk.done) {
+        finishReason = toFinishReason(chunk.done_reason);
+        prompt = chunk.prompt_eval_count ?? 0;
+        completion = chunk.eval_count ?? 0;
+      }
+    }
+
+    return {
+      content,
+      tokens: { prompt, completion, total: prompt + completion },
+      model,
+      finishReason,
+      toolCalls: toolCalls.length > 0 ? toolCalls : undefined
+    };
+  }
+
+  /**
+   * Models installed on the server, with what each supports (from /api/show)
+   */
+  async listModels(signal?: AbortSignal): Promise<LocalModelInfo[]> {
+    const response = await fetch(`${this.root}/api/tags`, { signal });
+    if (!response.ok) {
+      throw await responseError(response, '/api/tags');
+    }
+    const { models = [] } = await response.json() as {
+      models?: Array<{
+        name: string;
+        size: number;
+        modified_at: string;
+        details?: { family?: string; parameter_size?: string; quantization_level?: string };
+      }>;
+    };
+
+    return Promise.all(models.map(async (entry): Promise<LocalModelInfo> => {
+      const info: LocalModelInfo = {
+        name: entry.name,
+        size: entry.size,
+        modifiedAt: entry.modified_at,
+        family: entry.details?.family,
+        parameterSize: entry.details?.parameter_size,
+        quantization: entry.details?.quantization_level,
+        vision: false
+      };
+
+      try {
+        const show = await (await this.post('/api/show', { model: entry.name }, signal)).json() as {
+          capabilities?: string[];
+          model_info?: Record<string, unknown>;
+          projector_info?: Record<string, unknown>;
+          details?: { families?: string[] };
+        };
+        const contextKey = Object.keys(show.model_info ?? {}).find(key => key.endsWith('.context_length'));
+        if (contextKey) {
+          info.contextLength = Number(show.model_info![contextKey]);
+        }
+        // Older servers list no capabilities; a vision projector gives images away
+        info.vision = show.capabilities?.includes('vision') ??
+          (!!show.projector_info || (show.details?.families ?? []).some(family => family === 'clip' || family === 'mllama'));
+        if (show.capabilities) {
+          info.tools = show.capabilities.includes('tools');
+        }
+      } catch (error) {
+        console.warn(`Failed to read details of Ollama model ${entry.name}:`, error);
+      }
+      return info;
+    }));
+  }
+
+  /**
+   * Download a model, reporting progress as the server streams it
+   * @throws Error if the server reports a failure
+   */
+  async pullModel(model: string, onProgress?: (progress: ModelPullProgress) => void, signal?: AbortSignal): Promise<void> {
+    const response = await this.post('/api/pull', { model, stream: true }, signal);
+
+    for await (const line of readJsonLines<{ status?: string; total?: number; completed?: number; error?: string }>(response.body!)) {
+      if (line.error) {
+        throw new Error(`Failed to pull ${model}: ${line.error}`);
+      }
+      const progress: ModelPullProgress = { model, status: line.status ?? '' };
+      if (line.total) {
+        progress.total = line.total;
+        progress.completed = line.completed ?? 0;
+        progress.percent = Math.round((progress.completed / line.total) * 100);
+      }
+      onProgress?.(progress);
+    }
+  }
+}
@@ -0,0 +1,173 @@
+/**
+ * OpenAI Provider
+ * Chat Completions adapter for OpenAI and compatible APIs (GLM-4, Ollama's /v1)
+ */
+
+import OpenAI from 'openai';
+import type { LLMConfig, LLMMessage, LLMResponse, LLMToolCall } from '../../shared/types';
+import type { LLMProviderAdapter, LLMProviderRequest, LLMStreamChunk } from './llm-provider';
+import { resolveModelCapabilities } from './model-capabilities';
+
+/**
+ * Default endpoint per provider
+ */
+function defaultBaseURL(provider: LLMConfig['provider']): string {
+  switch (provider) {
+    case 'glm':
+    case 'zhipu':
+      // GLM-4 API endpoint (compatible with OpenAI format)
+      return 'https://open.bigmodel.cn/api/paas/v4/';
+    case 'ollama':
+      return 'http://localhost:11434/v1';
+    default:
+      return 'https://api.openai.com/v1';
+  }
+}
+
+/**
+ * Convert messages to the chat completions format: assistant messages keep
+ * their tool calls and tool results go out as `tool` messages answering them
+ */
+function toAPIMessages(messages: LLMMessage[]): Array<Record<string, unknown>> {
+  return messages.map(msg => {
+    if (msg.role === 'tool') {
+      return { role: 'tool', tool_call_id: msg.tool_call_id, content: msg.content };
+    }
+    if (msg.role === 'assistant' && msg.tool_calls && msg.tool_calls.length > 0) {
+      return { role: 'assistant', content: msg.content || null, tool_calls: msg.tool_calls };
+    }
+    // Multimodal content arrays (text and image_url) are passed as is
+    return { role: msg.role, content: msg.content };
+  });
+}
+
+/**
+ * Map a chat completions finish reason to ours (tool calls count as a normal stop)
+ */
+function toFinishReason(reason: string | null | undefined): LLMResponse['finishReason'] {
+  return reason === 'length' || reason === 'content_filter' ? reason : 'stop';
+}
+
+/**
+ * OpenAI-compatible provider
+ */
+export class OpenAIProvider implements LLMProviderAdapter {
+  private config: LLMConfig;
+  private client: OpenAI;
+
+  constructor(config: LLMConfig) {
+    this.config = config;
+
+    // Check if running in development mode
+    const isDev = process.env.NODE_ENV === 'development' || !process.env.NODE_ENV;
+
+    this.client = new OpenAI({
+      apiKey: config.apiKey || 'dummy-key',
+      baseURL: config.baseUrl || defaultBaseURL(config.provider),
+      // LLMService retries and falls back itself
+      maxRetries: 0,
+      // Only allow browser in development mode for safety
+      // Note: In Electron main process, this flag has minimal effect
+      // but we keep it disabled in production for security best practices
+      dangerouslyAllowBrowser: isDev
+    });
+  }
+
+  /**
+   * Request body shared by plain and streaming calls
+   */
+  private body(messages: LLMMessage[], request: LLMProviderRequest) {
+    return {
+      model: this.config.model,
+      messages: toAPIMessages(messages) as any,
+      ...(request.tools && { tools: request.tools as any, tool_choice: 'auto' as const }),
+      ...(request.responseFormat && {
+        response_format: {
+          type: 'json_schema' as const,
+          // Not strict: strict mode rejects schemas with optional properties
+          json_schema: { name: request.responseFormat.name, schema: request.responseFormat.schema, strict: false }
+        }
+      }),
+      temperature: this.config.temperature ?? 0.7,
+      max_tokens: this.config.maxTokens || 4096
+    };
+  }
+
+  async complete(messages: LLMMessage[], request: LLMProviderRequest): Promise<LLMResponse> {
+    const completion = await this.client.chat.completions.create(this.body(messages, request), { signal: request.signal });
+
+    const choice = completion.choices[0];
+    return {
+      content: choice.message.content || '',
+      tokens: {
+        prompt: completion.usage?.prompt_tokens || 0,
+        completion: completion.usage?.completion_tokens || 0,
+        total: completion.usage?.total_tokens || 0
+      },
+      model: completion.model,
+      finishReason: toFinishReason(choice.finish_reason),
+      toolCalls: choice.message.tool_calls as LLMToolCall[] | undefined
+    };
+  }
+
+  async *stream(messages: LLMMessage[], request: LLMProviderRequest): AsyncGenerator<LLMStreamChunk, LLMResponse> {
+    const stream = await this.client.chat.completions.create({
+      ...this.body(messages, request),
+      stream: true,
+      // Without it usage is estimated from the messages
+      ...(resolveModelCapabilities(this.config).streamUsage && { stream_options: { include_usage: true } })
+    }, { signal: request.signal });
+
+    let content = '';
+    let model = this.config.model;
+    let finishReason: LLMResponse['finishReason'] = 'stop';
+    let usage: { prompt_tokens?: number; completion_tokens?: number; total_tokens?: number } | undefined;
+    const toolCalls: LLMToolCall[] = [];
+
+    for await (const chunk of stream) {
+      model = chunk.model || model;
+      usage = chunk.usage ?? usage;
+      const choice = chunk.choices[0];
+      if (!choice) {
+        continue;
+      }
+
+      if (choice.delta?.content) {
+        content += choice.delta.content;
+        yield { type: 'text', delta: choice.delta.content };
+      }
+
+      for (const delta of choice.delta?.tool_calls ?? []) {
+        // Later chunks of a call only carry its index and more of the arguments
+        const call = toolCalls[delta.index] ??= { id: '', type: 'function', function: { name: '', arguments: '' } };
+        call.id = delta.id || call.id;
+        call.function.name += delta.function?.name ?? '';
+        call.function.arguments += delta.function?.arguments ?? '';
+        yield {
+          type: 'tool_call',
+          index: delta.index,
+          id: delta.id,
+          name: delta.function?.name,
+          argumentsDelta: delta.function?.arguments ?? ''
+        };
+      }
+
+      if (choice.finish_reason) {
+        finishReason = toFinishReason(choice.finish_reason);
+      }
+    }
+
+    const calls = toolCalls.filter(Boolean);
+    return {
+      content,
+      tokens: {
+        prompt: usage?.prompt_tokens || 0,
+        completion: usage?.completion_tokens || 0,
+        total: usage?.total_tokens || 0
+      },
+      model,
+      finishReason,
+      toolCalls: calls.length > 0 ? calls : undefined
+    };
+  }
+}
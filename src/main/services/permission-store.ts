@@ -0,0 +1,200 @@
+/**
+ * Permission Store
+ * Persists remembered Guardian decisions per workspace, action and path glob
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { PermissionLevel } from '../../shared/types';
+import type { PermissionGrant, PermissionRequest } from '../../shared/types';
+import { matchGlob, normalizeGlobPath } from '../utils/glob';
+
+/**
+ * Levels whose decisions may be remembered.
+ * EXECUTE and DELETE must be confirmed every time.
+ */
+export const REMEMBERABLE_LEVELS: PermissionLevel[] = [PermissionLevel.EDIT, PermissionLevel.NETWORK];
+
+/**
+ * Express a request target relative to its workspace, with "." and ".."
+ * segments resolved
+ * @returns The relative target, or null if it points outside the workspace
+ */
+export function workspaceRelativeTarget(request: PermissionRequest): string | null {
+  const relative = request.workspace && path.isAbsolute(request.target)
+    ? path.relative(request.workspace, request.target)
+    : request.target;
+  const target = path.posix.normalize(normalizeGlobPath(relative));
+  if (target === '..' || target.startsWith('../') || path.win32.isAbsolute(target)) {
+    return null;
+  }
+  return target;
+}
+
+/**
+ * Filters for listing grants
+ */
+export interface PermissionGrantFilters {
+  /** Only grants for this workspace */
+  workspace?: string;
+  /** Include expired grants (default: false) */
+  includeExpired?: boolean;
+}
+
+/**
+ * Permission Store
+ */
+export class PermissionStore {
+  private grants: PermissionGrant[] = [];
+  private storePath: string;
+  private loaded: boolean = false;
+
+  /**
+   * @param storePath - JSON file for persistent grants (in-memory only if omitted)
+   */
+  constructor(storePath?: string) {
+    this.storePath = storePath || '';
+  }
+
+  /**
+   * Load persisted grants from disk
+   */
+  private async load(): Promise<void> {
+    if (this.loaded) {
+      return;
+    }
+    this.loaded = true;
+
+    if (!this.storePath) {
+      return;
+    }
+
+    try {
+      const content = await fs.readFile(this.storePath, 'utf-8');
+      const parsed = JSON.parse(content) as { grants?: PermissionGrant[] };
+      this.grants.push(...(parsed.grants ?? []));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.warn('Failed to load permission store:', error);
+      }
+    }
+  }
+
+  /**
+   * Write grants to disk atomically
+   */
+  private async save(): Promise<void> {
+    if (!this.storePath) {
+      return;
+    }
+
+    const tmpPath = `${this.storePath}.tmp`;
+
+    await fs.mkdir(path.dirname(this.storePath), { recursive: true });
+    await fs.writeFile(tmpPath, JSON.stringify({ grants: this.grants }, null, 2), 'utf-8');
+    await fs.rename(tmpPath, this.storePath);
+  }
+
+  private isExpired(grant: PermissionGrant, now: number = Date.now()): boolean {
+    return grant.expiresAt !== undefined && grant.expiresAt <= now;
+  }
+
+  /**
+   * Default glob for a remembered decision: the exact target
+   */
+  defaultGlobFor(request: PermissionRequest): string {
+    return workspaceRelativeTarget(request) ?? normalizeGlobPath(request.target);
+  }
+
+  /**
+   * List grants, newest first
+   */
+  async list(filters: PermissionGrantFilters = {}): Promise<PermissionGrant[]> {
+    await this.load();
+
+    const now = Date.now();
+    return this.grants
+      .filter(grant => !filters.workspace || grant.workspace === filters.workspace)
+      .filter(grant => filters.includeExpired || !this.isExpired(grant, now))
+      .sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  /**
+   * Add a grant. Remembering the same decision again replaces the existing
+   * grant (and its expiry) rather than adding a duplicate.
+   */
+  async add(grant: Omit<PermissionGrant, 'id' | 'createdAt'>): Promise<PermissionGrant> {
+    await this.load();
+
+    const created: PermissionGrant = {
+      ...grant,
+      pathGlob: normalizeGlobPath(grant.pathGlob),
+      id: uuidv4(),
+      createdAt: Date.now()
+    };
+    this.grants = this.grants.filter(existing =>
+      existing.workspace !== created.workspace ||
+      existing.action !== created.action ||
+      existing.pathGlob !== created.pathGlob ||
+      existing.level !== created.level ||
+      existing.approved !== created.approved
+    );
+    this.grants.push(created);
+
+    await this.save();
+    return created;
+  }
+
+  /**
+   * Revoke a single grant
+   * @returns true if a grant was removed
+   */
+  async revoke(id: string): Promise<boolean> {
+    await this.load();
+
+    const index = this.grants.findIndex(grant => grant.id === id);
+    if (index === -1) {
+      return false;
+    }
+
+    this.grants.splice(index, 1);
+    await this.save();
+    return true;
+  }
+
+  /**
+   * Remove all grants (memory and disk)
+   */
+  async clear(): Promise<void> {
+    await this.load();
+    this.grants = [];
+    await this.save();
+  }
+
+  /**
+   * Find the remembered decision covering a request.
+   * Denials take precedence over approvals.
+   */
+  async find(request: PermissionRequest): Promise<PermissionGrant | undefined> {
+    await this.load();
+
+    const workspace = request.workspace || 'unknown';
+    const target = workspaceRelativeTarget(request);
+    // No grant covers a target outside the workspace
+    if (target === null) {
+      return undefined;
+    }
+    const now = Date.now();
+
+    const matches = this.grants.filter(grant =>
+      grant.workspace === workspace &&
+      grant.level === request.level &&
+      (grant.action === '*' || grant.action === request.action) &&
+      !this.isExpired(grant, now) &&
+      matchGlob(grant.pathGlob, target, { matchBase: false })
+    );
+
+    return matches.find(grant => !grant.approved) ?? matches[0];
+  }
+}
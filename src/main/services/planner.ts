@@ -0,0 +1,234 @@
+/**
+ * Planner
+ * Plan-then-execute support: asks the LLM for an ExecutionPlan as JSON and
+ * runs its tasks in dependency order
+ */
+
+import { z } from 'zod';
+import { TaskStatus } from '../../shared/types';
+import type { ExecutionPlan, Task } from '../../shared/types';
+import { parseLenientJson } from '../utils/json-repair';
+
+/**
+ * Upper bound on plan size, to keep a runaway plan from flooding the agent
+ */
+export const MAX_PLAN_TASKS = 20;
+
+/**
+ * Schema of the plan the LLM must return (status/progress are filled in locally)
+ */
+export const executionPlanSchema = z.object({
+  goal: z.string().min(1),
+  tasks: z.array(z.object({
+    id: z.string().min(1),
+    type: z.enum(['read_files', 'write_file', 'execute_code', 'call_tool']),
+    description: z.string().min(1),
+    depends_on: z.array(z.string()).default([]),
+    parallel: z.boolean().default(false),
+    requires_approval: z.boolean().default(false)
+  })).min(1).max(MAX_PLAN_TASKS),
+  estimated_time: z.number().nonnegative().default(0)
+});
+
+/**
+ * Instructions appended to the system prompt when asking for a plan
+ */
+export const PLANNING_INSTRUCTIONS = `
+## Planning Mode
+Do not call any tools yet. Break the user's request into tasks and reply with ONLY a JSON object:
+{
+  "goal": "overall goal",
+  "estimated_time": 60,
+  "tasks": [
+    {
+      "id": "t1",
+      "type": "read_files" | "write_file" | "execute_code" | "call_tool",
+      "description": "what this task does, specific enough to run on its own",
+      "depends_on": ["ids of tasks that must finish first"],
+      "parallel": true if it may run at the same time as other ready tasks,
+      "requires_approval": true if it changes or deletes files, runs code or uses the network
+    }
+  ]
+}
+Use at most ${MAX_PLAN_TASKS} tasks. Dependencies must not form a cycle.
+`;
+
+/**
+ * Check task ids, dependency references and cycles
+ */
+function validatePlanGraph(tasks: Array<Pick<Task, 'id' | 'depends_on'>>): void {
+  const ids = new Set<string>();
+  for (const task of tasks) {
+    if (ids.has(task.id)) {
+      throw new Error(`Invalid execution plan: duplicate task id "${task.id}"`);
+    }
+    ids.add(task.id);
+  }
+
+  const byId = new Map(tasks.map(task => [task.id, task]));
+  for (const task of tasks) {
+    for (const dependency of task.depends_on) {
+      if (!byId.has(dependency)) {
+        throw new Error(`Invalid execution plan: task "${task.id}" depends on unknown task "${dependency}"`);
+      }
+    }
+  }
+
+  // Depth-first search for cycles
+  const state = new Map<string, 'visiting' | 'done'>();
+  const visit = (id: string): void => {
+    if (state.get(id) === 'done') return;
+    if (state.get(id) === 'visiting') {
+      throw new Error(`Invalid execution plan: dependency cycle through task "${id}"`);
+    }
+    state.set(id, 'visiting');
+    byId.get(id)!.depends_on.forEach(visit);
+    state.set(id, 'done');
+  };
+  tasks.forEach(task => visit(task.id));
+}
+
+/**
+ * Parse and validate the LLM's plan reply
+ * @throws Error when the reply is not a valid, acyclic plan
+ */
+export function parseExecutionPlan(content: string): ExecutionPlan {
+  if (!content.includes('{')) {
+    throw new Error('Invalid execution plan: no JSON object found');
+  }
+
+  let raw: unknown;
+  try {
+    raw = parseLenientJson(content);
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      throw new Error(`Invalid execution plan: ${error.message}`);
+    }
+    throw error;
+  }
+
+  const parsed = executionPlanSchema.safeParse(raw);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    throw new Error(`Invalid execution plan: ${issue.path.join('.') || 'plan'} ${issue.message}`);
+  }
+
+  validatePlanGraph(parsed.data.tasks);
+
+  return {
+    goal: parsed.data.goal,
+    estimated_time: parsed.data.estimated_time,
+    tasks: parsed.data.tasks.map(task => ({
+      ...task,
+      status: TaskStatus.PENDING,
+      progress: 0
+    }))
+  };
+}
+
+/**
+ * Options for running a plan
+ */
+export interface PlanRunOptions {
+  /** Run a single task and resolve with its output (throw to fail the task) */
+  runTask: (task: Task, reportProgress: (progress: number) => void) => Promise<unknown>;
+  /** Approve a task marked requires_approval (tasks run without asking if omitted) */
+  approve?: (task: Task) => Promise<boolean>;
+  /** Called whenever a task's status or progress changes */
+  onUpdate?: (plan: ExecutionPlan, task: Task) => void;
+  /** Stops scheduling when aborted; interrupted tasks go back to PENDING */
+  signal?: AbortSignal;
+}
+
+const FINISHED_STATUSES = [TaskStatus.SUCCESS, TaskStatus.FAILED, TaskStatus.CANCELLED];
+
+/**
+ * Run a plan's tasks in dependency order. Ready tasks marked `parallel` run
+ * together; other tasks run one at a time in plan order. Tasks whose
+ * dependencies fail or are not approved are cancelled.
+ * If `signal` aborts, no further tasks start and interrupted tasks are reset
+ * to PENDING, so running the same plan again picks up where it stopped.
+ * The plan is updated in place and returned.
+ */
+export async function runExecutionPlan(plan: ExecutionPlan, options: PlanRunOptions): Promise<ExecutionPlan> {
+  const byId = new Map(plan.tasks.map(task => [task.id, task]));
+
+  const update = (task: Task, changes: Partial<Task>): void => {
+    Object.assign(task, changes);
+    options.onUpdate?.(plan, task);
+  };
+
+  const runOne = async (task: Task): Promise<void> => {
+    update(task, { status: TaskStatus.RUNNING, progress: 0 });
+    try {
+      const output = await options.runTask(task, (progress) => {
+        update(task, { progress: Math.max(0, Math.min(99, Math.round(progress))) });
+      });
+      update(task, { status: TaskStatus.SUCCESS, progress: 100, output });
+    } catch (error) {
+      if (options.signal?.aborted) {
+        update(task, { status: TaskStatus.PENDING, progress: 0 });
+        return;
+      }
+      update(task, { status: TaskStatus.FAILED, error: error instanceof Error ? error.message : String(error) });
+    }
+  };
+
+  while (!options.signal?.aborted) {
+    // Cancel tasks that can no longer run
+    for (const task of plan.tasks) {
+      if (task.status !== TaskStatus.PENDING) continue;
+      const blocker = task.depends_on.find(id => {
+        const status = byId.get(id)!.status;
+        return status === TaskStatus.FAILED || status === TaskStatus.CANCELLED;
+      });
+      if (blocker) {
+        update(task, { status: TaskStatus.CANCELLED, error: `Dependency "${blocker}" did not complete` });
+      }
+    }
+
+    const ready = plan.tasks.filter(task =>
+      task.status === TaskStatus.PENDING &&
+      task.depends_on.every(id => byId.get(id)!.status === TaskStatus.SUCCESS)
+    );
+    if (ready.length === 0) {
+      break;
+    }
+
+    const batch = ready[0].parallel ? ready.filter(task => task.parallel) : [ready[0]];
+
+    // Ask for approvals one at a time so the user sees a single dialog
+    const approved: Task[] = [];
+    for (const task of batch) {
+      if (task.requires_approval && options.approve) {
+        update(task, { status: TaskStatus.PAUSED });
+        const isApproved = await options.approve(task);
+        if (options.signal?.aborted) {
+          // Ask again when the plan is resumed
+          update(task, { status: TaskStatus.PENDING });
+          continue;
+        }
+        if (!isApproved) {
+          update(task, { status: TaskStatus.CANCELLED, error: 'Not approved by user' });
+          continue;
+        }
+      }
+      approved.push(task);
+    }
+
+    await Promise.all(approved.map(runOne));
+  }
+
+  if (options.signal?.aborted) {
+    return plan;
+  }
+
+  // Anything left over could not be scheduled
+  for (const task of plan.tasks) {
+    if (!FINISHED_STATUSES.includes(task.status)) {
+      update(task, { status: TaskStatus.CANCELLED, error: 'Task could not be scheduled' });
+    }
+  }
+
+  return plan;
+}
@@ -0,0 +1,119 @@
+/**
+ * Prompt Tools
+ * Tool calling through the prompt for models without native tool support:
+ * the tool schemas go into the system prompt, the model answers with
+ * ```tool_call blocks, and tool calls and results in the history are
+ * rewritten as plain text
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import type { LLMMessage, LLMToolCall } from '../../shared/types';
+import type { LLMToolDefinitions } from './llm-provider';
+import { parseLenientJson } from '../utils/json-repair';
+
+/**
+ * Fenced block holding one tool call
+ */
+const TOOL_CALL_BLOCK = /```tool_call\s*\n([\s\S]*?)```/g;
+
+/**
+ * Instructions describing the tools and the tool_call block format
+ */
+export function buildToolPrompt(tools: LLMToolDefinitions): string {
+  const toolList = tools.map(tool =>
+    `### ${tool.function.name}\n${tool.function.description}\nParameters (JSON Schema): ${JSON.stringify(tool.function.parameters)}`
+  ).join('\n\n');
+
+  return `## Tool Calling
+
+To call a tool, reply with one fenced block per call, in this exact format:
+
+\`\`\`tool_call
+{"name": "<tool name>", "arguments": {<arguments as JSON>}}
+\`\`\`
+
+You may call several tools in one reply. The results are sent back in the next message. When you have everything you need, reply with your final answer and no tool_call block.
+
+## Available Tool Schemas
+
+${toolList}`;
+}
+
+/**
+ * Text form of a tool call, as the model is asked to write it
+ */
+function formatToolCall(call: LLMToolCall): string {
+  let args: unknown = call.function.arguments;
+  try {
+    args = JSON.parse(call.function.arguments || '{}');
+  } catch {
+    // Keep malformed arguments as the model wrote them
+  }
+  return '```tool_call\n' + JSON.stringify({ name: call.function.name, arguments: args }) + '\n```';
+}
+
+/**
+ * Rewrite messages for a model without native tools: the tool prompt is added
+ * to the system prompt, assistant tool calls become tool_call blocks and tool
+ * results become user messages
+ */
+export function toPromptToolMessages(messages: LLMMessage[], tools: LLMToolDefinitions): LLMMessage[] {
+  const toolPrompt = buildToolPrompt(tools);
+  const names = new Map<string, string>();
+  const converted: LLMMessage[] = [];
+
+  for (const msg of messages) {
+    if (msg.role === 'assistant' && msg.tool_calls && msg.tool_calls.length > 0) {
+      msg.tool_calls.forEach(call => names.set(call.id, call.function.name));
+      const text = typeof msg.content === 'string' ? msg.content : '';
+      converted.push({
+        role: 'assistant',
+        content: [text, ...msg.tool_calls.map(formatToolCall)].filter(Boolean).join('\n\n')
+      });
+    } else if (msg.role === 'tool') {
+      const name = names.get(msg.tool_call_id || '') || 'tool';
+      const result = typeof msg.content === 'string' ? msg.content : JSON.stringify(msg.content);
+      converted.push({ role: 'user', content: `[Result of ${name}]\n${result}` });
+    } else {
+      converted.push({ role: msg.role, content: msg.content });
+    }
+  }
+
+  const system = converted.find(msg => msg.role === 'system');
+  if (system && typeof system.content === 'string') {
+    system.content = `${system.content}\n\n${toolPrompt}`;
+  } else {
+    converted.unshift({ role: 'system', content: toolPrompt });
+  }
+  return converted;
+}
+
+/**
+ * Take the tool_call blocks out of a reply. Blocks that do not hold a call
+ * (no JSON object with a tool name) are left in the text.
+ */
+export function parsePromptToolCalls(content: string): { content: string; toolCalls: LLMToolCall[] } {
+  const toolCalls: LLMToolCall[] = [];
+
+  const text = content.replace(TOOL_CALL_BLOCK, (block, body: string) => {
+    let call: unknown;
+    try {
+      call = parseLenientJson(body);
+    } catch {
+      return block;
+    }
+    if (!call || typeof call !== 'object' || typeof (call as { name?: unknown }).name !== 'string') {
+      return block;
+    }
+
+    const { name, arguments: args } = call as { name: string; arguments?: unknown };
+    toolCalls.push({
+      id: `call_${uuidv4()}`,
+      type: 'function',
+      function: { name, arguments: typeof args === 'string' ? args : JSON.stringify(args ?? {}) }
+    });
+    return '';
+  });
+
+  return { content: text.trim(), toolCalls };
+}
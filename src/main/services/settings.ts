@@ -0,0 +1,257 @@
+/**
+ * Settings Store
+ * Named model profiles persisted in userData, one of them active; the
+ * active profile is the LLM configuration the app starts with
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { z } from 'zod';
+import type { LLMConfig, ModelProfile, ModelProfileInput } from '../../shared/types';
+
+/**
+ * Fields of a profile as written by exportProfiles and accepted by importProfiles
+ */
+const profileInputSchema = z.object({
+  name: z.string().min(1),
+  provider: z.enum(['openai', 'anthropic', 'ollama', 'glm', 'zhipu']),
+  model: z.string().min(1),
+  baseUrl: z.string().optional(),
+  temperature: z.number().min(0).max(2).optional(),
+  maxTokens: z.number().int().positive().optional(),
+  contextLength: z.number().int().positive().optional(),
+  apiKeyRef: z.string().optional()
+});
+
+const exportFileSchema = z.object({
+  version: z.literal(1),
+  profiles: z.array(profileInputSchema)
+});
+
+/**
+ * Persisted settings
+ */
+interface SettingsData {
+  profiles: ModelProfile[];
+  activeProfileId: string | null;
+}
+
+/**
+ * LLM configuration of a profile. Every field is set (undefined if the
+ * profile leaves it out) so applying it replaces the previous profile's.
+ */
+export function profileToLLMConfig(profile: ModelProfile): LLMConfig {
+  return {
+    provider: profile.provider,
+    model: profile.model,
+    baseUrl: profile.baseUrl,
+    temperature: profile.temperature,
+    maxTokens: profile.maxTokens,
+    contextLength: profile.contextLength,
+    apiKeyRef: profile.apiKeyRef
+  };
+}
+
+/**
+ * Check user-supplied profile fields
+ * @throws Error naming the first invalid field
+ */
+function parseProfileInput(input: unknown, partial: boolean): Partial<ModelProfileInput> {
+  const schema = partial ? profileInputSchema.partial() : profileInputSchema;
+  const parsed = schema.safeParse(input);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    throw new Error(`Invalid model profile: ${issue.path.join('.') || 'profile'} ${issue.message}`);
+  }
+  return parsed.data;
+}
+
+/**
+ * Settings Store
+ */
+export class SettingsStore {
+  private storePath: string;
+  private data: SettingsData = { profiles: [], activeProfileId: null };
+  private loaded: boolean = false;
+
+  /**
+   * @param storePath - JSON file for the settings (in-memory only if omitted)
+   */
+  constructor(storePath?: string) {
+    this.storePath = storePath || '';
+  }
+
+  /**
+   * Load persisted settings from disk
+   */
+  private async load(): Promise<void> {
+    if (this.loaded) {
+      return;
+    }
+    this.loaded = true;
+
+    if (!this.storePath) {
+      return;
+    }
+
+    try {
+      const parsed = JSON.parse(await fs.readFile(this.storePath, 'utf-8')) as Partial<SettingsData>;
+      this.data = { profiles: parsed.profiles ?? [], activeProfileId: parsed.activeProfileId ?? null };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.warn('Failed to load settings:', error);
+      }
+    }
+  }
+
+  /**
+   * Write the settings to disk atomically
+   */
+  private async save(): Promise<void> {
+    if (!this.storePath) {
+      return;
+    }
+
+    const tmpPath = `${this.storePath}.tmp`;
+    await fs.mkdir(path.dirname(this.storePath), { recursive: true });
+    await fs.writeFile(tmpPath, JSON.stringify(this.data, null, 2), 'utf-8');
+    await fs.rename(tmpPath, this.storePath);
+  }
+
+  /**
+   * All profiles, in creation order
+   */
+  async listProfiles(): Promise<ModelProfile[]> {
+    await this.load();
+    return this.data.profiles.map(profile => ({ ...profile }));
+  }
+
+  /**
+   * Get a profile by id
+   */
+  async getProfile(id: string): Promise<ModelProfile | null> {
+    await this.load();
+    const profile = this.data.profiles.find(entry => entry.id === id);
+    return profile ? { ...profile } : null;
+  }
+
+  /**
+   * The active profile, or null if there are none
+   */
+  async getActiveProfile(): Promise<ModelProfile | null> {
+    await this.load();
+    return this.data.activeProfileId ? this.getProfile(this.data.activeProfileId) : null;
+  }
+
+  /**
+   * Add a profile; the first profile becomes the active one
+   */
+  async createProfile(input: ModelProfileInput): Promise<ModelProfile> {
+    await this.load();
+    const now = Date.now();
+    const profile: ModelProfile = {
+      ...(parseProfileInput(input, false) as ModelProfileInput),
+      id: uuidv4(),
+      createdAt: now,
+      updatedAt: now
+    };
+
+    this.data.profiles.push(profile);
+    this.data.activeProfileId ??= profile.id;
+    await this.save();
+    return { ...profile };
+  }
+
+  /**
+   * Change some fields of a profile
+   * @throws Error if the profile does not exist
+   */
+  async updateProfile(id: string, changes: Partial<ModelProfileInput>): Promise<ModelProfile> {
+    await this.load();
+    const index = this.data.profiles.findIndex(entry => entry.id === id);
+    if (index === -1) {
+      throw new Error(`Model profile not found: ${id}`);
+    }
+
+    const profile: ModelProfile = {
+      ...this.data.profiles[index],
+      ...parseProfileInput(changes, true),
+      id,
+      updatedAt: Date.now()
+    };
+    this.data.profiles[index] = profile;
+    await this.save();
+    return { ...profile };
+  }
+
+  /**
+   * Remove a profile; if it was active, the first remaining one becomes active
+   * @returns The removed profile, or null if it did not exist
+   */
+  async deleteProfile(id: string): Promise<ModelProfile | null> {
+    await this.load();
+    const profile = this.data.profiles.find(entry => entry.id === id);
+    if (!profile) {
+      return null;
+    }
+
+    this.data.profiles = this.data.profiles.filter(entry => entry.id !== id);
+    if (this.data.activeProfileId === id) {
+      this.data.activeProfileId = this.data.profiles[0]?.id ?? null;
+    }
+    await this.save();
+    return profile;
+  }
+
+  /**
+   * Make a profile the active one
+   * @throws Error if the profile does not exist
+   */
+  async setActiveProfile(id: string): Promise<ModelProfile> {
+    await this.load();
+    const profile = this.data.profiles.find(entry => entry.id === id);
+    if (!profile) {
+      throw new Error(`Model profile not found: ${id}`);
+    }
+
+    this.data.activeProfileId = id;
+    await this.save();
+    return { ...profile };
+  }
+
+  /**
+   * Profiles as JSON for another machine; key references are left out since
+   * the keys stay in this machine's keychain
+   */
+  async exportProfiles(): Promise<string> {
+    await this.load();
+    const profiles = this.data.profiles.map(({ id: _id, createdAt: _createdAt, updatedAt: _updatedAt, apiKeyRef: _apiKeyRef, ...input }) => input);
+    return JSON.stringify({ version: 1, profiles }, null, 2);
+  }
+
+  /**
+   * Add the profiles of an exported file as new profiles, without API keys
+   * @throws Error if the file is not valid JSON or not an export
+   */
+  async importProfiles(json: string): Promise<ModelProfile[]> {
+    let raw: unknown;
+    try {
+      raw = JSON.parse(json);
+    } catch (error) {
+      throw new Error(`Invalid profiles file: ${(error as Error).message}`);
+    }
+
+    const parsed = exportFileSchema.safeParse(raw);
+    if (!parsed.success) {
+      const issue = parsed.error.issues[0];
+      throw new Error(`Invalid profiles file: ${issue.path.join('.') || 'file'} ${issue.message}`);
+    }
+
+    const imported: ModelProfile[] = [];
+    for (const { apiKeyRef: _apiKeyRef, ...input } of parsed.data.profiles) {
+      imported.push(await this.createProfile(input));
+    }
+    return imported;
+  }
+}
@@ -0,0 +1,89 @@
+/**
+ * Structured Output
+ * Typed replies for LLMService.generateStructured: zod schemas as JSON
+ * Schema, the prompt used for models without a JSON mode, and validation of
+ * replies with error messages the model can act on
+ */
+
+import { z } from 'zod';
+import type { LLMMessage } from '../../shared/types';
+import { parseLenientJson } from '../utils/json-repair';
+
+/**
+ * Result of checking a reply against a schema
+ */
+export type StructuredParseResult<T> = { data: T } | { error: string };
+
+/**
+ * JSON Schema of the values a zod schema accepts (what the model has to write)
+ */
+export function toResponseSchema(schema: z.ZodType): Record<string, unknown> {
+  const { $schema: _$schema, ...jsonSchema } = z.toJSONSchema(schema, { io: 'input', unrepresentable: 'any' });
+  return jsonSchema;
+}
+
+/**
+ * Instructions asking for a reply in JSON matching a schema
+ */
+export function buildStructuredPrompt(jsonSchema: Record<string, unknown>): string {
+  return `## Response Format
+
+Reply with a single JSON value that matches this JSON Schema, and nothing else: no explanations and no code fences.
+
+${JSON.stringify(jsonSchema)}`;
+}
+
+/**
+ * Add the response format instructions to the system prompt (or a new one)
+ */
+export function toStructuredPromptMessages(messages: LLMMessage[], jsonSchema: Record<string, unknown>): LLMMessage[] {
+  const prompt = buildStructuredPrompt(jsonSchema);
+  const converted = messages.map(msg => ({ ...msg }));
+
+  const system = converted.find(msg => msg.role === 'system');
+  if (system && typeof system.content === 'string') {
+    system.content = `${system.content}\n\n${prompt}`;
+  } else {
+    converted.unshift({ role: 'system', content: prompt });
+  }
+  return converted;
+}
+
+/**
+ * Parse a reply as JSON (repairing fences, prose and common mistakes) and
+ * check it against the schema
+ */
+export function parseStructuredOutput<T>(content: string, schema: z.ZodType<T>): StructuredParseResult<T> {
+  let value: unknown;
+  try {
+    value = parseLenientJson(content);
+  } catch (error) {
+    return { error: `Reply is not valid JSON: ${(error as Error).message}` };
+  }
+
+  const parsed = schema.safeParse(value);
+  if (parsed.success) {
+    return { data: parsed.data };
+  }
+
+  const problems = parsed.error.issues
+    .map(issue => `${issue.path.join('.') || 'value'}: ${issue.message}`)
+    .join('; ');
+  return { error: `Reply does not match the schema: ${problems}` };
+}
+
+/**
+ * Whether a request failed because the model rejects the native response
+ * format (e.g. an older OpenAI model sent a json_schema response_format)
+ */
+export function isUnsupportedResponseFormatError(error: unknown): boolean {
+  const { status, message } = (error ?? {}) as { status?: unknown; message?: unknown };
+  return status === 400 && typeof message === 'string' && /response_format|json_schema|\bformat\b/i.test(message);
+}
+
+/**
+ * Follow-up asking the model to fix a reply that failed validation
+ */
+export function buildRepairPrompt(error: string): string {
+  return `${error}. Reply again with only the corrected JSON.`;
+}
@@ -0,0 +1,127 @@
+/**
+ * Tokenizer
+ * Per-model token counting (tiktoken BPE) and context window limits
+ */
+
+import { Tiktoken, type TiktokenBPE, type TiktokenEncoding } from 'js-tiktoken/lite';
+import type { LLMMessage } from '../../shared/types';
+
+/**
+ * Token limits and tokenizer of a model
+ */
+export interface ModelLimits {
+  /** Context window in tokens (prompt + completion) */
+  contextWindow: number;
+  /** BPE encoding used to count tokens */
+  encoding: TiktokenEncoding;
+}
+
+/**
+ * Known models by name prefix; the first match wins, so longer prefixes come
+ * first. Models without a public BPE (Claude, GLM, Llama, Qwen) are counted
+ * with cl100k_base, which is close enough for budgeting.
+ */
+const MODEL_LIMITS: Array<[prefix: string, limits: ModelLimits]> = [
+  ['gpt-4.1', { contextWindow: 1047576, encoding: 'o200k_base' }],
+  ['gpt-4o', { contextWindow: 128000, encoding: 'o200k_base' }],
+  ['gpt-5', { contextWindow: 400000, encoding: 'o200k_base' }],
+  ['o1', { contextWindow: 200000, encoding: 'o200k_base' }],
+  ['o3', { contextWindow: 200000, encoding: 'o200k_base' }],
+  ['o4', { contextWindow: 200000, encoding: 'o200k_base' }],
+  ['gpt-4-turbo', { contextWindow: 128000, encoding: 'cl100k_base' }],
+  ['gpt-4-32k', { contextWindow: 32768, encoding: 'cl100k_base' }],
+  ['gpt-4', { contextWindow: 8192, encoding: 'cl100k_base' }],
+  ['gpt-3.5-turbo', { contextWindow: 16385, encoding: 'cl100k_base' }],
+  ['claude', { contextWindow: 200000, encoding: 'cl100k_base' }],
+  ['glm-4', { contextWindow: 128000, encoding: 'cl100k_base' }],
+  ['llama3.1', { contextWindow: 131072, encoding: 'cl100k_base' }],
+  ['llama3.2', { contextWindow: 131072, encoding: 'cl100k_base' }],
+  ['llama3', { contextWindow: 8192, encoding: 'cl100k_base' }],
+  ['qwen', { contextWindow: 32768, encoding: 'cl100k_base' }]
+];
+
+/**
+ * Limits assumed for unknown models
+ */
+export const DEFAULT_MODEL_LIMITS: ModelLimits = { contextWindow: 8192, encoding: 'cl100k_base' };
+
+/**
+ * Fixed cost charged for an image block (a high-detail 512px tile in OpenAI's pricing)
+ */
+export const IMAGE_TOKEN_ESTIMATE = 765;
+
+/**
+ * Per-message framing overhead, and the priming of the assistant reply
+ */
+const TOKENS_PER_MESSAGE = 3;
+const TOKENS_PER_REPLY = 3;
+
+const encoders = new Map<TiktokenEncoding, Tiktoken>();
+
+/**
+ * Load an encoder on first use (rank tables are 1-2 MB each)
+ */
+function getEncoder(encoding: TiktokenEncoding): Tiktoken {
+  let encoder = encoders.get(encoding);
+  if (!encoder) {
+    // eslint-disable-next-line @typescript-eslint/no-var-requires
+    const loaded = require(`js-tiktoken/ranks/${encoding}`);
+    const ranks: TiktokenBPE = loaded.default ?? loaded;
+    encoder = new Tiktoken(ranks);
+    encoders.set(encoding, encoder);
+  }
+  return encoder;
+}
+
+/**
+ * Look up a model's limits (provider prefixes such as "openai/" are ignored)
+ */
+export function getModelLimits(model: string): ModelLimits {
+  const name = model.toLowerCase().split('/').pop() || '';
+  const match = MODEL_LIMITS.find(([prefix]) => name.startsWith(prefix));
+  return match ? match[1] : DEFAULT_MODEL_LIMITS;
+}
+
+/**
+ * Count the tokens of a text
+ */
+export function countTokens(text: string, encoding: TiktokenEncoding): number {
+  return text ? getEncoder(encoding).encode(text, 'all').length : 0;
+}
+
+/**
+ * Count the tokens of a single message, including framing and tool calls
+ */
+export function countMessageTokens(message: LLMMessage, encoding: TiktokenEncoding): number {
+  let tokens = TOKENS_PER_MESSAGE + countTokens(message.role, encoding);
+
+  if (typeof message.content === 'string') {
+    tokens += countTokens(message.content, encoding);
+  } else {
+    for (const block of message.content) {
+      if (block.type === 'text') {
+        tokens += countTokens(block.text, encoding);
+      } else if (block.type === 'image_url') {
+        tokens += IMAGE_TOKEN_ESTIMATE;
+      } else {
+        tokens += countTokens(JSON.stringify(block.file), encoding);
+      }
+    }
+  }
+
+  if (message.tool_calls && message.tool_calls.length > 0) {
+    tokens += countTokens(JSON.stringify(message.tool_calls), encoding);
+  }
+  if (message.tool_call_id) {
+    tokens += countTokens(message.tool_call_id, encoding);
+  }
+
+  return tokens;
+}
+
+/**
+ * Count the prompt tokens of a whole request
+ */
+export function countPromptTokens(messages: LLMMessage[], encoding: TiktokenEncoding): number {
+  return messages.reduce((sum, message) => sum + countMessageTokens(message, encoding), TOKENS_PER_REPLY);
+}
@@ -4,7 +4,11 @@
  */
 
 import { z } from 'zod';
+import { PermissionLevel } from '../../shared/types';
 import type { FileAPI } from '../../shared/types';
+import type { Guardian } from './guardian';
+import { createUnifiedDiff } from './diff';
+import { parseLenientJson } from '../utils/json-repair';
 
 /**
  * Tool parameter schema
@@ -20,6 +24,20 @@ export type ToolParameterSchema = {
   required?: string[];
 };
 
+/**
+ * File change a tool call would make (`null` means the file does not exist on that side)
+ */
+export interface FileChange {
+  /** Path relative to the workspace root */
+  path: string;
+  /** Content before the change */
+  before: string | null;
+  /** Content after the change */
+  after: string | null;
+  /** The path existed but could not be read (too large, binary, ignored or a directory), so `before` is unknown */
+  unreadable?: boolean;
+}
+
 /**
  * Tool definition
  */
@@ -30,8 +48,12 @@ export interface Tool {
   description: string;
   /** JSON Schema for parameters */
   parameters: ToolParameterSchema;
-  /** Function to execute the tool */
-  execute: (params: Record<string, unknown>) => Promise<ToolResult>;
+  /** Permission level Guardian must grant before the tool runs */
+  permissionLevel: PermissionLevel;
+  /** Function to execute the tool (long-running tools should honour `context.signal`) */
+  execute: (params: Record<string, unknown>, context?: ToolExecutionContext) => Promise<ToolResult>;
+  /** Describe the file change a call would make (file-changing tools only) */
+  describeChange?: (params: Record<string, unknown>) => Promise<FileChange>;
 }
 
 /**
@@ -46,6 +68,85 @@ export interface ToolResult {
   error?: string;
   /** Output to show to user */
   output?: string;
+  /** Machine-readable error code (e.g. PERMISSION_DENIED) */
+  errorCode?: string;
+}
+
+/**
+ * Context for a single tool call
+ */
+export interface ToolExecutionContext {
+  /** Workspace the call runs against (used to scope permissions) */
+  workspace?: string;
+  /** Model of the agent turn that requested the call (for the audit log) */
+  llmModel?: string;
+  /** Tokens used by the agent turn that requested the call (for the audit log) */
+  tokensUsed?: number;
+  /** Called after a file-changing tool succeeds (used for checkpoints) */
+  onFileChange?: (change: FileChange) => void | Promise<void>;
+  /** Aborted when the agent run is cancelled or paused */
+  signal?: AbortSignal;
+}
+
+/**
+ * Parse the arguments of a model's tool call, repairing common JSON mistakes
+ * @throws Error when the arguments are not (repairable) JSON or not an object
+ */
+export function parseToolArguments(raw: string): Record<string, unknown> {
+  if (!raw.trim()) {
+    return {};
+  }
+
+  let value: unknown;
+  try {
+    value = parseLenientJson(raw);
+  } catch (error) {
+    throw new Error(`Tool arguments are not valid JSON (${error instanceof Error ? error.message : String(error)})`);
+  }
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error('Tool arguments must be a JSON object');
+  }
+  return value as Record<string, unknown>;
+}
+
+/**
+ * Build a zod schema for a tool's parameters. Numbers and booleans sent as
+ * strings ("5", "true") are accepted; unknown properties are dropped.
+ */
+function parameterSchemaToZod(schema: ToolParameterSchema): z.ZodType<Record<string, unknown>> {
+  const required = new Set(schema.required ?? []);
+  const shape: Record<string, z.ZodType> = {};
+
+  for (const [name, property] of Object.entries(schema.properties)) {
+    let type: z.ZodType;
+    switch (property.type) {
+      case 'string':
+        type = property.enum && property.enum.length > 0 ? z.enum(property.enum as [string, ...string[]]) : z.string();
+        break;
+      case 'number':
+        type = z.union([z.number(), z.string().trim().regex(/^-?\d+(\.\d+)?$/).transform(Number)]);
+        break;
+      case 'boolean':
+        type = z.union([z.boolean(), z.enum(['true', 'false']).transform(value => value === 'true')]);
+        break;
+      case 'array':
+        type = z.array(z.unknown());
+        break;
+      default:
+        type = z.record(z.string(), z.unknown());
+    }
+    shape[name] = required.has(name) ? type : type.optional();
+  }
+
+  return z.object(shape) as z.ZodType<Record<string, unknown>>;
+}
+
+/**
+ * Tool registry options
+ */
+export interface ToolRegistryOptions {
+  /** Guardian that approves tool calls above READ_ONLY (tools run ungated without it) */
+  guardian?: Guardian;
 }
 
 /**
@@ -53,6 +154,13 @@ export interface ToolResult {
  */
 export class ToolRegistry {
   private tools: Map<string, Tool> = new Map();
+  private guardian?: Guardian;
+  /** Parameter validators, built on first use */
+  private validators: WeakMap<Tool, z.ZodType<Record<string, unknown>>> = new WeakMap();
+
+  constructor(options: ToolRegistryOptions = {}) {
+    this.guardian = options.guardian;
+  }
 
   register(tool: Tool): void {
     this.tools.set(tool.name, tool);
@@ -89,9 +197,62 @@ export class ToolRegistry {
   }
 
   /**
-   * Execute a tool by name
+   * Check call arguments against the tool's parameter schema
    */
-  async execute(name: string, params: Record<string, unknown>): Promise<ToolResult> {
+  private validateParams(tool: Tool, params: Record<string, unknown>): { params: Record<string, unknown> } | { error: ToolResult } {
+    let validator = this.validators.get(tool);
+    if (!validator) {
+      validator = parameterSchemaToZod(tool.parameters);
+      this.validators.set(tool, validator);
+    }
+
+    const parsed = validator.safeParse(params);
+    if (parsed.success) {
+      return { params: parsed.data };
+    }
+
+    const problems = parsed.error.issues
+      .map(issue => `${issue.path.join('.') || 'arguments'}: ${issue.message}`)
+      .join('; ');
+    return {
+      error: {
+        success: false,
+        errorCode: 'INVALID_ARGUMENTS',
+        error: `Invalid arguments for ${tool.name}: ${problems}. Fix the arguments and call the tool again.`
+      }
+    };
+  }
+
+  /**
+   * Result for a call skipped because the run was stopped
+   */
+  private cancelledResult(toolName: string): ToolResult {
+    return {
+      success: false,
+      errorCode: 'CANCELLED',
+      error: `Cancelled: ${toolName} was not run because the agent run was stopped`
+    };
+  }
+
+  /**
+   * Describe the change a file-changing tool call would make
+   */
+  private async describeChange(tool: Tool, params: Record<string, unknown>): Promise<FileChange | undefined> {
+    if (!tool.describeChange) {
+      return undefined;
+    }
+    try {
+      return await tool.describeChange(params);
+    } catch (error) {
+      console.warn(`Failed to describe change for ${tool.name}:`, error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Execute a tool by name, routing it through Guardian first
+   */
+  async execute(name: string, params: Record<string, unknown>, context: ToolExecutionContext = {}): Promise<ToolResult> {
     const tool = this.tools.get(name);
     if (!tool) {
       return {
@@ -100,14 +261,97 @@ export class ToolRegistry {
       };
     }
 
+    if (context.signal?.aborted) {
+      return this.cancelledResult(tool.name);
+    }
+
+    const validation = this.validateParams(tool, params);
+    if ('error' in validation) {
+      return validation.error;
+    }
+    params = validation.params;
+
+    const gated = !!this.guardian && tool.permissionLevel > PermissionLevel.READ_ONLY;
+    const change = gated || context.onFileChange ? await this.describeChange(tool, params) : undefined;
+
+    if (this.guardian && gated) {
+      const target = typeof params.path === 'string' ? params.path : '.';
+      const diff = change ? createUnifiedDiff(change.path, change.before, change.after) || undefined : undefined;
+      let approved: boolean;
+      try {
+        approved = await this.guardian.authorize({
+          level: tool.permissionLevel,
+          action: tool.name,
+          target,
+          workspace: context.workspace
+        }, {
+          diff,
+          llmModel: context.llmModel,
+          tokensUsed: context.tokensUsed
+        }, context.signal);
+      } catch (error) {
+        // E.g. a failed audit write; the call is not run unaudited
+        return {
+          success: false,
+          errorCode: 'PERMISSION_ERROR',
+          error: `Permission check failed for ${tool.name}: ${error instanceof Error ? error.message : String(error)}`
+        };
+      }
+
+      // Stopping the run withdraws the prompt
+      if (context.signal?.aborted) {
+        return this.cancelledResult(tool.name);
+      }
+      if (!approved) {
+        return {
+          success: false,
+          errorCode: 'PERMISSION_DENIED',
+          error: `Permission denied: the user did not approve ${tool.name} on '${target}'. Do not retry this call; choose a different approach or ask the user.`,
+          data: { action: tool.name, target, level: tool.permissionLevel }
+        };
+      }
+    }
+
+    // The run may have been stopped while waiting for approval
+    if (context.signal?.aborted) {
+      return this.cancelledResult(tool.name);
+    }
+
+    let result: ToolResult;
     try {
-      return await tool.execute(params);
+      result = await tool.execute(params, context);
     } catch (error) {
       return {
         success: false,
         error: `Tool execution failed: ${error instanceof Error ? error.message : String(error)}`
       };
     }
+
+    if (result.success && change && context.onFileChange) {
+      try {
+        await context.onFileChange(change);
+      } catch (error) {
+        console.warn(`Failed to record file change for ${tool.name}:`, error);
+      }
+    }
+
+    return result;
+  }
+}
+
+/**
+ * Content of a workspace file before a change. A path that exists but cannot
+ * be read is marked unreadable rather than reported as absent, so it is never
+ * taken for a file the change creates.
+ */
+async function describeBefore(fileSystem: FileAPI | undefined, filePath: string): Promise<Pick<FileChange, 'before' | 'unreadable'>> {
+  if (!fileSystem) {
+    return { before: null };
+  }
+  try {
+    return { before: await fileSystem.read(filePath) };
+  } catch {
+    return await fileSystem.exists(filePath).catch(() => true) ? { before: null, unreadable: true } : { before: null };
   }
 }
 
@@ -131,6 +375,7 @@ export function createBuiltinTools(fileSystem?: FileAPI): Tool[] {
       },
       required: ['path']
     },
+    permissionLevel: PermissionLevel.READ_ONLY,
     execute: async (params) => {
       if (!fileSystem) {
         return { success: false, error: 'File system not available (no workspace set)' };
@@ -162,6 +407,7 @@ export function createBuiltinTools(fileSystem?: FileAPI): Tool[] {
       },
       required: ['path', 'content']
     },
+    permissionLevel: PermissionLevel.EDIT,
     execute: async (params) => {
       if (!fileSystem) {
         return { success: false, error: 'File system not available (no workspace set)' };
@@ -172,7 +418,12 @@ export function createBuiltinTools(fileSystem?: FileAPI): Tool[] {
       } catch (error) {
         return { success: false, error: `Failed to write file: ${error}` };
       }
-    }
+    },
+    describeChange: async (params) => ({
+      path: params.path as string,
+      ...await describeBefore(fileSystem, params.path as string),
+      after: params.content as string
+    })
   });
 
   // List directory tool
@@ -189,6 +440,7 @@ export function createBuiltinTools(fileSystem?: FileAPI): Tool[] {
       },
       required: []
     },
+    permissionLevel: PermissionLevel.READ_ONLY,
     execute: async (params) => {
       if (!fileSystem) {
         return { success: false, error: 'File system not available (no workspace set)' };
@@ -221,6 +473,7 @@ export function createBuiltinTools(fileSystem?: FileAPI): Tool[] {
       },
       required: ['path']
     },
+    permissionLevel: PermissionLevel.DELETE,
     execute: async (params) => {
       if (!fileSystem) {
         return { success: false, error: 'File system not available (no workspace set)' };
@@ -231,39 +484,84 @@ export function createBuiltinTools(fileSystem?: FileAPI): Tool[] {
       } catch (error) {
         return { success: false, error: `Failed to delete file: ${error}` };
       }
-    }
+    },
+    describeChange: async (params) => ({
+      path: params.path as string,
+      ...await describeBefore(fileSystem, params.path as string),
+      after: null
+    })
   });
 
   // Search files tool
   tools.push({
     name: 'search_files',
-    description: 'Search for files matching a pattern in their name or content. Searches within the workspace only.',
+    description: 'Search the contents of workspace files, recursively, for text or a regular expression. Returns each matching line with its file, line number and surrounding lines. Ignored, binary and very large files are skipped.',
     parameters: {
       type: 'object',
       properties: {
         pattern: {
           type: 'string',
-          description: 'The search pattern (file name or content to search for)'
+          description: 'The text to search for (a regular expression if regex is true), matched against single lines'
         },
         path: {
           type: 'string',
-          description: 'The directory to search in, relative to workspace root'
+          description: 'The directory to search in, relative to workspace root (default: the whole workspace)'
+        },
+        regex: {
+          type: 'boolean',
+          description: 'Treat the pattern as a regular expression (default: false)'
+        },
+        case_sensitive: {
+          type: 'boolean',
+          description: 'Match case (default: false)'
+        },
+        include: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Only search files matching one of these globs, e.g. ["*.ts", "src/**"]'
+        },
+        exclude: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Skip files matching one of these globs, e.g. ["*.test.ts"]'
+        },
+        context_lines: {
+          type: 'number',
+          description: 'Lines to show before and after each match (default: 2, at most 10)'
+        },
+        max_results: {
+          type: 'number',
+          description: 'Stop after this many matches (default: 100, at most 500)'
         }
       },
       required: ['pattern']
     },
-    execute: async (params) => {
+    permissionLevel: PermissionLevel.READ_ONLY,
+    execute: async (params, context) => {
       if (!fileSystem) {
         return { success: false, error: 'File system not available (no workspace set)' };
       }
+      const globs = (value: unknown) => Array.isArray(value) ? value.map(String) : undefined;
       try {
-        // For now, just list files and filter by name
-        const items = await fileSystem.list(params.path as string || '.');
-        const pattern = params.pattern as string;
-        const matches = items.filter(item =>
-          item.name.toLowerCase().includes(pattern.toLowerCase())
-        );
-        return { success: true, data: matches, output: `Found ${matches.length} matching files` };
+        const result = await fileSystem.search({
+          pattern: params.pattern as string,
+          path: params.path as string | undefined,
+          regex: params.regex as boolean | undefined,
+          caseSensitive: params.case_sensitive as boolean | undefined,
+          include: globs(params.include),
+          exclude: globs(params.exclude),
+          contextLines: params.context_lines as number | undefined,
+          maxResults: params.max_results as number | undefined
+        }, context?.signal);
+        const files = new Set(result.matches.map(match => match.path)).size;
+        const more = result.truncated
+          ? ' (stopped at the result limit; narrow the search to see more)'
+          : result.timedOut ? ' (stopped at the time limit; narrow the search to see more)' : '';
+        return {
+          success: true,
+          data: result,
+          output: `Found ${result.matches.length} matches in ${files} files${more}`
+        };
       } catch (error) {
         return { success: false, error: `Search failed: ${error}` };
       }
@@ -0,0 +1,334 @@
+/**
+ * Usage Tracker
+ * Token usage and cost accounting: a per-model price table, daily and
+ * per-conversation totals persisted in userData, and spending limits
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import type { LLMProvider, TokenUsage, UsageBudget, UsagePeriodTotals } from '../../shared/types';
+
+/**
+ * Price of a model in USD per million tokens
+ */
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+/**
+ * List prices by model name prefix; the longest matching prefix wins and
+ * unknown models cost nothing. GLM prices are converted from CNY.
+ */
+export const DEFAULT_MODEL_PRICES: Record<string, ModelPrice> = {
+  'gpt-5': { input: 1.25, output: 10 },
+  'gpt-5-mini': { input: 0.25, output: 2 },
+  'gpt-5-nano': { input: 0.05, output: 0.4 },
+  'gpt-4.1': { input: 2, output: 8 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'gpt-4.1-nano': { input: 0.1, output: 0.4 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4-turbo': { input: 10, output: 30 },
+  'gpt-4': { input: 30, output: 60 },
+  'gpt-3.5-turbo': { input: 0.5, output: 1.5 },
+  'o1': { input: 15, output: 60 },
+  'o1-mini': { input: 1.1, output: 4.4 },
+  'o3': { input: 2, output: 8 },
+  'o3-mini': { input: 1.1, output: 4.4 },
+  'o4-mini': { input: 1.1, output: 4.4 },
+  'claude-opus-4': { input: 15, output: 75 },
+  'claude-sonnet-4': { input: 3, output: 15 },
+  'claude-3-opus': { input: 15, output: 75 },
+  'claude-3-7-sonnet': { input: 3, output: 15 },
+  'claude-3-5-sonnet': { input: 3, output: 15 },
+  'claude-3-5-haiku': { input: 0.8, output: 4 },
+  'claude-3-haiku': { input: 0.25, output: 1.25 },
+  'glm-4-plus': { input: 0.7, output: 0.7 },
+  'glm-4-air': { input: 0.07, output: 0.07 },
+  'glm-4-flash': { input: 0, output: 0 }
+};
+
+/**
+ * Providers that run on the user's machine and are never charged
+ */
+const LOCAL_PROVIDERS: LLMProvider[] = ['ollama'];
+
+/**
+ * Token counts of one LLM request
+ */
+export interface UsageRecord {
+  /** Provider that served the request */
+  provider?: LLMProvider;
+  /** Model that served the request */
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  /** Conversation the request belongs to */
+  conversationId?: string;
+}
+
+/**
+ * Usage tracker options
+ */
+export interface UsageTrackerOptions {
+  /** Prices added to (or replacing entries of) DEFAULT_MODEL_PRICES */
+  prices?: Record<string, ModelPrice>;
+  /** Limits used until a budget is saved with setBudget */
+  budget?: UsageBudget;
+  /** Clock (for tests) */
+  now?: () => Date;
+}
+
+/**
+ * Persisted totals: per local day and model, and per conversation
+ */
+interface UsageData {
+  days: Record<string, Record<string, TokenUsage>>;
+  conversations: Record<string, TokenUsage>;
+  budget?: UsageBudget;
+}
+
+/**
+ * Usage with nothing counted yet
+ */
+export function emptyUsage(): TokenUsage {
+  return { promptTokens: 0, completionTokens: 0, totalTokens: 0, cost: 0, requests: 0 };
+}
+
+/**
+ * Add usage to a running total (in place)
+ */
+export function addUsage(total: TokenUsage, usage: TokenUsage): TokenUsage {
+  total.promptTokens += usage.promptTokens;
+  total.completionTokens += usage.completionTokens;
+  total.totalTokens += usage.totalTokens;
+  total.cost += usage.cost;
+  total.requests += usage.requests;
+  return total;
+}
+
+/**
+ * Local calendar day of a date ('YYYY-MM-DD')
+ */
+function localDay(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/**
+ * Format a USD amount for messages
+ */
+function formatCost(cost: number): string {
+  return `$${cost.toFixed(cost < 1 ? 4 : 2)}`;
+}
+
+/**
+ * Usage Tracker
+ */
+export class UsageTracker {
+  private storePath: string;
+  private prices: Record<string, ModelPrice>;
+  private defaultBudget: UsageBudget;
+  private now: () => Date;
+  private data: UsageData = { days: {}, conversations: {} };
+  private loaded: boolean = false;
+  /** Pending write; writes are chained so they land in order */
+  private writing: Promise<void> = Promise.resolve();
+
+  /**
+   * @param storePath - JSON file for the totals (in-memory only if omitted)
+   */
+  constructor(storePath?: string, options: UsageTrackerOptions = {}) {
+    this.storePath = storePath || '';
+    this.prices = { ...DEFAULT_MODEL_PRICES, ...options.prices };
+    this.defaultBudget = options.budget ?? {};
+    this.now = options.now ?? (() => new Date());
+  }
+
+  /**
+   * Load persisted totals from disk
+   */
+  private async load(): Promise<void> {
+    if (this.loaded) {
+      return;
+    }
+    this.loaded = true;
+
+    if (!this.storePath) {
+      return;
+    }
+
+    try {
+      const parsed = JSON.parse(await fs.readFile(this.storePath, 'utf-8')) as Partial<UsageData>;
+      this.data = { days: parsed.days ?? {}, conversations: parsed.conversations ?? {}, budget: parsed.budget };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.warn('Failed to load usage totals:', error);
+      }
+    }
+  }
+
+  /**
+   * Write the totals to disk atomically
+   */
+  private async save(): Promise<void> {
+    if (!this.storePath) {
+      return;
+    }
+
+    const write = this.writing.then(async () => {
+      const tmpPath = `${this.storePath}.tmp`;
+      await fs.mkdir(path.dirname(this.storePath), { recursive: true });
+      await fs.writeFile(tmpPath, JSON.stringify(this.data), 'utf-8');
+      await fs.rename(tmpPath, this.storePath);
+    });
+    this.writing = write.catch(() => {});
+    return write;
+  }
+
+  /**
+   * Price of a model (provider prefixes such as "openai/" are ignored)
+   */
+  priceFor(model: string, provider?: LLMProvider): ModelPrice {
+    if (provider && LOCAL_PROVIDERS.includes(provider)) {
+      return { input: 0, output: 0 };
+    }
+
+    const name = model.toLowerCase().split('/').pop() || '';
+    let match: ModelPrice = { input: 0, output: 0 };
+    let matchLength = -1;
+    for (const [prefix, price] of Object.entries(this.prices)) {
+      if (name.startsWith(prefix) && prefix.length > matchLength) {
+        match = price;
+        matchLength = prefix.length;
+      }
+    }
+    return match;
+  }
+
+  /**
+   * Cost of a request in USD
+   */
+  costOf(record: Omit<UsageRecord, 'conversationId'>): number {
+    const price = this.priceFor(record.model, record.provider);
+    return (record.promptTokens * price.input + record.completionTokens * price.output) / 1_000_000;
+  }
+
+  /**
+   * Usage of a single request, with its cost
+   */
+  usageOf(record: Omit<UsageRecord, 'conversationId'>): TokenUsage {
+    return {
+      promptTokens: record.promptTokens,
+      completionTokens: record.completionTokens,
+      totalTokens: record.promptTokens + record.completionTokens,
+      cost: this.costOf(record),
+      requests: 1
+    };
+  }
+
+  /**
+   * Count a request towards today's and its conversation's totals
+   * @returns The request's usage, with its cost
+   */
+  async record(record: UsageRecord): Promise<TokenUsage> {
+    await this.load();
+
+    const usage = this.usageOf(record);
+    const day = this.data.days[localDay(this.now())] ??= {};
+    addUsage(day[record.model] ??= emptyUsage(), usage);
+    if (record.conversationId) {
+      addUsage(this.data.conversations[record.conversationId] ??= emptyUsage(), usage);
+    }
+
+    try {
+      await this.save();
+    } catch (error) {
+      console.warn('Failed to save usage totals:', error);
+    }
+    return usage;
+  }
+
+  /**
+   * Totals per day or month, newest first
+   */
+  async getTotals(period: 'day' | 'month' = 'day', limit: number = 31): Promise<UsagePeriodTotals[]> {
+    await this.load();
+
+    const totals = new Map<string, UsagePeriodTotals>();
+    for (const [day, models] of Object.entries(this.data.days)) {
+      const key = period === 'month' ? day.slice(0, 7) : day;
+      let entry = totals.get(key);
+      if (!entry) {
+        entry = { period: key, usage: emptyUsage(), byModel: {} };
+        totals.set(key, entry);
+      }
+      for (const [model, usage] of Object.entries(models)) {
+        addUsage(entry.usage, usage);
+        addUsage(entry.byModel[model] ??= emptyUsage(), usage);
+      }
+    }
+
+    return Array.from(totals.values())
+      .sort((a, b) => b.period.localeCompare(a.period))
+      .slice(0, limit);
+  }
+
+  /**
+   * Totals of a conversation
+   */
+  async getConversationUsage(conversationId: string): Promise<TokenUsage> {
+    await this.load();
+    return { ...(this.data.conversations[conversationId] ?? emptyUsage()) };
+  }
+
+  /**
+   * Current spending limits
+   */
+  async getBudget(): Promise<UsageBudget> {
+    await this.load();
+    return { ...(this.data.budget ?? this.defaultBudget) };
+  }
+
+  /**
+   * Replace the spending limits (persisted with the totals)
+   */
+  async setBudget(budget: UsageBudget): Promise<UsageBudget> {
+    await this.load();
+    this.data.budget = { ...budget };
+    await this.save();
+    return this.getBudget();
+  }
+
+  /**
+   * Check a request against the spending limits before sending it
+   * @param runCost - What the run has spent so far
+   * @param nextCost - Estimated cost of the request
+   * @returns Why the request would go over a limit, or null if it fits
+   */
+  async checkBudget(runCost: number, nextCost: number): Promise<string | null> {
+    const budget = await this.getBudget();
+    const today = localDay(this.now());
+    const spent = (prefix: string) => Object.entries(this.data.days)
+      .filter(([day]) => day.startsWith(prefix))
+      .reduce((sum, [, models]) => sum + Object.values(models).reduce((daySum, usage) => daySum + usage.cost, 0), 0);
+
+    const limits: Array<[name: string, limit: number | undefined, spent: () => number]> = [
+      ['Run', budget.perRun, () => runCost],
+      ['Daily', budget.daily, () => spent(today)],
+      ['Monthly', budget.monthly, () => spent(today.slice(0, 7))]
+    ];
+    for (const [name, limit, getSpent] of limits) {
+      if (limit === undefined) {
+        continue;
+      }
+      const total = getSpent();
+      if (total + nextCost > limit) {
+        return `${name} budget of ${formatCost(limit)} would be exceeded ` +
+          `(${formatCost(total)} spent, next request about ${formatCost(nextCost)})`;
+      }
+    }
+    return null;
+  }
+}
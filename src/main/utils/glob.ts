@@ -0,0 +1,90 @@
+/**
+ * Glob Matching Utilities
+ * Minimal glob support for workspace-relative paths: *, **, ? and {a,b}
+ */
+
+/**
+ * Escape a character for use inside a regular expression
+ */
+function escapeRegExp(char: string): string {
+  return /[.+^${}()|[\]\\]/.test(char) ? `\\${char}` : char;
+}
+
+/**
+ * Normalize a path to forward slashes without a leading "./"
+ */
+export function normalizeGlobPath(filePath: string): string {
+  return filePath.replace(/\\/g, '/').replace(/^\.\//, '');
+}
+
+/**
+ * Convert a glob pattern to an anchored regular expression
+ */
+export function globToRegExp(glob: string, options: { caseSensitive?: boolean } = {}): RegExp {
+  const pattern = normalizeGlobPath(glob);
+  let source = '';
+  let inGroup = false;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+
+    if (char === '*') {
+      if (pattern[i + 1] === '*') {
+        // "**/" matches zero or more directories, a trailing "**" matches everything
+        if (pattern[i + 2] === '/') {
+          source += '(?:.*/)?';
+          i += 2;
+        } else {
+          source += '.*';
+          i += 1;
+        }
+      } else {
+        source += '[^/]*';
+      }
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '{') {
+      inGroup = true;
+      source += '(?:';
+    } else if (char === '}' && inGroup) {
+      inGroup = false;
+      source += ')';
+    } else if (char === ',' && inGroup) {
+      source += '|';
+    } else {
+      source += escapeRegExp(char);
+    }
+  }
+
+  return new RegExp(`^${source}$`, options.caseSensitive === false ? 'i' : '');
+}
+
+/**
+ * Glob matching options
+ */
+export interface GlobMatchOptions {
+  /** Case-sensitive matching (default: true) */
+  caseSensitive?: boolean;
+  /** Let patterns without a "/" match the file name at any depth, like .gitignore (default: true) */
+  matchBase?: boolean;
+}
+
+/**
+ * Check whether a relative path matches a glob pattern
+ */
+export function matchGlob(pattern: string, filePath: string, options: GlobMatchOptions = {}): boolean {
+  const normalizedPattern = normalizeGlobPath(pattern);
+  const normalizedPath = normalizeGlobPath(filePath);
+  const regex = globToRegExp(normalizedPattern, options);
+
+  if (regex.test(normalizedPath)) {
+    return true;
+  }
+
+  if (options.matchBase !== false && !normalizedPattern.includes('/')) {
+    const baseName = normalizedPath.split('/').pop() || normalizedPath;
+    return regex.test(baseName);
+  }
+
+  return false;
+}
@@ -0,0 +1,144 @@
+/**
+ * JSON Repair Utilities
+ * Lenient parsing for JSON written by models: code fences, surrounding prose,
+ * comments, single quotes, unquoted keys, Python literals, trailing commas,
+ * raw newlines in strings and unclosed brackets
+ */
+
+/**
+ * Literals models write instead of JSON's
+ */
+const LITERALS: Record<string, string> = {
+  true: 'true',
+  false: 'false',
+  null: 'null',
+  True: 'true',
+  False: 'false',
+  None: 'null',
+  undefined: 'null'
+};
+
+/**
+ * Remove a trailing comma (and the whitespace after it) from the output
+ */
+function dropTrailingComma(out: string): string {
+  const trimmed = out.trimEnd();
+  return trimmed.endsWith(',') ? trimmed.slice(0, -1) : out;
+}
+
+/**
+ * Rewrite near-JSON into JSON, up to the end of the first object or array.
+ * Only structure is fixed; values are never guessed.
+ */
+export function repairJson(text: string): string {
+  let out = '';
+  const closers: string[] = [];
+  let quote: '"' | "'" | null = null;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quote) {
+      if (char === '\\' && i + 1 < text.length) {
+        const next = text[++i];
+        // \' is not a JSON escape
+        out += next === "'" ? "'" : `\\${next}`;
+      } else if (char === quote) {
+        out += '"';
+        quote = null;
+      } else if (char === '"') {
+        out += '\\"';
+      } else if (char === '\n') {
+        out += '\\n';
+      } else if (char === '\r') {
+        out += '\\r';
+      } else if (char === '\t') {
+        out += '\\t';
+      } else if (char < ' ') {
+        out += `\\u${char.charCodeAt(0).toString(16).padStart(4, '0')}`;
+      } else {
+        out += char;
+      }
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      quote = char;
+      out += '"';
+    } else if (char === '/' && text[i + 1] === '/') {
+      while (i < text.length && text[i] !== '\n') i++;
+    } else if (char === '/' && text[i + 1] === '*') {
+      const end = text.indexOf('*/', i + 2);
+      i = end === -1 ? text.length : end + 1;
+    } else if (char === '{' || char === '[') {
+      closers.push(char === '{' ? '}' : ']');
+      out += char;
+    } else if (char === '}' || char === ']') {
+      out = dropTrailingComma(out);
+      if (closers[closers.length - 1] === char) {
+        closers.pop();
+      }
+      out += char;
+      // Anything after the top-level value is prose
+      if (closers.length === 0) {
+        break;
+      }
+    } else if (/[A-Za-z_$]/.test(char)) {
+      let word = char;
+      while (i + 1 < text.length && /[\w$]/.test(text[i + 1])) {
+        word += text[++i];
+      }
+      const rest = text.slice(i + 1).trimStart();
+      if (rest.startsWith(':')) {
+        out += JSON.stringify(word);
+      } else {
+        out += LITERALS[word] ?? JSON.stringify(word);
+      }
+    } else {
+      out += char;
+    }
+  }
+
+  // Truncated output: close the open string and brackets
+  if (quote) {
+    out += '"';
+  }
+  out = dropTrailingComma(out);
+  while (closers.length > 0) {
+    out += closers.pop();
+  }
+  return out;
+}
+
+/**
+ * Parse JSON, repairing common mistakes if strict parsing fails. A JSON
+ * string holding JSON (double encoding) is decoded once more.
+ * @throws SyntaxError when the text cannot be repaired
+ */
+export function parseLenientJson(text: string): unknown {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch (error) {
+    // Start at the JSON value, past code fences and prose; bare `key: value` pairs get braces
+    const fenced = text.match(/```(?:json)?\s*([\s\S]*?)(?:```|$)/);
+    let body = (fenced ? fenced[1] : text).trim();
+    const start = body.search(/[{[]/);
+    body = start === -1 ? `{${body}}` : body.slice(start);
+
+    try {
+      value = JSON.parse(repairJson(body));
+    } catch {
+      throw error;
+    }
+  }
+
+  if (typeof value === 'string' && /^\s*[{[]/.test(value)) {
+    try {
+      return parseLenientJson(value);
+    } catch {
+      return value;
+    }
+  }
+  return value;
+}
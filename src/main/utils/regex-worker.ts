@@ -0,0 +1,98 @@
+/**
+ * Regex Worker
+ * Runs a user-supplied regular expression in a worker thread. A running
+ * exec() cannot be interrupted, so a pattern that backtracks for minutes is
+ * stopped by terminating its worker instead of blocking the main process.
+ */
+
+import { Worker } from 'worker_threads';
+
+/**
+ * Worker source: answers each batch of lines with [index, column] of the
+ * first match on every matching line
+ */
+const WORKER_SOURCE = `
+const { parentPort, workerData } = require('worker_threads');
+const matcher = new RegExp(workerData.source, workerData.flags);
+parentPort.on('message', lines => {
+  const matches = [];
+  for (let index = 0; index < lines.length; index++) {
+    const match = matcher.exec(lines[index]);
+    if (match) {
+      matches.push([index, match.index]);
+    }
+  }
+  parentPort.postMessage(matches);
+});
+`;
+
+/**
+ * Line index and column (both 0-based) of a match
+ */
+export type LineMatch = [index: number, column: number];
+
+/**
+ * A regular expression matched in its own worker thread. Runs one batch at a
+ * time; once a batch has timed out or been aborted the worker is gone and
+ * every later batch resolves to null.
+ */
+export class RegexWorker {
+  private worker: Worker | null;
+
+  constructor(matcher: RegExp) {
+    this.worker = new Worker(WORKER_SOURCE, {
+      eval: true,
+      workerData: { source: matcher.source, flags: matcher.flags.replace(/[gy]/g, '') }
+    });
+  }
+
+  /**
+   * Match each line, giving up after timeoutMs or when the signal is aborted
+   * @returns The matches in line order, or null if matching was stopped
+   */
+  match(lines: string[], timeoutMs: number, signal?: AbortSignal): Promise<LineMatch[] | null> {
+    const worker = this.worker;
+    if (!worker || timeoutMs <= 0 || signal?.aborted) {
+      void this.terminate();
+      return Promise.resolve(null);
+    }
+
+    return new Promise((resolve, reject) => {
+      const settle = () => {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', stop);
+        worker.off('message', onMessage);
+        worker.off('error', onError);
+      };
+      const stop = () => {
+        settle();
+        void this.terminate();
+        resolve(null);
+      };
+      const onMessage = (matches: LineMatch[]) => {
+        settle();
+        resolve(matches);
+      };
+      const onError = (error: Error) => {
+        settle();
+        this.worker = null;
+        reject(error);
+      };
+
+      const timer = setTimeout(stop, timeoutMs);
+      signal?.addEventListener('abort', stop);
+      worker.on('message', onMessage);
+      worker.on('error', onError);
+      worker.postMessage(lines);
+    });
+  }
+
+  /**
+   * Stop the worker thread
+   */
+  async terminate(): Promise<void> {
+    const worker = this.worker;
+    this.worker = null;
+    await worker?.terminate();
+  }
+}
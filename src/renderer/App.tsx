@@ -1,7 +1,7 @@
 import React, { useState, useEffect, useCallback } from 'react';
 import MessageList from './components/MessageList';
 import ChatInput from './components/ChatInput';
-import PermissionDialog, { PermissionRequestData } from './components/PermissionDialog';
+import PermissionDialog, { PermissionRequestData, PermissionApproval } from './components/PermissionDialog';
 import { ModelConfig } from './components/ModelSelector';
 import './styles/App.css';
 
@@ -21,9 +21,28 @@ interface AttachedFile {
   size: number;
 }
 
+// Guardian 权限等级 (PermissionLevel 0-4) 对应的对话框等级
+const PERMISSION_LEVEL_NAMES: PermissionRequestData['level'][] = ['read', 'edit', 'execute', 'delete', 'network'];
+
+interface PlanTask {
+  id: string;
+  description: string;
+  status: 'pending' | 'running' | 'success' | 'failed' | 'cancelled' | 'paused';
+  progress: number;
+  error?: string;
+}
+
+interface ExecutionPlan {
+  goal: string;
+  tasks: PlanTask[];
+}
+
 interface AgentStep {
-  type: 'thought' | 'tool_call' | 'observation' | 'final_answer';
+  type: 'thought' | 'tool_call' | 'observation' | 'final_answer' | 'plan' | 'compaction' | 'fallback';
   content: string;
+  plan?: ExecutionPlan;
+  compaction?: { tokensBefore: number; tokensAfter: number; budget: number; summarizedMessages: number; truncatedOutputs: string[] };
+  fallback?: { from: { provider: string; model: string }; to: { provider: string; model: string }; reason: string; timestamp: number };
   toolCalls?: Array<{ id: string; name: string; arguments: string }>;
   toolResults?: Array<{ id: string; result: any }>;
   timestamp: number;
@@ -38,6 +57,13 @@ export default function App() {
   const [currentModel, setCurrentModel] = useState<ModelConfig | null>(null);
   const [isConfigured, setIsConfigured] = useState(false);
   const [currentSteps, setCurrentSteps] = useState<AgentStep[]>([]);
+  // 模型正在输出的文本 (逐 token 推送)
+  const [streamingText, setStreamingText] = useState('');
+  const [planMode, setPlanMode] = useState(false);
+  const [currentPlan, setCurrentPlan] = useState<ExecutionPlan | null>(null);
+  const [pausedRunId, setPausedRunId] = useState<string | null>(null);
+  // 会话 ID: 主进程按此保存多轮对话历史
+  const [conversationId, setConversationId] = useState(() => crypto.randomUUID());
 
   // Check if LLM is configured on mount
   useEffect(() => {
@@ -55,6 +81,25 @@ export default function App() {
     checkConfiguration();
   }, []);
 
+  // 恢复上次暂停的任务 (应用重启后仍可继续)
+  useEffect(() => {
+    const loadPausedRun = async () => {
+      try {
+        const electronAPI = (window as any).electronAPI;
+        if (electronAPI && electronAPI.agent) {
+          const runs = await electronAPI.agent.listRuns();
+          const paused = runs.find((run: { status: string }) => run.status === 'paused');
+          if (paused) {
+            setPausedRunId(paused.id);
+          }
+        }
+      } catch (error) {
+        console.error('Failed to load paused agent runs:', error);
+      }
+    };
+    loadPausedRun();
+  }, []);
+
   // Subscribe to agent steps
   useEffect(() => {
     const electronAPI = (window as any).electronAPI;
@@ -65,9 +110,22 @@ export default function App() {
     const handleAgentStep = (step: AgentStep) => {
       console.log('Agent step:', step);
       setCurrentSteps((prev) => [...prev, step]);
+      // 已输出的文本归入该步骤，之后的输出重新开始
+      setStreamingText('');
+    };
+
+    const handleAgentToken = (delta: string) => {
+      setStreamingText((prev) => prev + delta);
+    };
+
+    // 计划模式下任务状态/进度更新
+    const handleAgentPlan = (plan: ExecutionPlan) => {
+      setCurrentPlan(plan);
     };
 
     electronAPI.events.on('agent:step', handleAgentStep);
+    electronAPI.events.on('agent:token', handleAgentToken);
+    electronAPI.events.on('agent:plan', handleAgentPlan);
 
     // Subscribe to agent steps in main process
     if (electronAPI.agent) {
@@ -76,6 +134,8 @@ export default function App() {
 
     return () => {
       electronAPI.events.removeListener('agent:step', handleAgentStep);
+      electronAPI.events.removeListener('agent:token', handleAgentToken);
+      electronAPI.events.removeListener('agent:plan', handleAgentPlan);
     };
   }, []);
 
@@ -90,10 +150,12 @@ export default function App() {
     setMessages((prev) => [...prev, userMessage]);
     setIsLoading(true);
     setCurrentSteps([]);
+    setStreamingText('');
+    setCurrentPlan(null);
 
     // Check if API is configured
     const electronAPI = (window as any).electronAPI;
-    if (!isConfigured || !currentModel?.apiKey) {
+    if (!isConfigured || !currentModel) {
       const errorMsg: Message = {
         id: (Date.now() + 1).toString(),
         role: 'system',
@@ -110,18 +172,12 @@ export default function App() {
       if (electronAPI && electronAPI.agent) {
         const response = await electronAPI.agent.execute(content, {
           workspacePath: workspace || undefined,
-          attachments: attachments
+          attachments: attachments,
+          mode: planMode ? 'plan' : 'direct',
+          conversationId
         });
 
-        const assistantMessage: Message = {
-          id: (Date.now() + 1).toString(),
-          role: 'assistant',
-          content: response.success ? response.answer : `错误: ${response.error}`,
-          timestamp: Date.now(),
-          steps: response.steps?.filter((step: AgentStep) => step.type !== 'final_answer')
-        };
-
-        setMessages((prev) => [...prev, assistantMessage]);
+        handleAgentResponse(response);
       } else {
         throw new Error('Agent API not available');
       }
@@ -138,6 +194,93 @@ export default function App() {
     }
   };
 
+  const handleAgentResponse = (response: any) => {
+    const steps = response.steps?.filter((step: AgentStep) => step.type !== 'final_answer');
+
+    if (response.status === 'paused') {
+      setPausedRunId(response.runId);
+      setMessages((prev) => [...prev, {
+        id: (Date.now() + 1).toString(),
+        role: 'system',
+        content: '⏸️ 任务已暂停，点击输入框右侧的继续按钮可恢复执行',
+        timestamp: Date.now(),
+        steps
+      }]);
+      return;
+    }
+
+    if (response.status === 'cancelled') {
+      setMessages((prev) => [...prev, {
+        id: (Date.now() + 1).toString(),
+        role: 'system',
+        content: '⏹️ 任务已停止',
+        timestamp: Date.now(),
+        steps
+      }]);
+      return;
+    }
+
+    const assistantMessage: Message = {
+      id: (Date.now() + 1).toString(),
+      role: 'assistant',
+      content: response.success ? response.answer : `错误: ${response.error}`,
+      timestamp: Date.now(),
+      steps
+    };
+
+    setMessages((prev) => [...prev, assistantMessage]);
+  };
+
+  // 新对话: 清空界面并丢弃主进程中的历史
+  const handleNewConversation = () => {
+    if (isLoading) {
+      return;
+    }
+    (window as any).electronAPI?.agent?.clearConversation(conversationId)
+      .catch((error: unknown) => console.error('Failed to clear conversation:', error));
+    setConversationId(crypto.randomUUID());
+    setMessages([]);
+    setCurrentSteps([]);
+    setStreamingText('');
+    setCurrentPlan(null);
+  };
+
+  const handleStop = () => {
+    (window as any).electronAPI?.agent?.cancel();
+  };
+
+  const handlePause = () => {
+    (window as any).electronAPI?.agent?.pause();
+  };
+
+  const handleResume = async () => {
+    const electronAPI = (window as any).electronAPI;
+    if (!pausedRunId || !electronAPI || !electronAPI.agent) {
+      return;
+    }
+
+    const runId = pausedRunId;
+    setPausedRunId(null);
+    setIsLoading(true);
+    setCurrentSteps([]);
+    setStreamingText('');
+    setCurrentPlan(null);
+
+    try {
+      handleAgentResponse(await electronAPI.agent.resume(runId));
+    } catch (error) {
+      console.error('Agent resume failed:', error);
+      setMessages((prev) => [...prev, {
+        id: (Date.now() + 1).toString(),
+        role: 'system',
+        content: `恢复失败: ${error instanceof Error ? error.message : String(error)}`,
+        timestamp: Date.now(),
+      }]);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   const handleWorkspaceSelect = async (path: string) => {
     setWorkspace(path);
 
@@ -157,20 +300,12 @@ export default function App() {
     setCurrentModel(model);
     console.log('Model changed:', model);
 
-    // 通知主进程更新模型配置
+    // 主进程在切换模型配置 (settings:set-active-profile) 时已更新 LLM，这里只重新检查配置
     try {
       const electronAPI = (window as any).electronAPI;
       if (electronAPI && electronAPI.llm) {
-        await electronAPI.llm.updateConfig({
-          provider: model.provider,
-          model: model.model,
-          apiKey: model.apiKey || '',
-          ...(model.baseUrl && { baseUrl: model.baseUrl })
-        });
-
-        // Re-check configuration
         const configured = await electronAPI.llm.isConfigured();
-        setIsConfigured(configured && !!model.apiKey);
+        setIsConfigured(configured);
       }
     } catch (error) {
       console.error('Failed to update model config:', error);
@@ -185,28 +320,41 @@ export default function App() {
       return;
     }
 
-    const handleApprovalRequest = (data: PermissionRequestData) => {
+    const handleApprovalRequest = (data: { requestId: string; request: any }) => {
       console.log('收到权限请求:', data);
-      setPermissionRequest(data);
+      setPermissionRequest({
+        requestId: data.requestId,
+        operation: data.request.action,
+        target: data.request.target,
+        level: PERMISSION_LEVEL_NAMES[data.request.level] ?? 'execute',
+        confirmation: data.request.confirmation
+      });
+    };
+
+    // 运行被暂停或取消时，主进程撤回未答复的请求
+    const handleApprovalCancelled = (data: { requestId: string }) => {
+      setPermissionRequest(current => current?.requestId === data.requestId ? null : current);
     };
 
     // 注册监听器
     electronAPI.events.on('guardian:approval-request', handleApprovalRequest);
+    electronAPI.events.on('guardian:approval-cancelled', handleApprovalCancelled);
 
     // 清理函数
     return () => {
       electronAPI.events.removeListener('guardian:approval-request', handleApprovalRequest);
+      electronAPI.events.removeListener('guardian:approval-cancelled', handleApprovalCancelled);
     };
   }, []);
 
   // 处理权限批准
-  const handlePermissionApprove = useCallback(async () => {
+  const handlePermissionApprove = useCallback(async (approval: PermissionApproval) => {
     if (!permissionRequest) return;
 
     try {
       await (window as any).electronAPI.guardian.sendApprovalResponse(
         permissionRequest.requestId,
-        { approved: true }
+        { approved: true, ...approval }
       );
     } catch (error) {
       console.error('发送批准响应失败:', error);
@@ -216,13 +364,13 @@ export default function App() {
   }, [permissionRequest]);
 
   // 处理权限拒绝
-  const handlePermissionDeny = useCallback(async () => {
+  const handlePermissionDeny = useCallback(async (approval: PermissionApproval) => {
     if (!permissionRequest) return;
 
     try {
       await (window as any).electronAPI.guardian.sendApprovalResponse(
         permissionRequest.requestId,
-        { approved: false }
+        { approved: false, remember: approval.remember, rememberGlob: approval.rememberGlob }
       );
     } catch (error) {
       console.error('发送拒绝响应失败:', error);
@@ -234,6 +382,14 @@ export default function App() {
   return (
     <div className="app">
       <header className="app-header">
+        <button
+          className="new-conversation-btn"
+          onClick={handleNewConversation}
+          disabled={isLoading}
+          title="新对话"
+        >
+          新对话
+        </button>
         <h1>Desktop Mate</h1>
         <div className="window-controls">
           <button
@@ -267,7 +423,7 @@ export default function App() {
       </header>
 
       <main className="app-main">
-        <MessageList messages={messages} isLoading={isLoading} agentSteps={currentSteps} />
+        <MessageList messages={messages} isLoading={isLoading} agentSteps={currentSteps} agentPlan={currentPlan} streamingText={streamingText} />
         <ChatInput
           onSend={handleSendMessage}
           disabled={isLoading}
@@ -276,12 +432,19 @@ export default function App() {
           onWorkspaceSelect={handleWorkspaceSelect}
           currentWorkspace={workspace}
           currentModel={currentModel}
+          planMode={planMode}
+          onPlanModeChange={setPlanMode}
+          running={isLoading}
+          onStop={handleStop}
+          onPause={handlePause}
+          onResume={pausedRunId ? handleResume : undefined}
         />
       </main>
 
       {/* 权限审批对话框 */}
       {permissionRequest && (
         <PermissionDialog
+          key={permissionRequest.requestId}
           request={permissionRequest}
           onApprove={handlePermissionApprove}
           onDeny={handlePermissionDeny}
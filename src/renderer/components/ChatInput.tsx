@@ -18,6 +18,12 @@ interface ChatInputProps {
   onWorkspaceSelect?: (path: string) => void;
   currentWorkspace?: string | null;
   currentModel?: ModelConfig | null;
+  planMode?: boolean;
+  onPlanModeChange?: (enabled: boolean) => void;
+  running?: boolean;
+  onStop?: () => void;
+  onPause?: () => void;
+  onResume?: () => void;
 }
 
 export default function ChatInput({
@@ -27,7 +33,13 @@ export default function ChatInput({
   onModelChange,
   onWorkspaceSelect,
   currentWorkspace,
-  currentModel
+  currentModel,
+  planMode = false,
+  onPlanModeChange,
+  running = false,
+  onStop,
+  onPause,
+  onResume
 }: ChatInputProps) {
   const [input, setInput] = useState('');
   const [attachments, setAttachments] = useState<AttachedFile[]>([]);
@@ -182,22 +194,75 @@ export default function ChatInput({
                 <path d="M21.44 11.05l-9.19 9.19a6 6 0 0 1-8.49-8.49l9.19-9.19a4 4 0 0 1 5.66 5.66l-9.2 9.19a2 2 0 0 1-2.83-2.83l8.49-8.48" />
               </svg>
             </button>
+            {onPlanModeChange && (
+              <button
+                type="button"
+                className={`plan-mode-button-inline ${planMode ? 'active' : ''}`}
+                onClick={() => onPlanModeChange(!planMode)}
+                disabled={disabled}
+                title={planMode ? '计划模式：已开启 (先生成执行计划再逐步执行)' : '计划模式：已关闭'}
+              >
+                <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                  <path d="M9 6h11M9 12h11M9 18h11" />
+                  <path d="M4 6h.01M4 12h.01M4 18h.01" />
+                </svg>
+              </button>
+            )}
           </div>
 
-          {/* Right: Model selector + Send button */}
+          {/* Right: Model selector + Send button (pause/stop while the agent runs) */}
           <div className="controls-right">
             <ModelSelector onModelChange={onModelChange || (() => {})} />
-            <button
-              type="submit"
-              className="send-button-inline"
-              disabled={disabled || (!input.trim() && attachments.length === 0)}
-              title="发送"
-            >
-              <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
-                <path d="M22 2L11 13" />
-                <path d="M22 2L15 22L11 13L2 9L22 2Z" />
-              </svg>
-            </button>
+            {!running && onResume && (
+              <button
+                type="button"
+                className="run-control-button-inline"
+                onClick={onResume}
+                disabled={disabled}
+                title="继续已暂停的任务"
+              >
+                <svg width="18" height="18" viewBox="0 0 24 24" fill="currentColor">
+                  <path d="M7 4L20 12L7 20Z" />
+                </svg>
+              </button>
+            )}
+            {running && onPause && (
+              <button
+                type="button"
+                className="run-control-button-inline"
+                onClick={onPause}
+                title="暂停"
+              >
+                <svg width="18" height="18" viewBox="0 0 24 24" fill="currentColor">
+                  <rect x="6" y="4" width="4" height="16" />
+                  <rect x="14" y="4" width="4" height="16" />
+                </svg>
+              </button>
+            )}
+            {running && onStop ? (
+              <button
+                type="button"
+                className="send-button-inline"
+                onClick={onStop}
+                title="停止"
+              >
+                <svg width="14" height="14" viewBox="0 0 24 24" fill="currentColor">
+                  <rect x="4" y="4" width="16" height="16" rx="2" />
+                </svg>
+              </button>
+            ) : (
+              <button
+                type="submit"
+                className="send-button-inline"
+                disabled={disabled || (!input.trim() && attachments.length === 0)}
+                title="发送"
+              >
+                <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                  <path d="M22 2L11 13" />
+                  <path d="M22 2L15 22L11 13L2 9L22 2Z" />
+                </svg>
+              </button>
+            )}
           </div>
         </div>
       </div>
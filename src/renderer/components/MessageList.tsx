@@ -17,9 +17,25 @@ interface AttachedFile {
   size: number;
 }
 
+interface PlanTask {
+  id: string;
+  description: string;
+  status: 'pending' | 'running' | 'success' | 'failed' | 'cancelled' | 'paused';
+  progress: number;
+  error?: string;
+}
+
+interface ExecutionPlan {
+  goal: string;
+  tasks: PlanTask[];
+}
+
 interface AgentStep {
-  type: 'thought' | 'tool_call' | 'observation' | 'final_answer';
+  type: 'thought' | 'tool_call' | 'observation' | 'final_answer' | 'plan' | 'compaction' | 'fallback';
   content: string;
+  plan?: ExecutionPlan;
+  compaction?: { tokensBefore: number; tokensAfter: number; budget: number; summarizedMessages: number; truncatedOutputs: string[] };
+  fallback?: { from: { provider: string; model: string }; to: { provider: string; model: string }; reason: string; timestamp: number };
   toolCalls?: Array<{ id: string; name: string; arguments: string }>;
   toolResults?: Array<{ id: string; result: any }>;
   timestamp: number;
@@ -30,15 +46,28 @@ interface MessageListProps {
   messages: Message[];
   isLoading: boolean;
   agentSteps?: AgentStep[];
+  agentPlan?: ExecutionPlan | null;
+  /** 模型正在输出的文本 */
+  streamingText?: string;
 }
 
-export default function MessageList({ messages, isLoading, agentSteps = [] }: MessageListProps) {
+// 计划任务状态图标
+const TASK_STATUS_ICONS: Record<PlanTask['status'], string> = {
+  pending: '⏳',
+  running: '🔄',
+  success: '✅',
+  failed: '❌',
+  cancelled: '⛔',
+  paused: '⏸️'
+};
+
+export default function MessageList({ messages, isLoading, agentSteps = [], agentPlan = null, streamingText = '' }: MessageListProps) {
   const messagesEndRef = React.useRef<HTMLDivElement>(null);
   const [expandedSteps, setExpandedSteps] = React.useState<Record<string, boolean>>({});
 
   React.useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [messages, isLoading, agentSteps]);
+  }, [messages, isLoading, agentSteps, agentPlan, streamingText]);
 
   // 过滤掉 final_answer 类型的步骤
   const filterSteps = (steps: AgentStep[]) => {
@@ -101,7 +130,10 @@ export default function MessageList({ messages, isLoading, agentSteps = [] }: Me
       thought: '💭',
       tool_call: '🔧',
       observation: '👁️',
-      final_answer: '✅'
+      final_answer: '✅',
+      plan: '🗺️',
+      compaction: '🗜️',
+      fallback: '🔀'
     };
 
     // 获取步骤状态图标
@@ -124,6 +156,16 @@ export default function MessageList({ messages, isLoading, agentSteps = [] }: Me
           return step.toolResults?.map(r => r.result.success ? '执行成功' : '执行失败').join(', ') || '观察结果';
         case 'thought':
           return step.content ? step.content.slice(0, 100) + (step.content.length > 100 ? '...' : '') : '思考中...';
+        case 'plan':
+          return `执行计划: ${step.content} (${step.plan?.tasks.length ?? 0} 个任务)`;
+        case 'compaction':
+          return step.compaction
+            ? `上下文压缩: ${step.compaction.tokensBefore} → ${step.compaction.tokensAfter} tokens`
+            : '上下文压缩';
+        case 'fallback':
+          return step.fallback
+            ? `切换到备用模型: ${step.fallback.from.model} → ${step.fallback.to.model}`
+            : '切换到备用模型';
         default:
           return step.type.replace('_', ' ');
       }
@@ -140,6 +182,26 @@ export default function MessageList({ messages, isLoading, agentSteps = [] }: Me
     );
   };
 
+  // 渲染执行计划及各任务状态/进度
+  const renderPlan = (plan: ExecutionPlan) => (
+    <div className="agent-plan">
+      <div className="plan-goal">🗺️ {plan.goal}</div>
+      <div className="plan-tasks">
+        {plan.tasks.map(task => (
+          <div key={task.id} className={`plan-task plan-task-${task.status}`}>
+            <div className="step-header">
+              <span className="step-status">{TASK_STATUS_ICONS[task.status]}</span>
+              <span className="step-description">{task.description}</span>
+              {task.status === 'running' && <span className="plan-task-progress">{task.progress}%</span>}
+              {task.status === 'paused' && <span className="plan-task-progress">等待审批</span>}
+            </div>
+            {task.error && <div className="plan-task-error">{task.error}</div>}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+
   return (
     <div className="message-list">
       {messages.map((message) => {
@@ -182,19 +244,31 @@ export default function MessageList({ messages, isLoading, agentSteps = [] }: Me
       {/* Show real-time agent steps when loading */}
       {isLoading && agentSteps.length > 0 && (
         <div className="agent-steps-live">
+          {agentPlan && renderPlan(agentPlan)}
           <div className="steps-header">🔄 正在执行... ({filterSteps(agentSteps).length} 步)</div>
           <div className="steps-list">
             {filterSteps(agentSteps).map((step, index) => renderAgentStep(step, index))}
           </div>
-          <div className="typing-indicator">
-            <span></span>
-            <span></span>
-            <span></span>
+          {!streamingText && (
+            <div className="typing-indicator">
+              <span></span>
+              <span></span>
+              <span></span>
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* 实时显示模型正在输出的文本 */}
+      {isLoading && streamingText && (
+        <div className="message message-assistant message-streaming">
+          <div className="message-content">
+            {renderContent(streamingText)}
           </div>
         </div>
       )}
 
-      {isLoading && agentSteps.length === 0 && (
+      {isLoading && agentSteps.length === 0 && !streamingText && (
         <div className="message message-assistant">
           <div className="message-content typing">
             <span></span>
@@ -1,12 +1,16 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
 import './ModelSelector.css';
 
 export interface ModelConfig {
   id: string;
+  name: string;
   provider: string;
   model: string;
-  apiKey?: string;
+  /** Id of the API key stored in the main process (the key itself never reaches the renderer) */
+  apiKeyRef?: string;
   baseUrl?: string;
+  temperature?: number;
+  maxTokens?: number;
 }
 
 interface ModelSelectorProps {
@@ -19,41 +23,127 @@ export default function ModelSelector({ onModelChange }: ModelSelectorProps) {
   const [isAddModalOpen, setIsAddModalOpen] = useState(false);
   const [isManageModalOpen, setIsManageModalOpen] = useState(false);
   const [newModel, setNewModel] = useState({
+    name: '',
     provider: 'glm',
     model: 'glm-4',
     apiKey: '',
     baseUrl: ''
   });
+  const importInputRef = useRef<HTMLInputElement>(null);
+  // 本地 Ollama 已安装的模型，作为模型名称的候选
+  const [localModels, setLocalModels] = useState<string[]>([]);
 
   const selectedModel = models.find(m => m.id === selectedModelId);
 
+  // 模型配置保存在主进程 (userData/settings.json)，重启后仍然可用
+  const loadProfiles = useCallback(async () => {
+    const electronAPI = (window as any).electronAPI;
+    if (!electronAPI?.settings) {
+      return;
+    }
+    try {
+      const [profiles, active] = await Promise.all([
+        electronAPI.settings.listProfiles(),
+        electronAPI.settings.getActiveProfile()
+      ]);
+      setModels(profiles);
+      setSelectedModelId(active?.id ?? '');
+    } catch (error) {
+      console.error('Failed to load model profiles:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadProfiles();
+  }, [loadProfiles]);
+
   useEffect(() => {
     if (selectedModel) {
       onModelChange(selectedModel);
     }
   }, [selectedModelId, selectedModel, onModelChange]);
 
-  const handleAddModel = () => {
+  useEffect(() => {
+    if (!isAddModalOpen || newModel.provider !== 'ollama') {
+      return;
+    }
+    const electronAPI = (window as any).electronAPI;
+    electronAPI?.ollama?.listModels(newModel.baseUrl || undefined)
+      .then((models: Array<{ name: string }>) => setLocalModels(models.map(model => model.name)))
+      .catch(() => setLocalModels([]));
+  }, [isAddModalOpen, newModel.provider, newModel.baseUrl]);
+
+  const handleSelectModel = async (modelId: string) => {
+    try {
+      // 主进程切换模型并重建 Agent
+      await (window as any).electronAPI.settings.setActiveProfile(modelId);
+      setSelectedModelId(modelId);
+    } catch (error) {
+      console.error('Failed to switch model profile:', error);
+    }
+  };
+
+  const handleAddModel = async () => {
     if (newModel.model) {
-      const model: ModelConfig = {
-        id: Date.now().toString(),
-        provider: newModel.provider,
-        model: newModel.model,
-        ...(newModel.apiKey && { apiKey: newModel.apiKey }),
-        ...(newModel.baseUrl && { baseUrl: newModel.baseUrl })
-      };
-      setModels([...models, model]);
-      setSelectedModelId(model.id);
-      setNewModel({ provider: 'glm', model: 'glm-4', apiKey: '', baseUrl: '' });
+      // 密钥只保存在主进程 (系统钥匙串)，这里只保留引用 id
+      const electronAPI = (window as any).electronAPI;
+      try {
+        const apiKeyRef = newModel.apiKey
+          ? await electronAPI.llm.storeApiKey(newModel.provider, newModel.apiKey)
+          : undefined;
+        const profile: ModelConfig = await electronAPI.settings.createProfile({
+          name: newModel.name || newModel.model,
+          provider: newModel.provider,
+          model: newModel.model,
+          ...(apiKeyRef && { apiKeyRef }),
+          ...(newModel.baseUrl && { baseUrl: newModel.baseUrl })
+        });
+        await electronAPI.settings.setActiveProfile(profile.id);
+        setModels([...models, profile]);
+        setSelectedModelId(profile.id);
+      } catch (error) {
+        console.error('Failed to add model profile:', error);
+        return;
+      }
+      setNewModel({ name: '', provider: 'glm', model: 'glm-4', apiKey: '', baseUrl: '' });
       setIsAddModalOpen(false);
     }
   };
 
-  const handleDeleteModel = (modelId: string) => {
-    const updatedModels = models.filter(m => m.id !== modelId);
-    setModels(updatedModels);
-    if (selectedModelId === modelId) {
-      setSelectedModelId(updatedModels.length > 0 ? updatedModels[0].id : '');
+  const handleDeleteModel = async (modelId: string) => {
+    try {
+      // 主进程同时删除不再被使用的密钥，并在需要时切换到其他模型
+      await (window as any).electronAPI.settings.deleteProfile(modelId);
+      await loadProfiles();
+    } catch (error) {
+      console.error('Failed to delete model profile:', error);
+    }
+  };
+
+  const handleExport = async () => {
+    try {
+      const json: string = await (window as any).electronAPI.settings.exportProfiles();
+      const url = URL.createObjectURL(new Blob([json], { type: 'application/json' }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = 'model-profiles.json';
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Failed to export model profiles:', error);
+    }
+  };
+
+  const handleImport = async (file: File | undefined) => {
+    if (!file) {
+      return;
+    }
+    try {
+      // 导入的模型不包含 API Key，需要重新添加
+      await (window as any).electronAPI.settings.importProfiles(await file.text());
+      await loadProfiles();
+    } catch (error) {
+      console.error('Failed to import model profiles:', error);
     }
   };
 
@@ -77,7 +167,7 @@ export default function ModelSelector({ onModelChange }: ModelSelectorProps) {
     <div className="model-selector">
       <select
         value={selectedModelId}
-        onChange={(e) => setSelectedModelId(e.target.value)}
+        onChange={(e) => handleSelectModel(e.target.value)}
         className="model-dropdown"
         title="当前选择的模型"
         disabled={models.length === 0}
@@ -87,7 +177,7 @@ export default function ModelSelector({ onModelChange }: ModelSelectorProps) {
         ) : (
           models.map(model => (
             <option key={model.id} value={model.id}>
-              {getProviderLabel(model.provider)} - {model.model}
+              {model.name} ({getProviderLabel(model.provider)})
             </option>
           ))
         )}
@@ -99,20 +189,27 @@ export default function ModelSelector({ onModelChange }: ModelSelectorProps) {
       >
         +
       </button>
-      {models.length > 0 && (
-        <button
-          onClick={() => setIsManageModalOpen(true)}
-          className="manage-models-btn"
-          title="管理模型"
-        >
-          ⚙
-        </button>
-      )}
+      <button
+        onClick={() => setIsManageModalOpen(true)}
+        className="manage-models-btn"
+        title="管理模型"
+      >
+        ⚙
+      </button>
 
       {isAddModalOpen && (
         <div className="modal-overlay" onClick={() => setIsAddModalOpen(false)}>
           <div className="modal-content" onClick={(e) => e.stopPropagation()}>
             <h3>添加新模型</h3>
+            <div className="form-group">
+              <label>名称 (可选)</label>
+              <input
+                type="text"
+                value={newModel.name}
+                onChange={(e) => setNewModel({ ...newModel, name: e.target.value })}
+                placeholder="默认使用模型名称"
+              />
+            </div>
             <div className="form-group">
               <label>提供商</label>
               <select
@@ -132,10 +229,16 @@ export default function ModelSelector({ onModelChange }: ModelSelectorProps) {
                 value={newModel.model}
                 onChange={(e) => setNewModel({ ...newModel, model: e.target.value })}
                 placeholder="例如: glm-4, gpt-4o"
+                list={newModel.provider === 'ollama' ? 'ollama-models' : undefined}
               />
+              {newModel.provider === 'ollama' && (
+                <datalist id="ollama-models">
+                  {localModels.map(name => <option key={name} value={name} />)}
+                </datalist>
+              )}
             </div>
             <div className="form-group">
-              <label>API Key <span className="required">(必填)</span></label>
+              <label>API Key {newModel.provider === 'ollama' ? '(本地模型无需填写)' : <span className="required">(必填)</span>}</label>
               <input
                 type="password"
                 value={newModel.apiKey}
@@ -158,7 +261,7 @@ export default function ModelSelector({ onModelChange }: ModelSelectorProps) {
               <button
                 onClick={handleAddModel}
                 className="confirm-btn"
-                disabled={!newModel.model || !newModel.apiKey}
+                disabled={!newModel.model || (!newModel.apiKey && newModel.provider !== 'ollama')}
               >
                 添加
               </button>
@@ -179,16 +282,16 @@ export default function ModelSelector({ onModelChange }: ModelSelectorProps) {
                   <div key={model.id} className="model-item">
                     <div className="model-info">
                       <span className="model-provider">{getProviderLabel(model.provider)}</span>
-                      <span className="model-name">{model.model}</span>
-                      {model.apiKey && (
-                        <span className="model-api-key">••••{model.apiKey.slice(-4)}</span>
+                      <span className="model-name">{model.name} · {model.model}</span>
+                      {model.apiKeyRef && (
+                        <span className="model-api-key">API Key 已保存</span>
                       )}
                     </div>
                     <div className="model-actions">
                       {model.id !== selectedModelId && (
                         <button
                           onClick={() => {
-                            setSelectedModelId(model.id);
+                            handleSelectModel(model.id);
                             setIsManageModalOpen(false);
                           }}
                           className="select-btn"
@@ -210,6 +313,18 @@ export default function ModelSelector({ onModelChange }: ModelSelectorProps) {
               </div>
             )}
             <div className="modal-actions">
+              <button onClick={() => importInputRef.current?.click()} className="cancel-btn">导入</button>
+              <button onClick={handleExport} className="cancel-btn">导出</button>
+              <input
+                ref={importInputRef}
+                type="file"
+                accept="application/json,.json"
+                style={{ display: 'none' }}
+                onChange={(e) => {
+                  handleImport(e.target.files?.[0]);
+                  e.target.value = '';
+                }}
+              />
               <button onClick={() => setIsManageModalOpen(false)} className="confirm-btn">关闭</button>
             </div>
           </div>
@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useState } from 'react';
 import './PermissionDialog.css';
 
 export interface PermissionRequestData {
@@ -7,14 +7,36 @@ export interface PermissionRequestData {
   target: string;
   level: 'read' | 'edit' | 'execute' | 'delete' | 'network';
   reason?: string;
+  /** 多步确认信息（删除操作需要二次确认） */
+  confirmation?: {
+    step: number;
+    total: number;
+    expectedText?: string;
+  };
+}
+
+export interface PermissionApproval {
+  confirmText?: string;
+  remember?: boolean;
+  rememberGlob?: string;
 }
 
 interface PermissionDialogProps {
   request: PermissionRequestData;
-  onApprove: () => void;
-  onDeny: () => void;
+  onApprove: (approval: PermissionApproval) => void;
+  onDeny: (approval: PermissionApproval) => void;
 }
 
+// 只有编辑和联网权限可以被记住，执行和删除每次都需要确认
+const REMEMBERABLE_LEVELS = ['edit', 'network'];
+
+// 目标所在文件夹的 glob，例如 src/utils/a.ts -> src/utils/**
+const folderGlob = (target: string): string => {
+  const normalized = target.replace(/\\/g, '/');
+  const index = normalized.lastIndexOf('/');
+  return index > 0 ? `${normalized.slice(0, index)}/**` : '**';
+};
+
 const levelLabels: Record<string, string> = {
   read: '读取',
   edit: '编辑',
@@ -32,11 +54,29 @@ const levelColors: Record<string, string> = {
 };
 
 export default function PermissionDialog({ request, onApprove, onDeny }: PermissionDialogProps) {
+  const [confirmText, setConfirmText] = useState('');
+  const [remember, setRemember] = useState(false);
+  const [rememberScope, setRememberScope] = useState<'file' | 'folder'>('file');
+  const expectedText = request.confirmation?.expectedText;
+  const canApprove = expectedText === undefined || confirmText.trim() === expectedText;
+  const canRemember = REMEMBERABLE_LEVELS.includes(request.level);
+
+  const buildApproval = (): PermissionApproval => ({
+    ...(expectedText !== undefined && { confirmText: confirmText.trim() }),
+    ...(remember && {
+      remember: true,
+      rememberGlob: rememberScope === 'folder' ? folderGlob(request.target) : undefined
+    })
+  });
+
   return (
     <div className="permission-overlay">
       <div className="permission-dialog">
         <div className="permission-header">
-          <h2>权限请求</h2>
+          <h2>
+            权限请求
+            {request.confirmation && ` (${request.confirmation.step}/${request.confirmation.total})`}
+          </h2>
           <span className="permission-level" style={{ color: levelColors[request.level] }}>
             {levelLabels[request.level]}
           </span>
@@ -60,16 +100,57 @@ export default function PermissionDialog({ request, onApprove, onDeny }: Permiss
             )}
           </div>
 
+          {expectedText !== undefined && (
+            <div className="permission-confirm">
+              <label className="permission-label">
+                请输入文件名 <code>{expectedText}</code> 以确认:
+              </label>
+              <input
+                type="text"
+                className="permission-confirm-input"
+                value={confirmText}
+                onChange={(e) => setConfirmText(e.target.value)}
+                autoFocus
+              />
+            </div>
+          )}
+
+          {canRemember && (
+            <div className="permission-remember">
+              <label>
+                <input
+                  type="checkbox"
+                  checked={remember}
+                  onChange={(e) => setRemember(e.target.checked)}
+                />
+                记住此决定
+              </label>
+              {remember && (
+                <select
+                  value={rememberScope}
+                  onChange={(e) => setRememberScope(e.target.value as 'file' | 'folder')}
+                >
+                  <option value="file">仅此文件</option>
+                  <option value="folder">此文件夹 ({folderGlob(request.target)})</option>
+                </select>
+              )}
+            </div>
+          )}
+
           <p className="permission-warning">
             请仔细检查此请求。只批准你信任的操作。
           </p>
         </div>
 
         <div className="permission-footer">
-          <button className="permission-btn deny-btn" onClick={onDeny}>
+          <button className="permission-btn deny-btn" onClick={() => onDeny(buildApproval())}>
             拒绝
           </button>
-          <button className="permission-btn approve-btn" onClick={onApprove}>
+          <button
+            className="permission-btn approve-btn"
+            onClick={() => onApprove(buildApproval())}
+            disabled={!canApprove}
+          >
             批准
           </button>
         </div>
@@ -66,6 +66,14 @@ export type FileAPI = {
    */
   exists(path: string): Promise<boolean>;
 
+  /**
+   * Search file contents line by line
+   * @param query - What to search for and where
+   * @param signal - Aborts the search
+   * @returns Matching lines with their context
+   */
+  search(query: FileSearchQuery, signal?: AbortSignal): Promise<FileSearchResult>;
+
   /**
    * Close the file system and release resources (optional)
    * Some implementations like FileSystemService have this method
@@ -73,6 +81,63 @@ export type FileAPI = {
   close?(): void;
 };
 
+/**
+ * Content search over the workspace
+ */
+export type FileSearchQuery = {
+  /** Text to find, or a regular expression if `regex` is set */
+  pattern: string;
+  /** Treat the pattern as a regular expression (matched against single lines) */
+  regex?: boolean;
+  /** Match case (default: false) */
+  caseSensitive?: boolean;
+  /** Directory to search, relative to the workspace root (default: the whole workspace) */
+  path?: string;
+  /** Only search files matching one of these globs */
+  include?: string[];
+  /** Skip files matching one of these globs */
+  exclude?: string[];
+  /** Lines of context before and after each match (default: 2) */
+  contextLines?: number;
+  /** Stop after this many matches (default: 100) */
+  maxResults?: number;
+  /** Stop searching after this many milliseconds (default: 10000) */
+  timeLimitMs?: number;
+};
+
+/**
+ * A line matching a content search
+ */
+export type FileSearchMatch = {
+  /** File path relative to the workspace root */
+  path: string;
+  /** Line number (1-based) */
+  line: number;
+  /** Column of the first match on the line (1-based) */
+  column: number;
+  /** The matching line (long lines are cut) */
+  text: string;
+  /** Lines before the match */
+  before: string[];
+  /** Lines after the match */
+  after: string[];
+};
+
+/**
+ * Result of a content search
+ */
+export type FileSearchResult = {
+  matches: FileSearchMatch[];
+  /** Files whose contents were searched */
+  filesSearched: number;
+  /** Files left out because they are larger than the size limit or binary */
+  filesSkipped: number;
+  /** The search stopped at maxResults; there may be more matches */
+  truncated: boolean;
+  /** The search stopped at the time limit before every file was searched */
+  timedOut?: boolean;
+};
+
 /**
  * File type enumeration
  */
@@ -125,9 +190,30 @@ export type ContentBlock =
  */
 export type LLMMessage = {
   /** Message role */
-  role: 'system' | 'user' | 'assistant';
+  role: 'system' | 'user' | 'assistant' | 'tool';
   /** Message content (string for text, array for multimodal) */
   content: string | ContentBlock[];
+  /** Tool calls requested by the model (assistant messages only) */
+  tool_calls?: LLMToolCall[];
+  /** Id of the tool call this message answers (tool messages only) */
+  tool_call_id?: string;
+};
+
+/**
+ * Tool call requested by the model (OpenAI function calling format)
+ */
+export type LLMToolCall = {
+  /** Call id, echoed by the tool message carrying the result */
+  id: string;
+  /** Call type */
+  type: 'function';
+  /** Function to call */
+  function: {
+    /** Tool name */
+    name: string;
+    /** JSON-encoded arguments */
+    arguments: string;
+  };
 };
 
 /**
@@ -158,6 +244,15 @@ export type PermissionRequest = {
   target: string;
   /** Workspace context */
   workspace?: string;
+  /** Multi-step confirmation details (DELETE asks twice) */
+  confirmation?: {
+    /** Current confirmation step (1-based) */
+    step: number;
+    /** Total number of confirmation steps */
+    total: number;
+    /** Text the user must type back to approve (e.g. the filename) */
+    expectedText?: string;
+  };
 };
 
 /**
@@ -168,8 +263,36 @@ export type PermissionResponse = {
   approved: boolean;
   /** Remember this decision */
   remember?: boolean;
+  /** Path glob (relative to the workspace) the remembered decision covers; defaults to the exact target */
+  rememberGlob?: string;
+  /** Epoch milliseconds after which the remembered decision expires (optional) */
+  rememberUntil?: number;
   /** User-provided notes (optional) */
   notes?: string;
+  /** Text typed back by the user for confirmations that require it */
+  confirmText?: string;
+};
+
+/**
+ * Remembered permission decision, scoped by workspace, action and path glob
+ */
+export type PermissionGrant = {
+  /** Unique identifier */
+  id: string;
+  /** Workspace path the decision applies to */
+  workspace: string;
+  /** Action the decision applies to ('*' for any action) */
+  action: string;
+  /** Path glob relative to the workspace */
+  pathGlob: string;
+  /** Permission level the decision applies to */
+  level: PermissionLevel;
+  /** Whether the operation is allowed */
+  approved: boolean;
+  /** Creation timestamp (epoch milliseconds) */
+  createdAt: number;
+  /** Expiry timestamp (epoch milliseconds, optional) */
+  expiresAt?: number;
 };
 
 /**
@@ -196,6 +319,73 @@ export type AuditLogEntry = {
   llm_model?: string;
   /** Tokens consumed */
   tokens_used?: number;
+  /** Hash of the previous entry (hash chain link) */
+  prev_hash?: string;
+  /** SHA256 of this entry, covering every other field including prev_hash */
+  hash?: string;
+};
+
+/**
+ * Result of walking the audit log hash chain
+ */
+export type AuditVerificationResult = {
+  /** Whether every chained entry is intact */
+  valid: boolean;
+  /** The log has entries but none of them is hashed, so it cannot be verified */
+  unverified?: boolean;
+  /** Number of entries checked */
+  checkedEntries: number;
+  /** Leading entries written before hash chaining existed (cannot be verified) */
+  legacyEntries: number;
+  /** First broken link, if any */
+  brokenAt?: {
+    /** Zero-based entry index in the log */
+    index: number;
+    /** Timestamp of the offending entry (if parseable) */
+    timestamp?: string;
+    /** Why the link is broken */
+    reason: 'unparseable' | 'missing_hash' | 'hash_mismatch' | 'prev_hash_mismatch';
+  };
+};
+
+/**
+ * Audit log query (all filters are optional and combined with AND)
+ */
+export type AuditLogQuery = {
+  /** Earliest timestamp, inclusive (ISO 8601 or epoch ms) */
+  from?: string | number;
+  /** Latest timestamp, inclusive (ISO 8601 or epoch ms) */
+  to?: string | number;
+  /** Exact workspace path */
+  workspace?: string;
+  /** Exact action name */
+  action?: string;
+  /** Risk level */
+  risk_level?: AuditLogEntry['risk_level'];
+  /** Who approved the action (user id, or 'system' for denials) */
+  approved_by?: string;
+  /** Glob matched against the target */
+  targetGlob?: string;
+  /** Number of matching entries to skip (default: 0) */
+  offset?: number;
+  /** Maximum number of entries to return (default: 100) */
+  limit?: number;
+  /** Order by time (default: 'desc', newest first) */
+  sort?: 'asc' | 'desc';
+};
+
+/**
+ * One page of audit log query results
+ */
+export type AuditLogPage = {
+  /** Matching entries in the requested order */
+  entries: AuditLogEntry[];
+  /** Total number of matching entries */
+  total: number;
+  /** Offset of the first returned entry */
+  offset: number;
+  /** Whether more matching entries follow this page */
+  hasMore: boolean;
 };
 
 /**
@@ -211,16 +401,132 @@ export type LLMConfig = {
   provider: LLMProvider;
   /** Model name */
   model: string;
-  /** API key (for cloud providers) */
+  /** API key (for cloud providers); main process only, resolved from apiKeyRef */
   apiKey?: string;
+  /** Id of the API key stored with APIKeyManager; what the renderer sees instead of the key */
+  apiKeyRef?: string;
+  /** Base URL (for custom endpoints) */
+  baseUrl?: string;
+  /** Temperature for generation */
+  temperature?: number;
+  /** Maximum tokens to generate */
+  maxTokens?: number;
+  /** Context length to request and budget prompts for (capped at the model's window; Ollama defaults to 8192) */
+  contextLength?: number;
+  /** Overrides for what the model supports (for models the registry does not know) */
+  capabilities?: Partial<ModelCapabilities>;
+  /** Providers tried in order when this one fails or its circuit is open */
+  fallbacks?: LLMFallbackConfig[];
+};
+
+/**
+ * A fallback provider (fallbacks of fallbacks are ignored)
+ */
+export type LLMFallbackConfig = Omit<LLMConfig, 'fallbacks'>;
+
+/**
+ * A switch from one provider of the fallback chain to the next
+ */
+export type LLMFallbackEvent = {
+  /** Provider and model given up on */
+  from: { provider: LLMProvider; model: string };
+  /** Provider and model tried next */
+  to: { provider: LLMProvider; model: string };
+  /** Why the previous provider was given up on */
+  reason: string;
+  /** Epoch ms */
+  timestamp: number;
+};
+
+/**
+ * What a model supports
+ */
+export type ModelCapabilities = {
+  /** Accepts image content blocks */
+  vision: boolean;
+  /** Supports native tool (function) calling */
+  tools: boolean;
+  /** Supports JSON Schema constrained output (OpenAI json_schema response_format, Ollama format) */
+  jsonMode: boolean;
+  /** Reports token usage at the end of a stream when asked (OpenAI stream_options.include_usage) */
+  streamUsage: boolean;
+  /** Context window in tokens (prompt + completion) */
+  contextWindow: number;
+};
+
+/**
+ * A model installed on a local Ollama server
+ */
+export type LocalModelInfo = {
+  /** Model tag, e.g. "llama3.1:8b" */
+  name: string;
+  /** Size on disk in bytes */
+  size: number;
+  /** ISO date of the last change */
+  modifiedAt: string;
+  /** Model family, e.g. "llama" */
+  family?: string;
+  /** Parameter count, e.g. "8.0B" */
+  parameterSize?: string;
+  /** Quantization level, e.g. "Q4_K_M" */
+  quantization?: string;
+  /** Context window in tokens, if the server reports it */
+  contextLength?: number;
+  /** Accepts images */
+  vision: boolean;
+  /** Supports native tool calling (undefined if the server does not say) */
+  tools?: boolean;
+};
+
+/**
+ * Progress of a model download on a local Ollama server
+ */
+export type ModelPullProgress = {
+  /** Model being pulled */
+  model: string;
+  /** Server status line, e.g. "pulling manifest", "success" */
+  status: string;
+  /** Bytes of the current layer */
+  total?: number;
+  /** Bytes of the current layer downloaded so far */
+  completed?: number;
+  /** completed / total, 0-100 */
+  percent?: number;
+};
+
+/**
+ * Named model configuration saved in the settings store
+ */
+export type ModelProfile = {
+  /** Unique identifier */
+  id: string;
+  /** Display name */
+  name: string;
+  /** Provider type */
+  provider: LLMProvider;
+  /** Model name */
+  model: string;
   /** Base URL (for custom endpoints) */
   baseUrl?: string;
   /** Temperature for generation */
   temperature?: number;
   /** Maximum tokens to generate */
   maxTokens?: number;
+  /** Context length to request and budget prompts for */
+  contextLength?: number;
+  /** Id of the API key stored with APIKeyManager */
+  apiKeyRef?: string;
+  /** Epoch ms */
+  createdAt: number;
+  /** Epoch ms */
+  updatedAt: number;
 };
 
+/**
+ * Fields of a profile set by the user
+ */
+export type ModelProfileInput = Omit<ModelProfile, 'id' | 'createdAt' | 'updatedAt'>;
+
 /**
  * LLM response with streaming support
  */
@@ -237,6 +543,26 @@ export type LLMResponse = {
   model: string;
   /** Finish reason */
   finishReason: 'stop' | 'length' | 'content_filter';
+  /** Tool calls requested by the model (function calling only) */
+  toolCalls?: LLMToolCall[];
+  /** Served from the response cache, without a request to the provider */
+  cached?: boolean;
+};
+
+/**
+ * LLM response cache statistics (hits, misses and bypasses since startup)
+ */
+export type LLMCacheStats = {
+  /** Requests answered from the cache */
+  hits: number;
+  /** Cacheable requests that had to go to the provider */
+  misses: number;
+  /** Requests not cached because of their temperature */
+  bypassed: number;
+  /** Cached replies */
+  entries: number;
+  /** Size of the cached replies */
+  bytes: number;
 };
 
 /**
@@ -299,15 +625,49 @@ export type Checkpoint = {
   timestamp: number;
   /** Description */
   description: string;
-  /** File changes at this checkpoint */
+  /** Workspace the changes were made in */
+  workspace?: string;
+  /** File changes at this checkpoint (`null` means the file did not exist on that side) */
   fileChanges: {
     [filePath: string]: {
-      before: string;
-      after: string;
+      /** Content before the first change in this checkpoint */
+      before: string | null;
+      /** Content after the last change in this checkpoint */
+      after: string | null;
+      /** The file existed but could not be read before the first change, so it cannot be restored */
+      unreadable?: boolean;
     };
   };
 };
 
+/**
+ * Checkpoint listing entry (without file contents)
+ */
+export type CheckpointSummary = {
+  /** Unique identifier */
+  id: string;
+  /** Timestamp */
+  timestamp: number;
+  /** Description */
+  description: string;
+  /** Workspace the changes were made in */
+  workspace?: string;
+  /** Paths of the changed files */
+  files: string[];
+};
+
+/**
+ * Outcome of restoring a checkpoint
+ */
+export type CheckpointRestoreResult = {
+  /** Files put back to their pre-checkpoint state */
+  restored: string[];
+  /** Files changed again since the checkpoint (left untouched unless forced) */
+  conflicts: string[];
+  /** Files that could not be restored */
+  failed: Array<{ path: string; error: string }>;
+};
+
 /**
  * File processing configuration
  */
@@ -350,12 +710,76 @@ export const DEFAULT_FILE_PROCESSING_CONFIG: FileProcessingConfig = {
 export type AgentExecutionContext = {
   /** Workspace path */
   workspacePath?: string;
+  /** Execution mode: 'direct' runs the tool loop, 'plan' asks for an ExecutionPlan first (default: 'direct') */
+  mode?: 'direct' | 'plan';
+  /** Conversation the request belongs to; earlier turns of it are sent to the LLM */
+  conversationId?: string;
   /** Additional context */
   additionalContext?: string;
   /** Attached files */
   attachments?: AttachedFile[];
 };
 
+/**
+ * Saved agent run listing entry (without messages and steps)
+ */
+export type AgentRunSummary = {
+  /** Run identifier */
+  id: string;
+  /** The user's request */
+  query: string;
+  /** Run status (only paused runs are kept on disk) */
+  status: TaskStatus;
+  /** Workspace the run works in */
+  workspacePath?: string;
+  /** Execution mode */
+  mode: 'direct' | 'plan';
+  /** Timestamp the run started */
+  createdAt: number;
+  /** Timestamp of the last status change */
+  updatedAt: number;
+};
+
+/**
+ * Tokens and cost of one or more LLM requests
+ */
+export type TokenUsage = {
+  /** Prompt (input) tokens */
+  promptTokens: number;
+  /** Completion (output) tokens */
+  completionTokens: number;
+  /** Prompt plus completion tokens */
+  totalTokens: number;
+  /** Cost in USD (0 for local and unpriced models) */
+  cost: number;
+  /** Number of requests */
+  requests: number;
+};
+
+/**
+ * Usage of one day ('YYYY-MM-DD') or month ('YYYY-MM'), local time
+ */
+export type UsagePeriodTotals = {
+  /** Day or month */
+  period: string;
+  /** Totals over all models */
+  usage: TokenUsage;
+  /** Totals per model */
+  byModel: Record<string, TokenUsage>;
+};
+
+/**
+ * Spending limits in USD; runs stop before a request that would go over one
+ */
+export type UsageBudget = {
+  /** Limit for a single agent run */
+  perRun?: number;
+  /** Limit for the current day */
+  daily?: number;
+  /** Limit for the current month */
+  monthly?: number;
+};
+
 /**
  * Document chunk for RAG
  */
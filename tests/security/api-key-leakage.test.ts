@@ -3,8 +3,29 @@
  * Tests to verify that API keys are not leaked in logs, errors, or responses
  */
 
-import { describe, it, expect, beforeEach } from 'vitest';
-import { APIKeyManager } from '../../src/main/services/llm';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { EventEmitter } from 'node:events';
+import * as os from 'node:os';
+import { APIKeyManager, LLMService, redactLLMConfig } from '../../src/main/services/llm';
+import { registerIPCHandlers, unregisterIPCHandlers } from '../../src/main/ipc/handlers';
+import { CheckpointService } from '../../src/main/services/checkpoint';
+import { AgentRunStore } from '../../src/main/services/agent-runs';
+import { UsageTracker } from '../../src/main/services/usage';
+import { SettingsStore } from '../../src/main/services/settings';
+
+/** IPC handlers registered by the main process, by channel */
+const ipcHandlers = vi.hoisted(() => new Map<string, (...args: any[]) => any>());
+
+vi.mock('electron', () => ({
+  app: { getPath: () => os.tmpdir() },
+  ipcMain: {
+    handle: (channel: string, handler: (...args: any[]) => any) => ipcHandlers.set(channel, handler),
+    removeHandler: (channel: string) => ipcHandlers.delete(channel),
+    on: () => {},
+    removeAllListeners: () => {}
+  },
+  BrowserWindow: { getAllWindows: () => [] }
+}));
 
 describe('Security: API Key Leakage Prevention', () => {
   describe('Log Sanitization', () => {
@@ -369,4 +390,100 @@ describe('Security: API Key Leakage Prevention', () => {
       expect(userFacingError).not.toContain('sk-');
     });
   });
+
+  describe('IPC Key Handling', () => {
+    const apiKey = 'sk-ipc-test-key-1234567890abcdef';
+    let llm: LLMService;
+
+    /** Call a registered handler as the renderer would */
+    const invoke = (channel: string, ...args: unknown[]) => ipcHandlers.get(channel)!({}, ...args);
+
+    beforeEach(() => {
+      llm = new LLMService({ provider: 'openai', model: 'gpt-4o' });
+      registerIPCHandlers({
+        fileSystem: {} as any,
+        guardian: new EventEmitter() as any,
+        llm,
+        checkpoints: new CheckpointService(),
+        agentRuns: new AgentRunStore(),
+        usage: new UsageTracker(),
+        settings: new SettingsStore()
+      });
+    });
+
+    afterEach(async () => {
+      unregisterIPCHandlers();
+      await APIKeyManager.clearAll();
+    });
+
+    it('should store keys through APIKeyManager and return only a reference', async () => {
+      const keyRef = await invoke('llm:store-api-key', 'openai', apiKey);
+
+      expect(keyRef).toMatch(/^openai-/);
+      expect(keyRef).not.toContain(apiKey);
+      expect(await APIKeyManager.getKey(keyRef)).toBe(apiKey);
+    });
+
+    it('should resolve the key in the main process but never send it back', async () => {
+      const keyRef = await invoke('llm:store-api-key', 'openai', apiKey);
+      const fallbackRef = await invoke('llm:store-api-key', 'anthropic', 'sk-ant-REDACTED');
+
+      const updated = await invoke('llm:update-config', {
+        provider: 'openai',
+        model: 'gpt-4o',
+        apiKeyRef: keyRef,
+        fallbacks: [{ provider: 'anthropic', model: 'claude-sonnet-4', apiKeyRef: fallbackRef }]
+      });
+
+      expect(llm.getConfig().apiKey).toBe(apiKey);
+      expect(llm.getConfig().fallbacks?.[0].apiKey).toBe('sk-ant-REDACTED');
+      expect(await invoke('llm:is-configured')).toBe(true);
+      for (const config of [updated, await invoke('llm:get-config')]) {
+        expect(JSON.stringify(config)).not.toMatch(/sk-/);
+        expect(config).toMatchObject({ apiKeyRef: keyRef, fallbacks: [{ apiKeyRef: fallbackRef }] });
+      }
+    });
+
+    it('should reject raw keys and unknown references in config updates', async () => {
+      await expect(invoke('llm:update-config', { provider: 'openai', model: 'gpt-4o', apiKey })).rejects.toThrow(/apiKeyRef/);
+      await expect(invoke('llm:update-config', {
+        fallbacks: [{ provider: 'openai', model: 'gpt-4o-mini', apiKey }]
+      })).rejects.toThrow(/apiKeyRef/);
+      await expect(invoke('llm:update-config', { apiKeyRef: 'openai-missing' })).rejects.toThrow('No API key stored for "openai-missing"');
+      expect(llm.getConfig().apiKey).toBeUndefined();
+    });
+
+    it('should drop the key in use when the reference is cleared or deleted', async () => {
+      const keyRef = await invoke('llm:store-api-key', 'openai', apiKey);
+      await invoke('llm:update-config', { apiKeyRef: keyRef });
+
+      await invoke('llm:update-config', { provider: 'ollama', model: 'llama3', apiKeyRef: '' });
+      expect(llm.getConfig().apiKey).toBeUndefined();
+
+      await invoke('llm:delete-api-key', keyRef);
+      expect(await APIKeyManager.getKey(keyRef)).toBeNull();
+    });
+
+    it('should not send the key to a provider switched to by a partial update', async () => {
+      const keyRef = await invoke('llm:store-api-key', 'openai', apiKey);
+      await invoke('llm:update-config', { provider: 'openai', model: 'gpt-4o', apiKeyRef: keyRef });
+
+      const updated = await invoke('llm:update-config', { provider: 'glm', model: 'glm-4', baseUrl: 'https://open.bigmodel.cn/api/paas/v4' });
+
+      expect(llm.getConfig()).toMatchObject({ provider: 'glm', apiKey: undefined, apiKeyRef: undefined });
+      expect(updated.apiKeyRef).toBeUndefined();
+    });
+
+    it('should strip keys from configs and their fallbacks', () => {
+      const redacted = redactLLMConfig({
+        provider: 'openai',
+        model: 'gpt-4o',
+        apiKey,
+        fallbacks: [{ provider: 'anthropic', model: 'claude-sonnet-4', apiKey }]
+      });
+
+      expect(JSON.stringify(redacted)).not.toContain(apiKey);
+      expect(redacted.fallbacks).toEqual([{ provider: 'anthropic', model: 'claude-sonnet-4' }]);
+    });
+  });
 });
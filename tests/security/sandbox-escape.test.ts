@@ -4,6 +4,11 @@
  */
 
 import { describe, it, expect } from 'vitest';
+import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { Guardian } from '../../src/main/services/guardian';
+import { PermissionLevel } from '../../src/shared/types';
 
 describe('Security: Sandbox Escape Prevention', () => {
   describe('File System Access Blocking', () => {
@@ -216,9 +221,28 @@ describe('Security: Sandbox Escape Prevention', () => {
       });
     });
 
-    it('should protect audit log from tampering', () => {
-      // Document audit log integrity requirements
-      expect(true).toBe(true);
+    it('should protect audit log from tampering', async () => {
+      const tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'dm-audit-'));
+      const logPath = path.join(tmpDir, 'audit.log');
+      const guardian = new Guardian('test-user', logPath);
+      guardian.on('approval-request', (data: any) => {
+        setTimeout(() => guardian.handleApprovalResponse(data.requestId, { approved: false }), 0);
+      });
+
+      await guardian.requestPermission({
+        level: PermissionLevel.DELETE,
+        action: 'delete_file',
+        target: 'important.txt',
+        workspace: '/test'
+      });
+      expect((await guardian.verifyAuditLog()).valid).toBe(true);
+
+      // Rewrite the denial as an approval
+      const content = await fs.readFile(logPath, 'utf-8');
+      await fs.writeFile(logPath, content.replace('"approved_by":"system"', '"approved_by":"test-user"'));
+
+      expect((await guardian.verifyAuditLog()).valid).toBe(false);
+      await fs.rm(tmpDir, { recursive: true, force: true });
     });
   });
 
@@ -0,0 +1,183 @@
+/**
+ * Agent Run Store Unit Tests
+ * Tests for src/main/services/agent-runs.ts
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { AgentRunStore, type AgentRunState } from '../../../src/main/services/agent-runs';
+import { Agent } from '../../../src/main/services/agent';
+import { ToolRegistry } from '../../../src/main/services/tools';
+import { Guardian } from '../../../src/main/services/guardian';
+import { PermissionLevel, TaskStatus } from '../../../src/shared/types';
+
+vi.mock('electron', () => ({
+  app: { getPath: () => os.tmpdir() }
+}));
+
+const finalAnswer = (content: string) => ({ content, model: 'gpt-4o', tokens: { prompt: 1, completion: 1, total: 2 } });
+
+/** LLM call that only settles when its request is aborted */
+function hangUntilAborted(_messages: unknown, _tools: unknown, options?: { signal?: AbortSignal }): Promise<never> {
+  return new Promise((_resolve, reject) => {
+    options?.signal?.addEventListener('abort', () => reject(new Error('Request was aborted.')));
+  });
+}
+
+function makeRun(overrides: Partial<AgentRunState> = {}): AgentRunState {
+  return {
+    id: '00000000-0000-4000-8000-000000000001',
+    query: 'do it',
+    status: TaskStatus.PAUSED,
+    mode: 'direct',
+    createdAt: 1,
+    updatedAt: 1,
+    messages: [{ role: 'system', content: 'sys' }, { role: 'user', content: 'do it' }],
+    turnStart: 1,
+    steps: [],
+    iteration: 0,
+    ...overrides
+  };
+}
+
+describe('AgentRunStore', () => {
+  let tmpDir: string;
+
+  beforeEach(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'dm-agent-runs-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should persist, list and delete runs', async () => {
+    await new AgentRunStore(tmpDir).save(makeRun());
+    await new AgentRunStore(tmpDir).save(makeRun({ id: '00000000-0000-4000-8000-000000000002', updatedAt: 2 }));
+
+    const store = new AgentRunStore(tmpDir);
+    expect((await store.get('00000000-0000-4000-8000-000000000001'))?.messages).toHaveLength(2);
+    expect((await store.list()).map(run => run.id)).toEqual([
+      '00000000-0000-4000-8000-000000000002',
+      '00000000-0000-4000-8000-000000000001'
+    ]);
+
+    await store.delete('00000000-0000-4000-8000-000000000001');
+    expect(await new AgentRunStore(tmpDir).get('00000000-0000-4000-8000-000000000001')).toBeNull();
+    expect(await store.get('../../etc/passwd')).toBeNull();
+  });
+
+  describe('Agent run control', () => {
+    it('should pause a run, save it and resume it after a restart', async () => {
+      const llm = { getConfig: () => ({ provider: 'openai', model: 'gpt-4o' }), generateWithTools: vi.fn(hangUntilAborted) };
+      const agent = new Agent(llm as any, new ToolRegistry(), { runStore: new AgentRunStore(tmpDir) });
+
+      const pending = agent.execute('long task', { workspacePath: '/ws' });
+      await vi.waitFor(() => expect(llm.generateWithTools).toHaveBeenCalled());
+      expect(agent.pause()).toBe(true);
+      const paused = await pending;
+
+      expect(paused.status).toBe(TaskStatus.PAUSED);
+      expect(paused.error).toBe('Agent run paused');
+
+      // A new agent and store, as after an app restart
+      const restartedStore = new AgentRunStore(tmpDir);
+      expect(await restartedStore.list()).toMatchObject([{ id: paused.runId, status: TaskStatus.PAUSED, workspacePath: '/ws' }]);
+
+      const resumedLlm = { getConfig: () => ({ provider: 'openai', model: 'gpt-4o' }), generateWithTools: vi.fn().mockResolvedValue(finalAnswer('finished')) };
+      const resumedAgent = new Agent(resumedLlm as any, new ToolRegistry(), { runStore: restartedStore });
+      const resumed = await resumedAgent.resume(paused.runId!);
+
+      expect(resumed).toMatchObject({ success: true, answer: 'finished', status: TaskStatus.SUCCESS, runId: paused.runId });
+      expect(resumedLlm.generateWithTools.mock.calls[0][0][1].content).toBe('long task');
+      expect(await restartedStore.list()).toEqual([]);
+    });
+
+    it('should cancel a running run without saving it', async () => {
+      const runStore = new AgentRunStore(tmpDir);
+      const llm = { getConfig: () => ({ provider: 'openai', model: 'gpt-4o' }), generateWithTools: vi.fn(hangUntilAborted) };
+      const agent = new Agent(llm as any, new ToolRegistry(), { runStore });
+
+      const pending = agent.execute('long task');
+      await vi.waitFor(() => expect(llm.generateWithTools).toHaveBeenCalled());
+      expect(await agent.cancel()).toBe(true);
+      const cancelled = await pending;
+
+      expect(cancelled).toMatchObject({ success: false, status: TaskStatus.CANCELLED, error: 'Agent run cancelled' });
+      expect(await runStore.list()).toEqual([]);
+      await expect(agent.resume(cancelled.runId!)).rejects.toThrow('not found');
+    });
+
+    it('should stop a run started by an agent that has since been replaced', async () => {
+      const runStore = new AgentRunStore(tmpDir);
+      const llm = { getConfig: () => ({ provider: 'openai', model: 'gpt-4o' }), generateWithTools: vi.fn(hangUntilAborted) };
+      const pending = new Agent(llm as any, new ToolRegistry(), { runStore }).execute('long task');
+      await vi.waitFor(() => expect(llm.generateWithTools).toHaveBeenCalled());
+
+      // As after a workspace or model change
+      const replacement = new Agent(llm as any, new ToolRegistry(), { runStore });
+      expect(replacement.pause()).toBe(true);
+      const paused = await pending;
+
+      expect(paused.status).toBe(TaskStatus.PAUSED);
+      expect((await runStore.get(paused.runId!))?.status).toBe(TaskStatus.PAUSED);
+      expect(runStore.getActive()).toEqual([]);
+    });
+
+    it('should pause a run waiting for approval and withdraw the prompt', async () => {
+      const guardian = new Guardian('test-user');
+      const prompts: string[] = [];
+      guardian.on('approval-request', (data: any) => prompts.push(data.requestId));
+      const withdrawn = vi.fn();
+      guardian.on('approval-cancelled', withdrawn);
+
+      const write = vi.fn(async () => ({ success: true, data: 'written' }));
+      const tools = new ToolRegistry({ guardian });
+      tools.register({ name: 'write', description: 'write', parameters: { type: 'object', properties: {} }, permissionLevel: PermissionLevel.EDIT, execute: write });
+      const llm = {
+        getConfig: () => ({ provider: 'openai', model: 'gpt-4o' }),
+        generateWithTools: vi.fn().mockResolvedValueOnce({ ...finalAnswer(''), toolCalls: [{ id: '1', type: 'function', function: { name: 'write', arguments: '{}' } }] })
+      };
+      const agent = new Agent(llm as any, tools, { runStore: new AgentRunStore(tmpDir) });
+
+      const pending = agent.execute('write something');
+      await vi.waitFor(() => expect(prompts).toHaveLength(1));
+      expect(agent.pause()).toBe(true);
+      const paused = await pending;
+
+      expect(paused.status).toBe(TaskStatus.PAUSED);
+      expect(withdrawn).toHaveBeenCalledWith({ requestId: prompts[0] });
+      expect(write).not.toHaveBeenCalled();
+    });
+
+    it('should skip the remaining tool calls once stopped', async () => {
+      const tools = new ToolRegistry();
+      let agent: Agent;
+      const slow = vi.fn(async () => {
+        agent.pause();
+        return { success: true, data: 'first' };
+      });
+      const never = vi.fn(async () => ({ success: true, data: 'second' }));
+      tools.register({ name: 'slow', description: 'slow', parameters: { type: 'object', properties: {} }, permissionLevel: PermissionLevel.READ_ONLY, execute: slow });
+      tools.register({ name: 'never', description: 'never', parameters: { type: 'object', properties: {} }, permissionLevel: PermissionLevel.READ_ONLY, execute: never });
+
+      const toolCall = (id: string, name: string) => ({ id, type: 'function', function: { name, arguments: '{}' } });
+      const llm = {
+        getConfig: () => ({ provider: 'openai', model: 'gpt-4o' }),
+        generateWithTools: vi.fn().mockResolvedValueOnce({ ...finalAnswer(''), toolCalls: [toolCall('1', 'slow'), toolCall('2', 'never')] })
+      };
+      const runStore = new AgentRunStore(tmpDir);
+      agent = new Agent(llm as any, tools, { runStore });
+
+      const paused = await agent.execute('use tools');
+
+      expect(paused.status).toBe(TaskStatus.PAUSED);
+      expect(never).not.toHaveBeenCalled();
+      const saved = await runStore.get(paused.runId!);
+      expect(saved?.iteration).toBe(1);
+      expect(saved?.messages.at(-1)?.content).toContain('CANCELLED');
+    });
+  });
+});
@@ -0,0 +1,199 @@
+/**
+ * Anthropic Provider Unit Tests
+ * Tests for src/main/services/anthropic-provider.ts, against a local stub
+ * server replaying recorded Messages API responses (tests/fixtures/anthropic)
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import * as http from 'node:http';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import type { AddressInfo } from 'node:net';
+import { toAnthropicMessages, toAnthropicTools } from '../../../src/main/services/anthropic-provider';
+import { LLMService, type LLMStreamChunk } from '../../../src/main/services/llm';
+import type { LLMMessage } from '../../../src/shared/types';
+
+const FIXTURES = path.join(__dirname, '../../fixtures/anthropic');
+
+/** Recorded response: a JSON body, or an SSE transcript for streaming requests */
+const fixture = (name: string) => fs.readFileSync(path.join(FIXTURES, name), 'utf-8');
+
+const readFileTool = {
+  type: 'function' as const,
+  function: {
+    name: 'read_file',
+    description: 'Read a file',
+    parameters: { type: 'object', properties: { path: { type: 'string', description: 'Path' } }, required: ['path'] }
+  }
+};
+
+describe('AnthropicProvider', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let replies: string[];
+  let requests: Array<{ url: string; headers: http.IncomingHttpHeaders; body: any }>;
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let data = '';
+      req.on('data', chunk => { data += chunk; });
+      req.on('end', () => {
+        requests.push({ url: req.url || '', headers: req.headers, body: JSON.parse(data) });
+        const reply = replies.shift() || '{}';
+        const streaming = reply.startsWith('event:');
+        res.writeHead(200, { 'content-type': streaming ? 'text/event-stream' : 'application/json' });
+        res.end(reply);
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    replies = [];
+    requests = [];
+  });
+
+  const createService = () => new LLMService(
+    { provider: 'anthropic', model: 'claude-sonnet-4-20250514', apiKey: 'sk-ant-test', baseUrl, maxTokens: 1024 },
+    { maxRetries: 1 }
+  );
+
+  it('should convert messages: system prompt, images, tool calls and merged tool results', () => {
+    const messages: LLMMessage[] = [
+      { role: 'system', content: 'You are helpful.' },
+      { role: 'user', content: [{ type: 'text', text: 'What is this?' }, { type: 'image_url', image_url: { url: 'data:image/png;base64,iVBORw0KGgo=' } }] },
+      {
+        role: 'assistant',
+        content: 'Reading.',
+        tool_calls: [
+          { id: 'toolu_1', type: 'function', function: { name: 'read_file', arguments: '{"path":"a.ts"}' } },
+          { id: 'toolu_2', type: 'function', function: { name: 'read_file', arguments: '' } }
+        ]
+      },
+      { role: 'tool', tool_call_id: 'toolu_1', content: '{"success":true}' },
+      { role: 'tool', tool_call_id: 'toolu_2', content: '{"success":false}' },
+      { role: 'system', content: 'Summary of the earlier conversation: none' },
+      { role: 'user', content: 'Thanks' }
+    ];
+
+    const { system, messages: converted } = toAnthropicMessages(messages);
+
+    expect(system).toBe('You are helpful.\n\nSummary of the earlier conversation: none');
+    expect(converted.map(message => message.role)).toEqual(['user', 'assistant', 'user']);
+    expect(converted[0].content).toEqual([
+      { type: 'text', text: 'What is this?' },
+      { type: 'image', source: { type: 'base64', media_type: 'image/png', data: 'iVBORw0KGgo=' } }
+    ]);
+    expect(converted[1].content).toEqual([
+      { type: 'text', text: 'Reading.' },
+      { type: 'tool_use', id: 'toolu_1', name: 'read_file', input: { path: 'a.ts' } },
+      { type: 'tool_use', id: 'toolu_2', name: 'read_file', input: {} }
+    ]);
+    expect(converted[2].content).toEqual([
+      { type: 'tool_result', tool_use_id: 'toolu_1', content: '{"success":true}' },
+      { type: 'tool_result', tool_use_id: 'toolu_2', content: '{"success":false}' },
+      { type: 'text', text: 'Thanks' }
+    ]);
+    expect(toAnthropicTools([readFileTool])).toEqual([{
+      name: 'read_file',
+      description: 'Read a file',
+      input_schema: readFileTool.function.parameters
+    }]);
+  });
+
+  it('should drop turns with no content', () => {
+    const { messages: converted } = toAnthropicMessages([
+      { role: 'user', content: 'Hello' },
+      { role: 'assistant', content: '' },
+      { role: 'user', content: [{ type: 'text', text: '' }, { type: 'text', text: 'Are you there?' }] },
+      { role: 'assistant', content: [{ type: 'text', text: '' }] }
+    ]);
+
+    expect(converted).toEqual([{
+      role: 'user',
+      content: [{ type: 'text', text: 'Hello' }, { type: 'text', text: 'Are you there?' }]
+    }]);
+  });
+
+  it('should send a Messages API request and map tool_use blocks to tool calls', async () => {
+    replies.push(fixture('messages-tool-use.json'));
+
+    const response = await createService().generateWithTools([
+      { role: 'system', content: 'You are helpful.' },
+      { role: 'user', content: 'Compare src/a.ts and src/b.ts' }
+    ], [readFileTool]);
+
+    expect(requests[0].url).toBe('/v1/messages');
+    expect(requests[0].headers['x-api-key']).toBe('sk-ant-test');
+    expect(requests[0].body).toMatchObject({
+      model: 'claude-sonnet-4-20250514',
+      max_tokens: 1024,
+      system: 'You are helpful.',
+      messages: [{ role: 'user', content: [{ type: 'text', text: 'Compare src/a.ts and src/b.ts' }] }],
+      tools: [{ name: 'read_file', input_schema: { type: 'object' } }]
+    });
+    expect(response).toMatchObject({
+      content: "I'll read both files.",
+      model: 'claude-sonnet-4-20250514',
+      finishReason: 'stop',
+      tokens: { prompt: 1532, completion: 104, total: 1636 }
+    });
+    expect(response.toolCalls).toEqual([
+      { id: 'toolu_01A09q90qw90lq917835lq9', type: 'function', function: { name: 'read_file', arguments: '{"path":"src/a.ts"}' } },
+      { id: 'toolu_01B18r81rx81mr826724mr8', type: 'function', function: { name: 'read_file', arguments: '{"path":"src/b.ts"}' } }
+    ]);
+  });
+
+  it('should send tool results back as tool_result blocks', async () => {
+    replies.push(fixture('messages-tool-use.json'), fixture('messages-final.json'));
+    const service = createService();
+    const messages: LLMMessage[] = [{ role: 'user', content: 'Compare src/a.ts and src/b.ts' }];
+
+    const first = await service.generateWithTools(messages, [readFileTool]);
+    messages.push(
+      { role: 'assistant', content: first.content, tool_calls: first.toolCalls },
+      ...first.toolCalls!.map((call): LLMMessage => ({ role: 'tool', tool_call_id: call.id, content: `contents of ${call.id}` }))
+    );
+    const second = await service.generateWithTools(messages, [readFileTool]);
+
+    expect(second.content).toBe('a.ts exports `a` and b.ts exports `b`.');
+    expect(requests[1].body.messages[1].content.map((block: any) => block.type)).toEqual(['text', 'tool_use', 'tool_use']);
+    expect(requests[1].body.messages[2]).toEqual({
+      role: 'user',
+      content: [
+        { type: 'tool_result', tool_use_id: 'toolu_01A09q90qw90lq917835lq9', content: 'contents of toolu_01A09q90qw90lq917835lq9' },
+        { type: 'tool_result', tool_use_id: 'toolu_01B18r81rx81mr826724mr8', content: 'contents of toolu_01B18r81rx81mr826724mr8' }
+      ]
+    });
+  });
+
+  it('should stream text and tool input deltas and assemble the tool call', async () => {
+    replies.push(fixture('messages-tool-use-stream.txt'));
+
+    const stream = createService().streamWithTools([{ role: 'user', content: 'Read src/a.ts' }], [readFileTool]);
+    const chunks: LLMStreamChunk[] = [];
+    let next = await stream.next();
+    while (!next.done) {
+      chunks.push(next.value as LLMStreamChunk);
+      next = await stream.next();
+    }
+    const response = next.value as Awaited<ReturnType<LLMService['generateWithTools']>>;
+
+    expect(requests[0].body.stream).toBe(true);
+    expect(chunks.filter(chunk => chunk.type === 'text').map(chunk => (chunk as any).delta)).toEqual(['Let me ', 'check.']);
+    expect(chunks.find(chunk => chunk.type === 'tool_call')).toMatchObject({ index: 0, id: 'toolu_01T1x1fJ34qAmk2tNTrN7Up6', name: 'read_file' });
+    expect(response).toMatchObject({
+      content: 'Let me check.',
+      finishReason: 'stop',
+      tokens: { prompt: 1532, completion: 62, total: 1594 }
+    });
+    expect(response.toolCalls).toEqual([
+      { id: 'toolu_01T1x1fJ34qAmk2tNTrN7Up6', type: 'function', function: { name: 'read_file', arguments: '{"path": "src/a.ts"}' } }
+    ]);
+  });
+});
@@ -0,0 +1,200 @@
+/**
+ * Audit Log Store Unit Tests
+ * Tests for src/main/services/audit-log.ts
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import * as zlib from 'node:zlib';
+import { AuditLogStore } from '../../../src/main/services/audit-log';
+import type { AuditLogEntry } from '../../../src/shared/types';
+
+function makeEntry(index: number, overrides: Partial<AuditLogEntry> = {}): AuditLogEntry {
+  return {
+    timestamp: new Date(Date.UTC(2026, 0, 1, 0, 0, index)).toISOString(),
+    user_id: 'test-user',
+    workspace: index % 2 === 0 ? '/ws/a' : '/ws/b',
+    action: index % 3 === 0 ? 'delete_file' : 'write_file',
+    target: `src/file-${index}.ts`,
+    approved_by: 'test-user',
+    risk_level: 'medium',
+    ...overrides
+  };
+}
+
+async function appendEntries(store: AuditLogStore, count: number, overrides: Partial<AuditLogEntry> = {}): Promise<void> {
+  for (let i = 0; i < count; i++) {
+    await store.append(makeEntry(i, overrides));
+  }
+}
+
+describe('AuditLogStore', () => {
+  let tmpDir: string;
+  let logPath: string;
+
+  beforeEach(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'dm-audit-log-'));
+    logPath = path.join(tmpDir, 'audit.log');
+  });
+
+  afterEach(async () => {
+    await fs.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  const segmentFiles = async () => (await fs.readdir(tmpDir)).filter(name => name.endsWith('.gz'));
+
+  describe('Querying', () => {
+    it('should filter by workspace, action and target glob', async () => {
+      const store = new AuditLogStore(logPath);
+      await appendEntries(store, 12);
+
+      const page = await store.query({ workspace: '/ws/a', action: 'delete_file', targetGlob: 'src/*.ts' });
+
+      expect(page.total).toBe(2);
+      expect(page.entries.map(entry => entry.target)).toEqual(['src/file-6.ts', 'src/file-0.ts']);
+    });
+
+    it('should filter by time range, risk level and approver', async () => {
+      const store = new AuditLogStore(logPath);
+      await appendEntries(store, 10);
+      await store.append(makeEntry(10, { risk_level: 'high', approved_by: 'system' }));
+
+      const range = await store.query({
+        from: '2026-01-01T00:00:03.000Z',
+        to: Date.UTC(2026, 0, 1, 0, 0, 5),
+        sort: 'asc'
+      });
+      expect(range.entries.map(entry => entry.target)).toEqual(['src/file-3.ts', 'src/file-4.ts', 'src/file-5.ts']);
+
+      const denied = await store.query({ risk_level: 'high', approved_by: 'system' });
+      expect(denied.entries.map(entry => entry.target)).toEqual(['src/file-10.ts']);
+    });
+
+    it('should page newest first by default', async () => {
+      const store = new AuditLogStore(logPath);
+      await appendEntries(store, 10);
+
+      const first = await store.query({ limit: 4 });
+      const second = await store.query({ limit: 4, offset: 8 });
+
+      expect(first.entries.map(entry => entry.target)).toEqual(['src/file-9.ts', 'src/file-8.ts', 'src/file-7.ts', 'src/file-6.ts']);
+      expect(first.hasMore).toBe(true);
+      expect(second.entries.map(entry => entry.target)).toEqual(['src/file-1.ts', 'src/file-0.ts']);
+      expect(second.hasMore).toBe(false);
+      expect(second.total).toBe(10);
+    });
+
+    it('should page oldest first when sorted ascending', async () => {
+      const store = new AuditLogStore(logPath);
+      await appendEntries(store, 5);
+
+      const page = await store.query({ sort: 'asc', offset: 1, limit: 2 });
+
+      expect(page.entries.map(entry => entry.target)).toEqual(['src/file-1.ts', 'src/file-2.ts']);
+      expect(page.hasMore).toBe(true);
+    });
+
+    it('should query the in-memory log when no path is given', async () => {
+      const store = new AuditLogStore();
+      await appendEntries(store, 3);
+
+      const page = await store.query({ sort: 'asc' });
+
+      expect(page.total).toBe(3);
+      expect((await store.verify()).valid).toBe(true);
+    });
+  });
+
+  describe('Rotation', () => {
+    it('should rotate into compressed segments by size and query across them', async () => {
+      const store = new AuditLogStore(logPath, { maxFileBytes: 1024, daily: false });
+      await appendEntries(store, 30);
+
+      expect((await segmentFiles()).length).toBeGreaterThan(1);
+      expect((await fs.stat(logPath)).size).toBeLessThanOrEqual(1024);
+
+      const page = await store.query({ sort: 'asc', limit: 100 });
+      expect(page.total).toBe(30);
+      expect(page.entries[0].target).toBe('src/file-0.ts');
+      expect(page.entries[29].target).toBe('src/file-29.ts');
+    });
+
+    it('should rotate when the day changes', async () => {
+      const store = new AuditLogStore(logPath);
+      await store.append(makeEntry(0, { timestamp: '2026-01-01T23:59:59.000Z' }));
+      await store.append(makeEntry(1, { timestamp: '2026-01-02T00:00:01.000Z' }));
+
+      expect(await segmentFiles()).toHaveLength(1);
+      expect((await store.query()).total).toBe(2);
+    });
+
+    it('should continue the chain across segments and restarts', async () => {
+      const first = new AuditLogStore(logPath, { maxFileBytes: 1024, daily: false });
+      await appendEntries(first, 20);
+
+      const second = new AuditLogStore(logPath, { maxFileBytes: 1024, daily: false });
+      await appendEntries(second, 5);
+
+      const result = await second.verify();
+      expect(result.valid).toBe(true);
+      expect(result.checkedEntries).toBe(25);
+    });
+
+    it('should detect tampering inside a compressed segment', async () => {
+      const store = new AuditLogStore(logPath, { maxFileBytes: 1024, daily: false });
+      await appendEntries(store, 20);
+
+      const [segment] = (await segmentFiles()).sort();
+      const segmentPath = path.join(tmpDir, segment);
+      const content = zlib.gunzipSync(await fs.readFile(segmentPath)).toString('utf-8');
+      await fs.writeFile(segmentPath, zlib.gzipSync(content.replace('src/file-1.ts', 'src/other.ts')));
+
+      const result = await store.verify();
+      expect(result.valid).toBe(false);
+      expect(result.brokenAt).toMatchObject({ index: 1, reason: 'hash_mismatch' });
+    });
+
+    it('should keep the chain where it was when a write fails', async () => {
+      const store = new AuditLogStore(logPath);
+      await appendEntries(store, 2);
+      const content = await fs.readFile(logPath, 'utf-8');
+
+      // A directory in the file's place makes the next append fail
+      await fs.rm(logPath);
+      await fs.mkdir(logPath);
+      await expect(store.append(makeEntry(2))).rejects.toThrow();
+      await fs.rm(logPath, { recursive: true });
+      await fs.writeFile(logPath, content);
+
+      await store.append(makeEntry(3));
+      expect(await store.verify()).toEqual({ valid: true, checkedEntries: 3, legacyEntries: 0 });
+    });
+
+    it('should not accept unhashed entries after the chain starts or a log without hashes', async () => {
+      const store = new AuditLogStore(logPath);
+      await appendEntries(store, 3);
+      const entries = (await fs.readFile(logPath, 'utf-8')).trim().split('\n').map(line => JSON.parse(line));
+      const unhashed = entries.map(({ hash: _hash, prev_hash: _prevHash, ...entry }) => JSON.stringify(entry));
+
+      await fs.writeFile(logPath, [JSON.stringify(entries[0]), unhashed[1], JSON.stringify(entries[2])].join('\n') + '\n');
+      expect((await store.verify()).brokenAt).toMatchObject({ index: 1, reason: 'missing_hash' });
+
+      await fs.writeFile(logPath, unhashed.join('\n') + '\n');
+      expect(await store.verify()).toEqual({ valid: false, unverified: true, checkedEntries: 3, legacyEntries: 3 });
+    });
+
+    it('should clear the active file and all segments', async () => {
+      const store = new AuditLogStore(logPath, { maxFileBytes: 1024, daily: false });
+      await appendEntries(store, 20);
+
+      await store.clear();
+
+      expect(await segmentFiles()).toHaveLength(0);
+      expect((await store.query()).total).toBe(0);
+      await store.append(makeEntry(0));
+      expect((await store.verify()).valid).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,269 @@
+/**
+ * Checkpoint Service Unit Tests
+ * Tests for src/main/services/checkpoint.ts
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { CheckpointService } from '../../../src/main/services/checkpoint';
+import { Agent } from '../../../src/main/services/agent';
+import { ToolRegistry, createBuiltinTools } from '../../../src/main/services/tools';
+import { FileSystemService } from '../../../src/main/services/file-system';
+import type { FileAPI } from '../../../src/shared/types';
+
+vi.mock('electron', () => ({
+  app: { getPath: () => os.tmpdir() }
+}));
+
+/** FileAPI backed by a Map of path -> content */
+function createMemoryFileSystem(files: Record<string, string> = {}): FileAPI & { files: Map<string, string> } {
+  const store = new Map(Object.entries(files));
+  return {
+    files: store,
+    read: vi.fn(async (filePath: string) => {
+      if (!store.has(filePath)) throw new Error(`ENOENT: ${filePath}`);
+      return store.get(filePath)!;
+    }),
+    write: vi.fn(async (filePath: string, content: string) => { store.set(filePath, content); }),
+    list: vi.fn().mockResolvedValue([]),
+    delete: vi.fn(async (filePath: string) => { store.delete(filePath); }),
+    exists: vi.fn(async (filePath: string) => store.has(filePath)),
+    watch: vi.fn()
+  };
+}
+
+describe('CheckpointService', () => {
+  let tmpDir: string;
+
+  beforeEach(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'dm-checkpoints-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should keep the first before and the last after per file', async () => {
+    const service = new CheckpointService(tmpDir);
+    const checkpoint = service.open('edit twice', '/ws');
+
+    await service.recordChange(checkpoint.id, { path: 'a.txt', before: 'v1', after: 'v2' });
+    await service.recordChange(checkpoint.id, { path: 'a.txt', before: 'v2', after: 'v3' });
+
+    const reloaded = await new CheckpointService(tmpDir).get(checkpoint.id);
+    expect(reloaded?.fileChanges['a.txt']).toEqual({ before: 'v1', after: 'v3' });
+  });
+
+  it('should record a file under one workspace-relative path however it is given', async () => {
+    const service = new CheckpointService(tmpDir);
+    const checkpoint = service.open('edit one file', '/ws');
+
+    await service.recordChange(checkpoint.id, { path: './src/a.ts', before: 'v1', after: 'v2' });
+    await service.recordChange(checkpoint.id, { path: 'src/a.ts', before: 'v2', after: 'v3' });
+    await service.recordChange(checkpoint.id, { path: '/ws/src/a.ts', before: 'v3', after: 'v4' });
+
+    expect(checkpoint.fileChanges).toEqual({ 'src/a.ts': { before: 'v1', after: 'v4' } });
+    expect(await service.getDiff(checkpoint.id, './src/a.ts')).toContain('+v4');
+  });
+
+  it('should keep saving after a failed write', async () => {
+    // A file where the checkpoint directory should be makes the first write fail
+    const rootDir = path.join(tmpDir, 'checkpoints');
+    await fs.writeFile(rootDir, '');
+    const service = new CheckpointService(rootDir);
+    const checkpoint = service.open('edit twice', '/ws');
+
+    await expect(service.recordChange(checkpoint.id, { path: 'a.txt', before: 'v1', after: 'v2' })).rejects.toThrow();
+
+    await fs.rm(rootDir);
+    await service.recordChange(checkpoint.id, { path: 'b.txt', before: 'x', after: 'y' });
+
+    const reloaded = await new CheckpointService(rootDir).get(checkpoint.id);
+    expect(Object.keys(reloaded?.fileChanges ?? {})).toEqual(['a.txt', 'b.txt']);
+  });
+
+  it('should drop closed checkpoints from memory', async () => {
+    const service = new CheckpointService(tmpDir);
+    const changed = service.open('changed', '/ws');
+    const unchanged = service.open('unchanged', '/ws');
+    await service.recordChange(changed.id, { path: 'a.txt', before: 'v1', after: 'v2' });
+
+    await service.close(changed.id);
+    await service.close(unchanged.id);
+
+    expect((service as any).checkpoints.size).toBe(0);
+    expect((await service.get(changed.id))?.fileChanges).toEqual({ 'a.txt': { before: 'v1', after: 'v2' } });
+    await expect(service.recordChange(changed.id, { path: 'b.txt', before: null, after: 'x' })).rejects.toThrow('not found');
+  });
+
+  it('should only list checkpoints with changes, newest first', async () => {
+    const service = new CheckpointService(tmpDir);
+    service.open('nothing changed', '/ws');
+    const first = service.open('first', '/ws');
+    await service.recordChange(first.id, { path: 'a.txt', before: null, after: 'a' });
+    const second = service.open('second', '/other');
+    second.timestamp = first.timestamp + 1;
+    await service.recordChange(second.id, { path: 'b.txt', before: 'b', after: null });
+
+    const listed = await new CheckpointService(tmpDir).list();
+    expect(listed.map(summary => summary.description)).toEqual(['second', 'first']);
+    expect(listed[1].files).toEqual(['a.txt']);
+    expect(await service.list({ workspace: '/ws' })).toHaveLength(1);
+  });
+
+  it('should show a unified diff per checkpoint or file', async () => {
+    const service = new CheckpointService(tmpDir);
+    const checkpoint = service.open('diff', '/ws');
+    await service.recordChange(checkpoint.id, { path: 'a.txt', before: 'old\n', after: 'new\n' });
+    await service.recordChange(checkpoint.id, { path: 'b.txt', before: null, after: 'created\n' });
+
+    const all = await service.getDiff(checkpoint.id);
+    expect(all).toContain('--- a/a.txt');
+    expect(all).toContain('+++ b/b.txt');
+
+    const single = await service.getDiff(checkpoint.id, 'b.txt');
+    expect(single).toContain('--- /dev/null');
+    expect(single).not.toContain('a.txt');
+    expect(await service.getDiff(checkpoint.id, 'missing.txt')).toBeNull();
+  });
+
+  it('should restore written, created and deleted files', async () => {
+    const fileSystem = createMemoryFileSystem({ 'edited.txt': 'after', 'created.txt': 'new' });
+    const service = new CheckpointService(tmpDir);
+    const checkpoint = service.open('run', '/ws');
+    await service.recordChange(checkpoint.id, { path: 'edited.txt', before: 'before', after: 'after' });
+    await service.recordChange(checkpoint.id, { path: 'created.txt', before: null, after: 'new' });
+    await service.recordChange(checkpoint.id, { path: 'deleted.txt', before: 'gone', after: null });
+
+    const result = await service.restore(checkpoint.id, { fileSystem, workspace: '/ws' });
+
+    expect(result.restored.sort()).toEqual(['created.txt', 'deleted.txt', 'edited.txt']);
+    expect(Object.fromEntries(fileSystem.files)).toEqual({ 'edited.txt': 'before', 'deleted.txt': 'gone' });
+  });
+
+  it('should restore a single file', async () => {
+    const fileSystem = createMemoryFileSystem({ 'a.txt': 'a2', 'b.txt': 'b2' });
+    const service = new CheckpointService(tmpDir);
+    const checkpoint = service.open('run', '/ws');
+    await service.recordChange(checkpoint.id, { path: 'a.txt', before: 'a1', after: 'a2' });
+    await service.recordChange(checkpoint.id, { path: 'b.txt', before: 'b1', after: 'b2' });
+
+    const result = await service.restore(checkpoint.id, { fileSystem, filePath: 'b.txt' });
+
+    expect(result.restored).toEqual(['b.txt']);
+    expect(fileSystem.files.get('a.txt')).toBe('a2');
+    expect(fileSystem.files.get('b.txt')).toBe('b1');
+  });
+
+  it('should leave files changed after the checkpoint unless forced', async () => {
+    const fileSystem = createMemoryFileSystem({ 'a.txt': 'edited by user' });
+    const service = new CheckpointService(tmpDir);
+    const checkpoint = service.open('run', '/ws');
+    await service.recordChange(checkpoint.id, { path: 'a.txt', before: 'original', after: 'agent' });
+
+    const result = await service.restore(checkpoint.id, { fileSystem });
+    expect(result.conflicts).toEqual(['a.txt']);
+    expect(fileSystem.files.get('a.txt')).toBe('edited by user');
+
+    const forced = await service.restore(checkpoint.id, { fileSystem, force: true });
+    expect(forced.restored).toEqual(['a.txt']);
+    expect(fileSystem.files.get('a.txt')).toBe('original');
+  });
+
+  it('should refuse to restore into another workspace', async () => {
+    const service = new CheckpointService(tmpDir);
+    const checkpoint = service.open('run', '/ws');
+    await service.recordChange(checkpoint.id, { path: 'a.txt', before: 'a', after: 'b' });
+
+    await expect(service.restore(checkpoint.id, { fileSystem: createMemoryFileSystem(), workspace: '/other' }))
+      .rejects.toThrow('workspace');
+    await expect(service.restore('../../etc/passwd', { fileSystem: createMemoryFileSystem() }))
+      .rejects.toThrow('not found');
+  });
+
+  describe('Agent integration', () => {
+    it('should record every file the agent run writes or deletes', async () => {
+      const fileSystem = createMemoryFileSystem({ 'keep.txt': 'v1', 'old.txt': 'bye' });
+      const tools = new ToolRegistry();
+      createBuiltinTools(fileSystem).forEach(tool => tools.register(tool));
+
+      const toolCall = (id: string, name: string, args: Record<string, unknown>) => ({
+        id,
+        type: 'function',
+        function: { name, arguments: JSON.stringify(args) }
+      });
+      const llm = {
+        getConfig: () => ({ provider: 'openai', model: 'gpt-4o' }),
+        generateWithTools: vi.fn()
+          .mockResolvedValueOnce({
+            content: '',
+            model: 'gpt-4o',
+            tokens: { prompt: 10, completion: 5, total: 15 },
+            toolCalls: [
+              toolCall('1', 'write_file', { path: 'keep.txt', content: 'v2' }),
+              toolCall('2', 'delete_file', { path: 'old.txt' })
+            ]
+          })
+          .mockResolvedValueOnce({ content: 'Done', model: 'gpt-4o', tokens: { prompt: 10, completion: 5, total: 15 } })
+      };
+
+      const checkpoints = new CheckpointService(tmpDir);
+      const agent = new Agent(llm as any, tools, { checkpoints });
+      const response = await agent.execute('update files', { workspacePath: '/ws' });
+
+      expect(response.checkpointId).toBeDefined();
+      const checkpoint = await checkpoints.get(response.checkpointId!);
+      expect(checkpoint?.fileChanges).toEqual({
+        'keep.txt': { before: 'v1', after: 'v2' },
+        'old.txt': { before: 'bye', after: null }
+      });
+
+      await checkpoints.restore(response.checkpointId!, { fileSystem, workspace: '/ws' });
+      expect(Object.fromEntries(fileSystem.files)).toEqual({ 'keep.txt': 'v1', 'old.txt': 'bye' });
+    });
+
+    it('should not delete a file that was too large to read when the tool overwrote it', async () => {
+      const workspace = path.join(tmpDir, 'ws');
+      await fs.mkdir(workspace);
+      await fs.writeFile(path.join(workspace, 'big.log'), 'x'.repeat(2048));
+      const fileSystem = new FileSystemService({ workspaceRoot: workspace, maxFileSize: 1024, useGitIgnore: false });
+      const tools = new ToolRegistry();
+      createBuiltinTools(fileSystem).forEach(tool => tools.register(tool));
+      const checkpoints = new CheckpointService(path.join(tmpDir, 'checkpoints'));
+      const checkpoint = checkpoints.open('overwrite', workspace);
+
+      const written = await tools.execute('write_file', { path: 'big.log', content: 'small' }, {
+        workspace,
+        onFileChange: change => checkpoints.recordChange(checkpoint.id, change)
+      });
+      expect(written.success).toBe(true);
+      expect((await checkpoints.get(checkpoint.id))?.fileChanges['big.log']).toEqual({ before: null, after: 'small', unreadable: true });
+
+      const result = await checkpoints.restore(checkpoint.id, { fileSystem, workspace });
+
+      expect(result.restored).toEqual([]);
+      expect(result.failed).toEqual([{ path: 'big.log', error: expect.stringContaining('could not be read') }]);
+      expect(await fs.readFile(path.join(workspace, 'big.log'), 'utf-8')).toBe('small');
+    });
+
+    it('should not report a deleted directory as restored', async () => {
+      const fileSystem = createMemoryFileSystem();
+      vi.mocked(fileSystem.exists).mockResolvedValue(true);
+      const tools = new ToolRegistry();
+      createBuiltinTools(fileSystem).forEach(tool => tools.register(tool));
+      const checkpoints = new CheckpointService(tmpDir);
+      const checkpoint = checkpoints.open('delete', '/ws');
+
+      await tools.execute('delete_file', { path: 'src' }, {
+        workspace: '/ws',
+        onFileChange: change => checkpoints.recordChange(checkpoint.id, change)
+      });
+      const result = await checkpoints.restore(checkpoint.id, { fileSystem, workspace: '/ws', force: true });
+
+      expect(result.restored).toEqual([]);
+      expect(result.failed.map(failure => failure.path)).toEqual(['src']);
+    });
+  });
+});
@@ -0,0 +1,57 @@
+/**
+ * Circuit Breaker Unit Tests
+ * Tests for src/main/services/circuit-breaker.ts
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { CircuitBreaker } from '../../../src/main/services/circuit-breaker';
+
+describe('CircuitBreaker', () => {
+  let now: number;
+  let breaker: CircuitBreaker;
+
+  beforeEach(() => {
+    now = 1000;
+    breaker = new CircuitBreaker({ failureThreshold: 2, cooldownMs: 500, now: () => now });
+  });
+
+  it('should open after consecutive failures and let a probe through after the cooldown', () => {
+    breaker.recordFailure();
+    expect(breaker.getState()).toBe('closed');
+
+    breaker.recordFailure();
+    expect(breaker.getState()).toBe('open');
+    expect(breaker.allowRequest()).toBe(false);
+    expect(breaker.getRetryAt()).toBe(1500);
+
+    now = 1500;
+    expect(breaker.getState()).toBe('half_open');
+    expect(breaker.allowRequest()).toBe(true);
+  });
+
+  it('should reopen when the probe fails and close when it succeeds', () => {
+    breaker.recordFailure();
+    breaker.recordFailure();
+    now = 1500;
+
+    breaker.recordFailure();
+    expect(breaker.getState()).toBe('open');
+    expect(breaker.getRetryAt()).toBe(2000);
+
+    now = 2000;
+    breaker.recordSuccess();
+    expect(breaker.getState()).toBe('closed');
+    breaker.recordFailure();
+    expect(breaker.getState()).toBe('closed');
+  });
+
+  it('should stay open for as long as Retry-After asks, even below the threshold', () => {
+    breaker.recordFailure(2000);
+
+    expect(breaker.getState()).toBe('open');
+    expect(breaker.getRetryAt()).toBe(3000);
+
+    now = 3000;
+    expect(breaker.allowRequest()).toBe(true);
+  });
+});
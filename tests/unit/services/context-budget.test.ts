@@ -0,0 +1,145 @@
+/**
+ * Context Budget Unit Tests
+ * Tests for src/main/services/context-budget.ts
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import * as os from 'node:os';
+import {
+  ContextBudgeter,
+  ToolOutputStore,
+  createFetchToolOutputTool
+} from '../../../src/main/services/context-budget';
+import { Agent, type AgentStep } from '../../../src/main/services/agent';
+import { ToolRegistry } from '../../../src/main/services/tools';
+import { ConversationManager } from '../../../src/main/services/conversation';
+import { PermissionLevel } from '../../../src/shared/types';
+import type { LLMMessage } from '../../../src/shared/types';
+
+vi.mock('electron', () => ({
+  app: { getPath: () => os.tmpdir() }
+}));
+
+const words = (count: number, word = 'lorem') => Array.from({ length: count }, (_, i) => `${word}${i}`).join(' ');
+
+const toolResult = (id: string, output: string): LLMMessage => ({ role: 'tool', tool_call_id: id, content: output });
+
+const toolCallMessage = (id: string): LLMMessage => ({
+  role: 'assistant',
+  content: '',
+  tool_calls: [{ id, type: 'function', function: { name: 'read_file', arguments: '{"path":"big.txt"}' } }]
+});
+
+describe('ContextBudgeter', () => {
+  const model = 'gpt-4o';
+
+  it('should leave a thread that fits alone', async () => {
+    const budgeter = new ContextBudgeter({ contextWindow: 1000, reserveTokens: 100 });
+    const thread = { messages: [{ role: 'system', content: 'sys' }, { role: 'user', content: 'hi' }] as LLMMessage[], turnStart: 1 };
+    const summarize = vi.fn();
+
+    expect(budgeter.getBudget(model)).toBe(900);
+    expect(await budgeter.fit(thread, { model, summarize })).toBeNull();
+    expect(summarize).not.toHaveBeenCalled();
+  });
+
+  it('should cut large tool outputs to previews and keep the full text fetchable', async () => {
+    const toolOutputs = new ToolOutputStore();
+    const budgeter = new ContextBudgeter({ contextWindow: 1500, reserveTokens: 0, maxToolOutputTokens: 200, toolOutputPreviewChars: 100 }, toolOutputs);
+    const output = words(2000);
+    const thread = {
+      messages: [
+        { role: 'system', content: 'sys' },
+        { role: 'user', content: 'read big.txt' },
+        toolCallMessage('call_1'),
+        toolResult('call_1', output)
+      ] as LLMMessage[],
+      turnStart: 1
+    };
+    const summarize = vi.fn();
+
+    const compaction = await budgeter.fit(thread, { model, summarize });
+
+    expect(compaction).toMatchObject({ budget: 1500, summarizedMessages: 0, truncatedOutputs: ['call_1'] });
+    expect(compaction!.tokensAfter).toBeLessThan(compaction!.tokensBefore);
+    expect(summarize).not.toHaveBeenCalled();
+    expect(thread.messages[3]).toMatchObject({ role: 'tool', tool_call_id: 'call_1' });
+    expect(thread.messages[3].content).toContain('fetch_tool_output');
+    expect(budgeter.getToolOutput('call_1')).toBe(output);
+
+    const fetchTool = createFetchToolOutputTool(toolOutputs);
+    expect(fetchTool.permissionLevel).toBe(PermissionLevel.READ_ONLY);
+    const fetched = await fetchTool.execute({ id: 'call_1', offset: 10, length: 50 });
+    expect(fetched.data).toMatchObject({ content: output.slice(10, 60), totalLength: output.length, hasMore: true });
+    expect((await fetchTool.execute({ id: 'missing' })).success).toBe(false);
+  });
+
+  it('should summarize older turns but keep the system prompt, the request and recent messages', async () => {
+    const budgeter = new ContextBudgeter({ contextWindow: 700, reserveTokens: 0, keepRecentMessages: 2 });
+    const messages: LLMMessage[] = [{ role: 'system', content: 'sys' }];
+    for (let turn = 0; turn < 4; turn++) {
+      messages.push({ role: 'user', content: words(60, `q${turn}_`) }, { role: 'assistant', content: words(60, `a${turn}_`) });
+    }
+    const request: LLMMessage = { role: 'user', content: 'the current request' };
+    messages.push(request, toolCallMessage('call_9'), toolResult('call_9', 'small'));
+    const thread = { messages, turnStart: 9 };
+    const summarize = vi.fn().mockResolvedValue('they talked about lorem');
+
+    const compaction = await budgeter.fit(thread, { model, summarize });
+
+    expect(compaction!.summarizedMessages).toBe(8);
+    expect(summarize.mock.calls[0][0]).toContain('[user] q0_0');
+    expect(thread.messages.map(message => message.role)).toEqual(['system', 'system', 'user', 'assistant', 'tool']);
+    expect(thread.messages[1].content).toContain('they talked about lorem');
+    expect(thread.messages[thread.turnStart]).toBe(request);
+    expect(thread.turnStart).toBe(2);
+  });
+
+  it('should fail when the request cannot fit even after compaction', async () => {
+    const budgeter = new ContextBudgeter({ contextWindow: 50, reserveTokens: 0 });
+    const thread = { messages: [{ role: 'system', content: words(100) }, { role: 'user', content: 'hi' }] as LLMMessage[], turnStart: 1 };
+
+    await expect(budgeter.fit(thread, { model, summarize: vi.fn() })).rejects.toThrow('Context window exceeded');
+  });
+
+  describe('Agent integration', () => {
+    it('should compact the conversation history and record a compaction step', async () => {
+      const requests: LLMMessage[][] = [];
+      const llm = {
+        getConfig: () => ({ provider: 'openai', model: 'gpt-4o', maxTokens: 0 }),
+        generate: vi.fn().mockResolvedValue({ content: 'summary of earlier turns', model: 'gpt-4o', tokens: { prompt: 1, completion: 1, total: 2 } }),
+        generateWithTools: vi.fn(async (messages: LLMMessage[]) => {
+          requests.push([...messages]);
+          return { content: 'done', model: 'gpt-4o', tokens: { prompt: 1, completion: 1, total: 2 } };
+        })
+      };
+      const conversations = new ConversationManager();
+      conversations.set('c1', Array.from({ length: 6 }, () => [
+        { role: 'user' as const, content: words(300) },
+        { role: 'assistant' as const, content: words(300) }
+      ]).flat());
+      const steps: AgentStep[] = [];
+      const tools = new ToolRegistry();
+      const agent = new Agent(llm as any, tools, {
+        conversations,
+        contextBudget: { contextWindow: 4000, keepRecentMessages: 2 },
+        onStep: (step) => steps.push(step)
+      });
+
+      const response = await agent.execute('follow up', { conversationId: 'c1' });
+
+      expect(response.success).toBe(true);
+      expect(tools.has('fetch_tool_output')).toBe(true);
+      expect(llm.generate).toHaveBeenCalledTimes(1);
+      expect(requests[0].map(message => message.role)).toEqual(['system', 'system', 'assistant', 'user']);
+      const compactionStep = steps.find(step => step.type === 'compaction');
+      expect(compactionStep?.compaction).toMatchObject({ summarizedMessages: 11, truncatedOutputs: [] });
+      expect(conversations.getHistory('c1').map(message => message.content)).toEqual([
+        expect.stringContaining('summary of earlier turns'),
+        expect.any(String),
+        'follow up',
+        'done'
+      ]);
+    });
+  });
+});
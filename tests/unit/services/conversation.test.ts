@@ -0,0 +1,117 @@
+/**
+ * Conversation Manager Unit Tests
+ * Tests for src/main/services/conversation.ts
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import * as os from 'node:os';
+import { ConversationManager } from '../../../src/main/services/conversation';
+import { Agent } from '../../../src/main/services/agent';
+import { ToolRegistry, createBuiltinTools } from '../../../src/main/services/tools';
+import type { FileAPI } from '../../../src/shared/types';
+
+vi.mock('electron', () => ({
+  app: { getPath: () => os.tmpdir() }
+}));
+
+const reply = (content: string, toolCalls?: any[]) => ({
+  content,
+  model: 'gpt-4o',
+  tokens: { prompt: 1, completion: 1, total: 2 },
+  toolCalls
+});
+
+/** LLM stub answering with the given replies and recording a copy of each request */
+function createLLM(...replies: Array<ReturnType<typeof reply>>) {
+  const requests: any[][] = [];
+  const generateWithTools = vi.fn(async (messages: any[]) => {
+    requests.push([...messages]);
+    return replies.length > 1 ? replies.shift()! : replies[0];
+  });
+  return { requests, generateWithTools, getConfig: () => ({ provider: 'openai', model: 'gpt-4o' }) };
+}
+
+function createMockFileSystem(): FileAPI {
+  return {
+    read: vi.fn().mockResolvedValue('export const a = 1;'),
+    write: vi.fn().mockResolvedValue(undefined),
+    list: vi.fn().mockResolvedValue([]),
+    delete: vi.fn().mockResolvedValue(undefined),
+    exists: vi.fn().mockResolvedValue(true),
+    watch: vi.fn(),
+    search: vi.fn().mockResolvedValue({ matches: [], filesSearched: 0, filesSkipped: 0, truncated: false })
+  };
+}
+
+describe('ConversationManager', () => {
+  it('should store turns and return copies of the history', () => {
+    const conversations = new ConversationManager();
+    conversations.set('c1', [{ role: 'user', content: 'hi' }, { role: 'assistant', content: 'hello' }]);
+
+    const history = conversations.getHistory('c1');
+    history.push({ role: 'user', content: 'not stored' });
+
+    expect(conversations.getHistory('c1')).toHaveLength(2);
+    expect(conversations.getHistory('c2')).toEqual([]);
+
+    expect(conversations.clear('c1')).toBe(true);
+    expect(conversations.clear('c1')).toBe(false);
+    expect(conversations.getHistory('c1')).toEqual([]);
+  });
+
+  describe('Agent integration', () => {
+    it('should send earlier turns, including tool calls and results, with a follow-up', async () => {
+      const tools = new ToolRegistry();
+      createBuiltinTools(createMockFileSystem()).forEach(tool => tools.register(tool));
+      const readCall = { id: 'call_1', type: 'function', function: { name: 'read_file', arguments: '{"path":"a.ts"}' } };
+      const llm = createLLM(reply('', [readCall]), reply('a.ts exports a'), reply('b.ts exports b'));
+      const conversations = new ConversationManager();
+      const agent = new Agent(llm as any, tools, { conversations });
+
+      await agent.execute('what does a.ts export?', { conversationId: 'c1' });
+      await agent.execute('now do the same for b.ts', { conversationId: 'c1' });
+
+      const followUp = llm.requests[2];
+      expect(followUp.map((message: any) => message.role)).toEqual(['system', 'user', 'assistant', 'tool', 'assistant', 'user']);
+      expect(followUp[1].content).toBe('what does a.ts export?');
+      expect(followUp[2].tool_calls).toEqual([readCall]);
+      expect(followUp[3]).toMatchObject({ tool_call_id: 'call_1', content: expect.stringContaining('export const a') });
+      expect(followUp[4].content).toBe('a.ts exports a');
+      expect(followUp[5].content).toBe('now do the same for b.ts');
+      expect(conversations.getHistory('c1')).toHaveLength(6);
+    });
+
+    it('should keep conversations apart', async () => {
+      const llm = createLLM(reply('ok'));
+      const agent = new Agent(llm as any, new ToolRegistry(), { conversations: new ConversationManager() });
+
+      await agent.execute('first', { conversationId: 'c1' });
+      await agent.execute('second', { conversationId: 'c2' });
+      await agent.execute('third');
+
+      expect(llm.requests[1]).toHaveLength(2);
+      expect(llm.requests[2]).toHaveLength(2);
+    });
+
+    it('should give the planner the history and record the plan answer', async () => {
+      const plan = JSON.stringify({ goal: 'g', tasks: [{ id: 't1', type: 'call_tool', description: 'do it' }] });
+      const llm = {
+        getConfig: () => ({ provider: 'openai', model: 'gpt-4o' }),
+        generate: vi.fn().mockResolvedValue(reply(plan)),
+        generateWithTools: vi.fn().mockResolvedValue(reply('planned result'))
+      };
+      const conversations = new ConversationManager();
+      conversations.set('c1', [{ role: 'user', content: 'earlier' }, { role: 'assistant', content: 'earlier answer' }]);
+      const agent = new Agent(llm as any, new ToolRegistry(), { conversations });
+
+      await agent.execute('follow up', { conversationId: 'c1', mode: 'plan' });
+
+      expect(llm.generate.mock.calls[0][0].map((message: any) => message.content).slice(1))
+        .toEqual(['earlier', 'earlier answer', 'follow up']);
+      expect(conversations.getHistory('c1').slice(2)).toEqual([
+        { role: 'user', content: 'follow up' },
+        { role: 'assistant', content: 'planned result' }
+      ]);
+    });
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * Diff Service Unit Tests
+ * Tests for src/main/services/diff.ts and src/main/services/diff-store.ts
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { createUnifiedDiff, diffLines } from '../../../src/main/services/diff';
+import { DiffStore, sha256Hex } from '../../../src/main/services/diff-store';
+
+describe('Diff', () => {
+  it('should find the minimal edit script', () => {
+    const ops = diffLines(['a', 'b', 'c'], ['a', 'x', 'c']);
+    expect(ops).toEqual([
+      { type: 'equal', line: 'a' },
+      { type: 'delete', line: 'b' },
+      { type: 'insert', line: 'x' },
+      { type: 'equal', line: 'c' }
+    ]);
+  });
+
+  it('should replace the whole file when the files are too large or too different', () => {
+    const before = Array.from({ length: 1500 }, (_, i) => `old ${i}`);
+    const after = Array.from({ length: 1500 }, (_, i) => `new ${i}`);
+    const edited = [...before];
+    edited[700] = 'changed';
+
+    expect(diffLines(before, after)).toEqual([
+      ...before.map(line => ({ type: 'delete', line })),
+      ...after.map(line => ({ type: 'insert', line }))
+    ]);
+    expect(diffLines(before, edited).filter(op => op.type !== 'equal')).toEqual([
+      { type: 'delete', line: 'old 700' },
+      { type: 'insert', line: 'changed' }
+    ]);
+    expect(diffLines([...before, ...before], [...edited, ...edited]).filter(op => op.type === 'equal')).toEqual([]);
+  });
+
+  it('should produce a unified diff with context', () => {
+    const before = ['1', '2', '3', '4', '5', '6', '7', '8', '9', '10'].join('\n') + '\n';
+    const after = before.replace('5\n', 'five\n');
+
+    expect(createUnifiedDiff('notes.txt', before, after)).toBe([
+      '--- a/notes.txt',
+      '+++ b/notes.txt',
+      '@@ -2,7 +2,7 @@',
+      ' 2',
+      ' 3',
+      ' 4',
+      '-5',
+      '+five',
+      ' 6',
+      ' 7',
+      ' 8',
+      ''
+    ].join('\n'));
+  });
+
+  it('should split distant changes into separate hunks', () => {
+    const lines = Array.from({ length: 30 }, (_, i) => `line ${i + 1}`);
+    const changed = [...lines];
+    changed[1] = 'changed 2';
+    changed[27] = 'changed 28';
+
+    const diff = createUnifiedDiff('f.txt', lines.join('\n'), changed.join('\n'));
+    expect(diff.match(/^@@/gm)).toHaveLength(2);
+    expect(diff).toContain('@@ -1,5 +1,5 @@');
+    expect(diff).toContain('@@ -25,6 +25,6 @@');
+  });
+
+  it('should diff created and deleted files against /dev/null', () => {
+    expect(createUnifiedDiff('new.txt', null, 'hello\n')).toBe('--- /dev/null\n+++ b/new.txt\n@@ -0,0 +1,1 @@\n+hello\n');
+    expect(createUnifiedDiff('old.txt', 'bye\n', null)).toBe('--- a/old.txt\n+++ /dev/null\n@@ -1,1 +0,0 @@\n-bye\n');
+  });
+
+  it('should return an empty diff when nothing changed', () => {
+    expect(createUnifiedDiff('same.txt', 'x\n', 'x\n')).toBe('');
+  });
+});
+
+describe('DiffStore', () => {
+  it('should store diffs by content hash', async () => {
+    const tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'dm-diffs-'));
+    const store = new DiffStore(tmpDir);
+    const diff = createUnifiedDiff('a.txt', 'a\n', 'b\n');
+
+    const sha = await store.put(diff);
+    expect(sha).toBe(sha256Hex(diff));
+    expect(await store.put(diff)).toBe(sha);
+    expect(await store.get(sha)).toBe(diff);
+    expect(await store.get('0'.repeat(64))).toBeNull();
+    expect(await store.get('../escape')).toBeNull();
+
+    await fs.rm(tmpDir, { recursive: true, force: true });
+  });
+});
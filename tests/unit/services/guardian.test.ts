@@ -4,9 +4,27 @@
  */
 
 import { describe, it, expect, beforeEach, vi } from 'vitest';
-import { Guardian, PERMISSION_LEVEL_DESCRIPTIONS } from '../../../src/main/services/guardian';
+import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { Guardian, PERMISSION_LEVEL_DESCRIPTIONS, AUDIT_GENESIS_HASH, hashAuditEntry } from '../../../src/main/services/guardian';
 import { PermissionLevel } from '../../../src/shared/types';
 
+/** Approve every request and record `count` audit entries */
+async function recordEntries(guardian: Guardian, count: number): Promise<void> {
+  guardian.on('approval-request', (data: any) => {
+    setTimeout(() => guardian.handleApprovalResponse(data.requestId, { approved: true }), 0);
+  });
+  for (let i = 0; i < count; i++) {
+    await guardian.requestPermission({
+      level: PermissionLevel.EXECUTE,
+      action: 'execute_script',
+      target: `script-${i}.sh`,
+      workspace: '/test'
+    });
+  }
+}
+
 describe('Guardian Permission Manager', () => {
   let guardian: Guardian;
 
@@ -236,6 +254,163 @@ describe('Guardian Permission Manager', () => {
     });
   });
 
+  describe('Audit Log Integrity', () => {
+    let tmpDir: string;
+    let logPath: string;
+
+    beforeEach(async () => {
+      tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'dm-audit-'));
+      logPath = path.join(tmpDir, 'audit.log');
+    });
+
+    it('should chain entries by hash', async () => {
+      const chained = new Guardian('test-user', logPath);
+      await recordEntries(chained, 3);
+      await chained.verifyAuditLog();
+
+      const entries = (await fs.readFile(logPath, 'utf-8')).trim().split('\n').map(line => JSON.parse(line));
+      expect(entries[0].prev_hash).toBe(AUDIT_GENESIS_HASH);
+      expect(entries[1].prev_hash).toBe(entries[0].hash);
+      expect(entries[2].prev_hash).toBe(entries[1].hash);
+      expect(hashAuditEntry(entries[2])).toBe(entries[2].hash);
+
+      await fs.rm(tmpDir, { recursive: true, force: true });
+    });
+
+    it('should verify an untouched log', async () => {
+      const chained = new Guardian('test-user', logPath);
+      await recordEntries(chained, 3);
+
+      const result = await chained.verifyAuditLog();
+      expect(result).toEqual({ valid: true, checkedEntries: 3, legacyEntries: 0 });
+
+      await fs.rm(tmpDir, { recursive: true, force: true });
+    });
+
+    it('should report the first edited entry', async () => {
+      const chained = new Guardian('test-user', logPath);
+      await recordEntries(chained, 3);
+      await chained.verifyAuditLog();
+
+      const lines = (await fs.readFile(logPath, 'utf-8')).trim().split('\n');
+      const edited = JSON.parse(lines[1]);
+      edited.approved_by = 'someone-else';
+      lines[1] = JSON.stringify(edited);
+      await fs.writeFile(logPath, lines.join('\n') + '\n');
+
+      const result = await chained.verifyAuditLog();
+      expect(result.valid).toBe(false);
+      expect(result.brokenAt).toMatchObject({ index: 1, reason: 'hash_mismatch' });
+
+      await fs.rm(tmpDir, { recursive: true, force: true });
+    });
+
+    it('should report a deleted entry as a broken link', async () => {
+      const chained = new Guardian('test-user', logPath);
+      await recordEntries(chained, 3);
+      await chained.verifyAuditLog();
+
+      const lines = (await fs.readFile(logPath, 'utf-8')).trim().split('\n');
+      lines.splice(1, 1);
+      await fs.writeFile(logPath, lines.join('\n') + '\n');
+
+      const result = await chained.verifyAuditLog();
+      expect(result.brokenAt).toMatchObject({ index: 1, reason: 'prev_hash_mismatch' });
+
+      await fs.rm(tmpDir, { recursive: true, force: true });
+    });
+
+    it('should continue the chain after a restart', async () => {
+      const first = new Guardian('test-user', logPath);
+      await recordEntries(first, 2);
+      await first.verifyAuditLog();
+
+      const restarted = new Guardian('test-user', logPath);
+      await recordEntries(restarted, 1);
+
+      const result = await restarted.verifyAuditLog();
+      expect(result).toMatchObject({ valid: true, checkedEntries: 3 });
+
+      await fs.rm(tmpDir, { recursive: true, force: true });
+    });
+
+    it('should chain LLM fallback entries with the rest', async () => {
+      const chained = new Guardian('test-user', logPath);
+      await recordEntries(chained, 1);
+      await chained.recordLLMFallback({
+        from: { provider: 'openai', model: 'gpt-4o' },
+        to: { provider: 'ollama', model: 'llama3.1' },
+        reason: '429 Too Many Requests',
+        timestamp: Date.parse('2026-01-01T00:00:00Z')
+      }, '/workspace');
+
+      const log = await chained.getAuditLog();
+      expect(log[1]).toMatchObject({
+        timestamp: '2026-01-01T00:00:00.000Z',
+        workspace: '/workspace',
+        action: 'llm_fallback',
+        target: 'openai/gpt-4o -> ollama/llama3.1',
+        approved_by: 'system',
+        llm_model: 'llama3.1'
+      });
+      expect(await chained.verifyAuditLog()).toMatchObject({ valid: true, checkedEntries: 2 });
+
+      await fs.rm(tmpDir, { recursive: true, force: true });
+    });
+  });
+
+  describe('Authorization Policy', () => {
+    it('should pass read-only operations without asking', async () => {
+      const approvalSpy = vi.fn();
+      guardian.on('approval-request', approvalSpy);
+
+      const approved = await guardian.authorize({
+        level: PermissionLevel.READ_ONLY,
+        action: 'read_file',
+        target: 'file.txt',
+        workspace: '/test'
+      });
+
+      expect(approved).toBe(true);
+      expect(approvalSpy).not.toHaveBeenCalled();
+    });
+
+    it('should ask for execute operations every time', async () => {
+      const approvalSpy = vi.fn((data: any) => {
+        setTimeout(() => guardian.handleApprovalResponse(data.requestId, { approved: true }), 0);
+      });
+      guardian.on('approval-request', approvalSpy);
+
+      const request = {
+        level: PermissionLevel.EXECUTE,
+        action: 'execute_script',
+        target: 'script.sh',
+        workspace: '/test'
+      };
+      await guardian.authorize(request);
+      await guardian.authorize(request);
+
+      expect(approvalSpy).toHaveBeenCalledTimes(2);
+    });
+
+    it('should stop after the first DELETE confirmation is rejected', async () => {
+      const approvalSpy = vi.fn((data: any) => {
+        setTimeout(() => guardian.handleApprovalResponse(data.requestId, { approved: false }), 0);
+      });
+      guardian.on('approval-request', approvalSpy);
+
+      const approved = await guardian.authorize({
+        level: PermissionLevel.DELETE,
+        action: 'delete_file',
+        target: 'docs/notes.md',
+        workspace: '/test'
+      });
+
+      expect(approved).toBe(false);
+      expect(approvalSpy).toHaveBeenCalledTimes(1);
+    });
+  });
+
   describe('Permission Memory', () => {
     it('should clear permission memory', async () => {
       await guardian.clearPermissionMemory();
@@ -0,0 +1,144 @@
+/**
+ * LLM Response Cache Unit Tests
+ * Tests for src/main/services/llm-cache.ts and cached LLMService.generate calls
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { LLMResponseCache } from '../../../src/main/services/llm-cache';
+import { LLMService } from '../../../src/main/services/llm';
+import type { LLMConfig, LLMResponse } from '../../../src/shared/types';
+
+const config: LLMConfig = { provider: 'openai', model: 'gpt-4o', apiKey: 'test-key', temperature: 0, maxTokens: 1024 };
+
+const reply = (content: string): LLMResponse => ({
+  content,
+  tokens: { prompt: 10, completion: 5, total: 15 },
+  model: 'gpt-4o',
+  finishReason: 'stop'
+});
+
+describe('LLMResponseCache', () => {
+  let tempDir: string;
+  let now: number;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'llm-cache-test-'));
+    now = 1_000_000;
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should key requests by normalized messages, model and parameters', () => {
+    const cache = new LLMResponseCache();
+    const key = cache.keyFor(config, [{ role: 'system', content: 'Summarize.' }, { role: 'user', content: 'Text\r\n' }]);
+
+    expect(cache.keyFor({ ...config, apiKey: 'other' }, [{ role: 'system', content: ' Summarize.' }, { role: 'user', content: 'Text' }])).toBe(key);
+    expect(cache.keyFor({ ...config, model: 'gpt-4o-mini' }, [{ role: 'system', content: 'Summarize.' }, { role: 'user', content: 'Text' }])).not.toBe(key);
+    expect(cache.keyFor({ ...config, maxTokens: 2048 }, [{ role: 'system', content: 'Summarize.' }, { role: 'user', content: 'Text' }])).not.toBe(key);
+    expect(cache.keyFor(config, [{ role: 'system', content: 'Summarize.' }, { role: 'user', content: 'Other text' }])).not.toBe(key);
+  });
+
+  it('should serve replies until they expire and keep them across restarts', async () => {
+    const messages = [{ role: 'user' as const, content: 'What is 2 + 2?' }];
+    const cache = new LLMResponseCache(tempDir, { ttlMs: 60_000, now: () => now });
+    await cache.set(config, messages, reply('4'));
+
+    const reloaded = new LLMResponseCache(tempDir, { ttlMs: 60_000, now: () => now });
+    expect(await reloaded.get(config, messages)).toMatchObject({ content: '4', cached: true });
+
+    now += 3_600_000;
+    expect(await reloaded.get(config, messages)).toBeNull();
+    expect(await reloaded.getStats()).toEqual({ hits: 1, misses: 1, bypassed: 0, entries: 0, bytes: 0 });
+    expect(await fs.readdir(tempDir)).toEqual([]);
+  });
+
+  it('should bypass requests with a non-deterministic temperature and skip truncated replies', async () => {
+    const cache = new LLMResponseCache(undefined, { maxTemperature: 0.2 });
+    const messages = [{ role: 'user' as const, content: 'Write a poem' }];
+
+    await cache.set({ ...config, temperature: 0.9 }, messages, reply('roses'));
+    await cache.set({ ...config, temperature: undefined }, messages, reply('roses'));
+    await cache.set(config, messages, { ...reply('ros'), finishReason: 'length' });
+
+    expect(await cache.get({ ...config, temperature: 0.9 }, messages)).toBeNull();
+    expect(await cache.get({ ...config, temperature: undefined }, messages)).toBeNull();
+    expect(await cache.get({ ...config, temperature: 0.1 }, messages)).toBeNull();
+    expect(await cache.getStats()).toMatchObject({ hits: 0, misses: 1, bypassed: 2, entries: 0 });
+  });
+
+  it('should evict the least recently used replies beyond the size cap', async () => {
+    const entryBytes = JSON.stringify({ createdAt: now, response: reply('a') }).length;
+    const cache = new LLMResponseCache(tempDir, { maxBytes: entryBytes * 2, now: () => now });
+    const ask = (question: string) => [{ role: 'user' as const, content: question }];
+
+    await cache.set(config, ask('a'), reply('a'));
+    await cache.set(config, ask('b'), reply('b'));
+    await cache.get(config, ask('a'));
+    await cache.set(config, ask('c'), reply('c'));
+
+    expect(await cache.get(config, ask('a'))).toMatchObject({ content: 'a' });
+    expect(await cache.get(config, ask('b'))).toBeNull();
+    expect(await cache.get(config, ask('c'))).toMatchObject({ content: 'c' });
+    expect((await fs.readdir(tempDir)).length).toBe(2);
+
+    await cache.clear();
+    expect(await cache.getStats()).toEqual({ hits: 0, misses: 0, bypassed: 0, entries: 0, bytes: 0 });
+  });
+
+  it('should answer repeated generate calls from the cache without using tokens', async () => {
+    const service = new LLMService(config, { cache: new LLMResponseCache() });
+    const create = vi.fn().mockResolvedValue({
+      choices: [{ message: { content: 'A short summary' }, finish_reason: 'stop' }],
+      usage: { prompt_tokens: 100, completion_tokens: 5, total_tokens: 105 },
+      model: 'gpt-4o'
+    });
+    (service as any).provider.client = { chat: { completions: { create } } };
+    const onUsage = vi.fn();
+    const messages = [{ role: 'user' as const, content: 'Summarize the attachment' }];
+
+    const first = await service.generate(messages, { onUsage });
+    const second = await service.generate(messages, { onUsage });
+    await service.generate(messages, { onUsage, cache: false });
+
+    expect(first.cached).toBeUndefined();
+    expect(second).toMatchObject({ content: 'A short summary', cached: true });
+    expect(create).toHaveBeenCalledTimes(2);
+    expect(onUsage).toHaveBeenCalledTimes(2);
+    expect(await service.getCacheStats()).toMatchObject({ hits: 1, misses: 1, entries: 1 });
+    expect(await new LLMService(config).getCacheStats()).toBeNull();
+  });
+
+  it('should not cache replies served by a fallback provider', async () => {
+    const service = new LLMService({ ...config, fallbacks: [{ provider: 'glm', model: 'glm-4-flash' }] }, { cache: new LLMResponseCache() });
+    const primary = vi.fn()
+      .mockRejectedValueOnce(Object.assign(new Error('unauthorized'), { status: 401 }))
+      .mockResolvedValue({ choices: [{ message: { content: 'from gpt-4o' }, finish_reason: 'stop' }], model: 'gpt-4o' });
+    const fallback = vi.fn().mockResolvedValue({ choices: [{ message: { content: 'from glm' }, finish_reason: 'stop' }], model: 'glm-4-flash' });
+    (service as any).targets[0].provider.client = { chat: { completions: { create: primary } } };
+    (service as any).targets[1].provider.client = { chat: { completions: { create: fallback } } };
+    const messages = [{ role: 'user' as const, content: 'Summarize the attachment' }];
+
+    expect((await service.generate(messages)).content).toBe('from glm');
+    expect(await service.generate(messages)).toMatchObject({ content: 'from gpt-4o' });
+    expect(await service.generate(messages)).toMatchObject({ content: 'from gpt-4o', cached: true });
+    expect(fallback).toHaveBeenCalledTimes(1);
+  });
+
+  it('should bypass the cache while replaying a recording', async () => {
+    const cache = new LLMResponseCache();
+    const messages = [{ role: 'user' as const, content: 'Summarize the attachment' }];
+    await cache.set(config, messages, reply('cached summary'));
+    const recordingPath = path.join(tempDir, 'recording.json');
+    await fs.writeFile(recordingPath, JSON.stringify({ version: 1, interactions: [] }), 'utf-8');
+    const service = new LLMService(config, { cache, transport: { mode: 'replay', path: recordingPath } });
+
+    // The request was never recorded, so the cached reply must not answer it
+    await expect(service.generate(messages)).rejects.toThrow(/No recorded LLM response/);
+    expect(await cache.getStats()).toMatchObject({ hits: 0, misses: 0, bypassed: 0 });
+  });
+});
@@ -0,0 +1,179 @@
+/**
+ * LLM Transport Unit Tests
+ * Tests for src/main/services/llm-transport.ts: recording LLMService traffic
+ * and replaying it (including agent runs from tests/fixtures/llm) offline
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { LLMService, type LLMStreamChunk } from '../../../src/main/services/llm';
+import { hashLLMRequest, type LLMRecording } from '../../../src/main/services/llm-transport';
+import { Agent } from '../../../src/main/services/agent';
+import { ToolRegistry } from '../../../src/main/services/tools';
+import { PermissionLevel } from '../../../src/shared/types';
+import type { LLMConfig } from '../../../src/shared/types';
+
+vi.mock('electron', () => ({
+  app: { getPath: () => os.tmpdir() }
+}));
+
+const FIXTURES = path.join(__dirname, '../../fixtures/llm');
+
+const config: LLMConfig = { provider: 'openai', model: 'gpt-4o', apiKey: 'test-key' };
+
+/** Chat completion in OpenAI's format */
+const completion = (message: Record<string, unknown>) => ({
+  choices: [{ message, finish_reason: 'stop' }],
+  usage: { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 },
+  model: 'gpt-4o'
+});
+
+/** Registry with a read_file tool returning fixed contents */
+function createTools() {
+  const readFile = vi.fn().mockResolvedValue({ success: true, data: 'export const a = 1;' });
+  const tools = new ToolRegistry();
+  tools.register({
+    name: 'read_file',
+    description: 'Read a file',
+    parameters: { type: 'object', properties: { path: { type: 'string', description: 'Path' } }, required: ['path'] },
+    permissionLevel: PermissionLevel.READ_ONLY,
+    execute: readFile
+  });
+  return { tools, readFile };
+}
+
+describe('LLM transport', () => {
+  let tempDir: string;
+  let recordingPath: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'llm-transport-test-'));
+    recordingPath = path.join(tempDir, 'recording.json');
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should hash requests regardless of key order and made-up tool call ids', () => {
+    const request = (id: string) => ({
+      provider: 'openai',
+      model: 'gpt-4o',
+      stream: false,
+      messages: [
+        { role: 'assistant' as const, content: '', tool_calls: [{ id, type: 'function' as const, function: { name: 'read_file', arguments: '{}' } }] },
+        { role: 'tool' as const, tool_call_id: id, content: 'ok' }
+      ]
+    });
+
+    expect(hashLLMRequest(request('call_abc'))).toBe(hashLLMRequest(request('call_xyz')));
+    expect(hashLLMRequest({ ...request('call_abc'), stream: true })).not.toBe(hashLLMRequest(request('call_abc')));
+    expect(hashLLMRequest({ model: 'gpt-4o', provider: 'openai', stream: false, messages: [] }))
+      .toBe(hashLLMRequest({ provider: 'openai', model: 'gpt-4o', stream: false, messages: [] }));
+  });
+
+  it('should record an agent run and replay it without calling the provider', async () => {
+    const recorder = new LLMService(config, { transport: { mode: 'record', path: recordingPath } });
+    const create = vi.fn()
+      .mockResolvedValueOnce(completion({
+        content: '',
+        tool_calls: [{ id: 'call_1', type: 'function', function: { name: 'read_file', arguments: '{"path":"a.ts"}' } }]
+      }))
+      .mockResolvedValueOnce(completion({ content: 'a.ts exports a' }));
+    (recorder as any).provider.provider.client = { chat: { completions: { create } } };
+
+    const recorded = await new Agent(recorder, createTools().tools).execute('what does a.ts export?');
+
+    const file = JSON.parse(await fs.readFile(recordingPath, 'utf-8')) as LLMRecording;
+    expect(file.version).toBe(1);
+    expect(file.interactions).toHaveLength(2);
+    expect(JSON.stringify(file)).not.toContain('test-key');
+
+    const player = new LLMService({ ...config, apiKey: undefined }, { transport: { mode: 'replay', path: recordingPath } });
+    const { tools, readFile } = createTools();
+    const replayed = await new Agent(player, tools).execute('what does a.ts export?');
+
+    expect(player.isConfigured()).toBe(true);
+    expect(replayed.answer).toBe(recorded.answer);
+    expect(replayed.answer).toBe('a.ts exports a');
+    expect(readFile).toHaveBeenCalledWith({ path: 'a.ts' }, expect.anything());
+    expect(create).toHaveBeenCalledTimes(2);
+  });
+
+  it('should replay a run recorded in a workspace at another path', async () => {
+    const recorder = new LLMService(config, { transport: { mode: 'record', path: recordingPath } });
+    const create = vi.fn()
+      .mockResolvedValueOnce(completion({
+        content: '',
+        tool_calls: [{ id: 'call_1', type: 'function', function: { name: 'read_file', arguments: '{"path":"a.ts"}' } }]
+      }))
+      .mockResolvedValueOnce(completion({ content: 'a.ts exports a' }));
+    (recorder as any).provider.provider.client = { chat: { completions: { create } } };
+
+    await new Agent(recorder, createTools().tools).execute('what does a.ts export?', { workspacePath: '/home/alice/project' });
+
+    const player = new LLMService(config, { transport: { mode: 'replay', path: recordingPath } });
+    const replayed = await new Agent(player, createTools().tools).execute('what does a.ts export?', { workspacePath: 'C:\\Users\\bob\\project' });
+
+    expect(replayed.success).toBe(true);
+    expect(replayed.answer).toBe('a.ts exports a');
+  });
+
+  it('should replay streams chunk by chunk and recorded failures in order', async () => {
+    const recorder = new LLMService(config, { transport: { mode: 'record', path: recordingPath }, maxRetries: 2, maxRetryDelayMs: 0 });
+    const create = vi.fn()
+      .mockRejectedValueOnce(Object.assign(new Error('overloaded'), { status: 529, headers: { 'retry-after': '0' } }))
+      .mockImplementationOnce(async () => (async function* () {
+        yield { model: 'gpt-4o', choices: [{ delta: { content: 'Hel' } }] };
+        yield { model: 'gpt-4o', choices: [{ delta: { content: 'lo' }, finish_reason: 'stop' }] };
+      })());
+    (recorder as any).provider.provider.client = { chat: { completions: { create } } };
+
+    /** Collect the chunks and final response of a stream */
+    const drain = async (service: LLMService) => {
+      const stream = service.streamWithTools([{ role: 'user', content: 'hi' }], undefined);
+      const chunks: LLMStreamChunk[] = [];
+      let next = await stream.next();
+      while (!next.done) {
+        chunks.push(next.value as LLMStreamChunk);
+        next = await stream.next();
+      }
+      return { chunks, response: next.value };
+    };
+
+    const recorded = await drain(recorder);
+    const file = JSON.parse(await fs.readFile(recordingPath, 'utf-8')) as LLMRecording;
+    expect(file.interactions.map(interaction => interaction.error ?? 'ok')).toEqual([
+      { message: 'overloaded', status: 529, headers: { 'retry-after': '0' } },
+      'ok'
+    ]);
+
+    // The recorded Retry-After makes the replay retry just as the recording did
+    const player = new LLMService(config, { transport: { mode: 'replay', path: recordingPath }, maxRetries: 2, maxRetryDelayMs: 0 });
+    const replayed = await drain(player);
+
+    expect(replayed).toEqual(recorded);
+    expect(replayed.chunks).toEqual([{ type: 'text', delta: 'Hel' }, { type: 'text', delta: 'lo' }]);
+  });
+
+  it('should fail without retrying on requests that were never recorded', async () => {
+    await fs.writeFile(recordingPath, JSON.stringify({ version: 1, interactions: [] }), 'utf-8');
+    const player = new LLMService(config, { transport: { mode: 'replay', path: recordingPath } });
+
+    await expect(player.generate([{ role: 'user', content: 'hi' }]))
+      .rejects.toThrow(/LLM service failed after 1 attempts: No recorded LLM response for request [0-9a-f]{16}/);
+  });
+
+  it('should reproduce a recorded agent run from the fixtures', async () => {
+    const player = new LLMService(config, { transport: { mode: 'replay', path: path.join(FIXTURES, 'agent-read-file.json') } });
+    const { tools, readFile } = createTools();
+
+    const response = await new Agent(player, tools).execute('what does a.ts export?');
+
+    expect(response.success).toBe(true);
+    expect(readFile).toHaveBeenCalledWith({ path: 'a.ts' }, expect.anything());
+    expect(response.answer).toBe('a.ts exports a, which is 1.');
+  });
+});
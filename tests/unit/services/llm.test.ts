@@ -4,8 +4,16 @@
  */
 
 import { describe, it, expect, beforeEach, vi } from 'vitest';
-import { LLMService, APIKeyManager, DEFAULT_LLM_CONFIGS } from '../../../src/main/services/llm';
-import type { LLMConfig, LLMMessage } from '../../../src/shared/types';
+import * as os from 'node:os';
+import { LLMService, APIKeyManager, DEFAULT_LLM_CONFIGS, getRetryAfterMs, type LLMStreamChunk } from '../../../src/main/services/llm';
+import { Agent } from '../../../src/main/services/agent';
+import { ToolRegistry } from '../../../src/main/services/tools';
+import { PermissionLevel } from '../../../src/shared/types';
+import type { LLMConfig, LLMMessage, LLMFallbackEvent } from '../../../src/shared/types';
+
+vi.mock('electron', () => ({
+  app: { getPath: () => os.tmpdir() }
+}));
 
 // Mock OpenAI
 vi.mock('openai', () => ({
@@ -132,4 +140,275 @@ describe('LLMService', () => {
       expect(DEFAULT_LLM_CONFIGS.zhipu.model).toBe('glm-4');
     });
   });
+
+  describe('Tool messages', () => {
+    it('should send assistant tool calls and tool results as native tool turns', async () => {
+      const create = vi.fn().mockResolvedValue({
+        choices: [{ message: { content: 'done' }, finish_reason: 'stop' }],
+        model: 'gpt-4o'
+      });
+      (service as any).provider.client = { chat: { completions: { create } } };
+      const toolCalls = [
+        { id: 'call_1', type: 'function' as const, function: { name: 'read_file', arguments: '{"path":"a.ts"}' } },
+        { id: 'call_2', type: 'function' as const, function: { name: 'read_file', arguments: '{"path":"b.ts"}' } }
+      ];
+
+      await service.generateWithTools([
+        { role: 'user', content: 'compare a.ts and b.ts' },
+        { role: 'assistant', content: '', tool_calls: toolCalls },
+        { role: 'tool', tool_call_id: 'call_1', content: '{"success":true,"data":"a"}' },
+        { role: 'tool', tool_call_id: 'call_2', content: '{"success":true,"data":"b"}' }
+      ], []);
+
+      expect(create.mock.calls[0][0].messages).toEqual([
+        { role: 'user', content: 'compare a.ts and b.ts' },
+        { role: 'assistant', content: null, tool_calls: toolCalls },
+        { role: 'tool', tool_call_id: 'call_1', content: '{"success":true,"data":"a"}' },
+        { role: 'tool', tool_call_id: 'call_2', content: '{"success":true,"data":"b"}' }
+      ]);
+    });
+  });
+
+  describe('Streaming with tools', () => {
+    /** Stream chunks in OpenAI's format */
+    const textChunk = (content: string) => ({ model: 'gpt-4o', choices: [{ delta: { content } }] });
+    const toolChunk = (index: number, fn: { name?: string; arguments?: string }, id?: string) => ({
+      model: 'gpt-4o',
+      choices: [{ delta: { tool_calls: [{ index, id, function: fn }] } }]
+    });
+    const finishChunk = (reason: string) => ({ model: 'gpt-4o', choices: [{ delta: {}, finish_reason: reason }] });
+
+    /** Replace the client with one streaming the given chunk lists, one list per request */
+    function streamChunks(...responses: any[][]) {
+      const create = vi.fn(async () => (async function* () {
+        yield* responses.shift()!;
+      })());
+      (service as any).provider.client = { chat: { completions: { create } } };
+      return create;
+    }
+
+    const toolCallResponse = [
+      textChunk('Let me '),
+      textChunk('check.'),
+      toolChunk(0, { name: 'read_file', arguments: '' }, 'call_1'),
+      toolChunk(0, { arguments: '{"pa' }),
+      toolChunk(0, { arguments: 'th":"a.ts"}' }),
+      toolChunk(1, { name: 'list_files', arguments: '{}' }, 'call_2'),
+      finishChunk('tool_calls'),
+      { model: 'gpt-4o', choices: [], usage: { prompt_tokens: 7, completion_tokens: 3, total_tokens: 10 } }
+    ];
+
+    it('should yield text and tool-call deltas and put tool calls together', async () => {
+      const create = streamChunks(toolCallResponse);
+      const stream = service.streamWithTools([{ role: 'user', content: 'hi' }], []);
+
+      const chunks: LLMStreamChunk[] = [];
+      let next = await stream.next();
+      while (!next.done) {
+        chunks.push(next.value as LLMStreamChunk);
+        next = await stream.next();
+      }
+      const response = next.value as Awaited<ReturnType<LLMService['generateWithTools']>>;
+
+      expect(create.mock.calls[0][0]).toMatchObject({ stream: true, tool_choice: 'auto', stream_options: { include_usage: true } });
+      expect(chunks.filter(chunk => chunk.type === 'text').map(chunk => (chunk as any).delta)).toEqual(['Let me ', 'check.']);
+      expect(chunks.filter(chunk => chunk.type === 'tool_call')).toHaveLength(4);
+      expect(response.content).toBe('Let me check.');
+      expect(response.tokens).toEqual({ prompt: 7, completion: 3, total: 10 });
+      expect(response.toolCalls).toEqual([
+        { id: 'call_1', type: 'function', function: { name: 'read_file', arguments: '{"path":"a.ts"}' } },
+        { id: 'call_2', type: 'function', function: { name: 'list_files', arguments: '{}' } }
+      ]);
+    });
+
+    it('should not ask compatible servers for stream usage unless the model supports it', async () => {
+      service = new LLMService({ provider: 'glm', model: 'glm-4-flash', apiKey: 'test-key' });
+      const create = streamChunks([textChunk('Hello'), finishChunk('stop')]);
+      const stream = service.streamWithTools([{ role: 'user', content: 'hi' }], []);
+
+      let next = await stream.next();
+      while (!next.done) {
+        next = await stream.next();
+      }
+
+      expect(create.mock.calls[0][0]).not.toHaveProperty('stream_options');
+      // Usage is estimated instead
+      expect((next.value as any).tokens.total).toBeGreaterThan(0);
+    });
+
+    it('should stream agent answers token by token and run tools with the assembled arguments', async () => {
+      streamChunks(
+        toolCallResponse.filter((_, index) => index !== 5),
+        [textChunk('a.ts '), textChunk('exports a'), finishChunk('stop')]
+      );
+      const readFile = vi.fn().mockResolvedValue({ success: true, data: 'export const a = 1;' });
+      const tools = new ToolRegistry();
+      tools.register({
+        name: 'read_file',
+        description: 'Read a file',
+        parameters: { type: 'object', properties: { path: { type: 'string', description: 'Path' } }, required: ['path'] },
+        permissionLevel: PermissionLevel.READ_ONLY,
+        execute: readFile
+      });
+      const tokens: string[] = [];
+      const agent = new Agent(service, tools, { onToken: (delta) => tokens.push(delta) });
+
+      const response = await agent.execute('what does a.ts export?');
+
+      expect(response.answer).toBe('a.ts exports a');
+      expect(readFile).toHaveBeenCalledWith({ path: 'a.ts' }, expect.anything());
+      expect(tokens).toEqual(['Let me ', 'check.', 'a.ts ', 'exports a']);
+      expect(response.steps[0]).toMatchObject({ type: 'tool_call', content: 'Let me check.' });
+    });
+  });
+
+  describe('Fallbacks and retries', () => {
+    const completion = (content: string, model: string) => ({
+      choices: [{ message: { content }, finish_reason: 'stop' }],
+      usage: { prompt_tokens: 1, completion_tokens: 1, total_tokens: 2 },
+      model
+    });
+    /** Error as thrown by the SDKs for an HTTP error response */
+    const apiError = (status: number, headers: Record<string, string> = {}) =>
+      Object.assign(new Error(`${status} error`), { status, headers });
+
+    /** Replace each provider's client of the chain with the given create functions */
+    function stubChain(target: LLMService, ...creates: Array<ReturnType<typeof vi.fn>>) {
+      creates.forEach((create, index) => {
+        (target as any).targets[index].provider.client = { chat: { completions: { create } } };
+      });
+    }
+
+    it('should parse Retry-After as seconds, HTTP dates and milliseconds', () => {
+      const now = Date.parse('2026-01-01T00:00:00Z');
+
+      expect(getRetryAfterMs(apiError(429, { 'retry-after': '3' }))).toBe(3000);
+      expect(getRetryAfterMs(apiError(429, { 'retry-after': 'Thu, 01 Jan 2026 00:00:05 GMT' }), now)).toBe(5000);
+      expect(getRetryAfterMs({ status: 429, headers: new Headers({ 'retry-after-ms': '250' }) })).toBe(250);
+      expect(getRetryAfterMs(apiError(500))).toBeUndefined();
+    });
+
+    it('should move on to the fallback when rate limited and skip the primary while its circuit is open', async () => {
+      const chained = new LLMService({ ...testConfig, fallbacks: [{ provider: 'glm', model: 'glm-4-flash' }] });
+      const primary = vi.fn().mockRejectedValue(apiError(429, { 'retry-after': '120' }));
+      const fallback = vi.fn().mockResolvedValue(completion('from glm', 'glm-4-flash'));
+      stubChain(chained, primary, fallback);
+      const emitted: LLMFallbackEvent[] = [];
+      const reported: LLMFallbackEvent[] = [];
+      chained.on('fallback', (event: LLMFallbackEvent) => emitted.push(event));
+
+      const first = await chained.generate([{ role: 'user', content: 'hi' }], { onFallback: (event) => reported.push(event) });
+      const second = await chained.generateWithTools([{ role: 'user', content: 'hi again' }], []);
+
+      expect(first.content).toBe('from glm');
+      expect(second.content).toBe('from glm');
+      expect(primary).toHaveBeenCalledTimes(1);
+      expect(fallback).toHaveBeenCalledTimes(2);
+      expect(fallback.mock.calls[0][0]).toMatchObject({ model: 'glm-4-flash', temperature: 0.7, max_tokens: 4096 });
+      expect(reported).toEqual([emitted[0]]);
+      expect(emitted.map(event => [event.from, event.to])).toEqual([
+        [{ provider: 'openai', model: 'gpt-4o' }, { provider: 'glm', model: 'glm-4-flash' }],
+        [{ provider: 'openai', model: 'gpt-4o' }, { provider: 'glm', model: 'glm-4-flash' }]
+      ]);
+      expect(emitted[0].reason).toBe('429 error');
+      expect(emitted[1].reason).toMatch(/^circuit open until /);
+    });
+
+    it('should wait as long as Retry-After asks before retrying the same provider', async () => {
+      const create = vi.fn()
+        .mockRejectedValueOnce(apiError(429, { 'retry-after-ms': '50' }))
+        .mockResolvedValueOnce(completion('ok', 'gpt-4o'));
+      stubChain(service, create);
+
+      const started = Date.now();
+      const response = await service.generateWithTools([{ role: 'user', content: 'hi' }], []);
+
+      expect(response.content).toBe('ok');
+      expect(create).toHaveBeenCalledTimes(2);
+      expect(Date.now() - started).toBeGreaterThanOrEqual(45);
+    });
+
+    it('should not retry errors that a retry cannot fix', async () => {
+      const create = vi.fn().mockRejectedValue(apiError(400));
+      stubChain(service, create);
+
+      await expect(service.generate([{ role: 'user', content: 'hi' }])).rejects.toThrow('LLM service failed after 1 attempts: 400 error');
+      expect(create).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not retry when retries are turned off', async () => {
+      const noRetries = new LLMService(testConfig, { maxRetries: 0 });
+      const create = vi.fn().mockRejectedValue(apiError(503, { 'retry-after': '0' }));
+      stubChain(noRetries, create);
+
+      await expect(noRetries.generate([{ role: 'user', content: 'hi' }])).rejects.toThrow('LLM service failed after 1 attempts: 503 error');
+      expect(create).toHaveBeenCalledTimes(1);
+    });
+
+    it('should fail fast while every circuit is open', async () => {
+      const single = new LLMService(testConfig, { circuitBreaker: { failureThreshold: 1 } });
+      const create = vi.fn().mockRejectedValue(apiError(503, { 'retry-after': '0' }));
+      stubChain(single, create);
+
+      // The last provider of the chain still gets its retries within a request
+      await expect(single.generate([{ role: 'user', content: 'hi' }])).rejects.toThrow('LLM service failed after 3 attempts: 503 error');
+      await expect(single.generate([{ role: 'user', content: 'hi' }])).rejects.toThrow(/^No LLM provider available: circuit open/);
+      expect(create).toHaveBeenCalledTimes(3);
+    });
+
+    it('should record fallbacks as agent steps', async () => {
+      const chained = new LLMService({ ...testConfig, fallbacks: [{ provider: 'glm', model: 'glm-4-flash' }] });
+      stubChain(chained, vi.fn().mockRejectedValue(apiError(401)), vi.fn().mockResolvedValue(completion('done', 'glm-4-flash')));
+      const onStep = vi.fn();
+      const agent = new Agent(chained, new ToolRegistry(), { onStep });
+
+      const response = await agent.execute('hello');
+
+      expect(response.answer).toBe('done');
+      expect(response.steps[0]).toMatchObject({
+        type: 'fallback',
+        content: 'Switched from openai/gpt-4o to glm/glm-4-flash: 401 error',
+        fallback: { from: { model: 'gpt-4o' }, to: { model: 'glm-4-flash' } }
+      });
+      expect(onStep).toHaveBeenCalledWith(response.steps[0]);
+    });
+  });
+
+  describe('Usage reporting', () => {
+    it('should report the tokens of the provider that served the request', async () => {
+      const chained = new LLMService({ ...testConfig, fallbacks: [{ provider: 'glm', model: 'glm-4-flash' }] });
+      (chained as any).targets[0].provider.client = { chat: { completions: { create: vi.fn().mockRejectedValue(Object.assign(new Error('unauthorized'), { status: 401 })) } } };
+      (chained as any).targets[1].provider.client = { chat: { completions: { create: vi.fn().mockResolvedValue({
+        choices: [{ message: { content: 'ok' }, finish_reason: 'stop' }],
+        usage: { prompt_tokens: 12, completion_tokens: 3, total_tokens: 15 },
+        model: 'glm-4-flash'
+      }) } } };
+      const onUsage = vi.fn();
+
+      await chained.generate([{ role: 'user', content: 'hi' }], { onUsage });
+
+      expect(onUsage).toHaveBeenCalledTimes(1);
+      expect(onUsage).toHaveBeenCalledWith({
+        provider: 'glm',
+        model: 'glm-4-flash',
+        tokens: { prompt: 12, completion: 3, total: 15 },
+        estimated: false
+      });
+    });
+
+    it('should estimate usage when the provider reports none', async () => {
+      (service as any).provider.client = { chat: { completions: { create: vi.fn().mockResolvedValue({
+        choices: [{ message: { content: 'a short answer' }, finish_reason: 'stop' }],
+        model: 'gpt-4o'
+      }) } } };
+      const onUsage = vi.fn();
+
+      const response = await service.generate([{ role: 'user', content: 'a short question' }], { onUsage });
+
+      expect(response.tokens.prompt).toBeGreaterThan(0);
+      expect(response.tokens.completion).toBeGreaterThan(0);
+      expect(response.tokens.total).toBe(response.tokens.prompt + response.tokens.completion);
+      expect(onUsage).toHaveBeenCalledWith(expect.objectContaining({ tokens: response.tokens, estimated: true }));
+    });
+  });
 });
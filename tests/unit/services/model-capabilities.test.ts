@@ -0,0 +1,93 @@
+/**
+ * Model Capabilities Unit Tests
+ * Tests for src/main/services/model-capabilities.ts and the provider registry
+ * in src/main/services/llm-provider.ts
+ */
+
+import { describe, it, expect } from 'vitest';
+import { ModelCapabilityRegistry, resolveContextLength, resolveModelCapabilities } from '../../../src/main/services/model-capabilities';
+import { createLLMProvider, registerLLMProvider, type LLMProviderAdapter } from '../../../src/main/services/llm-provider';
+import { OpenAIProvider } from '../../../src/main/services/openai-provider';
+import { AnthropicProvider } from '../../../src/main/services/anthropic-provider';
+import { OllamaProvider } from '../../../src/main/services/ollama-provider';
+import { LLMService } from '../../../src/main/services/llm';
+import { FileProcessor, type ProcessedFile } from '../../../src/main/services/file-processor';
+import { FileType } from '../../../src/shared/types';
+
+describe('ModelCapabilityRegistry', () => {
+  it('should pick the longest matching prefix and fill in the context window', () => {
+    const registry = new ModelCapabilityRegistry();
+
+    expect(registry.get('gpt-4o-mini')).toEqual({ vision: true, tools: true, jsonMode: true, streamUsage: true, contextWindow: 128000 });
+    expect(registry.get('llama3.2-vision:11b')).toMatchObject({ vision: true, tools: false });
+    expect(registry.get('llama3.2:3b')).toMatchObject({ vision: false, tools: true });
+    expect(registry.get('openai/o1-mini')).toMatchObject({ tools: false });
+    expect(registry.get('glm-4-flash')).toMatchObject({ streamUsage: false });
+  });
+
+  it('should fall back to defaults for unknown models and accept registrations', () => {
+    const registry = new ModelCapabilityRegistry([]);
+    expect(registry.get('my-model')).toMatchObject({ vision: false, tools: true, jsonMode: false });
+
+    registry.register('my-', { vision: true });
+    registry.register('my-', { contextWindow: 32000 });
+
+    expect(registry.get('My-Model')).toMatchObject({ vision: true, tools: true, contextWindow: 32000 });
+  });
+
+  it('should apply config overrides', () => {
+    const capabilities = resolveModelCapabilities({ model: 'gpt-4o', capabilities: { tools: false, contextWindow: 8000 } });
+
+    expect(capabilities).toEqual({ vision: true, tools: false, jsonMode: true, streamUsage: true, contextWindow: 8000 });
+    expect(new LLMService({ provider: 'openai', model: 'claude-3-5-haiku' }).getCapabilities()).toMatchObject({ vision: true });
+  });
+
+  it('should budget Ollama models for a moderate context length unless configured', () => {
+    expect(resolveContextLength({ provider: 'ollama', model: 'llama3.1:8b' })).toBe(8192);
+    expect(resolveContextLength({ provider: 'ollama', model: 'llama3.1:8b', contextLength: 32768 })).toBe(32768);
+    expect(resolveContextLength({ provider: 'ollama', model: 'llama3.1:8b', contextLength: 1000000 })).toBe(131072);
+    expect(resolveContextLength({ provider: 'openai', model: 'gpt-4o' })).toBe(128000);
+  });
+});
+
+describe('LLM provider registry', () => {
+  it('should create the built-in adapters and treat unknown providers as OpenAI-compatible', () => {
+    expect(createLLMProvider({ provider: 'anthropic', model: 'claude-sonnet-4' })).toBeInstanceOf(AnthropicProvider);
+    expect(createLLMProvider({ provider: 'ollama', model: 'llama3' })).toBeInstanceOf(OllamaProvider);
+    expect(createLLMProvider({ provider: 'glm', model: 'glm-4' })).toBeInstanceOf(OpenAIProvider);
+    expect(createLLMProvider({ provider: 'custom' as any, model: 'x' })).toBeInstanceOf(OpenAIProvider);
+  });
+
+  it('should use registered adapters', async () => {
+    const adapter: LLMProviderAdapter = {
+      complete: async () => ({ content: 'from custom', model: 'x', tokens: { prompt: 0, completion: 0, total: 0 } }),
+      stream: async function* () {
+        return { content: '', model: 'x', tokens: { prompt: 0, completion: 0, total: 0 } };
+      }
+    };
+    registerLLMProvider('custom', () => adapter);
+
+    const service = new LLMService({ provider: 'custom' as any, model: 'x' });
+
+    expect((await service.generate([{ role: 'user', content: 'hi' }])).content).toBe('from custom');
+  });
+});
+
+describe('FileProcessor.attachmentsToContentBlocks', () => {
+  const image: ProcessedFile = {
+    id: 'img', name: 'chart.png', path: '/tmp/chart.png', size: 100,
+    type: FileType.IMAGE, mimeType: 'image/png', base64: 'data:image/png;base64,iVBORw0KGgo='
+  } as ProcessedFile;
+
+  it('should embed images for vision models only', async () => {
+    const processor = new FileProcessor();
+
+    expect(await processor.attachmentsToContentBlocks([image])).toEqual([
+      { type: 'image_url', image_url: { url: image.base64 } }
+    ]);
+    expect(await processor.attachmentsToContentBlocks([image], { vision: false })).toEqual([
+      { type: 'file_metadata', file: image }
+    ]);
+    expect(processor.generateAttachmentSummary([image], undefined, { vision: false })).toContain('metadata only');
+  });
+});
@@ -0,0 +1,201 @@
+/**
+ * Ollama Provider Unit Tests
+ * Tests for src/main/services/ollama-provider.ts, against a local stand-in
+ * for the Ollama server (no network or installed models needed)
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import * as http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { OllamaProvider, toOllamaMessages, ollamaRoot } from '../../../src/main/services/ollama-provider';
+import { LLMService, type LLMStreamChunk } from '../../../src/main/services/llm';
+import { modelCapabilities, registerLocalModels } from '../../../src/main/services/model-capabilities';
+import type { LLMMessage, ModelPullProgress } from '../../../src/shared/types';
+
+const readFileTool = {
+  type: 'function' as const,
+  function: {
+    name: 'read_file',
+    description: 'Read a file',
+    parameters: { type: 'object', properties: { path: { type: 'string', description: 'Path' } }, required: ['path'] }
+  }
+};
+
+/** Newline-delimited JSON, as Ollama streams it */
+const ndjson = (...lines: unknown[]) => lines.map(line => JSON.stringify(line)).join('\n') + '\n';
+
+describe('OllamaProvider', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  /** Reply per endpoint: a status and body, or a function of the request body */
+  let routes: Record<string, (body: any) => { status?: number; body: string }>;
+  let requests: Array<{ url: string; body: any }>;
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let data = '';
+      req.on('data', chunk => { data += chunk; });
+      req.on('end', () => {
+        const body = data ? JSON.parse(data) : undefined;
+        requests.push({ url: req.url || '', body });
+        const route = routes[req.url || ''];
+        const reply = route ? route(body) : { status: 404, body: JSON.stringify({ error: 'not found' }) };
+        res.writeHead(reply.status ?? 200, { 'content-type': 'application/json' });
+        // Streamed replies arrive in pieces that split lines
+        const half = Math.floor(reply.body.length / 2);
+        res.write(reply.body.slice(0, half));
+        setTimeout(() => res.end(reply.body.slice(half)), 5);
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    routes = {};
+    requests = [];
+  });
+
+  const createService = (base = baseUrl) => new LLMService(
+    { provider: 'ollama', model: 'llama3.1:8b', baseUrl: base, temperature: 0.2, maxTokens: 512 },
+    { maxRetries: 1 }
+  );
+
+  it('should convert messages: images, tool call arguments as objects and named tool results', () => {
+    const messages: LLMMessage[] = [
+      { role: 'user', content: [{ type: 'text', text: 'What is this?' }, { type: 'image_url', image_url: { url: 'data:image/png;base64,iVBORw0KGgo=' } }] },
+      { role: 'assistant', content: '', tool_calls: [{ id: 'call_1', type: 'function', function: { name: 'read_file', arguments: '{"path":"a.ts"}' } }] },
+      { role: 'tool', tool_call_id: 'call_1', content: '{"success":true}' }
+    ];
+
+    expect(toOllamaMessages(messages)).toEqual([
+      { role: 'user', content: 'What is this?', images: ['iVBORw0KGgo='] },
+      { role: 'assistant', content: '', tool_calls: [{ function: { name: 'read_file', arguments: { path: 'a.ts' } } }] },
+      { role: 'tool', content: '{"success":true}', tool_name: 'read_file' }
+    ]);
+    expect(ollamaRoot('http://localhost:11434/v1/')).toBe('http://localhost:11434');
+    expect(ollamaRoot()).toBe('http://localhost:11434');
+  });
+
+  it('should chat through /api/chat and return tool calls with generated ids', async () => {
+    routes['/api/chat'] = () => ({
+      body: JSON.stringify({
+        model: 'llama3.1:8b',
+        message: { role: 'assistant', content: '', tool_calls: [{ function: { name: 'read_file', arguments: { path: 'src/a.ts' } } }] },
+        done: true,
+        done_reason: 'stop',
+        prompt_eval_count: 120,
+        eval_count: 18
+      })
+    });
+
+    // Configs pointing at the OpenAI-compatible /v1 endpoint keep working
+    const response = await createService(`${baseUrl}/v1`).generateWithTools([{ role: 'user', content: 'Read src/a.ts' }], [readFileTool]);
+
+    expect(requests[0].url).toBe('/api/chat');
+    expect(requests[0].body).toMatchObject({
+      model: 'llama3.1:8b',
+      stream: false,
+      tools: [readFileTool],
+      options: { temperature: 0.2, num_predict: 512, num_ctx: 8192 }
+    });
+    expect(response).toMatchObject({ content: '', finishReason: 'stop', tokens: { prompt: 120, completion: 18, total: 138 } });
+    expect(response.toolCalls).toHaveLength(1);
+    expect(response.toolCalls![0]).toMatchObject({ type: 'function', function: { name: 'read_file', arguments: '{"path":"src/a.ts"}' } });
+    expect(response.toolCalls![0].id).toMatch(/^call_/);
+  });
+
+  it('should stream NDJSON chunks split across reads', async () => {
+    routes['/api/chat'] = () => ({
+      body: ndjson(
+        { model: 'llama3.1:8b', message: { role: 'assistant', content: 'Hello' }, done: false },
+        { model: 'llama3.1:8b', message: { role: 'assistant', content: ' there' }, done: false },
+        { model: 'llama3.1:8b', message: { role: 'assistant', content: '' }, done: true, done_reason: 'length', prompt_eval_count: 10, eval_count: 2 }
+      )
+    });
+
+    const stream = createService().streamWithTools([{ role: 'user', content: 'hi' }]);
+    const chunks: LLMStreamChunk[] = [];
+    let next = await stream.next();
+    while (!next.done) {
+      chunks.push(next.value as LLMStreamChunk);
+      next = await stream.next();
+    }
+
+    expect(requests[0].body.stream).toBe(true);
+    expect(chunks).toEqual([{ type: 'text', delta: 'Hello' }, { type: 'text', delta: ' there' }]);
+    expect(next.value).toMatchObject({ content: 'Hello there', finishReason: 'length', tokens: { prompt: 10, completion: 2, total: 12 } });
+  });
+
+  it('should surface server errors with their status', async () => {
+    routes['/api/chat'] = () => ({ status: 404, body: JSON.stringify({ error: 'model "llama3.1:8b" not found, try pulling it first' }) });
+
+    await expect(new OllamaProvider({ provider: 'ollama', model: 'llama3.1:8b', baseUrl }).complete([{ role: 'user', content: 'hi' }], {}))
+      .rejects.toMatchObject({ status: 404, message: expect.stringContaining('try pulling it first') });
+  });
+
+  it('should list installed models with their context length and vision support', async () => {
+    routes['/api/tags'] = () => ({
+      body: JSON.stringify({
+        models: [
+          { name: 'llama3.1:8b', size: 4920753328, modified_at: '2026-01-01T00:00:00Z', details: { family: 'llama', parameter_size: '8.0B', quantization_level: 'Q4_K_M' } },
+          { name: 'llava:latest', size: 4733363377, modified_at: '2026-01-02T00:00:00Z', details: { family: 'llama', families: ['llama', 'clip'] } }
+        ]
+      })
+    });
+    routes['/api/show'] = (body) => ({
+      body: JSON.stringify(body.model === 'llama3.1:8b'
+        ? { capabilities: ['completion', 'tools'], model_info: { 'general.architecture': 'llama', 'llama.context_length': 131072 } }
+        : { model_info: { 'llama.context_length': 4096 }, projector_info: { 'clip.has_vision_encoder': true }, details: { families: ['llama', 'clip'] } })
+    });
+
+    const models = await new OllamaProvider({ provider: 'ollama', model: '', baseUrl }).listModels();
+
+    expect(models).toEqual([
+      {
+        name: 'llama3.1:8b', size: 4920753328, modifiedAt: '2026-01-01T00:00:00Z',
+        family: 'llama', parameterSize: '8.0B', quantization: 'Q4_K_M',
+        contextLength: 131072, vision: false, tools: true
+      },
+      {
+        name: 'llava:latest', size: 4733363377, modifiedAt: '2026-01-02T00:00:00Z',
+        family: 'llama', parameterSize: undefined, quantization: undefined,
+        contextLength: 4096, vision: true
+      }
+    ]);
+
+    registerLocalModels(models);
+    expect(modelCapabilities.get('llama3.1:8b')).toMatchObject({ contextWindow: 131072, tools: true, vision: false });
+    expect(modelCapabilities.get('llava')).toMatchObject({ contextWindow: 4096, vision: true });
+  });
+
+  it('should pull a model and report progress', async () => {
+    routes['/api/pull'] = () => ({
+      body: ndjson(
+        { status: 'pulling manifest' },
+        { status: 'pulling 8eeb52dfb3bb', digest: 'sha256:8eeb52dfb3bb', total: 1000, completed: 250 },
+        { status: 'pulling 8eeb52dfb3bb', digest: 'sha256:8eeb52dfb3bb', total: 1000, completed: 1000 },
+        { status: 'success' }
+      )
+    });
+    const progress: ModelPullProgress[] = [];
+
+    await new OllamaProvider({ provider: 'ollama', model: '', baseUrl }).pullModel('qwen2.5:7b', event => progress.push(event));
+
+    expect(requests[0].body).toEqual({ model: 'qwen2.5:7b', stream: true });
+    expect(progress).toEqual([
+      { model: 'qwen2.5:7b', status: 'pulling manifest' },
+      { model: 'qwen2.5:7b', status: 'pulling 8eeb52dfb3bb', total: 1000, completed: 250, percent: 25 },
+      { model: 'qwen2.5:7b', status: 'pulling 8eeb52dfb3bb', total: 1000, completed: 1000, percent: 100 },
+      { model: 'qwen2.5:7b', status: 'success' }
+    ]);
+
+    routes['/api/pull'] = () => ({ body: ndjson({ status: 'pulling manifest' }, { error: 'pull model manifest: file does not exist' }) });
+    await expect(new OllamaProvider({ provider: 'ollama', model: '', baseUrl }).pullModel('nope'))
+      .rejects.toThrow('Failed to pull nope: pull model manifest: file does not exist');
+  });
+});
@@ -0,0 +1,148 @@
+/**
+ * Permission Store Unit Tests
+ * Tests for src/main/services/permission-store.ts
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { PermissionStore } from '../../../src/main/services/permission-store';
+import { Guardian } from '../../../src/main/services/guardian';
+import { PermissionLevel } from '../../../src/shared/types';
+
+describe('PermissionStore', () => {
+  let tmpDir: string;
+  let storePath: string;
+
+  beforeEach(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'dm-permissions-'));
+    storePath = path.join(tmpDir, 'permissions.json');
+  });
+
+  afterEach(async () => {
+    await fs.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  const editRequest = (target: string, action = 'write_file') => ({
+    level: PermissionLevel.EDIT,
+    action,
+    target,
+    workspace: '/ws'
+  });
+
+  it('should match grants by workspace, action and path glob', async () => {
+    const store = new PermissionStore(storePath);
+    await store.add({ workspace: '/ws', action: 'write_file', pathGlob: 'src/**', level: PermissionLevel.EDIT, approved: true });
+
+    expect(await store.find(editRequest('src/a/b.ts'))).toBeDefined();
+    expect(await store.find(editRequest('/ws/src/c.ts'))).toBeDefined();
+    expect(await store.find(editRequest('docs/a.md'))).toBeUndefined();
+    expect(await store.find(editRequest('src/a.ts', 'delete_file'))).toBeUndefined();
+    expect(await store.find({ ...editRequest('src/a.ts'), workspace: '/other' })).toBeUndefined();
+  });
+
+  it('should resolve ".." in targets before matching', async () => {
+    const store = new PermissionStore(storePath);
+    await store.add({ workspace: '/ws', action: 'write_file', pathGlob: 'src/**', level: PermissionLevel.EDIT, approved: true });
+
+    expect(await store.find(editRequest('src/./a/../b.ts'))).toBeDefined();
+    expect(await store.find(editRequest('src/../.env'))).toBeUndefined();
+    expect(await store.find(editRequest('/ws/src/../.env'))).toBeUndefined();
+  });
+
+  it('should never match targets outside the workspace', async () => {
+    const store = new PermissionStore(storePath);
+    await store.add({ workspace: '/ws', action: '*', pathGlob: '**', level: PermissionLevel.EDIT, approved: true });
+
+    expect(await store.find(editRequest('a.txt'))).toBeDefined();
+    expect(await store.find(editRequest('src/../../outside'))).toBeUndefined();
+    expect(await store.find(editRequest('..'))).toBeUndefined();
+    expect(await store.find(editRequest('/etc/passwd'))).toBeUndefined();
+    expect(await store.find(editRequest('/ws/../etc/passwd'))).toBeUndefined();
+  });
+
+  it('should prefer denials over approvals', async () => {
+    const store = new PermissionStore(storePath);
+    await store.add({ workspace: '/ws', action: '*', pathGlob: '**', level: PermissionLevel.EDIT, approved: true });
+    await store.add({ workspace: '/ws', action: 'write_file', pathGlob: 'secrets/**', level: PermissionLevel.EDIT, approved: false });
+
+    expect((await store.find(editRequest('secrets/x.txt')))?.approved).toBe(false);
+    expect((await store.find(editRequest('src/x.txt')))?.approved).toBe(true);
+  });
+
+  it('should ignore expired grants', async () => {
+    const store = new PermissionStore(storePath);
+    await store.add({ workspace: '/ws', action: '*', pathGlob: '**', level: PermissionLevel.EDIT, approved: true, expiresAt: Date.now() - 1 });
+
+    expect(await store.find(editRequest('a.txt'))).toBeUndefined();
+    expect(await store.list()).toHaveLength(0);
+    expect(await store.list({ includeExpired: true })).toHaveLength(1);
+  });
+
+  it('should persist grants', async () => {
+    const store = new PermissionStore(storePath);
+    await store.add({ workspace: '/ws', action: 'write_file', pathGlob: 'a.txt', level: PermissionLevel.EDIT, approved: true });
+
+    const reloaded = new PermissionStore(storePath);
+    const grants = await reloaded.list();
+    expect(grants).toHaveLength(1);
+    expect(grants[0].pathGlob).toBe('a.txt');
+  });
+
+  it('should replace a grant remembered again instead of duplicating it', async () => {
+    const store = new PermissionStore(storePath);
+    await store.add({ workspace: '/ws', action: 'write_file', pathGlob: './src/**', level: PermissionLevel.EDIT, approved: true, expiresAt: 1 });
+    await store.add({ workspace: '/ws', action: 'write_file', pathGlob: 'src/**', level: PermissionLevel.EDIT, approved: true });
+    await store.add({ workspace: '/ws', action: 'write_file', pathGlob: 'src/**', level: PermissionLevel.EDIT, approved: false });
+
+    const grants = await new PermissionStore(storePath).list({ includeExpired: true });
+    expect(grants).toHaveLength(2);
+    expect(grants.find(grant => grant.approved)?.expiresAt).toBeUndefined();
+  });
+
+  it('should revoke individual grants', async () => {
+    const store = new PermissionStore(storePath);
+    const keep = await store.add({ workspace: '/ws', action: 'write_file', pathGlob: 'a.txt', level: PermissionLevel.EDIT, approved: true });
+    const drop = await store.add({ workspace: '/ws', action: 'write_file', pathGlob: 'b.txt', level: PermissionLevel.EDIT, approved: true });
+
+    expect(await store.revoke(drop.id)).toBe(true);
+    expect(await store.revoke('missing')).toBe(false);
+
+    const grants = await new PermissionStore(storePath).list();
+    expect(grants.map(grant => grant.id)).toEqual([keep.id]);
+  });
+
+  describe('Guardian integration', () => {
+    it('should remember a decision across Guardian instances', async () => {
+      const first = new Guardian('test-user', undefined, { permissionStorePath: storePath });
+      first.on('approval-request', (data: any) => {
+        setTimeout(() => first.handleApprovalResponse(data.requestId, {
+          approved: true,
+          remember: true,
+          rememberGlob: 'src/**'
+        }), 0);
+      });
+      expect(await first.requestPermission(editRequest('src/a.ts'))).toBe(true);
+
+      const second = new Guardian('test-user', undefined, { permissionStorePath: storePath });
+      let asked = false;
+      second.on('approval-request', () => { asked = true; });
+
+      expect(await second.requestPermission(editRequest('src/deep/b.ts'))).toBe(true);
+      expect(asked).toBe(false);
+      expect(await second.listPermissions({ workspace: '/ws' })).toHaveLength(1);
+    });
+
+    it('should never remember DELETE decisions', async () => {
+      const guardian = new Guardian('test-user', undefined, { permissionStorePath: storePath });
+      guardian.on('approval-request', (data: any) => {
+        setTimeout(() => guardian.handleApprovalResponse(data.requestId, { approved: true, remember: true }), 0);
+      });
+
+      await guardian.requestPermission({ level: PermissionLevel.DELETE, action: 'delete_file', target: 'a.txt', workspace: '/ws' });
+
+      expect(await guardian.listPermissions()).toHaveLength(0);
+    });
+  });
+});
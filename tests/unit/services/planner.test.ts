@@ -0,0 +1,262 @@
+/**
+ * Planner Unit Tests
+ * Tests for src/main/services/planner.ts
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import * as os from 'node:os';
+import { parseExecutionPlan, runExecutionPlan } from '../../../src/main/services/planner';
+import { Agent } from '../../../src/main/services/agent';
+import { ToolRegistry } from '../../../src/main/services/tools';
+import { Guardian } from '../../../src/main/services/guardian';
+import { TaskStatus } from '../../../src/shared/types';
+import type { ExecutionPlan, Task } from '../../../src/shared/types';
+
+vi.mock('electron', () => ({
+  app: { getPath: () => os.tmpdir() }
+}));
+
+type PlanTaskInput = Partial<Task> & { id: string };
+
+function planJson(tasks: PlanTaskInput[]): string {
+  return JSON.stringify({
+    goal: 'test goal',
+    estimated_time: 10,
+    tasks: tasks.map(task => ({ type: 'call_tool', description: `do ${task.id}`, ...task }))
+  });
+}
+
+function makePlan(tasks: PlanTaskInput[]): ExecutionPlan {
+  return parseExecutionPlan(planJson(tasks));
+}
+
+describe('Planner', () => {
+  describe('parseExecutionPlan', () => {
+    it('should parse a fenced JSON plan and fill in defaults', () => {
+      const plan = parseExecutionPlan('Here is the plan:\n```json\n' + planJson([{ id: 't1' }]) + '\n```');
+
+      expect(plan.goal).toBe('test goal');
+      expect(plan.tasks[0]).toMatchObject({
+        id: 't1',
+        depends_on: [],
+        parallel: false,
+        requires_approval: false,
+        status: TaskStatus.PENDING,
+        progress: 0
+      });
+    });
+
+    it('should repair near-JSON plans', () => {
+      const plan = parseExecutionPlan(
+        "Plan:\n{goal: 'test goal', tasks: [{id: 't1', type: 'call_tool', description: 'do t1',},]"
+      );
+
+      expect(plan.goal).toBe('test goal');
+      expect(plan.tasks.map(task => task.id)).toEqual(['t1']);
+    });
+
+    it('should reject malformed plans', () => {
+      expect(() => parseExecutionPlan('no plan here')).toThrow('no JSON object');
+      expect(() => parseExecutionPlan('{"goal": "x", "tasks": [}')).toThrow('Invalid execution plan');
+      expect(() => parseExecutionPlan(JSON.stringify({ goal: 'x', tasks: [] }))).toThrow('tasks');
+      expect(() => parseExecutionPlan(planJson([{ id: 't1', type: 'launch_rocket' as any }]))).toThrow('tasks.0.type');
+    });
+
+    it('should reject unknown dependencies, duplicates and cycles', () => {
+      expect(() => makePlan([{ id: 't1', depends_on: ['nope'] }])).toThrow('unknown task "nope"');
+      expect(() => makePlan([{ id: 't1' }, { id: 't1' }])).toThrow('duplicate task id');
+      expect(() => makePlan([
+        { id: 'a', depends_on: ['c'] },
+        { id: 'b', depends_on: ['a'] },
+        { id: 'c', depends_on: ['b'] }
+      ])).toThrow('cycle');
+    });
+  });
+
+  describe('runExecutionPlan', () => {
+    it('should run tasks after their dependencies', async () => {
+      const plan = makePlan([
+        { id: 'write', depends_on: ['read'] },
+        { id: 'read' },
+        { id: 'report', depends_on: ['write'] }
+      ]);
+      const order: string[] = [];
+
+      await runExecutionPlan(plan, {
+        runTask: async (task) => {
+          order.push(task.id);
+          return `${task.id} done`;
+        }
+      });
+
+      expect(order).toEqual(['read', 'write', 'report']);
+      expect(plan.tasks.every(task => task.status === TaskStatus.SUCCESS && task.progress === 100)).toBe(true);
+      expect(plan.tasks[0].output).toBe('write done');
+    });
+
+    it('should run ready parallel tasks at the same time', async () => {
+      const plan = makePlan([
+        { id: 'a', parallel: true },
+        { id: 'b', parallel: true },
+        { id: 'c', depends_on: ['a', 'b'] }
+      ]);
+      let running = 0;
+      let maxRunning = 0;
+
+      await runExecutionPlan(plan, {
+        runTask: async () => {
+          running++;
+          maxRunning = Math.max(maxRunning, running);
+          await new Promise(resolve => setTimeout(resolve, 5));
+          running--;
+        }
+      });
+
+      expect(maxRunning).toBe(2);
+      expect(plan.tasks[2].status).toBe(TaskStatus.SUCCESS);
+    });
+
+    it('should cancel dependents of a failed task', async () => {
+      const plan = makePlan([
+        { id: 'a' },
+        { id: 'b', depends_on: ['a'] },
+        { id: 'c' }
+      ]);
+
+      await runExecutionPlan(plan, {
+        runTask: async (task) => {
+          if (task.id === 'a') throw new Error('boom');
+        }
+      });
+
+      expect(plan.tasks.map(task => task.status)).toEqual([TaskStatus.FAILED, TaskStatus.CANCELLED, TaskStatus.SUCCESS]);
+      expect(plan.tasks[0].error).toBe('boom');
+      expect(plan.tasks[1].error).toContain('"a"');
+    });
+
+    it('should pause tasks that require approval and skip denied ones', async () => {
+      const plan = makePlan([
+        { id: 'safe' },
+        { id: 'risky', requires_approval: true },
+        { id: 'after', depends_on: ['risky'] }
+      ]);
+      const statusesSeen: string[] = [];
+      const runTask = vi.fn().mockResolvedValue('ok');
+
+      await runExecutionPlan(plan, {
+        runTask,
+        approve: async (task) => {
+          statusesSeen.push(task.status);
+          return false;
+        }
+      });
+
+      expect(statusesSeen).toEqual([TaskStatus.PAUSED]);
+      expect(runTask).toHaveBeenCalledTimes(1);
+      expect(plan.tasks[1]).toMatchObject({ status: TaskStatus.CANCELLED, error: 'Not approved by user' });
+      expect(plan.tasks[2].status).toBe(TaskStatus.CANCELLED);
+    });
+
+    it('should stop on abort and pick up where it stopped when run again', async () => {
+      const plan = makePlan([
+        { id: 'a' },
+        { id: 'b', depends_on: ['a'] },
+        { id: 'c', depends_on: ['b'] }
+      ]);
+      const controller = new AbortController();
+      const ran: string[] = [];
+
+      await runExecutionPlan(plan, {
+        signal: controller.signal,
+        runTask: async (task) => {
+          ran.push(task.id);
+          if (task.id === 'b') {
+            controller.abort();
+            throw new Error('aborted');
+          }
+        }
+      });
+
+      expect(plan.tasks.map(task => task.status)).toEqual([TaskStatus.SUCCESS, TaskStatus.PENDING, TaskStatus.PENDING]);
+
+      await runExecutionPlan(plan, { runTask: async (task) => { ran.push(task.id); } });
+
+      expect(ran).toEqual(['a', 'b', 'b', 'c']);
+      expect(plan.tasks.every(task => task.status === TaskStatus.SUCCESS)).toBe(true);
+    });
+
+    it('should report status and progress updates', async () => {
+      const plan = makePlan([{ id: 't1' }]);
+      const updates: Array<[string, number]> = [];
+
+      await runExecutionPlan(plan, {
+        runTask: async (_task, reportProgress) => {
+          reportProgress(50);
+        },
+        onUpdate: (_plan, task) => updates.push([task.status, task.progress])
+      });
+
+      expect(updates).toEqual([
+        [TaskStatus.RUNNING, 0],
+        [TaskStatus.RUNNING, 50],
+        [TaskStatus.SUCCESS, 100]
+      ]);
+    });
+  });
+
+  describe('Agent plan mode', () => {
+    it('should plan first, then run each task and ask Guardian for approval', async () => {
+      const llm = {
+        getConfig: () => ({ provider: 'openai', model: 'gpt-4o' }),
+        generate: vi.fn().mockResolvedValue({
+          content: planJson([
+            { id: 'inspect', description: 'inspect the project' },
+            { id: 'change', description: 'apply the change', depends_on: ['inspect'], requires_approval: true }
+          ]),
+          model: 'gpt-4o',
+          tokens: { prompt: 10, completion: 5, total: 15 }
+        }),
+        generateWithTools: vi.fn()
+          .mockResolvedValueOnce({ content: 'inspected', model: 'gpt-4o', tokens: { prompt: 1, completion: 1, total: 2 } })
+          .mockResolvedValueOnce({ content: 'changed', model: 'gpt-4o', tokens: { prompt: 1, completion: 1, total: 2 } })
+      };
+      const guardian = new Guardian('test-user');
+      const approvals: any[] = [];
+      guardian.on('approval-request', (data: any) => {
+        approvals.push(data.request);
+        setTimeout(() => guardian.handleApprovalResponse(data.requestId, { approved: true }), 0);
+      });
+      const onPlanUpdate = vi.fn();
+
+      const agent = new Agent(llm as any, new ToolRegistry(), { guardian, onPlanUpdate });
+      const response = await agent.execute('change the project', { mode: 'plan', workspacePath: '/ws' });
+
+      expect(response.success).toBe(true);
+      expect(response.answer).toBe('changed');
+      expect(response.plan?.tasks.map(task => task.status)).toEqual([TaskStatus.SUCCESS, TaskStatus.SUCCESS]);
+      expect(response.steps[0].type).toBe('plan');
+      expect(approvals).toHaveLength(1);
+      expect(approvals[0]).toMatchObject({ action: 'plan_task', target: 'change: apply the change', workspace: '/ws' });
+
+      // The dependent task sees its dependency's result
+      const secondTaskPrompt = llm.generateWithTools.mock.calls[1][0][1].content;
+      expect(secondTaskPrompt).toContain('inspect (inspect the project): inspected');
+      expect(onPlanUpdate).toHaveBeenCalled();
+    });
+
+    it('should fail the run when the plan is invalid', async () => {
+      const llm = {
+        getConfig: () => ({ provider: 'openai', model: 'gpt-4o' }),
+        generate: vi.fn().mockResolvedValue({ content: 'I will just do it', model: 'gpt-4o', tokens: { prompt: 1, completion: 1, total: 2 } }),
+        generateWithTools: vi.fn()
+      };
+
+      const agent = new Agent(llm as any, new ToolRegistry());
+      const response = await agent.execute('do something', { mode: 'plan' });
+
+      expect(response.success).toBe(false);
+      expect(response.error).toContain('Invalid execution plan');
+      expect(llm.generateWithTools).not.toHaveBeenCalled();
+    });
+  });
+});
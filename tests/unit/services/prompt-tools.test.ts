@@ -0,0 +1,100 @@
+/**
+ * Prompt Tools Unit Tests
+ * Tests for src/main/services/prompt-tools.ts and the Agent's fallback to
+ * prompt-based tool calling for models without native tools
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import * as os from 'node:os';
+import { toPromptToolMessages, parsePromptToolCalls } from '../../../src/main/services/prompt-tools';
+import { ToolRegistry } from '../../../src/main/services/tools';
+import { Agent } from '../../../src/main/services/agent';
+import { PermissionLevel } from '../../../src/shared/types';
+import type { LLMMessage } from '../../../src/shared/types';
+
+vi.mock('electron', () => ({
+  app: { getPath: () => os.tmpdir() }
+}));
+
+const readFileTool = {
+  type: 'function' as const,
+  function: {
+    name: 'read_file',
+    description: 'Read a file',
+    parameters: { type: 'object', properties: { path: { type: 'string', description: 'Path' } }, required: ['path'] }
+  }
+};
+
+describe('Prompt tools', () => {
+  it('should add the tool prompt and rewrite tool calls and results as text', () => {
+    const messages: LLMMessage[] = [
+      { role: 'system', content: 'You are helpful.' },
+      { role: 'user', content: 'Read a.ts' },
+      { role: 'assistant', content: 'Reading.', tool_calls: [{ id: 'call_1', type: 'function', function: { name: 'read_file', arguments: '{"path":"a.ts"}' } }] },
+      { role: 'tool', tool_call_id: 'call_1', content: '{"success":true,"data":"export {}"}' }
+    ];
+
+    const converted = toPromptToolMessages(messages, [readFileTool]);
+
+    expect(converted.map(message => message.role)).toEqual(['system', 'user', 'assistant', 'user']);
+    expect(converted[0].content).toContain('You are helpful.');
+    expect(converted[0].content).toContain('### read_file');
+    expect(converted[2].content).toBe('Reading.\n\n```tool_call\n{"name":"read_file","arguments":{"path":"a.ts"}}\n```');
+    expect(converted[3].content).toBe('[Result of read_file]\n{"success":true,"data":"export {}"}');
+    expect(converted.some(message => message.tool_calls || message.tool_call_id)).toBe(false);
+    expect(messages[0].content).toBe('You are helpful.');
+  });
+
+  it('should parse tool_call blocks, repairing sloppy JSON and leaving other blocks in the text', () => {
+    const reply = [
+      'Let me look.',
+      '```tool_call\n{"name": "read_file", "arguments": {"path": "a.ts"}}\n```',
+      "```tool_call\n{name: 'read_file', arguments: {path: 'b.ts'},}\n```",
+      '```tool_call\nnot a call\n```'
+    ].join('\n');
+
+    const { content, toolCalls } = parsePromptToolCalls(reply);
+
+    expect(toolCalls.map(call => [call.function.name, call.function.arguments])).toEqual([
+      ['read_file', '{"path":"a.ts"}'],
+      ['read_file', '{"path":"b.ts"}']
+    ]);
+    expect(new Set(toolCalls.map(call => call.id)).size).toBe(2);
+    expect(content).toContain('Let me look.');
+    expect(content).toContain('not a call');
+  });
+
+  it('should let an agent on a model without native tools call tools through the prompt', async () => {
+    const registry = new ToolRegistry();
+    const execute = vi.fn(async (params: Record<string, unknown>) => ({ success: true, data: `contents of ${params.path}` }));
+    registry.register({
+      name: 'read_file',
+      description: 'Read a file',
+      parameters: readFileTool.function.parameters as any,
+      permissionLevel: PermissionLevel.READ_ONLY,
+      execute
+    });
+
+    const requests: LLMMessage[][] = [];
+    const replies = ['```tool_call\n{"name": "read_file", "arguments": {"path": "a.ts"}}\n```', 'a.ts is empty']
+      .map(content => ({ content, model: 'deepseek-r1', tokens: { prompt: 1, completion: 1, total: 2 } }));
+    const llm = {
+      getConfig: () => ({ provider: 'ollama', model: 'deepseek-r1:8b' }),
+      generate: vi.fn(async (messages: LLMMessage[]) => {
+        requests.push([...messages]);
+        return replies.shift()!;
+      }),
+      generateWithTools: vi.fn()
+    };
+    const agent = new Agent(llm as any, registry);
+
+    const response = await agent.execute('what is in a.ts?');
+
+    expect(response).toMatchObject({ success: true, answer: 'a.ts is empty' });
+    expect(llm.generateWithTools).not.toHaveBeenCalled();
+    expect(execute).toHaveBeenCalledWith({ path: 'a.ts' }, expect.anything());
+    expect(requests[0][0].content).toContain('```tool_call');
+    expect(requests[1][requests[1].length - 1]).toMatchObject({ role: 'user', content: expect.stringContaining('contents of a.ts') });
+    expect(response.steps.find(step => step.type === 'tool_call')?.toolCalls?.[0]).toMatchObject({ name: 'read_file' });
+  });
+});
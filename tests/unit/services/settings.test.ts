@@ -0,0 +1,160 @@
+/**
+ * Settings Store Unit Tests
+ * Tests for src/main/services/settings.ts and switching model profiles over IPC
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { EventEmitter } from 'node:events';
+import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { SettingsStore, profileToLLMConfig } from '../../../src/main/services/settings';
+import { APIKeyManager, LLMService } from '../../../src/main/services/llm';
+import { registerIPCHandlers, unregisterIPCHandlers, agentState } from '../../../src/main/ipc/handlers';
+import { CheckpointService } from '../../../src/main/services/checkpoint';
+import { AgentRunStore } from '../../../src/main/services/agent-runs';
+import { UsageTracker } from '../../../src/main/services/usage';
+
+/** IPC handlers registered by the main process, by channel */
+const ipcHandlers = vi.hoisted(() => new Map<string, (...args: any[]) => any>());
+
+vi.mock('electron', () => ({
+  app: { getPath: () => os.tmpdir() },
+  ipcMain: {
+    handle: (channel: string, handler: (...args: any[]) => any) => ipcHandlers.set(channel, handler),
+    removeHandler: (channel: string) => ipcHandlers.delete(channel),
+    on: () => {},
+    removeAllListeners: () => {}
+  },
+  BrowserWindow: { getAllWindows: () => [] }
+}));
+
+describe('SettingsStore', () => {
+  let tempDir: string;
+  let storePath: string;
+  let store: SettingsStore;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'settings-test-'));
+    storePath = path.join(tempDir, 'settings.json');
+    store = new SettingsStore(storePath);
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should create, update and delete profiles and keep them across restarts', async () => {
+    const first = await store.createProfile({ name: 'Work', provider: 'openai', model: 'gpt-4o', apiKeyRef: 'openai-1' });
+    const second = await store.createProfile({ name: 'Local', provider: 'ollama', model: 'llama3.1', baseUrl: 'http://localhost:11434' });
+    await store.updateProfile(second.id, { temperature: 0.2 });
+
+    const reloaded = new SettingsStore(storePath);
+    expect((await reloaded.listProfiles()).map(profile => profile.name)).toEqual(['Work', 'Local']);
+    expect(await reloaded.getProfile(second.id)).toMatchObject({ model: 'llama3.1', temperature: 0.2 });
+    expect((await reloaded.getActiveProfile())?.id).toBe(first.id);
+
+    await reloaded.setActiveProfile(second.id);
+    expect(await reloaded.deleteProfile(second.id)).toMatchObject({ id: second.id });
+    expect((await reloaded.getActiveProfile())?.id).toBe(first.id);
+    expect(await reloaded.deleteProfile(second.id)).toBeNull();
+  });
+
+  it('should reject invalid profiles and unknown ids', async () => {
+    await expect(store.createProfile({ name: '', provider: 'openai', model: 'gpt-4o' })).rejects.toThrow('Invalid model profile: name');
+    await expect(store.createProfile({ name: 'x', provider: 'nope' as any, model: 'gpt-4o' })).rejects.toThrow('Invalid model profile: provider');
+    await expect(store.updateProfile('missing', { name: 'x' })).rejects.toThrow('Model profile not found: missing');
+    await expect(store.setActiveProfile('missing')).rejects.toThrow('Model profile not found: missing');
+  });
+
+  it('should export profiles without key references and import them as new profiles', async () => {
+    const original = await store.createProfile({ name: 'Work', provider: 'anthropic', model: 'claude-sonnet-4', maxTokens: 8192, apiKeyRef: 'anthropic-1' });
+
+    const exported = await store.exportProfiles();
+    expect(exported).not.toContain('anthropic-1');
+
+    const other = new SettingsStore();
+    const [imported] = await other.importProfiles(exported);
+    expect(imported).toMatchObject({ name: 'Work', provider: 'anthropic', model: 'claude-sonnet-4', maxTokens: 8192 });
+    expect(imported.id).not.toBe(original.id);
+    expect(imported.apiKeyRef).toBeUndefined();
+    expect((await other.getActiveProfile())?.id).toBe(imported.id);
+
+    await expect(other.importProfiles('not json')).rejects.toThrow(/^Invalid profiles file/);
+    await expect(other.importProfiles('{"version":2,"profiles":[]}')).rejects.toThrow('Invalid profiles file: version');
+  });
+
+  it('should turn a profile into a config that replaces every profile field', async () => {
+    const profile = await store.createProfile({ name: 'Local', provider: 'ollama', model: 'llama3.1' });
+
+    expect(profileToLLMConfig(profile)).toEqual({
+      provider: 'ollama',
+      model: 'llama3.1',
+      baseUrl: undefined,
+      temperature: undefined,
+      maxTokens: undefined,
+      contextLength: undefined,
+      apiKeyRef: undefined
+    });
+  });
+});
+
+describe('Model profile IPC', () => {
+  let llm: LLMService;
+  let settings: SettingsStore;
+
+  /** Call a registered handler as the renderer would */
+  const invoke = (channel: string, ...args: unknown[]) => ipcHandlers.get(channel)!({}, ...args);
+
+  beforeEach(() => {
+    llm = new LLMService({ provider: 'openai', model: 'gpt-4o', temperature: 0.7 });
+    settings = new SettingsStore();
+    registerIPCHandlers({
+      fileSystem: {} as any,
+      guardian: new EventEmitter() as any,
+      llm,
+      checkpoints: new CheckpointService(),
+      agentRuns: new AgentRunStore(),
+      usage: new UsageTracker(),
+      settings
+    });
+  });
+
+  afterEach(async () => {
+    unregisterIPCHandlers();
+    await APIKeyManager.clearAll();
+  });
+
+  it('should switch the LLM and rebuild the agent when the active profile changes', async () => {
+    const keyRef = await invoke('llm:store-api-key', 'openai', 'sk-profile-test-key');
+    const work = await invoke('settings:create-profile', { name: 'Work', provider: 'openai', model: 'gpt-4.1', apiKeyRef: keyRef });
+    const local = await invoke('settings:create-profile', { name: 'Local', provider: 'ollama', model: 'llama3.1' });
+    expect(llm.getConfig()).toMatchObject({ model: 'gpt-4.1', apiKey: 'sk-profile-test-key' });
+
+    const agent = agentState.agent;
+    await invoke('settings:set-active-profile', local.id);
+
+    expect(llm.getConfig()).toMatchObject({ provider: 'ollama', model: 'llama3.1' });
+    expect(llm.getConfig().apiKey).toBeUndefined();
+    expect(llm.getConfig().temperature).toBeUndefined();
+    expect(agentState.agent).not.toBe(agent);
+    expect((await invoke('settings:get-active-profile')).id).toBe(local.id);
+
+    // Deleting the active profile falls back to the remaining one
+    expect(await invoke('settings:delete-profile', local.id)).toBe(true);
+    expect(llm.getConfig()).toMatchObject({ model: 'gpt-4.1', apiKey: 'sk-profile-test-key' });
+    expect((await invoke('settings:get-active-profile')).id).toBe(work.id);
+  });
+
+  it('should not activate a profile whose key is missing, and delete keys no profile uses', async () => {
+    const keyRef = await invoke('llm:store-api-key', 'openai', 'sk-profile-test-key');
+    const first = await invoke('settings:create-profile', { name: 'Work', provider: 'openai', model: 'gpt-4o', apiKeyRef: keyRef });
+    const broken = await invoke('settings:create-profile', { name: 'Broken', provider: 'openai', model: 'gpt-4o', apiKeyRef: 'openai-missing' });
+
+    await expect(invoke('settings:set-active-profile', broken.id)).rejects.toThrow('No API key stored for "openai-missing"');
+    expect((await invoke('settings:get-active-profile')).id).toBe(first.id);
+
+    await invoke('settings:delete-profile', first.id);
+    expect(await APIKeyManager.getKey(keyRef)).toBeNull();
+  });
+});
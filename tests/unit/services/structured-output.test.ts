@@ -0,0 +1,120 @@
+/**
+ * Structured Output Unit Tests
+ * Tests for src/main/services/structured-output.ts and LLMService.generateStructured
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { z } from 'zod';
+import { toResponseSchema, toStructuredPromptMessages, parseStructuredOutput } from '../../../src/main/services/structured-output';
+import { LLMService } from '../../../src/main/services/llm';
+
+const classification = z.object({
+  label: z.enum(['bug', 'feature', 'question']),
+  confidence: z.number().min(0).max(1),
+  tags: z.array(z.string()).optional()
+});
+
+/** Chat completion in OpenAI's format */
+const completion = (content: string) => ({
+  choices: [{ message: { content }, finish_reason: 'stop' }],
+  usage: { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 },
+  model: 'test'
+});
+
+/** Service whose client answers with the given replies, one per request */
+function createService(model: string, provider: 'openai' | 'glm', ...replies: string[]) {
+  const service = new LLMService({ provider, model, apiKey: 'test-key' }, { maxRetries: 1 });
+  const create = vi.fn(async () => completion(replies.shift()!));
+  (service as any).provider.client = { chat: { completions: { create } } };
+  return { service, create };
+}
+
+describe('Structured output', () => {
+  it('should describe the input a schema accepts as JSON Schema', () => {
+    const schema = toResponseSchema(classification);
+
+    expect(schema.$schema).toBeUndefined();
+    expect(schema).toMatchObject({
+      type: 'object',
+      properties: { label: { enum: ['bug', 'feature', 'question'] }, confidence: { type: 'number' } },
+      required: ['label', 'confidence']
+    });
+  });
+
+  it('should add the response format to the system prompt', () => {
+    const messages = toStructuredPromptMessages(
+      [{ role: 'system', content: 'You triage issues.' }, { role: 'user', content: 'App crashes on start' }],
+      { type: 'object' }
+    );
+
+    expect(messages[0].content).toMatch(/^You triage issues\.\n\n## Response Format\n/);
+    expect(messages[0].content).toContain('{"type":"object"}');
+    expect(toStructuredPromptMessages([{ role: 'user', content: 'hi' }], { type: 'object' })[0].role).toBe('system');
+  });
+
+  it('should parse fenced or sloppy JSON and name the fields that fail validation', () => {
+    expect(parseStructuredOutput('Here you go:\n```json\n{"label": "bug", "confidence": 0.9,}\n```', classification))
+      .toEqual({ data: { label: 'bug', confidence: 0.9 } });
+    expect(parseStructuredOutput('{"label": "chore", "confidence": 2}', classification)).toEqual({
+      error: expect.stringMatching(/^Reply does not match the schema: label: .*; confidence: /)
+    });
+    expect(parseStructuredOutput('no json here', classification)).toEqual({ error: expect.stringMatching(/^Reply is not valid JSON/) });
+  });
+
+  it('should use the native JSON schema mode of models that have one', async () => {
+    const { service, create } = createService('gpt-4o', 'openai', '{"label":"bug","confidence":0.8}');
+
+    const result = await service.generateStructured([{ role: 'user', content: 'App crashes on start' }], classification, { name: 'classification' });
+
+    expect(result).toMatchObject({ success: true, data: { label: 'bug', confidence: 0.8 } });
+    expect(create.mock.calls[0][0]).toMatchObject({
+      messages: [{ role: 'user', content: 'App crashes on start' }],
+      response_format: { type: 'json_schema', json_schema: { name: 'classification', schema: { type: 'object' } } }
+    });
+  });
+
+  it('should fall back to the prompt when the model rejects the response format', async () => {
+    const { service, create } = createService('gpt-4o-2024-05-13', 'openai', '{"label":"bug","confidence":0.8}');
+    create.mockRejectedValueOnce(Object.assign(
+      new Error("400 Invalid parameter: 'response_format' of type 'json_schema' is not supported with this model."),
+      { status: 400 }
+    ));
+
+    const result = await service.generateStructured([{ role: 'user', content: 'App crashes on start' }], classification);
+
+    expect(result).toMatchObject({ success: true, data: { label: 'bug', confidence: 0.8 } });
+    const [native, prompted] = create.mock.calls.map(call => (call as any[])[0]);
+    expect(native.response_format).toMatchObject({ type: 'json_schema' });
+    expect(prompted.response_format).toBeUndefined();
+    expect(prompted.messages[0].content).toContain('## Response Format');
+  });
+
+  it('should prompt models without a JSON mode and send invalid replies back for repair', async () => {
+    const { service, create } = createService('glm-4', 'glm', '{"label":"bug"}', '{"label":"bug","confidence":0.7}');
+    const onUsage = vi.fn();
+
+    const result = await service.generateStructured([{ role: 'user', content: 'App crashes on start' }], classification, { onUsage });
+
+    expect(result).toMatchObject({ success: true, data: { label: 'bug', confidence: 0.7 } });
+    const [first, repair] = create.mock.calls.map(call => (call as any[])[0]);
+    expect(first.response_format).toBeUndefined();
+    expect(first.messages[0]).toMatchObject({ role: 'system', content: expect.stringContaining('## Response Format') });
+    expect(repair.messages.slice(-2)).toEqual([
+      { role: 'assistant', content: '{"label":"bug"}' },
+      { role: 'user', content: expect.stringMatching(/^Reply does not match the schema: confidence: .*Reply again with only the corrected JSON\.$/) }
+    ]);
+    expect(onUsage).toHaveBeenCalledTimes(2);
+  });
+
+  it('should return the validation error once the repairs run out', async () => {
+    const { service, create } = createService('gpt-4o', 'openai', 'not json', '{"label":"other","confidence":0.5}');
+
+    const result = await service.generateStructured([{ role: 'user', content: 'classify' }], classification);
+
+    expect(create).toHaveBeenCalledTimes(2);
+    expect(result.success).toBe(false);
+    expect(result.data).toBeUndefined();
+    expect(result.error).toMatch(/^Reply does not match the schema: label: /);
+    expect(result.response.content).toBe('{"label":"other","confidence":0.5}');
+  });
+});
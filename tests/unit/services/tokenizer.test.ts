@@ -0,0 +1,52 @@
+/**
+ * Tokenizer Unit Tests
+ * Tests for src/main/services/tokenizer.ts
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  getModelLimits,
+  countTokens,
+  countMessageTokens,
+  countPromptTokens,
+  DEFAULT_MODEL_LIMITS,
+  IMAGE_TOKEN_ESTIMATE
+} from '../../../src/main/services/tokenizer';
+
+describe('Tokenizer', () => {
+  it('should look up limits by model prefix', () => {
+    expect(getModelLimits('gpt-4o-mini')).toEqual({ contextWindow: 128000, encoding: 'o200k_base' });
+    expect(getModelLimits('gpt-4-0613').contextWindow).toBe(8192);
+    expect(getModelLimits('openai/gpt-4-turbo').contextWindow).toBe(128000);
+    expect(getModelLimits('claude-sonnet-4').contextWindow).toBe(200000);
+    expect(getModelLimits('some-local-model')).toBe(DEFAULT_MODEL_LIMITS);
+  });
+
+  it('should count tokens with the BPE of the encoding', () => {
+    expect(countTokens('hello world', 'cl100k_base')).toBe(2);
+    expect(countTokens('hello world', 'o200k_base')).toBe(2);
+    expect(countTokens('', 'cl100k_base')).toBe(0);
+    expect(countTokens('<|endoftext|>', 'cl100k_base')).toBe(1);
+  });
+
+  it('should count message framing, images and tool calls', () => {
+    const text = countMessageTokens({ role: 'user', content: 'hello world' }, 'cl100k_base');
+    const withImage = countMessageTokens({
+      role: 'user',
+      content: [
+        { type: 'text', text: 'hello world' },
+        { type: 'image_url', image_url: { url: 'data:image/png;base64,AAAA' } }
+      ]
+    }, 'cl100k_base');
+    const withToolCall = countMessageTokens({
+      role: 'assistant',
+      content: 'hello world',
+      tool_calls: [{ id: 'call_1', type: 'function', function: { name: 'read_file', arguments: '{"path":"a.ts"}' } }]
+    } as any, 'cl100k_base');
+
+    expect(text).toBe(3 + 1 + 2);
+    expect(withImage).toBe(text + IMAGE_TOKEN_ESTIMATE);
+    expect(withToolCall).toBeGreaterThan(text + 10);
+    expect(countPromptTokens([{ role: 'user', content: 'hello world' }], 'cl100k_base')).toBe(text + 3);
+  });
+});
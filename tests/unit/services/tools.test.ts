@@ -0,0 +1,437 @@
+/**
+ * Tool Registry Unit Tests
+ * Tests for src/main/services/tools.ts
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { ToolRegistry, createBuiltinTools, parseToolArguments } from '../../../src/main/services/tools';
+import { FileSystemService } from '../../../src/main/services/file-system';
+import { Agent } from '../../../src/main/services/agent';
+import { Guardian } from '../../../src/main/services/guardian';
+import { PermissionLevel } from '../../../src/shared/types';
+import type { FileAPI } from '../../../src/shared/types';
+
+vi.mock('electron', () => ({
+  app: { getPath: () => os.tmpdir() }
+}));
+
+function createMockFileSystem(): FileAPI {
+  return {
+    read: vi.fn().mockResolvedValue('content'),
+    write: vi.fn().mockResolvedValue(undefined),
+    list: vi.fn().mockResolvedValue([]),
+    delete: vi.fn().mockResolvedValue(undefined),
+    exists: vi.fn().mockResolvedValue(true),
+    watch: vi.fn(),
+    search: vi.fn().mockResolvedValue({ matches: [], filesSearched: 0, filesSkipped: 0, truncated: false })
+  };
+}
+
+/** Answer every approval request with the given response */
+function autoRespond(guardian: Guardian, respond: (request: any) => any): ReturnType<typeof vi.fn> {
+  const spy = vi.fn((data: any) => {
+    setTimeout(() => guardian.handleApprovalResponse(data.requestId, respond(data.request)), 0);
+  });
+  guardian.on('approval-request', spy);
+  return spy;
+}
+
+describe('ToolRegistry', () => {
+  let fileSystem: FileAPI;
+  let guardian: Guardian;
+  let registry: ToolRegistry;
+
+  beforeEach(() => {
+    fileSystem = createMockFileSystem();
+    guardian = new Guardian('test-user');
+    registry = new ToolRegistry({ guardian });
+    createBuiltinTools(fileSystem).forEach(tool => registry.register(tool));
+  });
+
+  describe('Permission levels', () => {
+    it('should declare a permission level on every builtin tool', () => {
+      const levels = Object.fromEntries(registry.getAll().map(tool => [tool.name, tool.permissionLevel]));
+      expect(levels.read_file).toBe(PermissionLevel.READ_ONLY);
+      expect(levels.list_directory).toBe(PermissionLevel.READ_ONLY);
+      expect(levels.search_files).toBe(PermissionLevel.READ_ONLY);
+      expect(levels.write_file).toBe(PermissionLevel.EDIT);
+      expect(levels.delete_file).toBe(PermissionLevel.DELETE);
+    });
+
+    it('should run read-only tools without asking', async () => {
+      const spy = autoRespond(guardian, () => ({ approved: true }));
+
+      const result = await registry.execute('read_file', { path: 'a.txt' }, { workspace: '/ws' });
+
+      expect(result.success).toBe(true);
+      expect(spy).not.toHaveBeenCalled();
+    });
+
+    it('should ask once per workspace for EDIT tools', async () => {
+      const spy = autoRespond(guardian, () => ({ approved: true }));
+
+      await registry.execute('write_file', { path: 'a.txt', content: 'x' }, { workspace: '/ws' });
+      await registry.execute('write_file', { path: 'b.txt', content: 'y' }, { workspace: '/ws' });
+      expect(spy).toHaveBeenCalledTimes(1);
+
+      await registry.execute('write_file', { path: 'a.txt', content: 'x' }, { workspace: '/other' });
+      expect(spy).toHaveBeenCalledTimes(2);
+      expect(fileSystem.write).toHaveBeenCalledTimes(3);
+      // The session approval is not a remembered decision
+      expect(await guardian.listPermissions()).toEqual([]);
+    });
+
+    it('should not let the EDIT session approval cover targets outside the workspace', async () => {
+      const spy = autoRespond(guardian, () => ({ approved: true }));
+
+      await registry.execute('write_file', { path: 'a.txt', content: 'x' }, { workspace: '/ws' });
+      await registry.execute('write_file', { path: 'src/../../outside.txt', content: 'y' }, { workspace: '/ws' });
+
+      expect(spy).toHaveBeenCalledTimes(2);
+    });
+
+    it('should ask twice for DELETE and require the filename typed back', async () => {
+      const spy = autoRespond(guardian, (request) => ({
+        approved: true,
+        confirmText: request.confirmation?.expectedText
+      }));
+
+      const result = await registry.execute('delete_file', { path: 'src/old.ts' }, { workspace: '/ws' });
+
+      expect(result.success).toBe(true);
+      expect(spy).toHaveBeenCalledTimes(2);
+      expect(spy.mock.calls[1][0].request.confirmation.expectedText).toBe('old.ts');
+      expect(fileSystem.delete).toHaveBeenCalledWith('src/old.ts');
+    });
+
+    it('should refuse DELETE when the typed filename does not match', async () => {
+      autoRespond(guardian, () => ({ approved: true, confirmText: 'wrong.ts' }));
+
+      const result = await registry.execute('delete_file', { path: 'src/old.ts' }, { workspace: '/ws' });
+
+      expect(result.success).toBe(false);
+      expect(result.errorCode).toBe('PERMISSION_DENIED');
+      expect(fileSystem.delete).not.toHaveBeenCalled();
+    });
+
+    it('should return a structured error when permission is denied', async () => {
+      autoRespond(guardian, () => ({ approved: false }));
+
+      const result = await registry.execute('write_file', { path: 'a.txt', content: 'x' }, { workspace: '/ws' });
+
+      expect(result.success).toBe(false);
+      expect(result.errorCode).toBe('PERMISSION_DENIED');
+      expect(result.data).toEqual({ action: 'write_file', target: 'a.txt', level: PermissionLevel.EDIT });
+      expect(fileSystem.write).not.toHaveBeenCalled();
+    });
+
+    it('should return a structured error when the permission check fails', async () => {
+      const spy = autoRespond(guardian, () => ({ approved: true, remember: true }));
+      await registry.execute('write_file', { path: 'a.txt', content: 'x' }, { workspace: '/ws' });
+      vi.spyOn(guardian as any, 'recordAudit').mockRejectedValue(new Error('disk full'));
+
+      // The remembered grant answers, but its audit entry cannot be written
+      const result = await registry.execute('write_file', { path: 'a.txt', content: 'y' }, { workspace: '/ws' });
+
+      expect(spy).toHaveBeenCalledTimes(1);
+      expect(result).toMatchObject({ success: false, errorCode: 'PERMISSION_ERROR' });
+      expect(result.error).toContain('disk full');
+      expect(fileSystem.write).toHaveBeenCalledTimes(1);
+    });
+
+    it('should deny an approved call whose audit entry cannot be written', async () => {
+      autoRespond(guardian, () => ({ approved: true }));
+      vi.spyOn(guardian as any, 'recordAudit').mockRejectedValue(new Error('disk full'));
+
+      const result = await registry.execute('write_file', { path: 'a.txt', content: 'x' }, { workspace: '/ws' });
+
+      expect(result).toMatchObject({ success: false, errorCode: 'PERMISSION_DENIED' });
+      expect(fileSystem.write).not.toHaveBeenCalled();
+    });
+
+    it('should audit file changes with their diff, model and tokens', async () => {
+      autoRespond(guardian, () => ({ approved: true }));
+      const auditSpy = vi.fn();
+      guardian.on('audit', auditSpy);
+      vi.mocked(fileSystem.read).mockResolvedValue('old\n');
+
+      await registry.execute('write_file', { path: 'a.txt', content: 'new\n' }, {
+        workspace: '/ws',
+        llmModel: 'gpt-4o',
+        tokensUsed: 321
+      });
+
+      // The entry is written before the call runs
+      expect(auditSpy).toHaveBeenCalled();
+      const entry = auditSpy.mock.calls[0][0];
+      expect(entry.diff_sha256).toMatch(/^[0-9a-f]{64}$/);
+      expect(entry.llm_model).toBe('gpt-4o');
+      expect(entry.tokens_used).toBe(321);
+    });
+
+    it('should report file changes only after the tool succeeds', async () => {
+      autoRespond(guardian, () => ({ approved: true }));
+      const onFileChange = vi.fn();
+      vi.mocked(fileSystem.read).mockResolvedValue('old');
+
+      await registry.execute('write_file', { path: 'a.txt', content: 'new' }, { workspace: '/ws', onFileChange });
+      expect(onFileChange).toHaveBeenCalledWith({ path: 'a.txt', before: 'old', after: 'new' });
+
+      vi.mocked(fileSystem.write).mockRejectedValueOnce(new Error('disk full'));
+      await registry.execute('write_file', { path: 'b.txt', content: 'new' }, { workspace: '/ws', onFileChange });
+      expect(onFileChange).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not run tools once the run is stopped', async () => {
+      const controller = new AbortController();
+      controller.abort();
+
+      const result = await registry.execute('read_file', { path: 'a.txt' }, { workspace: '/ws', signal: controller.signal });
+
+      expect(result.success).toBe(false);
+      expect(result.errorCode).toBe('CANCELLED');
+      expect(fileSystem.read).not.toHaveBeenCalled();
+    });
+
+    it('should run tools ungated when no guardian is configured', async () => {
+      const ungated = new ToolRegistry();
+      createBuiltinTools(fileSystem).forEach(tool => ungated.register(tool));
+
+      const result = await ungated.execute('delete_file', { path: 'a.txt' });
+
+      expect(result.success).toBe(true);
+    });
+  });
+
+  it('should report unknown tools', async () => {
+    const result = await registry.execute('nope', {});
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('not found');
+  });
+
+  describe('Tool arguments', () => {
+    it('should repair common JSON mistakes', () => {
+      expect(parseToolArguments('')).toEqual({});
+      expect(parseToolArguments("{'path': 'a.ts',}")).toEqual({ path: 'a.ts' });
+      expect(parseToolArguments('```json\n{"path": "a.ts"}\n```')).toEqual({ path: 'a.ts' });
+      expect(parseToolArguments('{path: "a.ts", recursive: True} // done')).toEqual({ path: 'a.ts', recursive: true });
+      expect(parseToolArguments('{"path": "a.txt", "content": "line 1\nline 2')).toEqual({ path: 'a.txt', content: 'line 1\nline 2' });
+      expect(parseToolArguments('"{\\"path\\": \\"a.ts\\"}"')).toEqual({ path: 'a.ts' });
+    });
+
+    it('should reject arguments that are not a JSON object', () => {
+      expect(() => parseToolArguments('read it please')).toThrow('not valid JSON');
+      expect(() => parseToolArguments('["a.ts"]')).toThrow('must be a JSON object');
+    });
+
+    it('should validate arguments against the parameter schema before asking for approval', async () => {
+      const approvals = autoRespond(guardian, () => ({ approved: true }));
+
+      const missing = await registry.execute('write_file', { path: 'a.txt' });
+      const wrongType = await registry.execute('read_file', { path: 42 });
+
+      expect(missing).toMatchObject({ success: false, errorCode: 'INVALID_ARGUMENTS' });
+      expect(missing.error).toContain('content');
+      expect(wrongType.error).toContain('path');
+      expect(approvals).not.toHaveBeenCalled();
+      expect(fileSystem.write).not.toHaveBeenCalled();
+    });
+
+    it('should send unparseable arguments back to the model instead of failing the run', async () => {
+      const call = (id: string, args: string) => ({ id, type: 'function', function: { name: 'read_file', arguments: args } });
+      const reply = (content: string, toolCalls?: any[]) => ({ content, model: 'gpt-4o', tokens: { prompt: 1, completion: 1, total: 2 }, toolCalls });
+      const requests: any[][] = [];
+      const replies = [reply('', [call('call_1', '{"path": ')]), reply('', [call('call_2', '{"path": "a.ts"}')]), reply('done')];
+      const llm = {
+        getConfig: () => ({ provider: 'openai', model: 'gpt-4o' }),
+        generateWithTools: vi.fn(async (messages: any[]) => {
+          requests.push([...messages]);
+          return replies.shift()!;
+        })
+      };
+      const agent = new Agent(llm as any, registry);
+
+      const response = await agent.execute('read a.ts');
+
+      expect(response.success).toBe(true);
+      const badResult = requests[1].find((message: any) => message.tool_call_id === 'call_1');
+      expect(JSON.parse(badResult.content)).toMatchObject({ success: false, errorCode: 'INVALID_ARGUMENTS' });
+      expect(fileSystem.read).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('Parallel tool calls', () => {
+    it('should run read-only calls together up to the limit and state-changing calls in order', async () => {
+      const events: string[] = [];
+      let running = 0;
+      let maxRunning = 0;
+      const tool = (name: string, permissionLevel: PermissionLevel, delay: (path: string) => number) => ({
+        name,
+        description: name,
+        parameters: { type: 'object' as const, properties: { path: { type: 'string' as const, description: 'Path' } }, required: ['path'] },
+        permissionLevel,
+        execute: async (params: Record<string, unknown>) => {
+          running++;
+          maxRunning = Math.max(maxRunning, running);
+          events.push(`start ${name} ${params.path}`);
+          await new Promise(resolve => setTimeout(resolve, delay(String(params.path))));
+          running--;
+          events.push(`end ${name} ${params.path}`);
+          return { success: true, data: `${name}:${params.path}` };
+        }
+      });
+      const tools = new ToolRegistry();
+      tools.register(tool('read', PermissionLevel.READ_ONLY, path => (path === 'slow' ? 30 : 5)));
+      tools.register(tool('write', PermissionLevel.EDIT, () => 1));
+
+      const call = (id: string, name: string, path: string) => ({ id, type: 'function', function: { name, arguments: JSON.stringify({ path }) } });
+      const calls = [
+        call('c1', 'read', 'slow'), call('c2', 'read', 'b'), call('c3', 'read', 'c'), call('c4', 'read', 'd'),
+        call('c5', 'write', 'out'),
+        call('c6', 'read', 'out')
+      ];
+      const requests: any[][] = [];
+      const replies = [{ content: '', toolCalls: calls }, { content: 'done' }]
+        .map(reply => ({ ...reply, model: 'gpt-4o', tokens: { prompt: 1, completion: 1, total: 2 } }));
+      const llm = {
+        getConfig: () => ({ provider: 'openai', model: 'gpt-4o' }),
+        generateWithTools: vi.fn(async (messages: any[]) => {
+          requests.push([...messages]);
+          return replies.shift()!;
+        })
+      };
+      const agent = new Agent(llm as any, tools, { maxParallelTools: 3 });
+
+      await agent.execute('read and write');
+
+      expect(maxRunning).toBe(3);
+      // The write waits for every earlier read, and the read after it waits for the write
+      expect(events.indexOf('start write out')).toBe(8);
+      expect(events.indexOf('start read out')).toBe(events.indexOf('end write out') + 1);
+      const toolMessages = requests[1].filter((message: any) => message.role === 'tool');
+      expect(toolMessages.map((message: any) => message.tool_call_id)).toEqual(['c1', 'c2', 'c3', 'c4', 'c5', 'c6']);
+      expect(JSON.parse(toolMessages[0].content).data).toBe('read:slow');
+    });
+  });
+});
+
+describe('search_files', () => {
+  let workspace: string;
+  let registry: ToolRegistry;
+
+  /** Write workspace files, creating their directories */
+  async function writeFiles(files: Record<string, string | Buffer>) {
+    for (const [name, content] of Object.entries(files)) {
+      await fs.mkdir(path.dirname(path.join(workspace, name)), { recursive: true });
+      await fs.writeFile(path.join(workspace, name), content);
+    }
+  }
+
+  const search = (params: Record<string, unknown>) => registry.execute('search_files', params);
+
+  beforeEach(async () => {
+    workspace = await fs.mkdtemp(path.join(os.tmpdir(), 'search-test-'));
+    await writeFiles({
+      '.gitignore': 'generated/\n',
+      'src/app.ts': 'import { start } from "./server";\n\n// TODO: handle errors\nstart();\n',
+      'src/server.ts': 'export function start() {\n  listen(3000);\n}\n',
+      'src/server.test.ts': 'start(); // TODO: test errors\n',
+      'README.md': '# App\nTodo list\n',
+      'generated/out.ts': '// TODO: generated\n',
+      'node_modules/pkg/index.js': '// TODO: dependency\n',
+      '.env': 'TODO=secret\n',
+      'logo.png': Buffer.from([0x89, 0x50, 0x00, 0x54, 0x4f, 0x44, 0x4f]),
+      'big.txt': `TODO ${'x'.repeat(2048)}`
+    });
+    const fileSystem = new FileSystemService({ workspaceRoot: workspace, maxFileSize: 1024, useGitIgnore: true });
+    registry = new ToolRegistry();
+    createBuiltinTools(fileSystem).forEach(tool => registry.register(tool));
+  });
+
+  afterEach(async () => {
+    await fs.rm(workspace, { recursive: true, force: true });
+  });
+
+  it('should search file contents recursively with line numbers and context, respecting ignore rules and the size limit', async () => {
+    const result = await search({ pattern: 'todo:', context_lines: 1 });
+
+    expect(result.success).toBe(true);
+    expect(result.data.matches).toEqual([
+      { path: 'src/app.ts', line: 3, column: 4, text: '// TODO: handle errors', before: [''], after: ['start();'] },
+      { path: 'src/server.test.ts', line: 1, column: 13, text: 'start(); // TODO: test errors', before: [], after: [''] }
+    ]);
+    expect(result.data).toMatchObject({ filesSkipped: 2, truncated: false });
+    expect(result.output).toBe('Found 2 matches in 2 files');
+  });
+
+  it('should take regular expressions, case sensitivity and include/exclude globs', async () => {
+    expect((await search({ pattern: 'TODO', case_sensitive: true, include: ['*.md'] })).data.matches).toEqual([]);
+    expect((await search({ pattern: 'todo', include: ['*.md'] })).data.matches.map((match: any) => match.path)).toEqual(['README.md']);
+
+    const regex = await search({ pattern: 'listen\\(\\d+\\)|^start\\(', regex: true, path: 'src', exclude: ['*.test.ts'] });
+    expect(regex.data.matches.map((match: any) => `${match.path}:${match.line}`)).toEqual(['src/app.ts:4', 'src/server.ts:2']);
+
+    expect(await search({ pattern: '(unclosed', regex: true })).toMatchObject({ success: false, error: expect.stringContaining('Invalid search pattern') });
+    expect(await search({ pattern: 'x'.repeat(1001) })).toMatchObject({ success: false, error: expect.stringContaining('longer than 1000 characters') });
+    expect(await search({ pattern: 'x', path: '..' })).toMatchObject({ success: false, error: expect.stringContaining('outside the workspace') });
+  });
+
+  it('should stop at the result limit and cut long lines', async () => {
+    await writeFiles({ 'src/many.ts': Array.from({ length: 20 }, (_, i) => `const value${i} = ${'1'.repeat(i === 0 ? 600 : 1)};`).join('\n') });
+
+    const result = await search({ pattern: 'const value', max_results: 5, context_lines: 0 });
+
+    expect(result.data.matches).toHaveLength(5);
+    expect(result.data.truncated).toBe(true);
+    expect(result.data.matches[0].text).toHaveLength(501);
+    expect(result.output).toContain('stopped at the result limit');
+  });
+
+  it('should only match the start of very long lines', async () => {
+    await writeFiles({ 'src/min.js': `${'a'.repeat(9_990)}needle\n${'a'.repeat(9_995)}needle` });
+    const fileSystem = new FileSystemService({ workspaceRoot: workspace, maxFileSize: 1024 * 1024, useGitIgnore: true });
+
+    const result = await fileSystem.search({ pattern: 'needle', include: ['*.js'] });
+
+    expect(result.matches.map(match => match.line)).toEqual([1]);
+  });
+
+  it('should stop at the time limit', async () => {
+    const fileSystem = new FileSystemService({ workspaceRoot: workspace, maxFileSize: 1024, useGitIgnore: true });
+
+    const result = await fileSystem.search({ pattern: 'todo', timeLimitMs: 0 });
+
+    expect(result).toMatchObject({ matches: [], filesSearched: 0, timedOut: true });
+  });
+
+  it('should stop a regular expression that backtracks without end at the time limit', async () => {
+    await writeFiles({ 'a.txt': `${'a'.repeat(40)}!\n` });
+    const fileSystem = new FileSystemService({ workspaceRoot: workspace, maxFileSize: 1024, useGitIgnore: true });
+
+    for (const pattern of ['(a|a)+$', '(.*a){12}$', '(a+)+$']) {
+      const started = Date.now();
+      const result = await fileSystem.search({ pattern, regex: true, timeLimitMs: 200 });
+
+      expect(result).toMatchObject({ matches: [], timedOut: true });
+      expect(Date.now() - started).toBeLessThan(2000);
+    }
+    // The same worker runs well-behaved patterns to completion
+    expect((await fileSystem.search({ pattern: 'a+!$', regex: true })).matches).toHaveLength(1);
+    expect((await fileSystem.search({ pattern: '(a+)+$' })).timedOut).toBeUndefined();
+  });
+
+  it('should stop a running regular expression when aborted', async () => {
+    await writeFiles({ 'a.txt': `${'a'.repeat(40)}!\n` });
+    const fileSystem = new FileSystemService({ workspaceRoot: workspace, maxFileSize: 1024, useGitIgnore: true });
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 100);
+
+    const result = await fileSystem.search({ pattern: '(a|a)+$', regex: true }, controller.signal);
+
+    expect(result.matches).toEqual([]);
+    expect(result.timedOut).toBeUndefined();
+  });
+});
@@ -0,0 +1,136 @@
+/**
+ * Usage Tracker Unit Tests
+ * Tests for src/main/services/usage.ts and the Agent's usage accounting
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { UsageTracker } from '../../../src/main/services/usage';
+import { ConversationManager } from '../../../src/main/services/conversation';
+import { ToolRegistry } from '../../../src/main/services/tools';
+import { Agent } from '../../../src/main/services/agent';
+
+vi.mock('electron', () => ({
+  app: { getPath: () => os.tmpdir() }
+}));
+
+describe('UsageTracker', () => {
+  let tempDir: string;
+  let now: Date;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'usage-test-'));
+    now = new Date(2026, 2, 31, 12);
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should price models by their longest matching prefix, and local models as free', () => {
+    const tracker = new UsageTracker(undefined, { prices: { 'my-model': { input: 1, output: 2 } } });
+
+    expect(tracker.priceFor('gpt-4o-mini-2024-07-18')).toEqual({ input: 0.15, output: 0.6 });
+    expect(tracker.priceFor('openai/gpt-4o')).toEqual({ input: 2.5, output: 10 });
+    expect(tracker.priceFor('my-model-v2')).toEqual({ input: 1, output: 2 });
+    expect(tracker.priceFor('unknown')).toEqual({ input: 0, output: 0 });
+    expect(tracker.priceFor('gpt-4o', 'ollama')).toEqual({ input: 0, output: 0 });
+    expect(tracker.costOf({ model: 'gpt-4o', promptTokens: 1_000_000, completionTokens: 100_000 })).toBeCloseTo(3.5);
+  });
+
+  it('should total usage per day, month and conversation and keep it across restarts', async () => {
+    const storePath = path.join(tempDir, 'usage.json');
+    const tracker = new UsageTracker(storePath, { now: () => now });
+
+    await tracker.record({ model: 'gpt-4o', promptTokens: 1000, completionTokens: 100, conversationId: 'c1' });
+    await tracker.record({ model: 'gpt-4o-mini', promptTokens: 2000, completionTokens: 200, conversationId: 'c1' });
+    now = new Date(2026, 3, 1, 9);
+    await tracker.record({ model: 'gpt-4o', promptTokens: 500, completionTokens: 50 });
+
+    const reloaded = new UsageTracker(storePath, { now: () => now });
+    const days = await reloaded.getTotals('day');
+    expect(days.map(day => day.period)).toEqual(['2026-04-01', '2026-03-31']);
+    expect(days[1].usage).toMatchObject({ promptTokens: 3000, completionTokens: 300, totalTokens: 3300, requests: 2 });
+    expect(days[1].byModel['gpt-4o'].cost).toBeCloseTo(0.0035);
+
+    const months = await reloaded.getTotals('month', 1);
+    expect(months).toHaveLength(1);
+    expect(months[0]).toMatchObject({ period: '2026-04', usage: { totalTokens: 550, requests: 1 } });
+
+    expect(await reloaded.getConversationUsage('c1')).toMatchObject({ totalTokens: 3300, requests: 2 });
+    expect(await reloaded.getConversationUsage('missing')).toMatchObject({ totalTokens: 0, requests: 0 });
+  });
+
+  it('should check requests against run, daily and monthly limits', async () => {
+    const storePath = path.join(tempDir, 'usage.json');
+    const tracker = new UsageTracker(storePath, { now: () => now });
+    await tracker.setBudget({ daily: 1, monthly: 1.5 });
+    await tracker.record({ model: 'gpt-4o', promptTokens: 200_000, completionTokens: 20_000 });
+
+    expect(await tracker.checkBudget(0, 0.1)).toBeNull();
+    expect(await tracker.checkBudget(0, 0.5)).toBe('Daily budget of $1.00 would be exceeded ($0.7000 spent, next request about $0.5000)');
+
+    now = new Date(2026, 2, 31, 23);
+    await tracker.setBudget({ perRun: 0.05, monthly: 1.5 });
+    expect(await tracker.checkBudget(0.04, 0.02)).toMatch(/^Run budget of \$0\.0500 would be exceeded/);
+    expect(await new UsageTracker(storePath).getBudget()).toEqual({ perRun: 0.05, monthly: 1.5 });
+  });
+});
+
+describe('Agent usage accounting', () => {
+  const reply = (content: string, prompt: number, completion: number) =>
+    ({ content, model: 'gpt-4o', tokens: { prompt, completion, total: prompt + completion } });
+
+  /** Fake LLM that reports usage through the request's onUsage callback */
+  function createLLM(...replies: Array<ReturnType<typeof reply>>) {
+    return {
+      getConfig: () => ({ provider: 'openai', model: 'gpt-4o' }),
+      generateWithTools: vi.fn(async (_messages: unknown, _tools: unknown, options: any = {}) => {
+        const response = replies.shift()!;
+        options.onUsage?.({ provider: 'openai', model: 'gpt-4o', tokens: response.tokens, estimated: false });
+        return response;
+      })
+    };
+  }
+
+  it('should total the usage of a run and count it towards its conversation', async () => {
+    const usage = new UsageTracker();
+    const llm = createLLM(reply('first', 1000, 100), reply('second', 2000, 200));
+    const agent = new Agent(llm as any, new ToolRegistry(), { usage, conversations: new ConversationManager() });
+
+    const first = await agent.execute('hello', { conversationId: 'c1' });
+    const second = await agent.execute('again', { conversationId: 'c1' });
+
+    expect(first.usage).toMatchObject({ promptTokens: 1000, completionTokens: 100, requests: 1 });
+    expect(first.usage!.cost).toBeCloseTo(0.0035);
+    expect(second.usage).toMatchObject({ totalTokens: 2200, requests: 1 });
+    expect(await usage.getConversationUsage('c1')).toMatchObject({ totalTokens: 3300, requests: 2 });
+  });
+
+  it('should stop a run before a request that would go over the budget', async () => {
+    const usage = new UsageTracker(undefined, { budget: { daily: 0.001 } });
+    await usage.record({ model: 'gpt-4o', promptTokens: 400, completionTokens: 0 });
+    const llm = createLLM(reply('never sent', 1, 1));
+    const agent = new Agent(llm as any, new ToolRegistry(), { usage });
+
+    const response = await agent.execute('hello '.repeat(200));
+
+    expect(response.success).toBe(false);
+    expect(response.error).toMatch(/^Daily budget of \$0\.0010 would be exceeded/);
+    expect(llm.generateWithTools).not.toHaveBeenCalled();
+  });
+
+  it('should count the longest possible reply towards the budget', async () => {
+    const usage = new UsageTracker(undefined, { budget: { perRun: 0.01 } });
+    const llm = createLLM(reply('never sent', 1, 1));
+    // A short prompt, but up to 2000 completion tokens at $10 per million
+    const agent = new Agent({ ...llm, getConfig: () => ({ provider: 'openai', model: 'gpt-4o', maxTokens: 2000 }) } as any, new ToolRegistry(), { usage });
+
+    const response = await agent.execute('hello');
+
+    expect(response.error).toMatch(/^Run budget of \$0\.0100 would be exceeded/);
+    expect(llm.generateWithTools).not.toHaveBeenCalled();
+  });
+});